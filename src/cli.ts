@@ -1,12 +1,17 @@
 import { defineCommand, runMain } from 'citty';
 import branch from './commands/branch.js';
+import cache from './commands/cache.js';
+import changelog from './commands/changelog.js';
 import clean from './commands/clean.js';
 import discard from './commands/discard.js';
 import commit from './commands/commit.js';
 import config from './commands/config.js';
 import doctor from './commands/doctor.js';
 import hook from './commands/hook.js';
+import hotfix from './commands/hotfix.js';
 import log from './commands/log.js';
+import release from './commands/release.js';
+import review from './commands/review.js';
 import save from './commands/save.js';
 import setup from './commands/setup.js';
 import start from './commands/start.js';
@@ -16,6 +21,7 @@ import switchCmd from './commands/switch.js';
 import sync from './commands/sync.js';
 import update from './commands/update.js';
 import validate from './commands/validate.js';
+import version from './commands/version.js';
 import { getVersion, showBanner } from './ui/banner.js';
 
 function normalizeCliArgs(argv: string[]): string[] {
@@ -39,7 +45,17 @@ process.argv = normalizeCliArgs(process.argv);
 
 const isVersion = process.argv.includes('--version') || process.argv.includes('-v');
 
-if (!isVersion) {
+// Machine-readable output (doctor --json, validate --format json|github) must stay parseable
+function isMachineOutput(argv: string[]): boolean {
+  return argv.some(
+    (arg, index) =>
+      arg === '--json' ||
+      /^--format=(json|github)$/.test(arg) ||
+      (arg === '--format' && ['json', 'github'].includes(argv[index + 1])),
+  );
+}
+
+if (!isVersion && !isMachineOutput(process.argv)) {
   const subCommands = [
     'setup',
     'config',
@@ -48,6 +64,9 @@ if (!isVersion) {
     'commit',
     'update',
     'submit',
+    'review',
+    'release',
+    'hotfix',
     'switch',
     'discard',
     'save',
@@ -57,6 +76,9 @@ if (!isVersion) {
     'branch',
     'hook',
     'validate',
+    'changelog',
+    'version',
+    'cache',
     'doctor',
   ];
   const isHelp = process.argv.includes('--help') || process.argv.includes('-h');
@@ -87,6 +109,9 @@ const main = defineCommand({
     commit,
     update,
     submit,
+    review,
+    release,
+    hotfix,
     switch: switchCmd,
     discard,
     save,
@@ -96,6 +121,9 @@ const main = defineCommand({
     log,
     hook,
     validate,
+    changelog,
+    version,
+    cache,
     doctor,
   },
   run({ args }) {
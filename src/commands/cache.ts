@@ -0,0 +1,64 @@
+import { defineCommand } from 'citty';
+import pc from 'picocolors';
+import {
+  AI_CACHE_MAX_BYTES,
+  AI_CACHE_MAX_ENTRIES,
+  AI_CACHE_TTL_MS,
+  clearAICache,
+  getAICacheLocationLabel,
+  getAICacheStats,
+} from '../utils/aiCache.js';
+import { isGitRepo } from '../utils/git.js';
+import { error, info, projectHeading, success } from '../utils/logger.js';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default defineCommand({
+  meta: {
+    name: 'cache',
+    description: 'Show or clear the cache of AI responses',
+  },
+  args: {
+    action: {
+      type: 'positional',
+      description: 'Action to perform: info or clear',
+      default: 'info',
+    },
+  },
+  async run({ args }) {
+    if (!(await isGitRepo())) {
+      error('Not inside a git repository.');
+      process.exit(1);
+    }
+
+    const action = args.action;
+    if (action !== 'info' && action !== 'clear') {
+      error(`Unknown action "${action}". Use "info" or "clear".`);
+      process.exit(1);
+    }
+
+    await projectHeading(`cache ${action}`, '🗃️');
+
+    if (action === 'clear') {
+      const cleared = clearAICache();
+      if (cleared === 0) {
+        info('The AI response cache is already empty.');
+        return;
+      }
+      success(`Cleared ${cleared} cached AI response${cleared !== 1 ? 's' : ''}.`);
+      return;
+    }
+
+    const stats = getAICacheStats();
+    info(`Location: ${pc.bold(getAICacheLocationLabel() ?? 'unavailable')}`);
+    info(
+      `Entries: ${pc.bold(String(stats.entries))} of ${AI_CACHE_MAX_ENTRIES} (${formatBytes(stats.bytes)} of ${formatBytes(AI_CACHE_MAX_BYTES)})`,
+    );
+    info(`Entries expire after ${pc.bold(`${AI_CACHE_TTL_MS / (24 * 60 * 60 * 1000)} days`)}.`);
+    info(`Run ${pc.bold('cn cache clear')} to drop them now.`, '');
+  },
+});
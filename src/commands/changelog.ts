@@ -0,0 +1,116 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { defineCommand } from 'citty';
+import pc from 'picocolors';
+import {
+  type ChangelogEntry,
+  insertChangelogSection,
+  parseChangelogEntry,
+  renderChangelogSection,
+} from '../utils/changelog.js';
+import { readConfig } from '../utils/config.js';
+import { getConventionLabel, resolveConventionRules } from '../utils/convention.js';
+import {
+  getCommitMessages,
+  getLastCommitDate,
+  getLatestTag,
+  isGitRepo,
+  refExists,
+  tagExists,
+} from '../utils/git.js';
+import { error, info, projectHeading, success } from '../utils/logger.js';
+
+export default defineCommand({
+  meta: {
+    name: 'changelog',
+    description: 'Generate a Markdown changelog from convention-formatted commits',
+  },
+  args: {
+    from: {
+      type: 'string',
+      description: 'Start of the range, exclusive (default: the latest tag before --to)',
+    },
+    to: {
+      type: 'string',
+      description: 'End of the range (default: HEAD)',
+      default: 'HEAD',
+    },
+    title: {
+      type: 'string',
+      description: 'Section title (default: the --to tag without "v", or Unreleased)',
+    },
+    write: {
+      type: 'boolean',
+      alias: 'w',
+      description: 'Prepend the section to the changelog file instead of printing it',
+      default: false,
+    },
+    file: {
+      type: 'string',
+      description: 'Changelog file to update with --write',
+      default: 'CHANGELOG.md',
+    },
+    all: {
+      type: 'boolean',
+      alias: 'a',
+      description: 'Include maintenance commits (chore, ci, test, ...)',
+      default: false,
+    },
+  },
+  async run({ args }) {
+    if (!(await isGitRepo())) {
+      error('Not inside a git repository.');
+      process.exit(1);
+    }
+
+    const config = readConfig();
+    if (!config) {
+      error('No repo config found. Run `cn setup` first.');
+      process.exit(1);
+    }
+
+    await projectHeading('changelog', '📝');
+
+    const to = args.to;
+    if (!(await refExists(to))) {
+      error(`Ref "${to}" not found.`);
+      process.exit(1);
+    }
+
+    const isTagRelease = await tagExists(to);
+    // When --to is itself a tag, the previous release is the latest tag before it
+    const from = args.from ?? (await getLatestTag(isTagRelease ? `${to}^` : to));
+    if (from && !(await refExists(from))) {
+      error(`Ref "${from}" not found.`);
+      process.exit(1);
+    }
+
+    const convention = resolveConventionRules(config);
+    const commits = await getCommitMessages(from, to);
+    const entries = commits
+      .map((commit) => parseChangelogEntry(commit, convention))
+      .filter((entry): entry is ChangelogEntry => entry !== null);
+
+    const title = args.title ?? (isTagRelease ? to.replace(/^v(?=\d)/, '') : 'Unreleased');
+    const date = title === 'Unreleased' ? undefined : (await getLastCommitDate(to))?.slice(0, 10);
+    const section = renderChangelogSection({
+      title,
+      date,
+      entries,
+      includeMaintenance: args.all,
+    });
+
+    info(
+      `${entries.length} commit${entries.length !== 1 ? 's' : ''} in ${pc.bold(from ? `${from}..${to}` : to)}, parsed as ${pc.bold(getConventionLabel(convention))}`,
+    );
+
+    if (!args.write) {
+      console.log();
+      console.log(section);
+      return;
+    }
+
+    const existing = existsSync(args.file) ? readFileSync(args.file, 'utf-8') : '';
+    writeFileSync(args.file, insertChangelogSection(existing, section, title));
+    success(`Updated ${pc.bold(args.file)} with the ${pc.bold(title)} section.`);
+  },
+});
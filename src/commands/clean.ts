@@ -3,7 +3,7 @@ import pc from 'picocolors';
 import { promptForBranchName } from '../utils/branchPrompt.js';
 import { isAIEnabled, readConfig } from '../utils/config.js';
 import { confirmPrompt, selectPrompt } from '../utils/confirm.js';
-import { checkGhAuth, checkGhInstalled, getMergedPRForBranch } from '../utils/gh.js';
+import { getForge } from '../utils/forge.js';
 import {
   assertCleanGitState,
   checkoutBranch,
@@ -193,20 +193,21 @@ export default defineCommand({
       (b) => !isProtected(b) && !mergedCandidates.includes(b),
     );
 
-    // 4. GitHub-aware check: detect if current branch's PR was merged (catches squash-merges
-    //    where the remote branch still exists or git hasn't detected [gone] yet)
+    // 4. Forge-aware check (gh, or glab on GitLab): detect if current branch's PR was merged
+    //    (catches squash-merges where the remote branch still exists or git hasn't detected [gone] yet)
     if (
       currentBranch &&
       !isProtected(currentBranch) &&
       !mergedCandidates.includes(currentBranch) &&
       !goneCandidates.includes(currentBranch)
     ) {
-      const ghInstalled = await checkGhInstalled();
-      const ghAuthed = ghInstalled && (await checkGhAuth());
-      if (ghInstalled && ghAuthed) {
-        const mergedPR = await getMergedPRForBranch(currentBranch);
+      const forge = await getForge(config.origin);
+      if ((await forge.isInstalled()) && (await forge.isAuthenticated())) {
+        const mergedPR = await forge.getMergedRequest(currentBranch);
         if (mergedPR) {
-          warn(`PR #${mergedPR.number} (${pc.bold(mergedPR.title)}) has already been merged.`);
+          warn(
+            `${forge.formatRequest(mergedPR.number)} (${pc.bold(mergedPR.title)}) has already been merged.`,
+          );
           info(`Link: ${pc.underline(mergedPR.url)}`, '');
           goneCandidates.push(currentBranch);
         }
@@ -4,40 +4,83 @@ import type { ContributeConfig } from '../types.js';
 import { isAIEnabled, readConfig } from '../utils/config.js';
 import { confirmPrompt, inputPrompt, multiSelectPrompt, selectPrompt } from '../utils/confirm.js';
 import {
-  CONVENTION_FORMAT_HINTS,
+  getConventionFormatHints,
   getValidationError,
+  resolveConventionRules,
   validateCommitMessage,
 } from '../utils/convention.js';
 import {
   BATCH_CONFIG,
+  type CommitGroup,
   checkCopilotAvailable,
   createRecoveryCommitGroups,
+  createRecoveryHunkGroups,
   generateCommitGroups,
   generateCommitMessage,
+  generateHunkCommitGroups,
   normalizeCommitGroups,
+  normalizeHunkCommitGroups,
   regenerateAllGroupMessages,
   regenerateGroupMessage,
 } from '../utils/copilot.js';
+import { editInGitEditor, stripCommentLines } from '../utils/editor.js';
 import {
   assertCleanGitState,
   commitWithMessage,
   getChangedFiles,
+  getCommitHash,
+  getDiffAgainstHead,
   getFullDiffForFiles,
   getStagedDiff,
   getStagedFiles,
+  getUntrackedFiles,
+  getWorkingTreeSnapshot,
   isGitRepo,
+  refExists,
+  resetIndex,
   stageAll,
   stageFiles,
   unstageFiles,
 } from '../utils/git.js';
+import { pickHunksToStage, printHunkBody, stageHunks } from '../utils/hunkStaging.js';
+import {
+  type DiffHunk,
+  formatHunkLabel,
+  formatHunksAsDiff,
+  parseDiffHunks,
+} from '../utils/hunks.js';
 import { error, info, projectHeading, success, warn } from '../utils/logger.js';
-import { createSpinner } from '../utils/spinner.js';
+import { generateOfflineCommitMessage } from '../utils/offlineCommit.js';
+import { noteRedactions } from '../utils/redact.js';
+import { createSpinner, streamIntoSpinner } from '../utils/spinner.js';
 import { LOADING_TIPS } from '../utils/tips.js';
 
 export function isEmptyGroupCommitResult(detail: string): boolean {
   return /no changes added to commit|nothing to commit/i.test(detail);
 }
 
+function printSuggestion(message: string): void {
+  const [subject, ...body] = message.split('\n');
+  console.log(`\n  ${pc.dim('AI suggestion:')} ${pc.bold(pc.cyan(subject))}`);
+  for (const line of body) {
+    console.log(`  ${pc.dim(line)}`);
+  }
+}
+
+/** Edit a message with a body in the git editor, or just its subject when no editor starts. */
+async function editCommitMessage(message: string): Promise<string> {
+  const edited = await editInGitEditor(
+    `${message}\n\n# Edit the commit message. Lines starting with # are ignored.\n`,
+    'COMMIT_EDITMSG',
+  );
+  if (edited !== null) return stripCommentLines(edited);
+
+  warn('Could not open your editor. Editing the subject line only.');
+  const [subject, ...body] = message.split('\n');
+  const newSubject = await inputPrompt('Edit commit subject', subject);
+  return newSubject ? [newSubject, ...body].join('\n') : '';
+}
+
 export default defineCommand({
   meta: {
     name: 'commit',
@@ -53,11 +96,20 @@ export default defineCommand({
       description: 'Skip AI and write commit message manually',
       default: false,
     },
+    body: {
+      type: 'boolean',
+      description: 'Generate a body under the subject (overrides commitBody in the config)',
+    },
     group: {
       type: 'boolean',
       description: 'AI groups related changes into separate atomic commits',
       default: false,
     },
+    hunks: {
+      type: 'boolean',
+      description: 'With --group, split files by hunk so one file can land in several commits',
+      default: false,
+    },
   },
   async run({ args }) {
     if (!(await isGitRepo())) {
@@ -77,15 +129,17 @@ export default defineCommand({
     await projectHeading('commit', '💾');
 
     const aiEnabled = isAIEnabled(config, args['no-ai']);
+    const convention = resolveConventionRules(config);
+    const withBody = args.body ?? config.commitBody ?? false;
     // ── Group commit mode ──────────────────────────────────────────────
-    if (args.group) {
+    if (args.group || args.hunks) {
       if (!aiEnabled) {
         error(
           'AI group commit is unavailable because AI is disabled. Re-run without --group or enable AI in your repo config.',
         );
         process.exit(1);
       }
-      await runGroupCommit(args.model, config);
+      await runGroupCommit(args.model, config, args.hunks);
       return;
     }
 
@@ -110,6 +164,7 @@ export default defineCommand({
       const stageAction = await selectPrompt('No staged changes. How would you like to stage?', [
         'Stage all changes',
         'Select files to stage',
+        'Pick hunks to stage',
         'Cancel',
       ]);
 
@@ -124,6 +179,18 @@ export default defineCommand({
           process.exit(1);
         }
         success('Staged all changes.');
+      } else if (stageAction === 'Pick hunks to stage') {
+        const picked = await pickHunksToStage();
+        if (picked.length === 0) {
+          error('No hunks selected.');
+          process.exit(1);
+        }
+        const stageError = await stageHunks(picked);
+        if (stageError) {
+          error(`Failed to stage hunks: ${stageError}`);
+          process.exit(1);
+        }
+        success(`Staged ${picked.length} hunk(s).`);
       } else {
         const selected = await multiSelectPrompt('Select files to stage:', changedFiles);
         if (selected.length === 0) {
@@ -189,7 +256,7 @@ export default defineCommand({
       const [copilotError, diff] = await Promise.all([checkCopilotAvailable(), getStagedDiff()]);
       if (copilotError) {
         warn(`AI unavailable: ${copilotError}`);
-        warn('Falling back to manual commit message entry.');
+        warn('Falling back to a rule-based suggestion.');
       } else {
         const spinnerMsg =
           stagedFiles.length >= BATCH_CONFIG.LARGE_CHANGESET_THRESHOLD
@@ -202,15 +269,17 @@ export default defineCommand({
           diff,
           stagedFiles,
           args.model,
-          config.commitConvention,
+          convention,
+          undefined,
+          { withBody, onRedaction: noteRedactions(spinner), ...streamIntoSpinner(spinner) },
         );
 
         if (commitMessage) {
           spinner.success('AI commit message generated.');
-          console.log(`\n  ${pc.dim('AI suggestion:')} ${pc.bold(pc.cyan(commitMessage))}`);
+          printSuggestion(commitMessage);
         } else {
           spinner.fail('AI did not return a commit message.');
-          warn('Falling back to manual entry.');
+          warn('Falling back to a rule-based suggestion.');
         }
       }
     }
@@ -229,7 +298,9 @@ export default defineCommand({
       if (action === 'Accept this message') {
         finalMessage = commitMessage;
       } else if (action === 'Edit this message') {
-        finalMessage = await inputPrompt('Edit commit message', commitMessage);
+        finalMessage = commitMessage.includes('\n')
+          ? await editCommitMessage(commitMessage)
+          : await inputPrompt('Edit commit message', commitMessage);
       } else if (action === 'Regenerate') {
         const spinner = createSpinner('Regenerating commit message...', {
           tips: LOADING_TIPS,
@@ -239,11 +310,18 @@ export default defineCommand({
           diff,
           stagedFiles,
           args.model,
-          config.commitConvention,
+          convention,
+          undefined,
+          {
+            fresh: true,
+            withBody,
+            onRedaction: noteRedactions(spinner),
+            ...streamIntoSpinner(spinner),
+          },
         );
         if (regen) {
           spinner.success('Commit message regenerated.');
-          console.log(`\n  ${pc.dim('AI suggestion:')} ${pc.bold(pc.cyan(regen))}`);
+          printSuggestion(regen);
           const ok = await confirmPrompt('Use this message?');
           finalMessage = ok ? regen : await inputPrompt('Enter commit message manually');
         } else {
@@ -254,16 +332,21 @@ export default defineCommand({
         finalMessage = await inputPrompt('Enter commit message');
       }
     } else {
-      // Fallback: manual entry with convention hints
-      const convention = config.commitConvention;
-      if (convention !== 'none') {
+      // Fallback: a rule-based suggestion to edit, with convention hints
+      const hints = getConventionFormatHints(convention);
+      if (hints.length > 0) {
         console.log();
-        for (const hint of CONVENTION_FORMAT_HINTS[convention]) {
+        for (const hint of hints) {
           console.log(pc.dim(hint));
         }
-        console.log();
       }
-      finalMessage = await inputPrompt('Enter commit message');
+      const suggestion = generateOfflineCommitMessage(
+        await getStagedDiff(),
+        stagedFiles,
+        convention,
+      );
+      console.log(`\n  ${pc.dim('Suggestion:')} ${pc.bold(pc.cyan(suggestion))}\n`);
+      finalMessage = await inputPrompt('Enter commit message', suggestion);
     }
 
     if (!finalMessage) {
@@ -272,9 +355,8 @@ export default defineCommand({
     }
 
     // Validate commit message against configured convention
-    const convention = config.commitConvention;
     if (!validateCommitMessage(finalMessage, convention)) {
-      for (const line of getValidationError(convention)) {
+      for (const line of getValidationError(convention, finalMessage)) {
         warn(line);
       }
       const proceed = await confirmPrompt('Commit anyway?');
@@ -294,7 +376,61 @@ export default defineCommand({
 
 // ── Group Commit Mode ────────────────────────────────────────────────
 
-async function runGroupCommit(model: string | undefined, config: ContributeConfig): Promise<void> {
+/** Show every hunk of every group, so the split can be checked before anything is committed. */
+function printGroupHunks(groups: CommitGroup[], hunksById: Map<string, DiffHunk>): void {
+  for (let i = 0; i < groups.length; i++) {
+    console.log(`\n${pc.bold(`── Group ${i + 1}: ${groups[i].message} ──`)}`);
+    for (const id of groups[i].hunks ?? []) {
+      const hunk = hunksById.get(id);
+      if (!hunk) continue;
+      console.log(`\n    ${pc.bold(formatHunkLabel(hunk))}`);
+      if (hunk.body) printHunkBody(hunk.body);
+    }
+  }
+  console.log();
+}
+
+/**
+ * After a hunk group commit: the working tree must be exactly what it was
+ * before, and when every group was committed HEAD must match it too.
+ */
+async function verifyHunkCommits(
+  snapshot: string | null,
+  originalHead: string | null,
+  allCommitted: boolean,
+): Promise<void> {
+  if (!snapshot) {
+    warn('Could not snapshot the working tree before committing, so the result was not verified.');
+    return;
+  }
+
+  const current = await getWorkingTreeSnapshot();
+  if (current !== snapshot) {
+    error('The working tree no longer matches its state before the group commit.');
+    if (originalHead) {
+      info(
+        `Compare against the previous commit with ${pc.bold(`git diff ${originalHead.slice(0, 7)}`)}.`,
+      );
+    }
+    process.exit(1);
+  }
+
+  if ((await getCommitHash('HEAD^{tree}')) === snapshot) {
+    success('Verified: the new commits add up to your working tree exactly.');
+  } else if (allCommitted) {
+    warn('Some changes did not make it into a commit. They are still in your working tree.');
+  } else {
+    info('Changes from skipped groups are still in your working tree.');
+  }
+}
+
+async function runGroupCommit(
+  model: string | undefined,
+  config: ContributeConfig,
+  byHunk = false,
+): Promise<void> {
+  const convention = resolveConventionRules(config);
+
   // Parallelize: check Copilot + gather changed files concurrently
   const [copilotError, changedFiles] = await Promise.all([
     checkCopilotAvailable(),
@@ -311,35 +447,67 @@ async function runGroupCommit(model: string | undefined, config: ContributeConfi
     process.exit(1);
   }
 
+  if (byHunk && !(await refExists('HEAD'))) {
+    error('--hunks needs an existing commit to diff against. Make the first commit without it.');
+    process.exit(1);
+  }
+
+  // Taken before anything is staged so the commits can be checked against it afterwards
+  const snapshot = byHunk ? await getWorkingTreeSnapshot() : null;
+  const originalHead = byHunk ? await getCommitHash('HEAD') : null;
+
   console.log(`\n${pc.bold('Changed files:')}`);
   for (const f of changedFiles) {
     console.log(`  ${pc.dim('•')} ${f}`);
   }
 
   const spinner = createSpinner(
-    changedFiles.length >= BATCH_CONFIG.LARGE_CHANGESET_THRESHOLD
-      ? `Asking AI to group ${changedFiles.length} file(s) into logical commits (using optimized batching)...`
-      : `Asking AI to group ${changedFiles.length} file(s) into logical commits...`,
+    byHunk
+      ? `Asking AI to group the hunks of ${changedFiles.length} file(s) into logical commits...`
+      : changedFiles.length >= BATCH_CONFIG.LARGE_CHANGESET_THRESHOLD
+        ? `Asking AI to group ${changedFiles.length} file(s) into logical commits (using optimized batching)...`
+        : `Asking AI to group ${changedFiles.length} file(s) into logical commits...`,
     {
       tips: LOADING_TIPS,
     },
   );
 
-  const diffs = await getFullDiffForFiles(changedFiles);
+  let hunks: DiffHunk[] = [];
+  let diffs: string;
+  if (byHunk) {
+    // Staged and unstaged changes alike, since the index is rebuilt group by group
+    const untracked = await getUntrackedFiles();
+    const [trackedDiff, untrackedDiff] = await Promise.all([
+      getDiffAgainstHead(),
+      untracked.length > 0 ? getFullDiffForFiles(untracked) : '',
+    ]);
+    hunks = parseDiffHunks(`${trackedDiff}\n${untrackedDiff}`, untracked);
+    diffs = formatHunksAsDiff(hunks);
+  } else {
+    diffs = await getFullDiffForFiles(changedFiles);
+  }
+  const hunksById = new Map(hunks.map((hunk) => [hunk.id, hunk]));
+
   if (!diffs.trim()) {
     spinner.stop();
     warn('Could not retrieve diff context for any files. AI needs diffs to produce groups.');
   }
 
-  let groups: Awaited<ReturnType<typeof generateCommitGroups>>;
+  let groups: CommitGroup[];
   try {
-    groups = await generateCommitGroups(
-      changedFiles,
-      diffs,
-      model,
-      config.commitConvention,
-      (message) => spinner.update(message),
-    );
+    groups = byHunk
+      ? await generateHunkCommitGroups(hunks, model, convention, {
+          onRedaction: noteRedactions(spinner),
+          ...streamIntoSpinner(spinner),
+        })
+      : await generateCommitGroups(
+          changedFiles,
+          diffs,
+          model,
+          convention,
+          (message) => spinner.update(message),
+          { onRedaction: noteRedactions(spinner), ...streamIntoSpinner(spinner) },
+        );
     spinner.success(`AI generated ${groups.length} commit group(s).`);
   } catch (err) {
     const reason = err instanceof Error ? err.message : String(err);
@@ -352,30 +520,60 @@ async function runGroupCommit(model: string | undefined, config: ContributeConfi
     process.exit(1);
   }
 
-  const normalized = normalizeCommitGroups(changedFiles, groups);
+  let validGroups: CommitGroup[];
 
-  if (normalized.unknownFiles.length > 0) {
-    warn(
-      `AI suggested unknown file(s): ${normalized.unknownFiles.join(', ')} — removed from groups.`,
-    );
-  }
+  if (byHunk) {
+    const normalized = normalizeHunkCommitGroups(hunks, groups);
 
-  if (normalized.duplicateFiles.length > 0) {
-    warn(
-      `AI assigned duplicate file(s) across groups: ${normalized.duplicateFiles.join(', ')} — keeping the first assignment only.`,
-    );
-  }
+    if (normalized.unknownHunks.length > 0) {
+      warn(
+        `AI suggested unknown hunk(s): ${normalized.unknownHunks.join(', ')} — removed from groups.`,
+      );
+    }
+
+    if (normalized.duplicateHunks.length > 0) {
+      warn(
+        `AI assigned duplicate hunk(s) across groups: ${normalized.duplicateHunks.join(', ')} — keeping the first assignment only.`,
+      );
+    }
+
+    validGroups = normalized.groups;
+
+    if (normalized.unassignedHunks.length > 0) {
+      warn(
+        `AI left ${normalized.unassignedHunks.length} hunk(s) ungrouped: ${normalized.unassignedHunks.map((h) => h.id).join(', ')}. Auto-resolving recovery groups.`,
+      );
+      validGroups = [
+        ...validGroups,
+        ...createRecoveryHunkGroups(normalized.unassignedHunks, convention),
+      ];
+    }
+  } else {
+    const normalized = normalizeCommitGroups(changedFiles, groups);
+
+    if (normalized.unknownFiles.length > 0) {
+      warn(
+        `AI suggested unknown file(s): ${normalized.unknownFiles.join(', ')} — removed from groups.`,
+      );
+    }
 
-  let validGroups = normalized.groups;
+    if (normalized.duplicateFiles.length > 0) {
+      warn(
+        `AI assigned duplicate file(s) across groups: ${normalized.duplicateFiles.join(', ')} — keeping the first assignment only.`,
+      );
+    }
 
-  if (normalized.unassignedFiles.length > 0) {
-    warn(
-      `AI left ${normalized.unassignedFiles.length} file(s) ungrouped: ${normalized.unassignedFiles.join(', ')}. Auto-resolving recovery groups.`,
-    );
-    validGroups = [
-      ...validGroups,
-      ...createRecoveryCommitGroups(normalized.unassignedFiles, config.commitConvention),
-    ];
+    validGroups = normalized.groups;
+
+    if (normalized.unassignedFiles.length > 0) {
+      warn(
+        `AI left ${normalized.unassignedFiles.length} file(s) ungrouped: ${normalized.unassignedFiles.join(', ')}. Auto-resolving recovery groups.`,
+      );
+      validGroups = [
+        ...validGroups,
+        ...createRecoveryCommitGroups(normalized.unassignedFiles, convention),
+      ];
+    }
   }
 
   if (validGroups.length === 0) {
@@ -383,17 +581,30 @@ async function runGroupCommit(model: string | undefined, config: ContributeConfi
     process.exit(1);
   }
 
+  const groupHunks = (group: CommitGroup): DiffHunk[] =>
+    (group.hunks ?? []).flatMap((id) => hunksById.get(id) ?? []);
+  // Files, or hunk labels in hunk mode
+  const describeGroup = (group: CommitGroup): string[] =>
+    byHunk ? groupHunks(group).map(formatHunkLabel) : group.files;
+
   // ── Summary + regenerate-all loop ──────────────────────────────────
   let proceedToCommit = false;
   let commitAll = false;
+  // In hunk mode the hunks of every group are shown before anything can be committed
+  let showHunks = byHunk;
   while (!proceedToCommit) {
+    if (showHunks) {
+      printGroupHunks(validGroups, hunksById);
+      showHunks = false;
+    }
+
     // Present groups to user
     console.log(`\n${pc.bold(`AI suggested ${validGroups.length} commit group(s):`)}\n`);
     for (let i = 0; i < validGroups.length; i++) {
       const g = validGroups[i];
       console.log(`  ${pc.cyan(`Group ${i + 1}:`)} ${pc.bold(g.message)}`);
-      for (const f of g.files) {
-        console.log(`    ${pc.dim('•')} ${f}`);
+      for (const line of describeGroup(g)) {
+        console.log(`    ${pc.dim('•')} ${line}`);
       }
       console.log();
     }
@@ -401,6 +612,7 @@ async function runGroupCommit(model: string | undefined, config: ContributeConfi
     const summaryAction = await selectPrompt('What would you like to do?', [
       'Commit all',
       'Review each group',
+      ...(byHunk ? ['Show hunks'] : []),
       'Regenerate all messages',
       'Cancel',
     ]);
@@ -410,17 +622,20 @@ async function runGroupCommit(model: string | undefined, config: ContributeConfi
       process.exit(0);
     }
 
+    if (summaryAction === 'Show hunks') {
+      showHunks = true;
+      continue;
+    }
+
     if (summaryAction === 'Regenerate all messages') {
       const regenSpinner = createSpinner('Regenerating all commit messages...', {
         tips: LOADING_TIPS,
       });
       try {
-        validGroups = await regenerateAllGroupMessages(
-          validGroups,
-          diffs,
-          model,
-          config.commitConvention,
-        );
+        validGroups = await regenerateAllGroupMessages(validGroups, diffs, model, convention, {
+          onRedaction: noteRedactions(regenSpinner),
+          ...streamIntoSpinner(regenSpinner),
+        });
         regenSpinner.success('All commit messages regenerated.');
       } catch {
         regenSpinner.fail('Failed to regenerate messages. Keeping current ones.');
@@ -434,50 +649,89 @@ async function runGroupCommit(model: string | undefined, config: ContributeConfi
 
   // ── Process each group ─────────────────────────────────────────────
   let committed = 0;
+  // Hunks already committed, which shift the line numbers of later patches
+  const appliedHunks: DiffHunk[] = [];
 
-  if (commitAll) {
-    // Batch commit: stage + commit each group without prompting
-    for (let i = 0; i < validGroups.length; i++) {
-      const group = validGroups[i];
-      const remainingChangedFiles = new Set(await getChangedFiles());
-      const stageableFiles = group.files.filter((file) => remainingChangedFiles.has(file));
-      const skippedFiles = group.files.filter((file) => !remainingChangedFiles.has(file));
+  if (byHunk) {
+    // Each group's patch is built against HEAD, so start from a clean index
+    await resetIndex();
+  }
 
-      if (skippedFiles.length > 0) {
-        warn(`Group ${i + 1} file(s) no longer have changes: ${skippedFiles.join(', ')}`);
+  /**
+   * Stage a group for commit. Returns the staged files, or null (after saying
+   * why) when the group has nothing to commit.
+   */
+  const stageGroup = async (group: CommitGroup, index: number): Promise<string[] | null> => {
+    if (byHunk) {
+      const stageError = await stageHunks(groupHunks(group), appliedHunks);
+      if (stageError) {
+        error(`Failed to stage group ${index + 1}: ${stageError}`);
+        await resetIndex();
+        return null;
       }
+      return group.files;
+    }
 
-      if (stageableFiles.length === 0) {
-        warn(`Skipped group ${i + 1}: no files remain to commit.`);
-        continue;
-      }
+    const remainingChangedFiles = new Set(await getChangedFiles());
+    const stageableFiles = group.files.filter((file) => remainingChangedFiles.has(file));
+    const skippedFiles = group.files.filter((file) => !remainingChangedFiles.has(file));
 
-      const stageResult = await stageFiles(stageableFiles);
-      if (stageResult.exitCode !== 0) {
-        error(`Failed to stage group ${i + 1}: ${stageResult.stderr}`);
-        continue;
-      }
+    if (skippedFiles.length > 0) {
+      warn(`Group ${index + 1} file(s) no longer have changes: ${skippedFiles.join(', ')}`);
+    }
 
-      const stagedFiles = new Set(await getStagedFiles());
-      const stagedGroupFiles = stageableFiles.filter((file) => stagedFiles.has(file));
-      if (stagedGroupFiles.length === 0) {
-        warn(`Skipped group ${i + 1}: no files were staged for commit.`);
-        continue;
-      }
+    if (stageableFiles.length === 0) {
+      warn(`Skipped group ${index + 1}: no files remain to commit.`);
+      return null;
+    }
 
-      const commitResult = await commitWithMessage(group.message);
-      if (commitResult.exitCode !== 0) {
-        const detail = (commitResult.stderr || commitResult.stdout).trim();
-        if (isEmptyGroupCommitResult(detail)) {
-          warn(`Skipped group ${i + 1}: nothing remained to commit.`);
-          continue;
-        }
-        error(`Failed to commit group ${i + 1}: ${detail}`);
-        await unstageFiles(stageableFiles);
-        continue;
+    const stageResult = await stageFiles(stageableFiles);
+    if (stageResult.exitCode !== 0) {
+      error(`Failed to stage group ${index + 1}: ${stageResult.stderr}`);
+      return null;
+    }
+
+    const stagedFiles = new Set(await getStagedFiles());
+    const stagedGroupFiles = stageableFiles.filter((file) => stagedFiles.has(file));
+    if (stagedGroupFiles.length === 0) {
+      warn(`Skipped group ${index + 1}: no files were staged for commit.`);
+      return null;
+    }
+    return stageableFiles;
+  };
+
+  /** Commit the staged group. Returns true when a commit was made. */
+  const commitGroup = async (
+    group: CommitGroup,
+    index: number,
+    message: string,
+    stagedFiles: string[],
+  ): Promise<boolean> => {
+    const commitResult = await commitWithMessage(message);
+    if (commitResult.exitCode !== 0) {
+      const detail = (commitResult.stderr || commitResult.stdout).trim();
+      if (isEmptyGroupCommitResult(detail)) {
+        warn(`Skipped group ${index + 1}: nothing remained to commit.`);
+        return false;
       }
-      committed++;
-      success(`Committed group ${i + 1}: ${pc.bold(group.message)}`);
+      error(`Failed to commit group ${index + 1}: ${detail}`);
+      if (byHunk) await resetIndex();
+      else await unstageFiles(stagedFiles);
+      return false;
+    }
+    appliedHunks.push(...groupHunks(group));
+    committed++;
+    success(`Committed group ${index + 1}: ${pc.bold(message)}`);
+    return true;
+  };
+
+  if (commitAll) {
+    // Batch commit: stage + commit each group without prompting
+    for (let i = 0; i < validGroups.length; i++) {
+      const group = validGroups[i];
+      const stagedFiles = await stageGroup(group, i);
+      if (!stagedFiles) continue;
+      await commitGroup(group, i, group.message, stagedFiles);
     }
   } else {
     // Interactive: review each group individually
@@ -485,8 +739,8 @@ async function runGroupCommit(model: string | undefined, config: ContributeConfi
       const group = validGroups[i];
       console.log(pc.bold(`\n── Group ${i + 1}/${validGroups.length} ──`));
       console.log(`  ${pc.cyan(group.message)}`);
-      for (const f of group.files) {
-        console.log(`  ${pc.dim('•')} ${f}`);
+      for (const line of describeGroup(group)) {
+        console.log(`  ${pc.dim('•')} ${line}`);
       }
 
       let message = group.message;
@@ -496,6 +750,7 @@ async function runGroupCommit(model: string | undefined, config: ContributeConfi
         const action = await selectPrompt('Action for this group:', [
           'Commit as-is',
           'Edit message and commit',
+          ...(byHunk ? ['Show hunks'] : []),
           'Regenerate message',
           'Skip this group',
         ]);
@@ -506,16 +761,25 @@ async function runGroupCommit(model: string | undefined, config: ContributeConfi
           continue;
         }
 
+        if (action === 'Show hunks') {
+          printGroupHunks([group], hunksById);
+          continue;
+        }
+
         if (action === 'Regenerate message') {
           const regenSpinner = createSpinner('Regenerating commit message for this group...', {
             tips: LOADING_TIPS,
           });
-          // Use pre-fetched diffs filtered to this group's files instead of re-fetching
+          // Use pre-fetched diffs filtered to this group's files (or hunks) instead of re-fetching
           const newMsg = await regenerateGroupMessage(
             group.files,
-            diffs,
+            byHunk ? formatHunksAsDiff(groupHunks(group)) : diffs,
             model,
-            config.commitConvention,
+            convention,
+            {
+              onRedaction: noteRedactions(regenSpinner),
+              ...streamIntoSpinner(regenSpinner),
+            },
           );
           if (newMsg) {
             message = newMsg;
@@ -538,8 +802,8 @@ async function runGroupCommit(model: string | undefined, config: ContributeConfi
         }
 
         // Validate convention
-        if (!validateCommitMessage(message, config.commitConvention)) {
-          for (const line of getValidationError(config.commitConvention)) {
+        if (!validateCommitMessage(message, convention)) {
+          for (const line of getValidationError(convention, message)) {
             warn(line);
           }
           const proceed = await confirmPrompt('Commit anyway?');
@@ -550,53 +814,11 @@ async function runGroupCommit(model: string | undefined, config: ContributeConfi
           }
         }
 
-        // Stage only this group's files, then commit
-        const remainingChangedFiles = new Set(await getChangedFiles());
-        const stageableFiles = group.files.filter((file) => remainingChangedFiles.has(file));
-        const skippedFiles = group.files.filter((file) => !remainingChangedFiles.has(file));
-
-        if (skippedFiles.length > 0) {
-          warn(`Group ${i + 1} file(s) no longer have changes: ${skippedFiles.join(', ')}`);
-        }
-
-        if (stageableFiles.length === 0) {
-          warn(`Skipped group ${i + 1}: no files remain to commit.`);
-          actionDone = true;
-          continue;
-        }
-
-        const stageResult = await stageFiles(stageableFiles);
-        if (stageResult.exitCode !== 0) {
-          error(`Failed to stage group ${i + 1}: ${stageResult.stderr}`);
-          actionDone = true;
-          continue;
-        }
-
-        const stagedFiles = new Set(await getStagedFiles());
-        const stagedGroupFiles = stageableFiles.filter((file) => stagedFiles.has(file));
-        if (stagedGroupFiles.length === 0) {
-          warn(`Skipped group ${i + 1}: no files were staged for commit.`);
-          actionDone = true;
-          continue;
-        }
-
-        const commitResult = await commitWithMessage(message);
-        if (commitResult.exitCode !== 0) {
-          const detail = (commitResult.stderr || commitResult.stdout).trim();
-          if (isEmptyGroupCommitResult(detail)) {
-            warn(`Skipped group ${i + 1}: nothing remained to commit.`);
-            actionDone = true;
-            continue;
-          }
-          error(`Failed to commit group ${i + 1}: ${detail}`);
-          await unstageFiles(stageableFiles);
-          actionDone = true;
-          continue;
-        }
-
-        committed++;
-        success(`Committed group ${i + 1}: ${pc.bold(message)}`);
+        // Stage only this group's changes, then commit
         actionDone = true;
+        const stagedFiles = await stageGroup(group, i);
+        if (!stagedFiles) continue;
+        await commitGroup(group, i, message, stagedFiles);
       }
     }
   }
@@ -608,5 +830,9 @@ async function runGroupCommit(model: string | undefined, config: ContributeConfi
     success(`${committed} of ${validGroups.length} group(s) committed successfully.`, '🎉');
   }
 
+  if (byHunk) {
+    await verifyHunkCommits(snapshot, originalHead, committed === validGroups.length);
+  }
+
   process.exit(0);
 }
@@ -1,6 +1,15 @@
 import { defineCommand } from 'citty';
 import pc from 'picocolors';
-import type { AIProvider, CommitConvention, ContributeConfig, WorkflowMode } from '../types.js';
+import type {
+  AIEndpointConfig,
+  AIProvider,
+  CommitConvention,
+  ContributeConfig,
+  WorkflowMode,
+} from '../types.js';
+import { promptForAIEndpoint, promptForOllamaModel } from '../utils/aiProviderPrompts.js';
+import { OPENAI_COMPATIBLE_PROVIDER } from '../utils/aiProviders.js';
+import { findCommitlintConfig } from '../utils/commitlint.js';
 import {
   configExists,
   getConfigLocationLabel,
@@ -11,15 +20,28 @@ import {
   writeConfig,
 } from '../utils/config.js';
 import { confirmPrompt, inputPrompt, passwordPrompt, selectPrompt } from '../utils/confirm.js';
-import { CONVENTION_DESCRIPTIONS } from '../utils/convention.js';
+import { CONVENTION_DESCRIPTIONS, resolveConventionRules } from '../utils/convention.js';
 import {
+  buildCommitMessagePrompt,
+  checkAIProviders,
+  checkCopilotAvailable,
   DEFAULT_OLLAMA_CLOUD_MODEL,
   fetchOllamaCloudModels,
   prioritizeOllamaCloudModels,
+  type ResolvedSystemPrompt,
   resolveAIConfig,
+  resolveSystemPrompt,
 } from '../utils/copilot.js';
-import { getRemotes, isGitRepo } from '../utils/git.js';
+import { getRemotes, getStagedDiff, getStagedFiles, isGitRepo } from '../utils/git.js';
 import { error, info, projectHeading, success, warn } from '../utils/logger.js';
+import { OLLAMA_PROVIDER } from '../utils/ollama.js';
+import {
+  loadPromptTemplate,
+  PROMPT_KINDS,
+  PROMPT_TEMPLATE_VARIABLES,
+  type PromptKind,
+} from '../utils/promptTemplates.js';
+import { isRedactionRequired, resolveRedactionOptions } from '../utils/redact.js';
 import {
   deleteOllamaCloudApiKey,
   getOllamaCloudApiKey,
@@ -33,6 +55,7 @@ const WORKFLOW_OPTIONS: Array<{ value: WorkflowMode; label: string }> = [
   { value: 'clean-flow', label: WORKFLOW_DESCRIPTIONS['clean-flow'] },
   { value: 'github-flow', label: WORKFLOW_DESCRIPTIONS['github-flow'] },
   { value: 'git-flow', label: WORKFLOW_DESCRIPTIONS['git-flow'] },
+  { value: 'trunk', label: WORKFLOW_DESCRIPTIONS.trunk },
 ];
 
 const ROLE_OPTIONS: Array<{ value: ContributeConfig['role']; label: string }> = [
@@ -46,11 +69,6 @@ const CONVENTION_OPTIONS: Array<{ value: CommitConvention; label: string }> = [
   { value: 'none', label: CONVENTION_DESCRIPTIONS.none },
 ];
 
-const AI_PROVIDER_OPTIONS: Array<{ value: AIProvider; label: string }> = [
-  { value: 'copilot', label: 'GitHub Copilot' },
-  { value: 'ollama-cloud', label: 'Ollama Cloud' },
-];
-
 interface ConfigSnapshotMeta {
   source: 'legacy' | 'local';
   location: string;
@@ -70,6 +88,7 @@ interface ConfigEditDraft {
   aiEnabled: boolean;
   aiProvider?: AIProvider;
   aiModel?: string;
+  aiEndpoint?: AIEndpointConfig;
   showTips: boolean;
 }
 
@@ -98,6 +117,8 @@ export interface ConfigSnapshot {
     provider: AIProvider | null;
     providerLabel: string | null;
     model: string | null;
+    endpoint: string | null;
+    redaction: 'required' | 'on' | 'off' | null;
     ollamaCloudApiKeyPresent: boolean | null;
     secretsPath: string | null;
   };
@@ -140,17 +161,30 @@ export function finalizeEditedConfig(
   if (!draft.aiEnabled) {
     delete next.aiProvider;
     delete next.aiModel;
+    delete next.aiEndpoint;
     return next;
   }
 
   next.aiProvider = draft.aiProvider ?? 'copilot';
 
+  if (next.aiProvider === OPENAI_COMPATIBLE_PROVIDER && draft.aiEndpoint) {
+    next.aiEndpoint = draft.aiEndpoint;
+  } else {
+    delete next.aiEndpoint;
+  }
+
   if (next.aiProvider === 'ollama-cloud') {
     next.aiModel = (draft.aiModel?.trim() || DEFAULT_OLLAMA_CLOUD_MODEL).trim();
     return next;
   }
 
-  delete next.aiModel;
+  // Copilot picks its own model; other providers keep the one chosen for them
+  const model = next.aiProvider === 'copilot' ? undefined : draft.aiModel?.trim();
+  if (model) {
+    next.aiModel = model;
+  } else {
+    delete next.aiModel;
+  }
   return next;
 }
 
@@ -181,6 +215,17 @@ export function buildConfigSnapshot(
       provider: aiEnabled ? aiConfig.provider : null,
       providerLabel: aiEnabled ? aiConfig.providerLabel : null,
       model: aiEnabled ? (aiConfig.model ?? null) : null,
+      endpoint:
+        aiEnabled && aiConfig.provider === OPENAI_COMPATIBLE_PROVIDER
+          ? (aiConfig.host ?? null)
+          : null,
+      redaction: aiEnabled
+        ? isRedactionRequired(config)
+          ? 'required'
+          : resolveRedactionOptions(config).enabled
+            ? 'on'
+            : 'off'
+        : null,
       ollamaCloudApiKeyPresent: usingOllamaCloud ? meta.hasOllamaCloudApiKey : null,
       secretsPath: usingOllamaCloud ? meta.secretsPath : null,
     },
@@ -264,7 +309,11 @@ async function promptForConfigEdits(
   current: ContributeConfig,
   hasExistingOllamaApiKey: boolean,
 ): Promise<ConfigEditResult> {
-  const workflow = await selectCurrentValue('Workflow mode', WORKFLOW_OPTIONS, current.workflow);
+  // Custom is only selectable when the config already carries a workflowSpec to drive it
+  const workflowOptions: Array<{ value: WorkflowMode; label: string }> = current.workflowSpec
+    ? [...WORKFLOW_OPTIONS, { value: 'custom', label: WORKFLOW_DESCRIPTIONS.custom }]
+    : WORKFLOW_OPTIONS;
+  const workflow = await selectCurrentValue('Workflow mode', workflowOptions, current.workflow);
   const role = await selectCurrentValue('Your role in this clone', ROLE_OPTIONS, current.role);
   const mainBranch = await inputPrompt('Main branch name', current.mainBranch);
   const devBranch = hasDevBranch(workflow)
@@ -292,9 +341,20 @@ async function promptForConfigEdits(
     ),
     current.branchPrefixes,
   );
+  // Custom is only selectable when the config already carries a customConvention spec,
+  // and commitlint only when the repo has a commitlint config to read
+  const conventionOptions: Array<{ value: CommitConvention; label: string }> = [
+    ...CONVENTION_OPTIONS,
+    ...(current.customConvention
+      ? [{ value: 'custom' as const, label: CONVENTION_DESCRIPTIONS.custom }]
+      : []),
+    ...(current.commitConvention === 'commitlint' || findCommitlintConfig()
+      ? [{ value: 'commitlint' as const, label: CONVENTION_DESCRIPTIONS.commitlint }]
+      : []),
+  ];
   const commitConvention = await selectCurrentValue(
     'Commit convention',
-    CONVENTION_OPTIONS,
+    conventionOptions,
     current.commitConvention,
   );
   const aiEnabled = await selectBooleanValue(
@@ -312,12 +372,37 @@ async function promptForConfigEdits(
 
   let aiProvider: AIProvider | undefined;
   let aiModel: string | undefined;
+  let aiEndpoint: AIEndpointConfig | undefined;
   let ollamaApiKeyAction: ConfigEditResult['ollamaApiKeyAction'] = 'keep';
   let ollamaApiKey: string | undefined;
 
   if (aiEnabled) {
     const currentProvider = current.aiProvider ?? 'copilot';
-    aiProvider = await selectCurrentValue('AI provider', AI_PROVIDER_OPTIONS, currentProvider);
+    info('Checking AI providers...');
+    const statuses = await checkAIProviders(current);
+    aiProvider = await selectCurrentValue(
+      'AI provider',
+      statuses.map((status) => ({
+        value: status.provider,
+        label: `${status.label} — ${status.problem ? pc.yellow(status.problem) : pc.green('ready')}`,
+      })),
+      currentProvider,
+    );
+
+    if (aiProvider === OLLAMA_PROVIDER) {
+      aiModel = await promptForOllamaModel(
+        current.aiProvider === OLLAMA_PROVIDER ? current.aiModel : undefined,
+      );
+    }
+
+    if (aiProvider === OPENAI_COMPATIBLE_PROVIDER) {
+      const endpointEdit = await promptForAIEndpoint(
+        current.aiEndpoint,
+        current.aiProvider === OPENAI_COMPATIBLE_PROVIDER ? current.aiModel : undefined,
+      );
+      aiEndpoint = endpointEdit.endpoint;
+      aiModel = endpointEdit.model;
+    }
 
     if (aiProvider === 'ollama-cloud') {
       if (hasExistingOllamaApiKey) {
@@ -390,6 +475,7 @@ async function promptForConfigEdits(
       aiEnabled,
       aiProvider,
       aiModel,
+      aiEndpoint,
       showTips,
     }),
     ollamaApiKeyAction,
@@ -436,6 +522,12 @@ function printConfigSummary(snapshot: ConfigSnapshot): void {
     if (snapshot.ai.model) {
       info(`AI model: ${pc.bold(snapshot.ai.model)}`);
     }
+    if (snapshot.ai.endpoint) {
+      info(`AI endpoint: ${pc.bold(snapshot.ai.endpoint)}`);
+    }
+    if (snapshot.ai.redaction) {
+      info(`AI redaction: ${pc.bold(snapshot.ai.redaction)}`);
+    }
     if (snapshot.ai.provider === 'ollama-cloud') {
       info(
         `Ollama Cloud API key: ${pc.bold(snapshot.ai.ollamaCloudApiKeyPresent ? 'stored' : 'missing')}`,
@@ -447,12 +539,83 @@ function printConfigSummary(snapshot: ConfigSnapshot): void {
   }
 }
 
+/**
+ * Print the fully rendered prompt for `kind` against the staged diff, so
+ * template changes can be checked without calling the AI provider.
+ */
+async function printPromptPreview(config: ContributeConfig, kind: PromptKind): Promise<void> {
+  const templates = PROMPT_KINDS.map((candidate) => loadPromptTemplate(candidate, config)).filter(
+    (template) => template !== null,
+  );
+  if (!config.promptsDir) {
+    info('No promptsDir configured — every prompt is built in.');
+  } else {
+    info(
+      `Prompt templates in ${pc.bold(config.promptsDir)}: ${templates.length > 0 ? templates.map((template) => template.path).join(', ') : pc.dim('none found')}`,
+    );
+  }
+
+  const convention = resolveConventionRules(config);
+  const [diff, stagedFiles] = await Promise.all([getStagedDiff(), getStagedFiles()]);
+  if (stagedFiles.length === 0) {
+    warn('No staged changes. Stage files to preview the prompt for a real diff.');
+  }
+
+  let system: ResolvedSystemPrompt;
+  let userMessage: string | null = null;
+  if (kind === 'commit') {
+    const prompt = await buildCommitMessagePrompt(
+      diff,
+      stagedFiles,
+      convention,
+      undefined,
+      undefined,
+      config.commitBody,
+    );
+    system = prompt.system;
+    userMessage = prompt.userMessage;
+  } else {
+    system = await resolveSystemPrompt(kind, { convention, files: stagedFiles });
+  }
+
+  info(`Prompt: ${pc.bold(kind)} (${system.template ? pc.bold(system.template) : 'built-in'})`);
+  if (system.unknownVariables.length > 0) {
+    warn(
+      `Unknown template variables: ${system.unknownVariables.map((name) => `{{${name}}}`).join(', ')}. Available: ${PROMPT_TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(', ')}`,
+    );
+  }
+
+  console.log();
+  console.log(pc.bold('System prompt'));
+  console.log(pc.dim('─'.repeat(60)));
+  console.log(system.prompt);
+  console.log(pc.dim('─'.repeat(60)));
+  if (userMessage) {
+    console.log();
+    console.log(pc.bold('User message'));
+    console.log(pc.dim('─'.repeat(60)));
+    console.log(userMessage);
+    console.log(pc.dim('─'.repeat(60)));
+  }
+  console.log();
+}
+
 export default defineCommand({
   meta: {
     name: 'config',
     description: 'Inspect or edit the repo config without rerunning setup',
   },
   args: {
+    section: {
+      type: 'positional',
+      description: 'Use "prompts" to preview the rendered AI prompt for the staged diff',
+      required: false,
+    },
+    kind: {
+      type: 'positional',
+      description: `Prompt to preview with "prompts" (${PROMPT_KINDS.join(', ')}; default: commit)`,
+      required: false,
+    },
     json: {
       type: 'boolean',
       description: 'Print the active repo config as JSON with metadata',
@@ -475,7 +638,17 @@ export default defineCommand({
       process.exit(1);
     }
 
-    await projectHeading('config', '⚙️');
+    if (args.section !== undefined && args.section !== 'prompts') {
+      error(`Unknown config section "${args.section}". Use "prompts".`);
+      process.exit(1);
+    }
+    const promptKind = args.kind ?? 'commit';
+    if (args.section === 'prompts' && !PROMPT_KINDS.includes(promptKind as PromptKind)) {
+      error(`Unknown prompt "${promptKind}". Use one of: ${PROMPT_KINDS.join(', ')}.`);
+      process.exit(1);
+    }
+
+    await projectHeading(args.section === 'prompts' ? 'config prompts' : 'config', '⚙️');
 
     if (!configExists()) {
       error('No repo config found. Run `cn setup` first.');
@@ -488,6 +661,11 @@ export default defineCommand({
       process.exit(1);
     }
 
+    if (args.section === 'prompts') {
+      await printPromptPreview(config, promptKind as PromptKind);
+      return;
+    }
+
     const source = getConfigSource();
     if (!source) {
       error('Unable to determine the active repo config source.');
@@ -501,6 +679,12 @@ export default defineCommand({
         await applyOllamaApiKeyEdit(editResult);
 
         success('Updated repo config.');
+        if (isAIEnabled(editResult.config)) {
+          const aiProblem = await checkCopilotAvailable();
+          if (aiProblem) {
+            warn(`AI provider is not ready: ${aiProblem}`);
+          }
+        }
         printConfigSummary(
           buildConfigSnapshot(editResult.config, {
             source,
@@ -2,6 +2,11 @@ import { execFile as execFileCb } from 'node:child_process';
 import { defineCommand } from 'citty';
 import pc from 'picocolors';
 import pkg from '../../package.json';
+import {
+  findCommitlintConfig,
+  isCommitlintLoadError,
+  readCommitlintConfig,
+} from '../utils/commitlint.js';
 import {
   configExists,
   getConfigLocationLabel,
@@ -11,8 +16,8 @@ import {
   isGitignored,
   readConfig,
 } from '../utils/config.js';
-import { resolveAIConfig } from '../utils/copilot.js';
-import { checkGhAuth, checkGhInstalled } from '../utils/gh.js';
+import { checkAIProviders, resolveAIConfig } from '../utils/copilot.js';
+import { getForge } from '../utils/forge.js';
 import {
   getCurrentBranch,
   getRemotes,
@@ -24,12 +29,17 @@ import {
   isShallowRepo,
 } from '../utils/git.js';
 import { projectHeading } from '../utils/logger.js';
-import { detectForkSetup, parseRepoFromUrl } from '../utils/remote.js';
+import { isRedactionRequired, resolveRedactionOptions } from '../utils/redact.js';
+import { detectForkSetup, parseRemoteUrl } from '../utils/remote.js';
 import { hasOllamaCloudApiKey, hasSecretsStore } from '../utils/secrets.js';
 import { getLocalStateLocationLabel, hasLocalStateStore } from '../utils/state.js';
 import {
   getBaseBranch,
+  getLocalMergeStrategy,
+  getProtectedBranches,
   getSyncSource,
+  getTargetBranch,
+  getTrunkPolicy,
   hasDevBranch,
   WORKFLOW_DESCRIPTIONS,
 } from '../utils/workflow.js';
@@ -125,25 +135,35 @@ async function depsSection(): Promise<SectionReport> {
     ok: git.ok,
   });
 
-  // gh CLI
-  const ghInstalled = await checkGhInstalled();
+  // gh CLI (glab when origin is on GitLab, the REST API on Gitea/Forgejo or
+  // on GitHub when gh is unavailable but a token is set)
+  const forge = await getForge(readConfig()?.origin);
+  const ghInstalled = await forge.isInstalled();
   if (ghInstalled) {
-    const ghVer = await runCmd('gh', ['--version']);
-    const ver = ghVer.stdout.split('\n')[0] ?? 'gh';
-    checks.push({ label: ver, ok: true });
+    if (forge.cli) {
+      const ghVer = await runCmd(forge.cli, ['--version']);
+      const ver = ghVer.stdout.split('\n')[0] ?? forge.cli;
+      checks.push({ label: ver, ok: true });
+    }
 
-    const ghAuth = await checkGhAuth();
+    const authName = forge.cli ?? forge.client;
+    const ghAuth = await forge.isAuthenticated();
+    checks.push({
+      label: ghAuth ? `${authName} authenticated` : `${authName} not authenticated`,
+      ok: ghAuth,
+      warning: !ghAuth,
+      detail: ghAuth ? undefined : forge.authHint,
+    });
     checks.push({
-      label: ghAuth ? 'gh authenticated' : 'gh not authenticated',
+      label: `${forge.label} requests via ${forge.client}`,
       ok: ghAuth,
       warning: !ghAuth,
-      detail: ghAuth ? undefined : 'run `gh auth login`',
     });
   } else {
     checks.push({
-      label: 'gh CLI not installed',
+      label: `${forge.client} not installed`,
       ok: false,
-      detail: 'install from https://cli.github.com',
+      detail: forge.installHint,
     });
   }
 
@@ -231,6 +251,7 @@ async function configSection(): Promise<SectionReport> {
   });
   checks.push({ label: `Role: ${config.role}`, ok: true });
   checks.push({ label: `Commit convention: ${config.commitConvention}`, ok: true });
+  checks.push(...commitlintChecks(config.commitConvention === 'commitlint'));
   checks.push({
     label: `AI: ${config.aiEnabled === false ? 'disabled' : 'enabled'}`,
     ok: true,
@@ -249,6 +270,24 @@ async function configSection(): Promise<SectionReport> {
       });
     }
 
+    if (aiConfig.provider === 'openai-compatible' && aiConfig.host) {
+      checks.push({
+        label: `AI endpoint: ${aiConfig.host}`,
+        ok: true,
+        detail: aiConfig.apiKeyEnv ? `API key from $${aiConfig.apiKeyEnv}` : 'no API key',
+      });
+    }
+
+    const redaction = resolveRedactionOptions(config);
+    checks.push({
+      label: `AI redaction: ${isRedactionRequired(config) ? 'required' : redaction.enabled ? 'on' : 'off'}`,
+      ok: true,
+      warning: !redaction.enabled,
+      detail: redaction.enabled
+        ? `${redaction.denylist.length} denylisted path patterns`
+        : 'diffs are sent to AI unredacted',
+    });
+
     if (aiConfig.provider === 'ollama-cloud') {
       const hasApiKey = await hasOllamaCloudApiKey();
       checks.push({
@@ -289,6 +328,55 @@ async function configSection(): Promise<SectionReport> {
   return { title: 'Config', checks };
 }
 
+function commitlintChecks(active: boolean): CheckResult[] {
+  if (!active) {
+    const found = findCommitlintConfig();
+    return found
+      ? [
+          {
+            label: 'commitlint config found but not used',
+            ok: true,
+            warning: true,
+            detail: 'choose the commitlint convention in `cn config --edit` to import its rules',
+          },
+        ]
+      : [];
+  }
+
+  const commitlint = readCommitlintConfig();
+  if (!commitlint) {
+    return [
+      { label: 'commitlint config not found', ok: false, detail: 'all messages are accepted' },
+    ];
+  }
+  if (isCommitlintLoadError(commitlint)) {
+    return [
+      {
+        label: `commitlint config unreadable: ${commitlint.source}`,
+        ok: false,
+        detail: commitlint.error,
+      },
+    ];
+  }
+
+  const checks: CheckResult[] = [
+    {
+      label: `commitlint rules imported from ${commitlint.source}`,
+      ok: true,
+      detail: commitlint.imported.join(', ') || 'none — only the default types apply',
+    },
+  ];
+  if (commitlint.ignored.length > 0) {
+    checks.push({
+      label: 'commitlint rules ignored as unsupported',
+      ok: true,
+      warning: true,
+      detail: commitlint.ignored.join(', '),
+    });
+  }
+  return checks;
+}
+
 async function gitSection(): Promise<SectionReport> {
   const checks: CheckResult[] = [];
   const inRepo = await isGitRepo();
@@ -315,7 +403,7 @@ async function gitSection(): Promise<SectionReport> {
   } else {
     for (const remote of remotes) {
       const url = await getRemoteUrl(remote);
-      const repoInfo = url ? parseRepoFromUrl(url) : null;
+      const repoInfo = url ? parseRemoteUrl(url) : null;
       const detail = repoInfo ? `${repoInfo.owner}/${repoInfo.repo}` : (url ?? 'unknown URL');
       checks.push({ label: `Remote: ${remote}`, ok: true, detail });
     }
@@ -400,6 +488,11 @@ async function workflowSection(): Promise<SectionReport> {
   const baseBranch = getBaseBranch(config);
   checks.push({ label: `Base branch: ${baseBranch}`, ok: true });
 
+  const targetBranch = getTargetBranch(config);
+  if (targetBranch !== baseBranch) {
+    checks.push({ label: `Target branch: ${targetBranch}`, ok: true });
+  }
+
   const sync = getSyncSource(config);
   checks.push({
     label: `Sync source: ${sync.ref}`,
@@ -412,9 +505,49 @@ async function workflowSection(): Promise<SectionReport> {
     ok: config.branchPrefixes.length > 0,
   });
 
+  if (config.workflow === 'custom') {
+    checks.push({
+      label: `Protected: ${[...new Set([...getProtectedBranches(config), ...(config.workflowSpec?.protected ?? [])])].join(', ')}`,
+      ok: true,
+      detail: `local merge: ${getLocalMergeStrategy(config)}`,
+    });
+  }
+
+  const trunkPolicy = getTrunkPolicy(config);
+  if (trunkPolicy) {
+    checks.push({
+      label: `Short-lived branch policy: ${trunkPolicy.maxBranchAgeDays} days / ${trunkPolicy.maxBranchCommits} commits`,
+      ok: true,
+      detail: 'local submit rebases and fast-forwards',
+    });
+  }
+
   return { title: 'Workflow Resolution', checks };
 }
 
+async function aiProvidersSection(): Promise<SectionReport> {
+  const config = readConfig();
+  if (!config || config.aiEnabled === false) {
+    return {
+      title: 'AI Providers',
+      checks: [{ label: 'AI disabled or not configured — providers not checked', ok: true }],
+    };
+  }
+
+  // Only the active provider's problems are failures; the rest are informational
+  const statuses = await checkAIProviders(config);
+  return {
+    title: 'AI Providers',
+    checks: statuses.map((status) => ({
+      label: `${status.label} (${status.provider}) — ${status.active ? 'active' : status.problem ? 'not ready' : 'available'}`,
+      ok: !(status.active && status.problem),
+      detail:
+        status.problem ??
+        (status.model && status.host ? `${status.model} at ${status.host}` : 'ready'),
+    })),
+  };
+}
+
 function envSection(): SectionReport {
   const checks: CheckResult[] = [];
   const vars = ['GITHUB_TOKEN', 'GH_TOKEN', 'COPILOT_AGENT_TOKEN', 'NO_COLOR', 'FORCE_COLOR', 'CI'];
@@ -456,10 +589,11 @@ export default defineCommand({
     const isJson = args.json as boolean;
 
     // Build all sections in parallel where possible
-    const [tool, deps, config, git, fork, workflow] = await Promise.all([
+    const [tool, deps, config, ai, git, fork, workflow] = await Promise.all([
       toolSection(),
       depsSection(),
       configSection(),
+      aiProvidersSection(),
       gitSection(),
       forkSection(),
       workflowSection(),
@@ -468,7 +602,7 @@ export default defineCommand({
     const env = envSection();
 
     const report: DoctorReport = {
-      sections: [tool, deps, config, git, fork, workflow, env],
+      sections: [tool, deps, config, ai, git, fork, workflow, env],
     };
 
     if (isJson) {
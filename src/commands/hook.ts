@@ -3,7 +3,7 @@ import { join } from 'node:path';
 import { defineCommand } from 'citty';
 import pc from 'picocolors';
 import { readConfig } from '../utils/config.js';
-import { CONVENTION_LABELS } from '../utils/convention.js';
+import { getConventionLabel, resolveConventionRules } from '../utils/convention.js';
 import { isGitRepo } from '../utils/git.js';
 import { error, info, projectHeading, success, warn } from '../utils/logger.js';
 
@@ -29,10 +29,10 @@ ${HOOK_MARKER}
 # Uninstall: cn hook uninstall
 
 commit_msg_file="$1"
-commit_msg=$(head -1 "$commit_msg_file")
+commit_subject=$(head -1 "$commit_msg_file")
 
-# Skip merge commits and fixup/squash commits
-case "$commit_msg" in
+# Skip merge commits and fixup/squash commits; the whole message is validated below
+case "$commit_subject" in
   Merge\\ *|fixup!*|squash!*|amend!*) exit 0 ;;
 esac
 
@@ -118,7 +118,7 @@ async function installHook(): Promise<void> {
   writeFileSync(hookPath, generateHookScript(), { mode: 0o755 });
 
   success(`commit-msg hook installed.`);
-  info(`Convention: ${pc.bold(CONVENTION_LABELS[config.commitConvention])}`, '');
+  info(`Convention: ${pc.bold(getConventionLabel(resolveConventionRules(config)))}`, '');
   info(`Path: ${pc.dim(hookPath)}`, '');
   warn('Note: hooks can be bypassed with `git commit --no-verify`.');
 }
@@ -0,0 +1,3 @@
+import { createLifecycleCommand } from './release.js';
+
+export default createLifecycleCommand('hotfix');
@@ -0,0 +1,323 @@
+import { defineCommand } from 'citty';
+import pc from 'picocolors';
+import type { ContributeConfig } from '../types.js';
+import { readConfig } from '../utils/config.js';
+import { confirmPrompt, inputPrompt } from '../utils/confirm.js';
+import {
+  assertCleanGitState,
+  branchExists,
+  checkoutBranch,
+  countCommitsAhead,
+  createAnnotatedTag,
+  createBranch,
+  deleteBranch,
+  deleteRemoteBranch,
+  fetchRemote,
+  getCurrentBranch,
+  hasUncommittedChanges,
+  isGitRepo,
+  mergeNoFastForward,
+  pullFastForwardOnly,
+  pushBranch,
+  pushTag,
+  refExists,
+  updateLocalBranch,
+} from '../utils/git.js';
+import {
+  getLifecycleBranchName,
+  getLifecycleSourceBranch,
+  getLifecycleTagName,
+  getLifecycleTargetBranches,
+  LIFECYCLE_LABELS,
+  type LifecycleKind,
+  normalizeLifecycleVersion,
+  parseLifecycleBranch,
+} from '../utils/gitFlow.js';
+import { error, info, projectHeading, success, warn } from '../utils/logger.js';
+import { getProtectedBranches, isBranchProtected } from '../utils/workflow.js';
+
+const LIFECYCLE_EMOJIS: Record<LifecycleKind, string> = {
+  release: '🏷️',
+  hotfix: '🚑',
+};
+
+/**
+ * Shared guards for every lifecycle subcommand. Returns the repo config once
+ * the repo is a Git Flow project managed by a maintainer.
+ */
+async function loadLifecycleConfig(kind: LifecycleKind, action: string): Promise<ContributeConfig> {
+  if (!(await isGitRepo())) {
+    error('Not inside a git repository.');
+    process.exit(1);
+  }
+
+  await assertCleanGitState(action);
+
+  const config = readConfig();
+  if (!config) {
+    error('No repo config found. Run `cn setup` first.');
+    process.exit(1);
+  }
+
+  if (config.workflow !== 'git-flow') {
+    error(
+      `${pc.bold(`cn ${kind}`)} is only available in the Git Flow workflow (current: ${pc.bold(config.workflow)}).`,
+    );
+    info(`Switch workflows with ${pc.bold('cn config --edit')} if this repo uses Git Flow.`, '');
+    process.exit(1);
+  }
+
+  if (config.role !== 'maintainer') {
+    error(`${LIFECYCLE_LABELS[kind]} branches are managed by maintainers.`);
+    info('Contributors should branch with `cn start` and open a PR with `cn submit`.', '');
+    process.exit(1);
+  }
+
+  if (await hasUncommittedChanges()) {
+    error('You have uncommitted changes. Please commit or stash them first.');
+    process.exit(1);
+  }
+
+  return config;
+}
+
+async function resolveVersion(kind: LifecycleKind, input: string | undefined): Promise<string> {
+  const raw =
+    input?.trim() || (await inputPrompt(`${LIFECYCLE_LABELS[kind]} version (e.g. 1.2.0)`));
+  const version = normalizeLifecycleVersion(raw ?? '');
+  if (!version) {
+    error(`Invalid version: ${pc.bold(raw || '(empty)')}. Use semantic versioning, e.g. 1.2.0.`);
+    process.exit(1);
+  }
+  return version;
+}
+
+// ── Start ────────────────────────────────────────────────────────────
+
+async function startLifecycle(kind: LifecycleKind, versionArg: string | undefined): Promise<void> {
+  const config = await loadLifecycleConfig(kind, `starting a ${kind}`);
+  await projectHeading(`${kind} start`, LIFECYCLE_EMOJIS[kind]);
+
+  const version = await resolveVersion(kind, versionArg);
+  const branchName = getLifecycleBranchName(kind, version);
+  const tagName = getLifecycleTagName(version);
+  const sourceBranch = getLifecycleSourceBranch(kind, config);
+  const sourceRef = `${config.origin}/${sourceBranch}`;
+
+  if (await branchExists(branchName)) {
+    error(`Branch ${pc.bold(branchName)} already exists.`);
+    info(`Switch to it with ${pc.bold(`git checkout ${branchName}`)} or finish it first.`, '');
+    process.exit(1);
+  }
+
+  if (await refExists(`refs/tags/${tagName}`)) {
+    error(`Tag ${pc.bold(tagName)} already exists. Pick a new version.`);
+    process.exit(1);
+  }
+
+  await fetchRemote(config.origin);
+
+  if (await refExists(sourceRef)) {
+    // Guard: the fast-forward below would silently drop unpushed commits on the source
+    const ahead = await countCommitsAhead(sourceBranch, sourceRef);
+    if (ahead > 0) {
+      error(
+        `${pc.bold(sourceBranch)} has ${pc.bold(String(ahead))} local commit${ahead > 1 ? 's' : ''} not in ${pc.bold(sourceRef)}.`,
+      );
+      info(`Push or move those commits before starting a ${kind}.`, '');
+      process.exit(1);
+    }
+
+    const updateResult = await updateLocalBranch(sourceBranch, sourceRef);
+    if (updateResult.exitCode !== 0) {
+      error(`Failed to update ${pc.bold(sourceBranch)}: ${updateResult.stderr}`);
+      process.exit(1);
+    }
+  } else {
+    warn(
+      `Remote ref ${pc.bold(sourceRef)} not found. Creating ${kind} from local ${pc.bold(sourceBranch)}.`,
+    );
+  }
+
+  const result = await createBranch(branchName, sourceBranch);
+  if (result.exitCode !== 0) {
+    error(`Failed to create branch: ${result.stderr}`);
+    process.exit(1);
+  }
+
+  success(`Created ${pc.bold(branchName)} from latest ${pc.bold(sourceBranch)}`);
+  info(`When it's ready, run ${pc.bold(`cn ${kind} finish`)} to merge, tag, and push.`, '');
+}
+
+// ── Finish ───────────────────────────────────────────────────────────
+
+async function finishLifecycle(
+  kind: LifecycleKind,
+  versionArg: string | undefined,
+  skipConfirm: boolean,
+): Promise<void> {
+  const config = await loadLifecycleConfig(kind, `finishing a ${kind}`);
+  await projectHeading(`${kind} finish`, LIFECYCLE_EMOJIS[kind]);
+
+  const branchName = versionArg?.trim()
+    ? getLifecycleBranchName(kind, await resolveVersion(kind, versionArg))
+    : await getCurrentBranch();
+
+  const parsed = branchName ? parseLifecycleBranch(branchName) : null;
+  if (!branchName || !parsed || parsed.kind !== kind) {
+    error(`${pc.bold(branchName ?? 'HEAD')} is not a ${kind} branch.`);
+    info(`Check out a ${kind}/<version> branch or pass the version: cn ${kind} finish 1.2.0`, '');
+    process.exit(1);
+  }
+
+  // Lifecycle branches are protected by prefix, never by name — anything else is not ours to delete
+  if (!isBranchProtected(branchName, config) || getProtectedBranches(config).includes(branchName)) {
+    error(`${pc.bold(branchName)} is not a Git Flow ${kind} branch for this repo.`);
+    process.exit(1);
+  }
+
+  if (!(await branchExists(branchName))) {
+    error(`Branch ${pc.bold(branchName)} does not exist locally.`);
+    process.exit(1);
+  }
+
+  const tagName = getLifecycleTagName(parsed.version);
+  const targets = getLifecycleTargetBranches(config);
+
+  info(`Finishing ${pc.bold(branchName)}:`);
+  info(`  • Merge into ${targets.map((t) => pc.bold(t)).join(' and ')}`, '');
+  info(`  • Tag ${pc.bold(tagName)} on ${pc.bold(config.mainBranch)}`, '');
+  info(`  • Push to ${pc.bold(config.origin)} and delete ${pc.bold(branchName)}`, '');
+
+  if (!skipConfirm) {
+    const ok = await confirmPrompt(`Finish ${kind} ${pc.bold(parsed.version)}?`);
+    if (!ok) {
+      info(`${LIFECYCLE_LABELS[kind]} finish cancelled.`);
+      process.exit(0);
+    }
+  }
+
+  await fetchRemote(config.origin);
+
+  for (const target of targets) {
+    const checkoutResult = await checkoutBranch(target);
+    if (checkoutResult.exitCode !== 0) {
+      error(`Failed to checkout ${pc.bold(target)}: ${checkoutResult.stderr}`);
+      process.exit(1);
+    }
+
+    if (await refExists(`${config.origin}/${target}`)) {
+      const pullResult = await pullFastForwardOnly(config.origin, target);
+      if (pullResult.exitCode !== 0) {
+        error(`${pc.bold(target)} has diverged from ${pc.bold(`${config.origin}/${target}`)}.`);
+        info(`Reconcile ${pc.bold(target)} with the remote, then re-run cn ${kind} finish.`, '');
+        process.exit(1);
+      }
+    }
+
+    const mergeResult = await mergeNoFastForward(branchName);
+    if (mergeResult.exitCode !== 0) {
+      error(`Merge of ${pc.bold(branchName)} into ${pc.bold(target)} stopped with conflicts.`);
+      info(`Resolve the conflicts, commit the merge, then re-run:`, '');
+      info(`  cn ${kind} finish ${parsed.version}`, '');
+      process.exit(1);
+    }
+    success(`Merged ${pc.bold(branchName)} into ${pc.bold(target)}`);
+
+    if (target === config.mainBranch) {
+      // Re-running after a conflict on the dev merge must not fail on the existing tag
+      if (await refExists(`refs/tags/${tagName}`)) {
+        info(`Tag ${pc.bold(tagName)} already exists — keeping it.`);
+      } else {
+        const tagResult = await createAnnotatedTag(
+          tagName,
+          `${LIFECYCLE_LABELS[kind]} ${parsed.version}`,
+        );
+        if (tagResult.exitCode !== 0) {
+          error(`Failed to create tag ${pc.bold(tagName)}: ${tagResult.stderr}`);
+          process.exit(1);
+        }
+        success(`Tagged ${pc.bold(tagName)}`);
+      }
+    }
+  }
+
+  for (const target of targets) {
+    const pushResult = await pushBranch(config.origin, target);
+    if (pushResult.exitCode !== 0) {
+      error(`Failed to push ${pc.bold(target)}: ${pushResult.stderr}`);
+      process.exit(1);
+    }
+  }
+
+  const tagPushResult = await pushTag(config.origin, tagName);
+  if (tagPushResult.exitCode !== 0) {
+    error(`Failed to push tag ${pc.bold(tagName)}: ${tagPushResult.stderr}`);
+    process.exit(1);
+  }
+  success(`Pushed ${targets.map((t) => pc.bold(t)).join(', ')} and ${pc.bold(tagName)}`);
+
+  const deleteResult = await deleteBranch(branchName);
+  if (deleteResult.exitCode !== 0) {
+    warn(`Could not delete local ${pc.bold(branchName)}: ${deleteResult.stderr}`);
+  }
+
+  if (await refExists(`${config.origin}/${branchName}`)) {
+    const remoteDeleteResult = await deleteRemoteBranch(config.origin, branchName);
+    if (remoteDeleteResult.exitCode !== 0) {
+      warn(
+        `Could not delete ${pc.bold(`${config.origin}/${branchName}`)}: ${remoteDeleteResult.stderr}`,
+      );
+    }
+  }
+
+  success(`${LIFECYCLE_LABELS[kind]} ${pc.bold(parsed.version)} finished 🎉`);
+}
+
+/**
+ * Build the `cn release` / `cn hotfix` command. Both share the same lifecycle
+ * and differ only in the branch they start from.
+ */
+export function createLifecycleCommand(kind: LifecycleKind) {
+  const label = LIFECYCLE_LABELS[kind];
+
+  return defineCommand({
+    meta: {
+      name: kind,
+      description: `Start or finish a Git Flow ${kind} branch`,
+    },
+    args: {
+      action: {
+        type: 'positional',
+        description: 'Action to perform: start or finish',
+        required: true,
+      },
+      version: {
+        type: 'positional',
+        description: `${label} version, e.g. 1.2.0 (finish defaults to the current branch)`,
+        required: false,
+      },
+      yes: {
+        type: 'boolean',
+        alias: 'y',
+        description: 'Skip confirmation prompt',
+        default: false,
+      },
+    },
+    async run({ args }) {
+      const action = args.action;
+      if (action !== 'start' && action !== 'finish') {
+        error(`Unknown action "${action}". Use "start" or "finish".`);
+        process.exit(1);
+      }
+
+      if (action === 'start') {
+        await startLifecycle(kind, args.version);
+      } else {
+        await finishLifecycle(kind, args.version, args.yes);
+      }
+    },
+  });
+}
+
+export default createLifecycleCommand('release');
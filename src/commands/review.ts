@@ -0,0 +1,138 @@
+import { defineCommand } from 'citty';
+import pc from 'picocolors';
+import type { ContributeConfig } from '../types.js';
+import { isAIEnabled, readConfig } from '../utils/config.js';
+import { checkCopilotAvailable, reviewBranchDiff } from '../utils/copilot.js';
+import { getCurrentBranch, getLogDiff, getLogDiffFiles, isGitRepo } from '../utils/git.js';
+import { error, info, projectHeading, warn } from '../utils/logger.js';
+import { noteRedactions } from '../utils/redact.js';
+import {
+  hasHighSeverityFindings,
+  printReviewFindings,
+  type ReviewResult,
+  summarizeReviewFindings,
+} from '../utils/review.js';
+import { createSpinner, streamIntoSpinner } from '../utils/spinner.js';
+import { LOADING_TIPS } from '../utils/tips.js';
+import { getTargetBranch } from '../utils/workflow.js';
+
+/**
+ * Review the current branch against the branch it will be submitted to and
+ * print the findings, and any files that could not be reviewed. Returns no
+ * findings when there is nothing to review, and null when the review could not
+ * run or was cancelled. Shared with `cn submit`.
+ */
+export async function reviewCurrentBranch(
+  config: ContributeConfig,
+  model?: string,
+): Promise<ReviewResult | null> {
+  const targetBranch = getTargetBranch(config);
+  const [branch, diff, files] = await Promise.all([
+    getCurrentBranch(),
+    getLogDiff(targetBranch, 'HEAD'),
+    getLogDiffFiles(targetBranch, 'HEAD'),
+  ]);
+  if (!diff.trim() || files.length === 0) {
+    info(
+      `No changes to review on ${pc.bold(branch ?? 'HEAD')} compared to ${pc.bold(targetBranch)}.`,
+    );
+    return { findings: [], unreviewed: [] };
+  }
+
+  const copilotError = await checkCopilotAvailable();
+  if (copilotError) {
+    warn(`AI unavailable: ${copilotError}`);
+    return null;
+  }
+
+  const spinner = createSpinner(
+    `Reviewing ${files.length} file${files.length !== 1 ? 's' : ''} against ${targetBranch}...`,
+    { tips: LOADING_TIPS },
+  );
+  let review: ReviewResult | null;
+  try {
+    review = await reviewBranchDiff(diff, files, model, (message) => spinner.update(message), {
+      onRedaction: noteRedactions(spinner),
+      ...streamIntoSpinner(spinner),
+    });
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    spinner.fail(`AI review stopped: ${reason}`);
+    return null;
+  }
+  if (!review) {
+    spinner.fail('AI did not return a review.');
+    return null;
+  }
+  if (review.findings.length === 0) {
+    spinner.success('AI review found no issues.');
+  } else {
+    spinner.success(`AI review: ${summarizeReviewFindings(review.findings)}.`);
+    printReviewFindings(review.findings, files);
+  }
+  if (review.unreviewed.length > 0) {
+    warn(
+      `The review is incomplete. These files could not be reviewed: ${review.unreviewed.join(', ')}`,
+    );
+  }
+  return review;
+}
+
+export default defineCommand({
+  meta: {
+    name: 'review',
+    description: 'AI review of the current branch before you submit it',
+  },
+  args: {
+    model: {
+      type: 'string',
+      description: 'AI model to use for the review',
+    },
+    strict: {
+      type: 'boolean',
+      description: 'Exit with an error when the review has high-severity findings',
+      default: false,
+    },
+  },
+  async run({ args }) {
+    if (!(await isGitRepo())) {
+      error('Not inside a git repository.');
+      process.exit(1);
+    }
+
+    const config = readConfig();
+    if (!config) {
+      error('No repo config found. Run `cn setup` first.');
+      process.exit(1);
+    }
+
+    await projectHeading('review', '🔎');
+
+    if (!isAIEnabled(config)) {
+      error('AI review is unavailable because AI is disabled. Enable AI in your repo config.');
+      process.exit(1);
+    }
+
+    const strict = args.strict || config.aiReview?.blockOnHigh;
+    const review = await reviewCurrentBranch(config, args.model);
+    if (!review) {
+      if (strict) {
+        error('The AI review could not run, so the branch was not checked.');
+        process.exit(1);
+      }
+      return;
+    }
+
+    if (hasHighSeverityFindings(review.findings)) {
+      if (strict) {
+        error('High-severity findings. Fix them before submitting.');
+        process.exit(1);
+      }
+      warn(`Fix the high-severity findings before running ${pc.bold('cn submit')}.`);
+    }
+    if (review.unreviewed.length > 0 && strict) {
+      error('The AI review is incomplete, so the branch was not fully checked.');
+      process.exit(1);
+    }
+  },
+});
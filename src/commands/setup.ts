@@ -1,6 +1,15 @@
 import { defineCommand } from 'citty';
 import pc from 'picocolors';
-import type { AIProvider, CommitConvention, ContributeConfig, WorkflowMode } from '../types.js';
+import type {
+  AIEndpointConfig,
+  AIProvider,
+  CommitConvention,
+  ContributeConfig,
+  WorkflowMode,
+} from '../types.js';
+import { promptForAIEndpoint, promptForOllamaModel } from '../utils/aiProviderPrompts.js';
+import { getAIProviders, OPENAI_COMPATIBLE_PROVIDER } from '../utils/aiProviders.js';
+import { isCommitlintLoadError, readCommitlintConfig } from '../utils/commitlint.js';
 import {
   configExists,
   getConfigLocationLabel,
@@ -19,13 +28,8 @@ import {
   prioritizeOllamaCloudModels,
   resolveAIConfig,
 } from '../utils/copilot.js';
-import {
-  checkGhAuth,
-  checkGhInstalled,
-  checkRepoPermissions,
-  getCurrentRepoInfo,
-  isRepoFork,
-} from '../utils/gh.js';
+import { detectForgeId, getForge } from '../utils/forge.js';
+import { checkGhAuth, checkGhInstalled } from '../utils/gh.js';
 import {
   addRemote,
   fetchRemote,
@@ -34,9 +38,18 @@ import {
   isGitRepo,
   refExists,
 } from '../utils/git.js';
+import { getGiteaBaseUrl, probeGiteaVersion } from '../utils/gitea.js';
+import { isGitHubHostName, resolveGitHubToken } from '../utils/githubApi.js';
 import { error, info, projectHeading, success, warn } from '../utils/logger.js';
-import { parseRepoFromUrl } from '../utils/remote.js';
-import { getSecretsStorePath, setOllamaCloudApiKey } from '../utils/secrets.js';
+import { OLLAMA_PROVIDER } from '../utils/ollama.js';
+import { parseRemoteUrl } from '../utils/remote.js';
+import {
+  getGiteaToken,
+  getSecretsStorePath,
+  setGiteaToken,
+  setGitHubToken,
+  setOllamaCloudApiKey,
+} from '../utils/secrets.js';
 import { createSpinner } from '../utils/spinner.js';
 import { hasDevBranch, WORKFLOW_DESCRIPTIONS } from '../utils/workflow.js';
 
@@ -118,6 +131,102 @@ async function promptForOllamaCloudModel(
   );
 }
 
+async function storeForgeToken(
+  host: string,
+  token: string,
+  save: (host: string, token: string) => Promise<void>,
+): Promise<void> {
+  try {
+    await save(host, token);
+    success(`Stored the ${host} access token in the local secrets store.`);
+    info(`Secrets path: ${pc.bold(getSecretsStorePath())}`);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    error(`Failed to store the access token: ${message}`);
+    process.exit(1);
+  }
+}
+
+/**
+ * Ask for the access token PRs are opened with when origin's host is reached
+ * over HTTP: always for Gitea and Forgejo (known by name, or answering the
+ * Gitea version endpoint, which is only asked of hosts nothing else identifies
+ * and after the user agrees), and for GitHub when `gh` is missing or signed out
+ * and no token is set in the environment.
+ */
+async function setupForgeToken(remote: string): Promise<void> {
+  const url = await getRemoteUrl(remote);
+  const remoteInfo = url ? parseRemoteUrl(url) : null;
+  if (!url || !remoteInfo) return;
+  const { host } = remoteInfo;
+  const forgeId = detectForgeId(host);
+  if (forgeId === 'gitlab') return;
+
+  const baseUrl = getGiteaBaseUrl(url, host);
+  // Only a host nothing identifies is asked for its Gitea version, and only with consent
+  const isUnknownHost =
+    forgeId === 'github' && !isGitHubHostName(host) && (await resolveGitHubToken(host)) === null;
+  const isGitea =
+    forgeId === 'gitea' ||
+    (await getGiteaToken(host)) !== null ||
+    (isUnknownHost &&
+      (await confirmPrompt(
+        `Check whether ${host} runs Gitea or Forgejo? (one request to ${baseUrl})`,
+      )) &&
+      (await probeGiteaVersion(baseUrl)) !== null);
+  if (isGitea) {
+    if (await getGiteaToken(host)) return;
+    info(`${pc.bold(host)} runs Gitea/Forgejo. PRs are opened through its API.`);
+    info(`Create an access token at ${pc.cyan(`${baseUrl}/user/settings/applications`)}`, '');
+  } else {
+    if (await resolveGitHubToken(host)) return;
+    if ((await checkGhInstalled()) && (await checkGhAuth())) return;
+    info('gh is not installed or not signed in. PRs can be opened through the GitHub API instead.');
+    info(`Create a token at ${pc.cyan(`https://${host}/settings/tokens`)}`, '');
+  }
+
+  const token = (await passwordPrompt('Enter your access token (leave empty to skip)')).trim();
+  if (!token) {
+    warn('No token saved. cn submit will print the PR link instead of opening the PR.');
+    return;
+  }
+  await storeForgeToken(host, token, isGitea ? setGiteaToken : setGitHubToken);
+}
+
+/** Config keys `cn setup` asks about (or derives from the workflow) on every run */
+const SETUP_KEYS = [
+  'workflow',
+  'role',
+  'mainBranch',
+  'devBranch',
+  'upstream',
+  'origin',
+  'branchPrefixes',
+  'commitConvention',
+  'aiEnabled',
+  'aiProvider',
+  'aiModel',
+  'aiEndpoint',
+  'showTips',
+  'trunkPolicy',
+  'workflowSpec',
+] as const;
+
+/**
+ * The config to write after setup: the answers on top of everything in the
+ * existing config that setup doesn't ask about (custom convention, redaction,
+ * review, commit body, prompts, and pull request defaults), so re-running
+ * setup never drops them.
+ */
+export function mergeSetupConfig(
+  existingConfig: ContributeConfig | null,
+  answers: ContributeConfig,
+): ContributeConfig {
+  const kept: Partial<ContributeConfig> = { ...existingConfig };
+  for (const key of SETUP_KEYS) delete kept[key];
+  return { ...kept, ...answers };
+}
+
 export default defineCommand({
   meta: {
     name: 'setup',
@@ -151,27 +260,56 @@ export default defineCommand({
       'Clean Flow — main + dev, squash features into dev, merge dev into main (recommended)',
       'GitHub Flow — main + feature branches, squash/merge into main',
       'Git Flow — main + develop + release + hotfix branches',
+      'Trunk-Based — main + short-lived branches, rebase and fast-forward into main',
+      // A custom workflow can't be built interactively — only offer to keep an existing spec
+      ...(existingConfig?.workflowSpec
+        ? [`Custom — keep the workflowSpec from the existing config`]
+        : []),
     ]);
 
     let workflow: WorkflowMode = 'clean-flow';
     if (workflowChoice.startsWith('GitHub')) workflow = 'github-flow';
     else if (workflowChoice.startsWith('Git Flow')) workflow = 'git-flow';
+    else if (workflowChoice.startsWith('Trunk')) workflow = 'trunk';
+    else if (workflowChoice.startsWith('Custom')) workflow = 'custom';
 
     info(`Workflow: ${pc.bold(WORKFLOW_DESCRIPTIONS[workflow])}`);
 
-    // 2b. Select commit convention
+    // 2b. Select commit convention — an existing commitlint config is offered first
+    const commitlint = readCommitlintConfig();
+    const commitlintImport = commitlint && !isCommitlintLoadError(commitlint) ? commitlint : null;
+    if (commitlint && isCommitlintLoadError(commitlint)) {
+      warn(`Found ${pc.bold(commitlint.source)} but could not read it: ${commitlint.error}`);
+    }
+
     const conventionChoice = await selectPrompt(
       'Which commit convention should this project use?',
       [
+        ...(commitlintImport
+          ? [`${CONVENTION_DESCRIPTIONS.commitlint} (detected ${commitlintImport.source})`]
+          : []),
         `${CONVENTION_DESCRIPTIONS['clean-commit']} (recommended)`,
         CONVENTION_DESCRIPTIONS.conventional,
         CONVENTION_DESCRIPTIONS.none,
+        // Same as workflows: a custom convention is authored in the config file, not here
+        ...(existingConfig?.customConvention
+          ? ['Custom — keep the customConvention from the existing config']
+          : []),
       ],
     );
 
     let commitConvention: CommitConvention = 'clean-commit';
-    if (conventionChoice.includes('Conventional Commits')) commitConvention = 'conventional';
+    if (conventionChoice.startsWith('commitlint')) commitConvention = 'commitlint';
+    else if (conventionChoice.includes('Conventional Commits')) commitConvention = 'conventional';
     else if (conventionChoice.includes('No commit')) commitConvention = 'none';
+    else if (conventionChoice.startsWith('Custom')) commitConvention = 'custom';
+
+    if (commitConvention === 'commitlint' && commitlintImport) {
+      info(`Imported rules: ${pc.bold(commitlintImport.imported.join(', ') || 'none')}`);
+      if (commitlintImport.ignored.length > 0) {
+        warn(`Ignored unsupported rules: ${commitlintImport.ignored.join(', ')}`);
+      }
+    }
 
     const enableAI = await confirmPrompt(
       'Enable AI-assisted features like commit messages, branch naming, PR text, and conflict guidance?',
@@ -179,14 +317,39 @@ export default defineCommand({
 
     let aiProvider: AIProvider | undefined;
     let aiModel: string | undefined;
+    let aiEndpoint: AIEndpointConfig | undefined;
 
     if (enableAI) {
-      const providerChoice = await selectPrompt('Which AI provider should this clone use?', [
-        'GitHub Copilot — use your existing GitHub/Copilot auth',
-        'Ollama Cloud — use an API key stored in the local secrets store',
-      ]);
+      const providers = getAIProviders();
+      const providerChoices = providers.map(
+        (provider) => `${provider.label} — ${provider.description}`,
+      );
+      const providerChoice = await selectPrompt(
+        'Which AI provider should this clone use?',
+        providerChoices,
+      );
 
-      aiProvider = providerChoice.startsWith('Ollama Cloud') ? 'ollama-cloud' : 'copilot';
+      aiProvider = providers[providerChoices.indexOf(providerChoice)]?.id ?? 'copilot';
+
+      if (aiProvider === OLLAMA_PROVIDER) {
+        try {
+          aiModel = await promptForOllamaModel();
+        } catch (err) {
+          error(err instanceof Error ? err.message : String(err));
+          process.exit(1);
+        }
+      }
+
+      if (aiProvider === OPENAI_COMPATIBLE_PROVIDER) {
+        try {
+          const endpointSetup = await promptForAIEndpoint();
+          aiEndpoint = endpointSetup.endpoint;
+          aiModel = endpointSetup.model;
+        } catch (err) {
+          error(err instanceof Error ? err.message : String(err));
+          process.exit(1);
+        }
+      }
 
       if (aiProvider === 'ollama-cloud') {
         const apiKey = (await passwordPrompt('Enter your Ollama Cloud API key')).trim();
@@ -222,28 +385,30 @@ export default defineCommand({
 
     info(`Found remotes: ${remotes.join(', ')}`);
 
+    if (remotes.includes('origin')) await setupForgeToken('origin');
+
     // 3. Auto-detect role (layered approach)
     let detectedRole: 'maintainer' | 'contributor' | null = null;
     let detectionSource = '';
     const roleSpinner = createSpinner('Detecting your role...');
     try {
-      // Layer 1: gh CLI
-      roleSpinner.update('Checking GitHub CLI and auth...');
-      const ghInstalled = await checkGhInstalled();
-      if (ghInstalled && (await checkGhAuth())) {
+      // Layer 1: gh CLI (glab on GitLab)
+      const forge = await getForge();
+      roleSpinner.update(`Checking ${forge.client} and auth...`);
+      if ((await forge.isInstalled()) && (await forge.isAuthenticated())) {
         roleSpinner.update('Inspecting repository relationship (fork/permissions)...');
-        const isFork = await isRepoFork();
+        const isFork = await forge.isFork();
         if (isFork === true) {
           detectedRole = 'contributor';
-          detectionSource = 'gh CLI (fork detected)';
+          detectionSource = `${forge.client} (fork detected)`;
         } else if (isFork === false) {
           // Check permissions
-          const repoInfo = await getCurrentRepoInfo();
+          const repoInfo = await forge.getRepoInfo();
           if (repoInfo) {
-            const perms = await checkRepoPermissions(repoInfo.owner, repoInfo.repo);
+            const perms = await forge.getPermissions(repoInfo);
             if (perms?.admin || perms?.push) {
               detectedRole = 'maintainer';
-              detectionSource = 'gh CLI (admin/push permissions)';
+              detectionSource = `${forge.client} (admin/push permissions)`;
             }
           }
         }
@@ -324,11 +489,11 @@ export default defineCommand({
       if (!remotes.includes(upstreamRemote)) {
         warn(`Remote "${upstreamRemote}" not found.`);
         const originUrl = await getRemoteUrl(originRemote);
-        const repoInfo = originUrl ? parseRepoFromUrl(originUrl) : null;
+        const repoInfo = originUrl ? parseRemoteUrl(originUrl) : null;
 
         const upstreamUrl = await inputPrompt(
           'Enter upstream repository URL to add',
-          repoInfo ? `https://github.com/${repoInfo.owner}/${repoInfo.repo}` : undefined,
+          repoInfo ? `https://${repoInfo.host}/${repoInfo.owner}/${repoInfo.repo}` : undefined,
         );
 
         if (upstreamUrl) {
@@ -347,8 +512,8 @@ export default defineCommand({
       }
     }
 
-    // 6. Write config
-    const config: ContributeConfig = {
+    // 6. Write config (settings setup doesn't ask about are kept)
+    const config = mergeSetupConfig(existingConfig, {
       workflow,
       role: detectedRole,
       mainBranch,
@@ -360,8 +525,15 @@ export default defineCommand({
       aiEnabled: enableAI,
       ...(aiProvider ? { aiProvider } : {}),
       ...(aiModel ? { aiModel } : {}),
+      ...(aiEndpoint ? { aiEndpoint } : {}),
       showTips,
-    };
+      ...(workflow === 'trunk' && existingConfig?.trunkPolicy
+        ? { trunkPolicy: existingConfig.trunkPolicy }
+        : {}),
+      ...(workflow === 'custom' && existingConfig?.workflowSpec
+        ? { workflowSpec: existingConfig.workflowSpec }
+        : {}),
+    });
 
     writeConfig(config);
     success(`Config written to ${pc.bold(getConfigLocationLabel())}`);
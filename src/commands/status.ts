@@ -1,9 +1,10 @@
 import { defineCommand } from 'citty';
 import pc from 'picocolors';
 import { readConfig } from '../utils/config.js';
-import { checkGhInstalled, getMergedPRForBranch } from '../utils/gh.js';
+import { getForge } from '../utils/forge.js';
 import {
   fetchAll,
+  getBranchStartDate,
   getCommitHash,
   getCommitSubject,
   getCurrentBranch,
@@ -20,6 +21,9 @@ import { error, projectHeading } from '../utils/logger.js';
 import {
   getBaseBranch,
   getProtectedBranches,
+  getTrunkPolicy,
+  getTrunkPolicyViolations,
+  getWorkflowBranches,
   hasDevBranch,
   WORKFLOW_DESCRIPTIONS,
 } from '../utils/workflow.js';
@@ -69,14 +73,11 @@ export default defineCommand({
     const mainStatus = formatStatus(mainBranch, mainRemote, mainDiv.ahead, mainDiv.behind);
     console.log(mainStatus);
 
-    // Dev/develop branch status (only for workflows with dev branch)
-    if (hasDevBranch(workflow) && config.devBranch) {
-      const devRemoteRef = isContributor
-        ? `${upstream}/${config.devBranch}`
-        : `${origin}/${config.devBranch}`;
-      const devDiv = await getDivergence(config.devBranch, devRemoteRef);
-      const devLine = formatStatus(config.devBranch, devRemoteRef, devDiv.ahead, devDiv.behind);
-      console.log(devLine);
+    // Other long-lived branches (dev/develop, or the branches of a custom workflow)
+    for (const branch of getWorkflowBranches(config).filter((b) => b !== mainBranch)) {
+      const remoteRef = isContributor ? `${upstream}/${branch}` : `${origin}/${branch}`;
+      const div = await getDivergence(branch, remoteRef);
+      console.log(formatStatus(branch, remoteRef, div.ahead, div.behind));
     }
 
     // Current feature branch (if not on a protected branch)
@@ -90,7 +91,7 @@ export default defineCommand({
       console.log(branchLine + pc.dim(` (current ${pc.green('*')})`));
 
       // Merged / stale detection for feature branches
-      branchStatus = await detectBranchStatus(currentBranch, baseBranch);
+      branchStatus = await detectBranchStatus(currentBranch, baseBranch, origin);
 
       if (branchStatus.merged) {
         console.log(
@@ -103,6 +104,27 @@ export default defineCommand({
           `  ${pc.yellow('\u23f3')}  ${pc.yellow('Branch is stale')} \u2014 ${pc.dim(`last commit ${branchStatus.staleDaysAgo} days ago`)}`,
         );
       }
+
+      // Trunk-based: warn when the branch is no longer short-lived
+      const trunkPolicy = getTrunkPolicy(config);
+      if (trunkPolicy && !branchStatus.merged) {
+        const startDate = await getBranchStartDate(currentBranch, baseBranch);
+        const ageDays = startDate
+          ? Math.floor((Date.now() - new Date(startDate).getTime()) / (1000 * 60 * 60 * 24))
+          : null;
+        const violations = getTrunkPolicyViolations(
+          { ageDays, commits: branchDiv.ahead },
+          trunkPolicy,
+        );
+        if (violations.length > 0) {
+          console.log(
+            `  ${pc.yellow('\u26a0')}  ${pc.yellow('Branch is not short-lived')} \u2014 ${pc.dim(violations.join(', '))}`,
+          );
+          console.log(
+            `     ${pc.dim(`Trunk-based branches should land on ${baseBranch} quickly. Run`)} ${pc.bold('cn submit')} ${pc.dim('or split the work.')}`,
+          );
+        }
+      }
     } else if (currentBranch) {
       console.log(pc.dim(`  (on ${pc.bold(currentBranch)} branch)`));
     }
@@ -226,7 +248,11 @@ interface BranchStatus {
   staleDaysAgo: number | null;
 }
 
-async function detectBranchStatus(branch: string, baseBranch: string): Promise<BranchStatus> {
+async function detectBranchStatus(
+  branch: string,
+  baseBranch: string,
+  origin: string,
+): Promise<BranchStatus> {
   const result: BranchStatus = {
     merged: false,
     mergedReason: null,
@@ -265,12 +291,13 @@ async function detectBranchStatus(branch: string, baseBranch: string): Promise<B
     return result;
   }
 
-  // 4. Check if a merged PR exists via gh CLI
-  if (await checkGhInstalled()) {
-    const mergedPR = await getMergedPRForBranch(branch);
+  // 4. Check if a merged PR exists via gh (or glab on GitLab)
+  const forge = await getForge(origin);
+  if (await forge.isInstalled()) {
+    const mergedPR = await forge.getMergedRequest(branch);
     if (mergedPR) {
       result.merged = true;
-      result.mergedReason = `PR #${mergedPR.number} was merged`;
+      result.mergedReason = `${forge.formatRequest(mergedPR.number)} was merged`;
       return result;
     }
   }
@@ -1,34 +1,30 @@
 import { defineCommand } from 'citty';
 import pc from 'picocolors';
-import type { CommitConvention } from '../types.js';
+import type { ContributeConfig } from '../types.js';
 import { promptForBranchName } from '../utils/branchPrompt.js';
 import { isAIEnabled, readConfig } from '../utils/config.js';
 import { inputPrompt, selectPrompt } from '../utils/confirm.js';
+import { type ConventionRules, resolveConventionRules } from '../utils/convention.js';
 import {
   checkCopilotAvailable,
   generateCommitMessage,
   generatePRDescription,
 } from '../utils/copilot.js';
-import {
-  checkGhAuth,
-  checkGhInstalled,
-  createPR,
-  createPRFill,
-  getMergedPRForBranch,
-  getPRForBranch,
-} from '../utils/gh.js';
+import { type Forge, fillRequestFromCommits, getForge } from '../utils/forge.js';
 import {
   assertCleanGitState,
   branchExists,
   checkoutBranch,
   commitWithMessage,
   createBranch,
+  deleteBranch,
   deleteRemoteBranch,
   determineRebaseStrategy,
   fetchAll,
   fetchRemote,
   forceDeleteBranch,
   getCommitHash,
+  getCommitMessages,
   getCurrentBranch,
   getLog,
   getLogDiff,
@@ -38,10 +34,15 @@ import {
   hasLocalWork,
   hasUncommittedChanges,
   isGitRepo,
+  mergeAbort,
+  mergeFastForwardOnly,
+  mergeNoFastForward,
   mergeSquash,
+  pullFastForwardOnly,
   pushBranch,
   pushSetUpstream,
   rebase,
+  rebaseAbort,
   rebaseOnto,
   renameBranch,
   resetHard,
@@ -49,10 +50,28 @@ import {
   updateLocalBranch,
 } from '../utils/git.js';
 import { error, info, projectHeading, success, warn } from '../utils/logger.js';
-import { getRepoInfoFromRemote } from '../utils/remote.js';
-import { createSpinner } from '../utils/spinner.js';
+import { generateOfflineCommitMessage } from '../utils/offlineCommit.js';
+import {
+  appendClosingReferences,
+  findIssueReferences,
+  formatPRMetadata,
+  getTypeLabels,
+  type PRMetadata,
+  resolvePRMetadata,
+} from '../utils/prMetadata.js';
+import { findPRTemplates, type PRTemplate, prefillPRTemplate } from '../utils/prTemplate.js';
+import { noteRedactions } from '../utils/redact.js';
+import { hasHighSeverityFindings } from '../utils/review.js';
+import { createSpinner, streamIntoSpinner } from '../utils/spinner.js';
 import { LOADING_TIPS } from '../utils/tips.js';
-import { getBaseBranch, getProtectedBranches, getSyncSource } from '../utils/workflow.js';
+import {
+  getBaseBranch,
+  getLocalMergeStrategy,
+  getProtectedBranches,
+  getSyncSource,
+  getTargetBranch,
+} from '../utils/workflow.js';
+import { reviewCurrentBranch } from './review.js';
 
 /**
  * Squash-merge a feature branch into the base branch locally, push,
@@ -65,7 +84,7 @@ async function performSquashMerge(
   options?: {
     defaultMsg?: string;
     model?: string;
-    convention?: CommitConvention;
+    convention?: ConventionRules;
     useAI?: boolean;
   },
 ): Promise<void> {
@@ -103,6 +122,7 @@ async function performSquashMerge(
           options?.model,
           options?.convention ?? 'clean-commit',
           'squash-merge',
+          { onRedaction: noteRedactions(spinner), ...streamIntoSpinner(spinner) },
         );
         if (aiMsg) {
           message = aiMsg;
@@ -160,6 +180,7 @@ async function performSquashMerge(
           options?.model,
           options?.convention ?? 'clean-commit',
           'squash-merge',
+          { fresh: true, onRedaction: noteRedactions(spinner), ...streamIntoSpinner(spinner) },
         );
         if (regen) {
           message = regen;
@@ -174,7 +195,13 @@ async function performSquashMerge(
       }
     }
   } else {
-    finalMsg = await inputPrompt('Commit message', `squash merge ${featureBranch}`);
+    const [stagedDiff, stagedFiles] = await Promise.all([getStagedDiff(), getStagedFiles()]);
+    const suggestion = generateOfflineCommitMessage(
+      stagedDiff,
+      stagedFiles,
+      options?.convention ?? 'clean-commit',
+    );
+    finalMsg = await inputPrompt('Commit message', suggestion);
   }
 
   const commitResult = await commitWithMessage(finalMsg);
@@ -213,6 +240,151 @@ async function performSquashMerge(
   info(`Run ${pc.bold('cn start')} to begin a new feature.`, '');
 }
 
+/**
+ * Land a feature branch on the base branch without squashing, push, and clean
+ * up the feature branch (local + remote).
+ *
+ * - rebase: rebase onto the latest base, then fast-forward (linear history, used by trunk)
+ * - merge: record an explicit --no-ff merge commit (custom workflows can opt in per target)
+ */
+async function performHistoryMerge(
+  origin: string,
+  baseBranch: string,
+  featureBranch: string,
+  strategy: 'rebase' | 'merge',
+): Promise<void> {
+  const remoteBaseRef = `${origin}/${baseBranch}`;
+
+  // 1. Rebase feature branch onto the latest remote base
+  await fetchRemote(origin);
+  if (strategy === 'rebase' && (await branchExists(remoteBaseRef))) {
+    info(`Rebasing ${pc.bold(featureBranch)} onto ${pc.bold(remoteBaseRef)}...`);
+    const rebaseResult = await rebase(remoteBaseRef);
+    if (rebaseResult.exitCode !== 0) {
+      await rebaseAbort();
+      error(`Rebase onto ${remoteBaseRef} hit conflicts and was aborted.`);
+      info(`Run ${pc.bold('cn update')} to resolve them, then submit again.`, '');
+      process.exit(1);
+    }
+  }
+
+  // 2. Checkout base branch and bring it up to date
+  info(`Checking out ${pc.bold(baseBranch)}...`);
+  const coResult = await checkoutBranch(baseBranch);
+  if (coResult.exitCode !== 0) {
+    error(`Failed to checkout ${baseBranch}: ${coResult.stderr}`);
+    process.exit(1);
+  }
+
+  if (await branchExists(remoteBaseRef)) {
+    const pullResult = await pullFastForwardOnly(origin, baseBranch);
+    if (pullResult.exitCode !== 0) {
+      error(`Local ${baseBranch} has diverged from ${remoteBaseRef}: ${pullResult.stderr}`);
+      process.exit(1);
+    }
+  }
+
+  // 3. Fast-forward base to the rebased feature branch, or record a merge commit
+  let mergeResult: Awaited<ReturnType<typeof mergeFastForwardOnly>>;
+  if (strategy === 'rebase') {
+    info(`Fast-forwarding ${pc.bold(baseBranch)} to ${pc.bold(featureBranch)}...`);
+    mergeResult = await mergeFastForwardOnly(featureBranch);
+  } else {
+    info(`Merging ${pc.bold(featureBranch)} into ${pc.bold(baseBranch)}...`);
+    mergeResult = await mergeNoFastForward(featureBranch);
+  }
+  if (mergeResult.exitCode !== 0) {
+    error(`${strategy === 'rebase' ? 'Fast-forward' : 'Merge'} failed: ${mergeResult.stderr}`);
+    if (strategy === 'merge') await mergeAbort();
+    await checkoutBranch(featureBranch);
+    process.exit(1);
+  }
+
+  // 4. Push base branch
+  info(`Pushing ${pc.bold(baseBranch)} to ${origin}...`);
+  const pushResult = await pushBranch(origin, baseBranch);
+  if (pushResult.exitCode !== 0) {
+    error(`Failed to push ${baseBranch}: ${pushResult.stderr}`);
+    process.exit(1);
+  }
+
+  // 5. Delete feature branch locally (fully merged, so a safe delete is enough)
+  info(`Deleting local branch ${pc.bold(featureBranch)}...`);
+  const delLocal = await deleteBranch(featureBranch);
+  if (delLocal.exitCode !== 0) {
+    warn(`Could not delete local branch: ${delLocal.stderr.trim()}`);
+  }
+
+  // 6. Delete feature branch remotely (only if it exists on the remote)
+  const remoteBranchRef = `${origin}/${featureBranch}`;
+  if (await branchExists(remoteBranchRef)) {
+    info(`Deleting remote branch ${pc.bold(featureBranch)}...`);
+    const delRemote = await deleteRemoteBranch(origin, featureBranch);
+    if (delRemote.exitCode !== 0) {
+      warn(`Could not delete remote branch: ${delRemote.stderr.trim()}`);
+    }
+  }
+
+  success(
+    strategy === 'rebase'
+      ? `Rebased and fast-forwarded ${pc.bold(featureBranch)} into ${pc.bold(baseBranch)}.`
+      : `Merged ${pc.bold(featureBranch)} into ${pc.bold(baseBranch)} and pushed.`,
+  );
+  info(`Run ${pc.bold('cn start')} to begin a new feature.`, '');
+}
+
+/**
+ * The repo's PR template to fill, if it has any. With several (a
+ * `PULL_REQUEST_TEMPLATE/` directory), the user picks one or none.
+ */
+async function choosePRTemplate(): Promise<PRTemplate | null> {
+  const templates = findPRTemplates();
+  if (templates.length === 0) return null;
+  if (templates.length === 1) {
+    info(`Using the PR template ${pc.bold(templates[0].path)}`, '');
+    return templates[0];
+  }
+  const NO_TEMPLATE = 'No template';
+  const choice = await selectPrompt('Which PR template should be filled?', [
+    ...templates.map((template) => template.path),
+    NO_TEMPLATE,
+  ]);
+  return templates.find((template) => template.path === choice) ?? null;
+}
+
+/**
+ * Reviewers, labels, assignees, milestone, and project for the new PR: the
+ * flags on top of the `pullRequest` defaults in the config, plus a label for
+ * each commit type on the branch that exists in the repo.
+ */
+async function resolveSubmitMetadata(
+  forge: Forge,
+  config: ContributeConfig,
+  flags: Partial<Record<keyof PRMetadata, string>>,
+  messages: string[],
+): Promise<PRMetadata> {
+  const typeLabels = getTypeLabels(
+    messages,
+    resolveConventionRules(config),
+    config.pullRequest?.typeLabels,
+  );
+  // Only labels the repo has: gh refuses to open a PR with an unknown label
+  const repoLabels = typeLabels.length > 0 ? await forge.listLabels() : null;
+  const metadata = resolvePRMetadata(
+    flags,
+    config.pullRequest,
+    typeLabels.filter((label) => repoLabels?.includes(label)),
+  );
+
+  if (metadata.project && !forge.supportsProject) {
+    warn(
+      `Adding a ${forge.requestName} to a project is not supported through the ${forge.client}. Skipping "${metadata.project}".`,
+    );
+    metadata.project = undefined;
+  }
+  return metadata;
+}
+
 export default defineCommand({
   meta: {
     name: 'submit',
@@ -233,7 +405,8 @@ export default defineCommand({
     local: {
       type: 'boolean',
       alias: 'l',
-      description: 'Squash merge locally without PR (maintainers only)',
+      description:
+        'Merge locally without PR (maintainers only; squash, or rebase + fast-forward in trunk)',
       default: false,
     },
     'no-ai': {
@@ -245,6 +418,31 @@ export default defineCommand({
       type: 'string',
       description: 'AI model to use for PR description generation',
     },
+    review: {
+      type: 'boolean',
+      description: 'Run an AI review of the branch before pushing',
+      default: false,
+    },
+    reviewer: {
+      type: 'string',
+      description: 'Request reviews from these users or org/team (comma-separated)',
+    },
+    label: {
+      type: 'string',
+      description: 'Add these labels (comma-separated)',
+    },
+    assignee: {
+      type: 'string',
+      description: 'Assign these users (comma-separated; @me for yourself)',
+    },
+    milestone: {
+      type: 'string',
+      description: 'Add the PR to this milestone',
+    },
+    project: {
+      type: 'string',
+      description: 'Add the PR to this project (GitHub through gh only)',
+    },
   },
   async run({ args }) {
     if (!(await isGitRepo())) {
@@ -262,8 +460,10 @@ export default defineCommand({
     }
 
     const { origin } = config;
+    const forge = await getForge(origin);
     const aiEnabled = isAIEnabled(config, args['no-ai']);
     const baseBranch = getBaseBranch(config);
+    const targetBranch = getTargetBranch(config);
     const protectedBranches = getProtectedBranches(config);
     const currentBranch = await getCurrentBranch();
 
@@ -345,20 +545,22 @@ export default defineCommand({
 
       console.log();
       success(`You're now on ${pc.bold(newBranchName)} with all your work intact.`);
-      info(`Run ${pc.bold('cn submit')} again to push and create your PR.`, '');
+      info(`Run ${pc.bold('cn submit')} again to push and create your ${forge.requestName}.`, '');
       return;
     }
 
     await projectHeading('submit', '🚀');
 
     // 2a. Check if PR for this branch was already merged (before pushing)
-    const ghInstalled = await checkGhInstalled();
-    const ghAuthed = ghInstalled && (await checkGhAuth());
+    const cliInstalled = await forge.isInstalled();
+    const cliAuthed = cliInstalled && (await forge.isAuthenticated());
 
-    if (ghInstalled && ghAuthed) {
-      const mergedPR = await getMergedPRForBranch(currentBranch);
+    if (cliInstalled && cliAuthed) {
+      const mergedPR = await forge.getMergedRequest(currentBranch);
       if (mergedPR) {
-        warn(`PR #${mergedPR.number} (${pc.bold(mergedPR.title)}) was already merged.`);
+        warn(
+          `${forge.formatRequest(mergedPR.number)} (${pc.bold(mergedPR.title)}) was already merged.`,
+        );
 
         // Check if user has local work that would be lost
         const localWork = await hasLocalWork(origin, currentBranch);
@@ -371,7 +573,7 @@ export default defineCommand({
           }
           if (localWork.unpushedCommits > 0) {
             warn(
-              `You have ${pc.bold(String(localWork.unpushedCommits))} local commit${localWork.unpushedCommits !== 1 ? 's' : ''} not in the merged PR.`,
+              `You have ${pc.bold(String(localWork.unpushedCommits))} local commit${localWork.unpushedCommits !== 1 ? 's' : ''} not in the merged ${forge.requestName}.`,
             );
           }
 
@@ -443,7 +645,7 @@ export default defineCommand({
             }
 
             info(
-              `All your changes are preserved. Run ${pc.bold('cn submit')} when ready to create a new PR.`,
+              `All your changes are preserved. Run ${pc.bold('cn submit')} when ready to create a new ${forge.requestName}.`,
               '',
             );
             return;
@@ -483,13 +685,53 @@ export default defineCommand({
       }
     }
 
+    // 2a'. Optional AI review of the branch, before anything is pushed
+    if (args.review || config.aiReview?.onSubmit) {
+      if (!aiEnabled) {
+        warn('Skipping the AI review because AI is disabled.');
+      } else {
+        const review = await reviewCurrentBranch(config, args.model);
+        const incomplete = !review || review.unreviewed.length > 0;
+        if (review && hasHighSeverityFindings(review.findings) && config.aiReview?.blockOnHigh) {
+          error(
+            `Submit aborted: the AI review has high-severity findings. Fix them, then run ${pc.bold('cn review')} to check again.`,
+          );
+          process.exit(1);
+        }
+        if (incomplete && config.aiReview?.blockOnHigh) {
+          warn(
+            review
+              ? 'The AI review is incomplete, so the branch was not fully checked.'
+              : 'The AI review could not run, so the branch was not checked.',
+          );
+          const action = await selectPrompt('Submit without a complete review?', [
+            'Submit anyway',
+            'Cancel',
+          ]);
+          if (action === 'Cancel') {
+            warn('Submit cancelled. Nothing was pushed.');
+            return;
+          }
+        } else if (review && hasHighSeverityFindings(review.findings)) {
+          const action = await selectPrompt(
+            'The AI review has high-severity findings. What would you like to do?',
+            ['Submit anyway', 'Cancel'],
+          );
+          if (action === 'Cancel') {
+            warn('Submit cancelled. Nothing was pushed.');
+            return;
+          }
+        }
+      }
+    }
+
     // ─── Phase 1: Collect PR information ─────────────────────────────
 
     // 2b. Check if an open PR already exists for this branch — just push and report.
     // This must happen BEFORE AI description generation and action prompts.
     // Otherwise the user gets walked through creating a new PR only to discover one already exists.
-    if (ghInstalled && ghAuthed) {
-      const existingPR = await getPRForBranch(currentBranch);
+    if (cliInstalled && cliAuthed) {
+      const existingPR = await forge.getOpenRequest(currentBranch);
       if (existingPR) {
         info(`Pushing ${pc.bold(currentBranch)} to ${origin}...`);
         const pushResult = await pushSetUpstream(origin, currentBranch);
@@ -506,7 +748,7 @@ export default defineCommand({
           process.exit(1);
         }
         success(
-          `Pushed changes to existing PR #${existingPR.number}: ${pc.bold(existingPR.title)}`,
+          `Pushed changes to existing ${forge.formatRequest(existingPR.number)}: ${pc.bold(existingPR.title)}`,
         );
         console.log(`  ${pc.cyan(existingPR.url)}`);
         return;
@@ -517,12 +759,12 @@ export default defineCommand({
     let prTitle: string | null = null;
     let prBody: string | null = null;
 
-    // Helper: attempt AI PR description generation
-    async function tryGenerateAI(): Promise<void> {
+    // Helper: attempt AI PR description generation (fresh skips the response cache)
+    async function tryGenerateAI(fresh = false): Promise<void> {
       const [copilotError, commits, diff] = await Promise.all([
         checkCopilotAvailable(),
-        getLog(baseBranch, 'HEAD'),
-        getLogDiff(baseBranch, 'HEAD'),
+        getLog(targetBranch, 'HEAD'),
+        getLogDiff(targetBranch, 'HEAD'),
       ]);
       if (!copilotError) {
         const spinner = createSpinner('Generating AI PR description...', {
@@ -532,7 +774,13 @@ export default defineCommand({
           commits,
           diff,
           args.model,
-          config.commitConvention,
+          resolveConventionRules(config),
+          {
+            fresh,
+            template: prTemplate?.content,
+            onRedaction: noteRedactions(spinner),
+            ...streamIntoSpinner(spinner),
+          },
         );
         if (result) {
           prTitle = result.title;
@@ -551,7 +799,12 @@ export default defineCommand({
 
     // 2c. Action selection (loop to allow AI regeneration)
     const CANCEL = 'Cancel';
-    const SQUASH_LOCAL = `Squash merge to ${baseBranch} locally (no PR)`;
+    const localStrategy = getLocalMergeStrategy(config, targetBranch);
+    const MERGE_LOCAL = {
+      squash: `Squash merge to ${targetBranch} locally (no PR)`,
+      rebase: `Rebase and fast-forward ${targetBranch} locally (no PR)`,
+      merge: `Merge into ${targetBranch} locally (no PR)`,
+    }[localStrategy];
     const REGENERATE = 'Regenerate AI description';
 
     // Tracks what the user decided to do
@@ -562,7 +815,7 @@ export default defineCommand({
 
     if (args.pullrequest && args.local) {
       error(
-        'Use only one submit mode flag at a time: --pullrequest/--pr/-pr or -l for local squash merge.',
+        'Use only one submit mode flag at a time: --pullrequest/--pr/-pr or -l for local merge.',
       );
       process.exit(1);
     }
@@ -572,38 +825,47 @@ export default defineCommand({
       process.exit(1);
     }
 
-    // For maintainers, ask the merge strategy first to avoid wasting tokens on
-    // AI PR description generation when a local squash merge is preferred.
-    if (args.local) {
-      await performSquashMerge(origin, baseBranch, currentBranch, {
+    const performLocalMerge = async () => {
+      if (localStrategy !== 'squash') {
+        await performHistoryMerge(origin, targetBranch, currentBranch, localStrategy);
+        return;
+      }
+      await performSquashMerge(origin, targetBranch, currentBranch, {
         model: args.model,
-        convention: config.commitConvention,
+        convention: resolveConventionRules(config),
         useAI: aiEnabled,
       });
+    };
+
+    // For maintainers, ask the merge strategy first to avoid wasting tokens on
+    // AI PR description generation when a local merge is preferred.
+    if (args.local) {
+      await performLocalMerge();
       return;
     }
 
     if (isMaintainer && !args.pullrequest) {
       const maintainerChoice = await selectPrompt('How would you like to submit your changes?', [
         'Create a PR',
-        SQUASH_LOCAL,
+        MERGE_LOCAL,
         CANCEL,
       ]);
       if (maintainerChoice === CANCEL) {
         warn('Submit cancelled.');
         return;
       }
-      if (maintainerChoice === SQUASH_LOCAL) {
-        await performSquashMerge(origin, baseBranch, currentBranch, {
-          model: args.model,
-          convention: config.commitConvention,
-          useAI: aiEnabled,
-        });
+      if (maintainerChoice === MERGE_LOCAL) {
+        await performLocalMerge();
         return;
       }
       // else: maintainer chose PR — fall through to AI generation + PR flow
     }
 
+    const prTemplate = await choosePRTemplate();
+    const FILL = prTemplate
+      ? 'Fill the PR template from commits'
+      : 'Use gh --fill (auto-fill from commits)';
+
     if (aiEnabled) {
       await tryGenerateAI();
     }
@@ -615,7 +877,7 @@ export default defineCommand({
           'Use AI description',
           'Edit title',
           'Write manually',
-          'Use gh --fill (auto-fill from commits)',
+          FILL,
           REGENERATE,
           CANCEL,
         ]);
@@ -626,18 +888,18 @@ export default defineCommand({
         } else if (action === REGENERATE) {
           prTitle = null;
           prBody = null;
-          await tryGenerateAI();
+          await tryGenerateAI(true);
           // loop again
         } else if (action === 'Use AI description') {
           submitAction = 'create-pr';
           actionResolved = true;
         } else if (action === 'Edit title') {
-          prTitle = await inputPrompt('PR title', prTitle);
+          prTitle = await inputPrompt(`${forge.requestName} title`, prTitle);
           submitAction = 'create-pr';
           actionResolved = true;
         } else if (action === 'Write manually') {
-          prTitle = await inputPrompt('PR title');
-          prBody = await inputPrompt('PR body (markdown)');
+          prTitle = await inputPrompt(`${forge.requestName} title`);
+          prBody = await inputPrompt(`${forge.requestName} body (markdown)`);
           submitAction = 'create-pr';
           actionResolved = true;
         } else {
@@ -648,11 +910,7 @@ export default defineCommand({
       } else {
         const choices: string[] = [];
         if (aiEnabled) choices.push(REGENERATE);
-        choices.push(
-          'Write title & body manually',
-          'Use gh --fill (auto-fill from commits)',
-          CANCEL,
-        );
+        choices.push('Write title & body manually', FILL, CANCEL);
 
         const action = await selectPrompt('How would you like to create the PR?', choices);
 
@@ -660,11 +918,11 @@ export default defineCommand({
           submitAction = 'cancel';
           actionResolved = true;
         } else if (action === REGENERATE) {
-          await tryGenerateAI();
+          await tryGenerateAI(true);
           // loop again
         } else if (action === 'Write title & body manually') {
-          prTitle = await inputPrompt('PR title');
-          prBody = await inputPrompt('PR body (markdown)');
+          prTitle = await inputPrompt(`${forge.requestName} title`);
+          prBody = await inputPrompt(`${forge.requestName} body (markdown)`);
           submitAction = 'create-pr';
           actionResolved = true;
         } else {
@@ -701,49 +959,85 @@ export default defineCommand({
       process.exit(1);
     }
 
-    // If gh CLI is not available, print manual PR URL
-    if (!ghInstalled || !ghAuthed) {
-      const repoInfo = await getRepoInfoFromRemote(origin);
-      if (repoInfo) {
-        const prUrl = `https://github.com/${repoInfo.owner}/${repoInfo.repo}/compare/${baseBranch}...${currentBranch}?expand=1`;
+    // If the forge client (gh, glab, or a Gitea token) is not available, print the manual PR URL
+    if (!cliInstalled || !cliAuthed) {
+      const prUrl = forge.getNewRequestUrl(targetBranch, currentBranch);
+      if (prUrl) {
         console.log();
-        info('Create your PR manually:', '');
+        info(`Create your ${forge.requestName} manually:`, '');
         console.log(`  ${pc.cyan(prUrl)}`);
       } else {
-        info('gh CLI not available. Create your PR manually on GitHub.', '');
+        info(
+          `${forge.client} not available. Create your ${forge.requestName} manually on ${forge.label}.`,
+          '',
+        );
       }
       return;
     }
 
+    const branchMessages = (await getCommitMessages(targetBranch, 'HEAD')).map(
+      (commit) => commit.message,
+    );
+    const prMetadata = await resolveSubmitMetadata(
+      forge,
+      config,
+      {
+        reviewers: args.reviewer,
+        labels: args.label,
+        assignees: args.assignee,
+        milestone: args.milestone,
+        project: args.project,
+      },
+      branchMessages,
+    );
+    const linkedIssues =
+      config.pullRequest?.linkIssues === false
+        ? []
+        : findIssueReferences(currentBranch, branchMessages);
+    const metadataSummary = formatPRMetadata(prMetadata, linkedIssues);
+    if (metadataSummary) info(pc.dim(metadataSummary), '');
+
     // Create the PR
-    if (submitAction === 'fill') {
-      const fillResult = await createPRFill(baseBranch, args.draft);
+    if (submitAction === 'fill' && linkedIssues.length === 0 && !prTemplate) {
+      const fillResult = await forge.createRequestFill(targetBranch, args.draft, prMetadata);
       if (fillResult.exitCode !== 0) {
-        error(`Failed to create PR: ${fillResult.stderr}`);
+        error(`Failed to create ${forge.requestName}: ${fillResult.stderr}`);
         process.exit(1);
       }
-      success(`PR created: ${fillResult.stdout.trim()}`);
+      success(`${forge.requestName} created: ${fillResult.stdout.trim()}`);
+      for (const message of fillResult.warnings ?? []) warn(message);
       return;
     }
 
+    // The CLIs' own fill can't take a template or extra body lines, so fill from the commits here
+    if (submitAction === 'fill') {
+      const filled = await fillRequestFromCommits(targetBranch);
+      prTitle = filled.title;
+      prBody = prTemplate
+        ? prefillPRTemplate(prTemplate.content, filled.body || filled.title)
+        : filled.body;
+    }
+
     // submitAction === 'create-pr'
     if (!prTitle) {
-      error('No PR title provided.');
+      error(`No ${forge.requestName} title provided.`);
       process.exit(1);
     }
 
-    const prResult = await createPR({
-      base: baseBranch,
+    const prResult = await forge.createRequest({
+      base: targetBranch,
       title: prTitle,
-      body: prBody ?? '',
+      body: appendClosingReferences(prBody ?? '', linkedIssues),
       draft: args.draft,
+      metadata: prMetadata,
     });
 
     if (prResult.exitCode !== 0) {
-      error(`Failed to create PR: ${prResult.stderr}`);
+      error(`Failed to create ${forge.requestName}: ${prResult.stderr}`);
       process.exit(1);
     }
 
-    success(`PR created: ${prResult.stdout.trim()}`);
+    success(`${forge.requestName} created: ${prResult.stdout.trim()}`);
+    for (const message of prResult.warnings ?? []) warn(message);
   },
 });
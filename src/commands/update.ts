@@ -5,7 +5,7 @@ import { promptForBranchName } from '../utils/branchPrompt.js';
 import { isAIEnabled, readConfig } from '../utils/config.js';
 import { confirmPrompt, selectPrompt } from '../utils/confirm.js';
 import { suggestConflictResolution } from '../utils/copilot.js';
-import { getMergedPRForBranch } from '../utils/gh.js';
+import { getForge } from '../utils/forge.js';
 import {
   assertCleanGitState,
   checkoutBranch,
@@ -31,7 +31,8 @@ import {
   updateLocalBranch,
 } from '../utils/git.js';
 import { error, info, projectHeading, success, warn } from '../utils/logger.js';
-import { createSpinner } from '../utils/spinner.js';
+import { noteRedactions } from '../utils/redact.js';
+import { createSpinner, streamIntoSpinner } from '../utils/spinner.js';
 import { LOADING_TIPS } from '../utils/tips.js';
 import { getBaseBranch, getProtectedBranches, getSyncSource } from '../utils/workflow.js';
 
@@ -173,9 +174,12 @@ export default defineCommand({
     await projectHeading('update', '🔃');
 
     // 3. Check if the branch's PR has already been merged (stale branch)
-    const mergedPR = await getMergedPRForBranch(currentBranch);
+    const forge = await getForge(config.origin);
+    const mergedPR = await forge.getMergedRequest(currentBranch);
     if (mergedPR) {
-      warn(`PR #${mergedPR.number} (${pc.bold(mergedPR.title)}) has already been merged.`);
+      warn(
+        `${forge.formatRequest(mergedPR.number)} (${pc.bold(mergedPR.title)}) has already been merged.`,
+      );
       info(`Link: ${pc.underline(mergedPR.url)}`, '');
 
       // Compare against the sync/base ref, not the old remote branch name.
@@ -354,7 +358,10 @@ export default defineCommand({
             const spinner = createSpinner('Analyzing conflicts with AI...', {
               tips: LOADING_TIPS,
             });
-            const suggestion = await suggestConflictResolution(conflictDiff, args.model);
+            const suggestion = await suggestConflictResolution(conflictDiff, args.model, {
+              onRedaction: noteRedactions(spinner),
+              ...streamIntoSpinner(spinner),
+            });
             if (suggestion) {
               spinner.success('AI conflict guidance ready.');
               console.log(`\n${pc.bold('💡 AI Conflict Resolution Guidance:')}`);
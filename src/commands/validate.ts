@@ -1,13 +1,32 @@
 import { readFileSync } from 'node:fs';
 import { defineCommand } from 'citty';
 import pc from 'picocolors';
+import type { ContributeConfig } from '../types.js';
+import {
+  findCommitlintConfig,
+  isCommitlintLoadError,
+  readCommitlintConfig,
+} from '../utils/commitlint.js';
+import {
+  type CommitValidationResult,
+  formatGitHubAnnotations,
+  parseCommitRange,
+  RANGE_OUTPUT_FORMATS,
+  type RangeOutputFormat,
+  validateCommits,
+} from '../utils/commitRange.js';
 import { readConfig } from '../utils/config.js';
 import {
-  CONVENTION_LABELS,
+  type ConventionRules,
+  formatCommitMessageProblem,
+  getConventionLabel,
   getValidationError,
+  resolveConventionRules,
   validateCommitMessage,
 } from '../utils/convention.js';
-import { error, info, projectHeading, success } from '../utils/logger.js';
+import { getCommitMessages, isGitRepo, refExists } from '../utils/git.js';
+import { error, info, projectHeading, success, warn } from '../utils/logger.js';
+import { getBaseBranch } from '../utils/workflow.js';
 
 export default defineCommand({
   meta: {
@@ -22,7 +41,17 @@ export default defineCommand({
     },
     file: {
       type: 'string',
-      description: 'Path to a commit message file; only the first line is validated',
+      description: 'Path to a commit message file; the whole message is validated',
+    },
+    range: {
+      type: 'string',
+      description:
+        'Validate every commit in <base>..<head> (default: the base branch against HEAD)',
+    },
+    format: {
+      type: 'string',
+      description: 'Output format for --range: text, json, or github',
+      default: 'text',
     },
   },
   async run({ args }) {
@@ -32,17 +61,46 @@ export default defineCommand({
       process.exit(1);
     }
 
-    await projectHeading('validate', '✅');
+    const format = args.format as RangeOutputFormat;
+    if (!RANGE_OUTPUT_FORMATS.includes(format)) {
+      error(`Invalid --format "${args.format}". Use one of: ${RANGE_OUTPUT_FORMATS.join(', ')}.`);
+      process.exit(1);
+    }
+    // JSON and annotation output are parsed by CI, so keep stdout free of banners
+    const quiet = args.range !== undefined && format !== 'text';
+
+    if (!quiet) {
+      await projectHeading('validate', '✅');
+    }
+
+    if (config.commitConvention === 'commitlint') {
+      const commitlint = readCommitlintConfig();
+      if (!commitlint) {
+        error('Commit convention is "commitlint" but no commitlint config was found.');
+        process.exit(1);
+      }
+      if (isCommitlintLoadError(commitlint)) {
+        error(`Could not read ${commitlint.source}: ${commitlint.error}`);
+        process.exit(1);
+      }
+    } else if (!quiet && findCommitlintConfig()) {
+      warn(
+        'This repo has a commitlint config. Run `cn config --edit` and choose commitlint to validate with its rules.',
+      );
+    }
+
+    const convention = resolveConventionRules(config);
+    if (args.range !== undefined) {
+      await validateRange(config, convention, args.range, format);
+      return;
+    }
 
-    const convention = config.commitConvention;
     if (convention === 'none') {
       info('Commit convention is set to "none". All messages are accepted.');
       process.exit(0);
     }
 
-    const message = args.file
-      ? (readFileSync(args.file, 'utf-8').split(/\r?\n/, 1)[0] ?? '')
-      : args.message;
+    const message = args.file ? readFileSync(args.file, 'utf-8') : args.message;
 
     if (!message) {
       error('No commit message provided. Pass a message or use --file <path>.');
@@ -50,15 +108,127 @@ export default defineCommand({
     }
 
     if (validateCommitMessage(message, convention)) {
-      success(`Valid ${CONVENTION_LABELS[convention]} message.`);
+      success(`Valid ${getConventionLabel(convention)} message.`);
       process.exit(0);
     }
 
     // Validation failed
-    const errors = getValidationError(convention);
+    const errors = getValidationError(convention, message);
     for (const line of errors) {
       console.error(pc.red(`  ✗ ${line}`));
     }
     process.exit(1);
   },
 });
+
+// ── Commit ranges ────────────────────────────────────────────────────
+
+/**
+ * Resolve the default range base: the configured base branch, or its remote
+ * copy when CI only has the remote-tracking ref.
+ */
+async function resolveDefaultBase(config: ContributeConfig): Promise<string | null> {
+  const base = getBaseBranch(config);
+  const remotes =
+    config.role === 'contributor' ? [config.upstream, config.origin] : [config.origin];
+  for (const ref of [base, ...remotes.map((remote) => `${remote}/${base}`)]) {
+    if (await refExists(ref)) return ref;
+  }
+  return null;
+}
+
+async function validateRange(
+  config: ContributeConfig,
+  convention: ConventionRules,
+  rangeArg: string,
+  format: RangeOutputFormat,
+): Promise<void> {
+  if (!(await isGitRepo())) {
+    error('Not inside a git repository.');
+    process.exit(1);
+  }
+
+  let range = rangeArg.trim();
+  if (!range) {
+    const base = await resolveDefaultBase(config);
+    if (!base) {
+      error(`Base branch "${getBaseBranch(config)}" not found. Pass --range <base>..<head>.`);
+      process.exit(1);
+    }
+    range = `${base}..HEAD`;
+  }
+
+  const refs = parseCommitRange(range);
+  if (!refs) {
+    error(`Invalid range "${range}". Use <base>..<head>, e.g. main..HEAD.`);
+    process.exit(1);
+  }
+  for (const ref of [refs.base, refs.head]) {
+    if (!(await refExists(ref))) {
+      error(`Ref "${ref}" not found. Fetch it first (CI checkouts are often shallow).`);
+      process.exit(1);
+    }
+  }
+
+  const results = validateCommits(await getCommitMessages(refs.base, refs.head), convention);
+  const failed = results.filter((result) => result.problems.length > 0);
+  const label = getConventionLabel(convention);
+
+  if (format === 'json') {
+    console.log(
+      JSON.stringify(
+        {
+          range: `${refs.base}..${refs.head}`,
+          convention: label,
+          valid: failed.length === 0,
+          commits: results.map((result) => ({
+            ...result,
+            valid: result.problems.length === 0,
+          })),
+        },
+        null,
+        2,
+      ),
+    );
+  } else if (format === 'github') {
+    for (const line of formatGitHubAnnotations(results)) {
+      console.log(line);
+    }
+  } else {
+    printRangeReport(results, `${refs.base}..${refs.head}`, label);
+  }
+
+  process.exit(failed.length > 0 ? 1 : 0);
+}
+
+function printRangeReport(results: CommitValidationResult[], range: string, label: string): void {
+  if (results.length === 0) {
+    info(`No commits in ${pc.bold(range)}.`);
+    return;
+  }
+
+  for (const { hash, subject, skipped, problems } of results) {
+    const short = pc.yellow(hash.slice(0, 7));
+    if (skipped) {
+      console.log(`  ${pc.dim('–')} ${short} ${pc.dim(`${subject} (skipped)`)}`);
+    } else if (problems.length === 0) {
+      console.log(`  ${pc.green('✔')} ${short} ${subject}`);
+    } else {
+      console.log(`  ${pc.red('✗')} ${short} ${subject}`);
+      for (const problem of problems) {
+        console.log(`      ${pc.red(formatCommitMessageProblem(problem))}`);
+      }
+    }
+  }
+  console.log();
+
+  const checked = results.filter((result) => !result.skipped).length;
+  const failed = results.filter((result) => result.problems.length > 0).length;
+  if (failed === 0) {
+    success(`All ${checked} checked commit${checked !== 1 ? 's' : ''} follow ${label}.`);
+  } else {
+    error(
+      `${failed} of ${checked} checked commit${checked !== 1 ? 's' : ''} do not follow ${label}.`,
+    );
+  }
+}
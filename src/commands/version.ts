@@ -0,0 +1,239 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { defineCommand } from 'citty';
+import pc from 'picocolors';
+import { type ChangelogEntry, parseChangelogEntry } from '../utils/changelog.js';
+import { readConfig } from '../utils/config.js';
+import { confirmPrompt } from '../utils/confirm.js';
+import { getReleaseCommitMessage, resolveConventionRules } from '../utils/convention.js';
+import {
+  assertCleanGitState,
+  commitWithMessage,
+  createAnnotatedTag,
+  getCommitMessages,
+  getCurrentBranch,
+  getMergedTags,
+  hasUncommittedChanges,
+  isGitRepo,
+  pushBranch,
+  pushTag,
+  stageFiles,
+  tagExists,
+} from '../utils/git.js';
+import { error, info, projectHeading, success, warn } from '../utils/logger.js';
+import {
+  formatSemver,
+  getLatestSemverTag,
+  getNextVersion,
+  getVersionBump,
+  setPackageVersion,
+  VERSION_BUMPS,
+  type VersionBump,
+} from '../utils/semver.js';
+
+const PACKAGE_FILE = 'package.json';
+
+/**
+ * Write the version to package.json. Returns true when the file changed.
+ */
+function writePackageVersion(version: string): boolean {
+  if (!existsSync(PACKAGE_FILE)) return false;
+  const content = readFileSync(PACKAGE_FILE, 'utf-8');
+  const updated = setPackageVersion(content, version);
+  if (updated === null) {
+    warn(`${PACKAGE_FILE} has no "version" field — leaving it unchanged.`);
+    return false;
+  }
+  if (updated === content) return false;
+  writeFileSync(PACKAGE_FILE, updated);
+  success(`Set ${pc.bold(PACKAGE_FILE)} version to ${pc.bold(version)}`);
+  return true;
+}
+
+export default defineCommand({
+  meta: {
+    name: 'version',
+    description: 'Recommend the next semantic version from commits and optionally tag it',
+  },
+  args: {
+    bump: {
+      type: 'string',
+      description: `Override the recommended bump (${VERSION_BUMPS.join(', ')})`,
+    },
+    preid: {
+      type: 'string',
+      description: 'Prerelease identifier, e.g. "beta" for 1.3.0-beta.0',
+    },
+    write: {
+      type: 'boolean',
+      alias: 'w',
+      description: `Write the version to ${PACKAGE_FILE}`,
+      default: false,
+    },
+    tag: {
+      type: 'boolean',
+      description: `Write ${PACKAGE_FILE}, commit it as a release, and create an annotated tag`,
+      default: false,
+    },
+    push: {
+      type: 'boolean',
+      description: 'Push the release commit and tag (implies --tag)',
+      default: false,
+    },
+    yes: {
+      type: 'boolean',
+      alias: 'y',
+      description: 'Skip confirmation prompt',
+      default: false,
+    },
+  },
+  async run({ args }) {
+    if (!(await isGitRepo())) {
+      error('Not inside a git repository.');
+      process.exit(1);
+    }
+
+    const config = readConfig();
+    if (!config) {
+      error('No repo config found. Run `cn setup` first.');
+      process.exit(1);
+    }
+
+    if (args.bump && !VERSION_BUMPS.includes(args.bump as VersionBump)) {
+      error(`Invalid --bump "${args.bump}". Use one of: ${VERSION_BUMPS.join(', ')}.`);
+      process.exit(1);
+    }
+
+    const preid = args.preid?.trim();
+    if (preid !== undefined && !/^[0-9A-Za-z-]+$/.test(preid)) {
+      error(`Invalid --preid "${args.preid}". Use letters, digits, and hyphens only.`);
+      process.exit(1);
+    }
+
+    await projectHeading('version', '🔖');
+
+    const tags = await getMergedTags('HEAD');
+    const stable = getLatestSemverTag(tags, { stable: true });
+    const latest = getLatestSemverTag(tags);
+
+    const convention = resolveConventionRules(config);
+    const commits = await getCommitMessages(stable?.tag ?? null, 'HEAD');
+    const entries = commits
+      .map((commit) => parseChangelogEntry(commit, convention))
+      .filter((entry): entry is ChangelogEntry => entry !== null);
+
+    const since = stable ? pc.bold(stable.tag) : 'the first commit';
+    const recommended = getVersionBump(entries);
+    const bump = (args.bump as VersionBump | undefined) ?? recommended;
+    if (!bump) {
+      info(`No commits since ${since} — nothing to release.`);
+      return;
+    }
+
+    const breaking = entries.filter((entry) => entry.breaking).length;
+    const features = entries.filter(
+      (entry) => entry.type === 'feat' || entry.type === 'new',
+    ).length;
+    info(`Latest release: ${stable ? pc.bold(stable.tag) : pc.dim('none')}`);
+    if (latest && latest.tag !== stable?.tag) {
+      info(`Latest prerelease: ${pc.bold(latest.tag)}`);
+    }
+    info(
+      `${entries.length} commit${entries.length !== 1 ? 's' : ''} since ${since} (${breaking} breaking, ${features} feature${features !== 1 ? 's' : ''})`,
+    );
+    if (args.bump && recommended && args.bump !== recommended) {
+      warn(`Commits suggest a ${pc.bold(recommended)} bump — using ${pc.bold(args.bump)} instead.`);
+    }
+
+    const next = formatSemver(
+      getNextVersion({
+        stable: stable?.version ?? null,
+        latest: latest?.version ?? null,
+        bump,
+        preid: preid || undefined,
+      }),
+    );
+    // Keep the repo's tag style; default to "v1.2.3" when there are no tags yet
+    const prefix = (latest ?? stable)?.tag.startsWith('v') === false ? '' : 'v';
+    const tagName = `${prefix}${next}`;
+
+    console.log();
+    console.log(`  ${pc.dim('Bump:')}         ${pc.bold(bump)}`);
+    console.log(`  ${pc.dim('Next version:')} ${pc.bold(pc.green(next))}`);
+    console.log();
+
+    const shouldTag = args.tag || args.push;
+    if (!shouldTag) {
+      if (args.write) writePackageVersion(next);
+      return;
+    }
+
+    await assertCleanGitState('tagging a release');
+
+    if (await hasUncommittedChanges()) {
+      error('You have uncommitted changes. Please commit or stash them first.');
+      process.exit(1);
+    }
+
+    if (await tagExists(tagName)) {
+      error(`Tag ${pc.bold(tagName)} already exists.`);
+      process.exit(1);
+    }
+
+    const currentBranch = await getCurrentBranch();
+    if (args.push && !currentBranch) {
+      error('Cannot push from a detached HEAD. Check out a branch first.');
+      process.exit(1);
+    }
+
+    if (!args.yes) {
+      const ok = await confirmPrompt(
+        `Release ${pc.bold(tagName)}${args.push ? ` and push it to ${pc.bold(config.origin)}` : ''}?`,
+      );
+      if (!ok) process.exit(0);
+    }
+
+    if (writePackageVersion(next)) {
+      const stageResult = await stageFiles([PACKAGE_FILE]);
+      if (stageResult.exitCode !== 0) {
+        error(`Failed to stage ${PACKAGE_FILE}: ${stageResult.stderr}`);
+        process.exit(1);
+      }
+      const message = getReleaseCommitMessage(convention, tagName);
+      const commitResult = await commitWithMessage(message);
+      if (commitResult.exitCode !== 0) {
+        error(`Failed to commit the release: ${commitResult.stderr}`);
+        process.exit(1);
+      }
+      success(`Committed ${pc.bold(message)}`);
+    }
+
+    const tagResult = await createAnnotatedTag(tagName, `Release ${tagName}`);
+    if (tagResult.exitCode !== 0) {
+      error(`Failed to create tag ${pc.bold(tagName)}: ${tagResult.stderr}`);
+      process.exit(1);
+    }
+    success(`Tagged ${pc.bold(tagName)}`);
+
+    if (!args.push || !currentBranch) {
+      info(
+        `Push with ${pc.bold(`git push --follow-tags ${config.origin}`)} when you are ready.`,
+        '',
+      );
+      return;
+    }
+
+    const pushResult = await pushBranch(config.origin, currentBranch);
+    if (pushResult.exitCode !== 0) {
+      error(`Failed to push ${pc.bold(currentBranch)}: ${pushResult.stderr}`);
+      process.exit(1);
+    }
+    const tagPushResult = await pushTag(config.origin, tagName);
+    if (tagPushResult.exitCode !== 0) {
+      error(`Failed to push tag ${pc.bold(tagName)}: ${tagPushResult.stderr}`);
+      process.exit(1);
+    }
+    success(
+      `Pushed ${pc.bold(currentBranch)} and ${pc.bold(tagName)} to ${pc.bold(config.origin)}`,
+    );
+  },
+});
@@ -1,8 +1,105 @@
-export type WorkflowMode = 'clean-flow' | 'github-flow' | 'git-flow';
+export type WorkflowMode = 'clean-flow' | 'github-flow' | 'git-flow' | 'trunk' | 'custom';
 
-export type CommitConvention = 'conventional' | 'clean-commit' | 'none';
+export type MergeStrategy = 'squash' | 'merge' | 'rebase';
 
-export type AIProvider = 'copilot' | 'ollama-cloud';
+export type CommitConvention = 'conventional' | 'clean-commit' | 'none' | 'custom' | 'commitlint';
+
+/**
+ * House-style commit convention used when `commitConvention` is 'custom'.
+ * Messages look like `[<emoji> ]<type>[(<scope>)][!]: <subject>`.
+ * The 'commitlint' convention builds one of these from the repo's commitlint rules.
+ */
+export interface CustomCommitConvention {
+  name?: string;
+  types: string[];
+  emojis?: Record<string, string>;
+  scopes?: string[];
+  requireScope?: boolean;
+  maxSubjectLength?: number;
+  maxHeaderLength?: number;
+  maxBodyLineLength?: number;
+  bodyLeadingBlank?: boolean;
+  /** Built from a commitlint config: only the limits it sets apply, with no default subject limit */
+  fromCommitlint?: boolean;
+}
+
+export type BuiltInAIProvider = 'copilot' | 'ollama-cloud' | 'ollama' | 'openai-compatible';
+
+/** A built-in provider id, or the id of a provider added with `registerAIProvider`. */
+export type AIProvider = BuiltInAIProvider | (string & {});
+
+/**
+ * Any OpenAI-compatible `/chat/completions` endpoint: a local Ollama, LM Studio,
+ * vLLM, or an internal gateway. The API key is read from `apiKeyEnv` at request
+ * time so it never lands in the config file.
+ */
+export interface AIEndpointConfig {
+  baseUrl: string;
+  /** Header that carries the API key (default: Authorization, sent as "Bearer <key>") */
+  authHeader?: string;
+  apiKeyEnv?: string;
+}
+
+/**
+ * Secret redaction applied to diffs before they are sent to an AI provider.
+ * It is on by default; `required: true` stops it from being switched off.
+ */
+export interface AIRedactionConfig {
+  /** Set to false to send diffs unredacted (not allowed when `required`) */
+  enabled?: boolean;
+  required?: boolean;
+  /** Extra path globs whose diffs are never sent, on top of the defaults */
+  denylist?: string[];
+}
+
+/**
+ * AI review of the branch diff. `onSubmit` runs it in `cn submit` before
+ * pushing; `blockOnHigh` aborts the submit on high-severity findings.
+ */
+export interface AIReviewConfig {
+  onSubmit?: boolean;
+  blockOnHigh?: boolean;
+}
+
+/**
+ * Defaults for PRs opened by `cn submit`. Reviewers are users or teams
+ * ("org/team"). `typeLabels` maps commit types to labels on top of the
+ * built-in feat → enhancement, fix → bug, docs → documentation, or turns the
+ * automatic labels off with false. `linkIssues: false` stops the "Closes #N"
+ * lines added for issues the branch refers to.
+ */
+export interface PullRequestConfig {
+  reviewers?: string[];
+  labels?: string[];
+  assignees?: string[];
+  milestone?: string;
+  project?: string;
+  typeLabels?: Record<string, string> | false;
+  linkIssues?: boolean;
+}
+
+/**
+ * Short-lived branch policy for the trunk workflow. A branch that exceeds
+ * either limit gets a warning in `cn status`.
+ */
+export interface TrunkPolicy {
+  maxBranchAgeDays?: number;
+  maxBranchCommits?: number;
+}
+
+/**
+ * Declarative workflow used when `workflow` is 'custom'.
+ * Protected entries are exact branch names or globs like "release/*".
+ */
+export interface WorkflowSpec {
+  name?: string;
+  branches: string[];
+  featureBase: string;
+  featureTarget?: string;
+  sync?: Partial<Record<'maintainer' | 'contributor', string>>;
+  protected?: string[];
+  mergeStrategy?: Record<string, MergeStrategy>;
+}
 
 export interface ContributeConfig {
   workflow: WorkflowMode;
@@ -13,10 +110,21 @@ export interface ContributeConfig {
   origin: string;
   branchPrefixes: string[];
   commitConvention: CommitConvention;
+  customConvention?: CustomCommitConvention;
   aiEnabled?: boolean;
   aiProvider?: AIProvider;
   aiModel?: string;
+  aiEndpoint?: AIEndpointConfig;
+  aiRedaction?: AIRedactionConfig;
+  aiReview?: AIReviewConfig;
+  /** Generate commit messages with a body under the subject (`cn commit --body`) */
+  commitBody?: boolean;
+  /** Directory (relative to the repo root) with AI prompt templates such as commit.md */
+  promptsDir?: string;
+  pullRequest?: PullRequestConfig;
   showTips?: boolean;
+  trunkPolicy?: TrunkPolicy;
+  workflowSpec?: WorkflowSpec;
 }
 
 export interface GitResult {
@@ -0,0 +1,158 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { getLocalStatePath } from './state.js';
+
+/**
+ * Content-addressed cache for AI responses, stored next to the repo-local
+ * state db. The same prompt against the same provider and model returns the
+ * stored reply instead of another round trip.
+ */
+
+interface AICacheEntry {
+  response: string;
+  createdAt: number;
+}
+
+type AICacheStore = Record<string, AICacheEntry>;
+
+export interface AICacheKeyParts {
+  provider: string;
+  model: string;
+  systemMessage: string;
+  userMessage: string;
+}
+
+export interface AICacheStats {
+  entries: number;
+  bytes: number;
+}
+
+const AI_CACHE_FILENAME = 'ai-cache.json';
+const AI_CACHE_LOCATION_LABEL = `.git/contribute-now/${AI_CACHE_FILENAME}`;
+
+/** Entries older than this are ignored and pruned on the next write. */
+export const AI_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const AI_CACHE_MAX_ENTRIES = 200;
+export const AI_CACHE_MAX_BYTES = 1024 * 1024;
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+export function getAICacheKey(parts: AICacheKeyParts): string {
+  return sha256(
+    [parts.provider, parts.model, sha256(parts.systemMessage), sha256(parts.userMessage)].join(
+      '\0',
+    ),
+  );
+}
+
+export function getAICachePath(cwd = process.cwd()): string | null {
+  const statePath = getLocalStatePath(cwd);
+  return statePath ? join(dirname(statePath), AI_CACHE_FILENAME) : null;
+}
+
+export function getAICacheLocationLabel(cwd = process.cwd()): string | null {
+  return getAICachePath(cwd) ? AI_CACHE_LOCATION_LABEL : null;
+}
+
+function readAICache(cwd: string): AICacheStore {
+  const cachePath = getAICachePath(cwd);
+  if (!cachePath || !existsSync(cachePath)) {
+    return {};
+  }
+
+  try {
+    const raw = JSON.parse(readFileSync(cachePath, 'utf-8')) as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.entries(raw).filter((entry): entry is [string, AICacheEntry] => {
+        const value = entry[1] as Partial<AICacheEntry> | null;
+        return (
+          typeof value === 'object' &&
+          value !== null &&
+          typeof value.response === 'string' &&
+          typeof value.createdAt === 'number'
+        );
+      }),
+    );
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Drop expired entries, then the oldest ones until the store fits both the
+ * entry cap and the byte cap.
+ */
+export function pruneAICache(store: AICacheStore, now = Date.now()): AICacheStore {
+  const fresh = Object.entries(store)
+    .filter(([, entry]) => now - entry.createdAt < AI_CACHE_TTL_MS)
+    .sort(([, a], [, b]) => b.createdAt - a.createdAt)
+    .slice(0, AI_CACHE_MAX_ENTRIES);
+
+  const kept: AICacheStore = {};
+  let bytes = 2;
+  for (const [key, entry] of fresh) {
+    const size = Buffer.byteLength(JSON.stringify({ [key]: entry }));
+    if (bytes + size > AI_CACHE_MAX_BYTES) continue;
+    kept[key] = entry;
+    bytes += size;
+  }
+  return kept;
+}
+
+export function getCachedAIResponse(
+  key: string,
+  cwd = process.cwd(),
+  now = Date.now(),
+): string | null {
+  const entry = readAICache(cwd)[key];
+  if (!entry || now - entry.createdAt >= AI_CACHE_TTL_MS) {
+    return null;
+  }
+  return entry.response;
+}
+
+/** Store a response. Failing to write the cache never fails the AI call. */
+export function setCachedAIResponse(
+  key: string,
+  response: string,
+  cwd = process.cwd(),
+  now = Date.now(),
+): void {
+  const cachePath = getAICachePath(cwd);
+  if (!cachePath) {
+    return;
+  }
+
+  try {
+    const store = pruneAICache({ ...readAICache(cwd), [key]: { response, createdAt: now } }, now);
+    mkdirSync(dirname(cachePath), { recursive: true });
+    writeFileSync(cachePath, `${JSON.stringify(store)}\n`, 'utf-8');
+  } catch {
+    // A read-only .git directory just means no caching
+  }
+}
+
+export function getAICacheStats(cwd = process.cwd(), now = Date.now()): AICacheStats {
+  const store = readAICache(cwd);
+  const live = Object.values(store).filter((entry) => now - entry.createdAt < AI_CACHE_TTL_MS);
+  const cachePath = getAICachePath(cwd);
+  return {
+    entries: live.length,
+    bytes: cachePath && existsSync(cachePath) ? statSync(cachePath).size : 0,
+  };
+}
+
+/** Delete the cache file. Returns the number of entries that were stored. */
+export function clearAICache(cwd = process.cwd()): number {
+  const cachePath = getAICachePath(cwd);
+  if (!cachePath || !existsSync(cachePath)) {
+    return 0;
+  }
+
+  const count = Object.keys(readAICache(cwd)).length;
+  rmSync(cachePath, { force: true });
+  return count;
+}
@@ -0,0 +1,127 @@
+import type { AIEndpointConfig } from '../types.js';
+import {
+  fetchEndpointModels,
+  getAIEndpointError,
+  getEndpointAuthHeaders,
+  normalizeEndpointBaseUrl,
+} from './aiProviders.js';
+import { inputPrompt, selectPrompt } from './confirm.js';
+import { info, warn } from './logger.js';
+import { fetchOllamaModels, getOllamaHost, isOllamaModelInstalled } from './ollama.js';
+
+/**
+ * Ask for an OpenAI-compatible endpoint: base URL, model, and where its API key
+ * comes from. The key itself stays in the environment.
+ */
+export async function promptForAIEndpoint(
+  existing?: AIEndpointConfig,
+  currentModel?: string,
+): Promise<{ endpoint: AIEndpointConfig; model: string }> {
+  const baseUrl = (
+    await inputPrompt(
+      'Endpoint base URL (serves /chat/completions)',
+      existing?.baseUrl ?? 'http://localhost:11434/v1',
+    )
+  ).trim();
+  const apiKeyEnv = (
+    await inputPrompt(
+      'Environment variable holding the API key (leave empty for none)',
+      existing?.apiKeyEnv ?? '',
+    )
+  ).trim();
+  const authHeader = apiKeyEnv
+    ? (
+        await inputPrompt('Header that carries the key', existing?.authHeader ?? 'Authorization')
+      ).trim()
+    : '';
+
+  const endpoint: AIEndpointConfig = {
+    baseUrl,
+    ...(apiKeyEnv ? { apiKeyEnv } : {}),
+    ...(authHeader && authHeader !== 'Authorization' ? { authHeader } : {}),
+  };
+  const endpointError = getAIEndpointError(endpoint);
+  if (endpointError) {
+    throw new Error(endpointError);
+  }
+
+  const model = (await selectEndpointModel(endpoint, currentModel)).trim();
+  if (!model) {
+    throw new Error('A model name is required for an OpenAI-compatible endpoint.');
+  }
+
+  return { endpoint, model };
+}
+
+async function selectEndpointModel(
+  endpoint: AIEndpointConfig,
+  currentModel?: string,
+): Promise<string> {
+  try {
+    info('Fetching models from the endpoint...');
+    const models = await fetchEndpointModels({
+      baseUrl: normalizeEndpointBaseUrl(endpoint.baseUrl),
+      headers: getEndpointAuthHeaders(endpoint),
+      label: 'The endpoint',
+    });
+
+    if (models && models.length > 0) {
+      const manualChoice = 'Enter model manually';
+      const selected = await selectPrompt('Which model should this clone use?', [
+        ...models.map((model) => (model === currentModel ? `${model} (current)` : model)),
+        manualChoice,
+      ]);
+      if (selected !== manualChoice) {
+        return selected.replace(/ \(current\)$/, '');
+      }
+    } else {
+      warn('The endpoint did not list any models. Enter the model name manually.');
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    warn(`Could not fetch models: ${message}`);
+  }
+
+  return inputPrompt('Model name', currentModel);
+}
+
+/**
+ * Pick one of the models pulled into the local Ollama daemon, or type one in.
+ * Warns when the typed model is not pulled yet.
+ */
+export async function promptForOllamaModel(currentModel?: string): Promise<string> {
+  const host = getOllamaHost();
+  let installed: string[] | null = null;
+
+  try {
+    info(`Fetching models installed in Ollama at ${host}...`);
+    installed = await fetchOllamaModels(host);
+
+    if (installed.length > 0) {
+      const manualChoice = 'Enter model manually';
+      const selected = await selectPrompt('Which Ollama model should this clone use?', [
+        ...installed.map((model) => (model === currentModel ? `${model} (current)` : model)),
+        manualChoice,
+      ]);
+      if (selected !== manualChoice) {
+        return selected.replace(/ \(current\)$/, '');
+      }
+    } else {
+      warn('Ollama has no models installed yet. Pull one with `ollama pull <model>`.');
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    warn(`Could not fetch Ollama models: ${message}`);
+  }
+
+  const model = (await inputPrompt('Ollama model', currentModel)).trim();
+  if (!model) {
+    throw new Error('A model name is required for Ollama.');
+  }
+  if (installed && !isOllamaModelInstalled(model, installed)) {
+    warn(
+      `Model "${model}" is not pulled yet. Run \`ollama pull ${model}\` before using AI features.`,
+    );
+  }
+  return model;
+}
@@ -0,0 +1,436 @@
+import type { AIProvider, ContributeConfig } from '../types.js';
+
+/**
+ * AI provider registry.
+ *
+ * A provider turns a system + user prompt into a completion and can report
+ * whether it is ready to use. The built-in providers are registered in
+ * copilot.ts; anything else can be added with `registerAIProvider`.
+ */
+
+export interface ResolvedAIConfig {
+  provider: AIProvider;
+  providerLabel: string;
+  model?: string;
+  host?: string;
+  /** Header that carries the API key for OpenAI-compatible endpoints */
+  authHeader?: string;
+  /** Environment variable that holds the API key for OpenAI-compatible endpoints */
+  apiKeyEnv?: string;
+}
+
+export interface AICompletionRequest {
+  systemMessage: string;
+  userMessage: string;
+  model?: string;
+  /** Longest wait for the next part of the reply; streaming providers restart it on every token */
+  timeoutMs: number;
+  /** Called with the reply so far as it streams in. Providers that can't stream never call it. */
+  onStream?: (text: string) => void;
+  /** Cancels the request, e.g. when the user presses Esc */
+  signal?: AbortSignal;
+}
+
+export interface AIProviderDefinition {
+  id: AIProvider;
+  label: string;
+  /** One-line description shown when choosing a provider */
+  description: string;
+  /** Provider settings (model, host, auth) taken from the repo config */
+  resolve?: (
+    config: ContributeConfig | null,
+  ) => Omit<ResolvedAIConfig, 'provider' | 'providerLabel'>;
+  complete: (request: AICompletionRequest, aiConfig: ResolvedAIConfig) => Promise<string | null>;
+  /** Returns a user-facing problem, or null when the provider is ready */
+  checkHealth: (aiConfig: ResolvedAIConfig) => Promise<string | null>;
+}
+
+const providers = new Map<string, AIProviderDefinition>();
+
+/** Register a provider. Registering an existing id replaces it. */
+export function registerAIProvider(provider: AIProviderDefinition): void {
+  providers.set(provider.id, provider);
+}
+
+export function getAIProvider(id: string): AIProviderDefinition | null {
+  return providers.get(id) ?? null;
+}
+
+/** Registered providers in registration order. */
+export function getAIProviders(): AIProviderDefinition[] {
+  return [...providers.values()];
+}
+
+// ── OpenAI-compatible endpoints ────────────────────────────────────
+
+export const OPENAI_COMPATIBLE_PROVIDER = 'openai-compatible';
+const DEFAULT_AUTH_HEADER = 'Authorization';
+const HEALTH_CHECK_TIMEOUT_MS = 10_000;
+
+/** Strip trailing slashes and a pasted `/chat/completions` suffix from a base URL. */
+export function normalizeEndpointBaseUrl(url: string): string {
+  return url
+    .trim()
+    .replace(/\/+$/, '')
+    .replace(/\/chat\/completions$/, '');
+}
+
+/**
+ * Validate an `aiEndpoint` config block. Returns a message naming the
+ * offending field, or null when the block is usable.
+ */
+export function getAIEndpointError(endpoint: unknown): string | null {
+  if (typeof endpoint !== 'object' || endpoint === null || Array.isArray(endpoint)) {
+    return 'aiEndpoint must be an object.';
+  }
+  const candidate = endpoint as Record<string, unknown>;
+
+  if (typeof candidate.baseUrl !== 'string' || !candidate.baseUrl.trim()) {
+    return 'aiEndpoint.baseUrl must be a non-empty URL.';
+  }
+  try {
+    const { protocol } = new URL(candidate.baseUrl.trim());
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      return 'aiEndpoint.baseUrl must be an http or https URL.';
+    }
+  } catch {
+    return `aiEndpoint.baseUrl "${candidate.baseUrl}" is not a valid URL.`;
+  }
+  if (
+    candidate.authHeader !== undefined &&
+    (typeof candidate.authHeader !== 'string' || !/^[A-Za-z0-9-]+$/.test(candidate.authHeader))
+  ) {
+    return 'aiEndpoint.authHeader must be an HTTP header name.';
+  }
+  if (
+    candidate.apiKeyEnv !== undefined &&
+    (typeof candidate.apiKeyEnv !== 'string' ||
+      !/^[A-Za-z_][A-Za-z0-9_]*$/.test(candidate.apiKeyEnv))
+  ) {
+    return 'aiEndpoint.apiKeyEnv must be an environment variable name.';
+  }
+  return null;
+}
+
+/**
+ * Build the auth header for an endpoint. The Authorization header gets the
+ * usual "Bearer" scheme; any other header (e.g. api-key) carries the raw key.
+ * Throws when `apiKeyEnv` names a variable that is not set.
+ */
+export function getEndpointAuthHeaders(
+  aiConfig: Pick<ResolvedAIConfig, 'authHeader' | 'apiKeyEnv'>,
+  env: Record<string, string | undefined> = process.env,
+): Record<string, string> {
+  if (!aiConfig.apiKeyEnv) return {};
+  const apiKey = env[aiConfig.apiKeyEnv]?.trim();
+  if (!apiKey) {
+    throw new Error(`Environment variable ${aiConfig.apiKeyEnv} is not set`);
+  }
+  const header = aiConfig.authHeader?.trim() || DEFAULT_AUTH_HEADER;
+  return {
+    [header]: header.toLowerCase() === 'authorization' ? `Bearer ${apiKey}` : apiKey,
+  };
+}
+
+/**
+ * Model ids from an OpenAI-style `/models` payload (`data`), or Ollama's
+ * native `models` list.
+ */
+export function extractModelIds(payload: unknown): string[] {
+  const records =
+    typeof payload === 'object' && payload !== null
+      ? Array.isArray((payload as { data?: unknown }).data)
+        ? (payload as { data: unknown[] }).data
+        : Array.isArray((payload as { models?: unknown }).models)
+          ? (payload as { models: unknown[] }).models
+          : []
+      : [];
+
+  return [...new Set(records.map(getModelId).filter((id): id is string => id !== null))].sort(
+    (left, right) => left.localeCompare(right),
+  );
+}
+
+function getModelId(record: unknown): string | null {
+  if (typeof record !== 'object' || record === null) {
+    return null;
+  }
+
+  const candidate =
+    typeof (record as { id?: unknown }).id === 'string'
+      ? (record as { id: string }).id
+      : typeof (record as { name?: unknown }).name === 'string'
+        ? (record as { name: string }).name
+        : null;
+
+  const normalized = candidate?.trim();
+  return normalized ? normalized : null;
+}
+
+/**
+ * List the models an endpoint serves. Returns null when the endpoint has no
+ * `/models` route, which some gateways leave out.
+ */
+export async function fetchEndpointModels(options: {
+  baseUrl: string;
+  headers: Record<string, string>;
+  label: string;
+  timeoutMs?: number;
+}): Promise<string[] | null> {
+  const response = await fetch(`${options.baseUrl}/models`, {
+    headers: { Accept: 'application/json', ...options.headers },
+    signal: AbortSignal.timeout(options.timeoutMs ?? HEALTH_CHECK_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`${options.label} authentication failed`);
+    }
+    if (response.status === 404) {
+      return null;
+    }
+
+    throw new Error(
+      `${options.label} model lookup failed (${response.status} ${response.statusText})`,
+    );
+  }
+
+  return extractModelIds(await response.json());
+}
+
+export interface IdleTimeout {
+  /** Aborts on the idle timeout or when the caller's signal aborts */
+  signal: AbortSignal;
+  /** Restart the countdown after some progress */
+  touch(): void;
+  /** The error to throw once `signal` has aborted */
+  error(label: string): Error;
+  clear(): void;
+}
+
+/**
+ * A timeout that only fires when `idleMs` pass without progress, so a slow
+ * but steady stream is never cut off. Also follows the caller's `signal`.
+ */
+export function createIdleTimeout(idleMs: number, signal?: AbortSignal): IdleTimeout {
+  const controller = new AbortController();
+  let timedOut = false;
+  const expire = () => {
+    timedOut = true;
+    controller.abort();
+  };
+  let timer = setTimeout(expire, idleMs);
+  const cancel = () => controller.abort();
+  if (signal?.aborted) cancel();
+  else signal?.addEventListener('abort', cancel, { once: true });
+
+  return {
+    signal: controller.signal,
+    touch() {
+      if (controller.signal.aborted) return;
+      clearTimeout(timer);
+      timer = setTimeout(expire, idleMs);
+    },
+    error(label) {
+      return timedOut
+        ? new Error(`${label} request timed out after ${idleMs / 1000}s without a response`)
+        : new Error(`${label} request was cancelled`);
+    },
+    clear() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+    },
+  };
+}
+
+/** Call `onLine` for each line of a streamed response body as it arrives. */
+export async function readStreamLines(
+  body: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void,
+): Promise<void> {
+  const decoder = new TextDecoder();
+  let buffered = '';
+  const reader = body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) onLine(line.replace(/\r$/, ''));
+  }
+  buffered += decoder.decode();
+  if (buffered) onLine(buffered);
+}
+
+/**
+ * The text added by one server-sent event line of a streamed chat
+ * completion (`data: {"choices":[{"delta":{"content":"..."}}]}`), or null for
+ * comments, keep-alives, and the final `data: [DONE]`.
+ */
+export function parseChatCompletionChunk(line: string): string | null {
+  if (!line.startsWith('data:')) return null;
+  const payload = line.slice('data:'.length).trim();
+  if (!payload || payload === '[DONE]') return null;
+  try {
+    const chunk = JSON.parse(payload) as {
+      choices?: Array<{ delta?: { content?: string | null } }>;
+    };
+    return chunk.choices?.[0]?.delta?.content || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Send one chat completion and return the reply text. The reply is streamed
+ * so `timeoutMs` only applies between tokens; endpoints that ignore
+ * `stream: true` and answer with plain JSON work too.
+ */
+export async function requestChatCompletion(options: {
+  baseUrl: string;
+  headers: Record<string, string>;
+  label: string;
+  model: string;
+  systemMessage: string;
+  userMessage: string;
+  timeoutMs: number;
+  onStream?: (text: string) => void;
+  signal?: AbortSignal;
+}): Promise<string | null> {
+  const idle = createIdleTimeout(options.timeoutMs, options.signal);
+
+  try {
+    const response = await fetch(`${options.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...options.headers,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: options.model,
+        messages: [
+          { role: 'system', content: options.systemMessage },
+          { role: 'user', content: options.userMessage },
+        ],
+        stream: true,
+      }),
+      signal: idle.signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      if (response.status === 401 || response.status === 403) {
+        throw new Error(`${options.label} authentication failed`);
+      }
+      throw new Error(
+        `${options.label} request failed (${response.status} ${response.statusText}): ${body.slice(0, 200)}`,
+      );
+    }
+
+    if (!response.headers.get('content-type')?.includes('text/event-stream') || !response.body) {
+      const data = (await response.json()) as {
+        choices?: Array<{ message?: { content?: string | null } }>;
+      };
+      return data.choices?.[0]?.message?.content?.trim() || null;
+    }
+
+    let text = '';
+    await readStreamLines(response.body, (line) => {
+      idle.touch();
+      const delta = parseChatCompletionChunk(line);
+      if (!delta) return;
+      text += delta;
+      options.onStream?.(text);
+    });
+    return text.trim() || null;
+  } catch (err) {
+    if (idle.signal.aborted) {
+      throw idle.error(options.label);
+    }
+    throw err;
+  } finally {
+    idle.clear();
+  }
+}
+
+/**
+ * Health check shared by HTTP providers: the endpoint must answer, accept the
+ * credentials, and (when it lists models) serve the configured model.
+ */
+export async function checkEndpointHealth(
+  aiConfig: ResolvedAIConfig,
+  headers: Record<string, string>,
+): Promise<string | null> {
+  const label = aiConfig.providerLabel;
+  if (!aiConfig.host) {
+    return `${label} has no base URL configured.`;
+  }
+
+  try {
+    const models = await fetchEndpointModels({ baseUrl: aiConfig.host, headers, label });
+    if (aiConfig.model && models && models.length > 0 && !models.includes(aiConfig.model)) {
+      return `Model "${aiConfig.model}" is not available on ${label}. Available: ${models.slice(0, 5).join(', ')}${models.length > 5 ? ', ...' : ''}`;
+    }
+    return null;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    if (msg.startsWith(label)) {
+      return msg.replace('model lookup', 'health check');
+    }
+    return `Could not reach ${label} at ${aiConfig.host}: ${msg}`;
+  }
+}
+
+export const openAICompatibleProvider: AIProviderDefinition = {
+  id: OPENAI_COMPATIBLE_PROVIDER,
+  label: 'OpenAI-compatible endpoint',
+  description: 'a local or self-hosted /chat/completions server (Ollama, LM Studio, vLLM, ...)',
+  resolve(config) {
+    const endpoint = config?.aiEndpoint;
+    return {
+      model: config?.aiModel?.trim() || undefined,
+      host: endpoint ? normalizeEndpointBaseUrl(endpoint.baseUrl) : undefined,
+      authHeader: endpoint?.authHeader,
+      apiKeyEnv: endpoint?.apiKeyEnv,
+    };
+  },
+  async complete(request, aiConfig) {
+    if (!aiConfig.host) {
+      throw new Error('No OpenAI-compatible endpoint is configured');
+    }
+    const model = request.model?.trim() || aiConfig.model;
+    if (!model) {
+      throw new Error('No model is configured for the OpenAI-compatible endpoint');
+    }
+
+    return requestChatCompletion({
+      baseUrl: aiConfig.host,
+      headers: getEndpointAuthHeaders(aiConfig),
+      label: aiConfig.providerLabel,
+      model,
+      systemMessage: request.systemMessage,
+      userMessage: request.userMessage,
+      timeoutMs: request.timeoutMs,
+      onStream: request.onStream,
+      signal: request.signal,
+    });
+  },
+  async checkHealth(aiConfig) {
+    if (!aiConfig.host) {
+      return 'No OpenAI-compatible endpoint configured. Set its base URL with `cn config --edit`.';
+    }
+    if (!aiConfig.model) {
+      return 'No model configured for the OpenAI-compatible endpoint. Set one with `cn config --edit`.';
+    }
+
+    let headers: Record<string, string>;
+    try {
+      headers = getEndpointAuthHeaders(aiConfig);
+    } catch (err) {
+      return `${err instanceof Error ? err.message : String(err)}. Export the API key before running cn.`;
+    }
+
+    return checkEndpointHealth(aiConfig, headers);
+  },
+};
@@ -9,7 +9,7 @@ import { inputPrompt, selectPrompt } from './confirm.js';
 import { checkCopilotAvailable, suggestBranchName } from './copilot.js';
 import { branchExists } from './git.js';
 import { warn } from './logger.js';
-import { createSpinner } from './spinner.js';
+import { createSpinner, streamIntoSpinner } from './spinner.js';
 import { LOADING_TIPS } from './tips.js';
 
 interface PromptForBranchNameOptions {
@@ -47,7 +47,11 @@ export async function promptForBranchName(
         const spinner = createSpinner('Generating branch name suggestion...', {
           tips: LOADING_TIPS,
         });
-        const suggested = await suggestBranchName(branchInput, options.model);
+        const suggested = await suggestBranchName(
+          branchInput,
+          options.model,
+          streamIntoSpinner(spinner),
+        );
 
         if (suggested) {
           spinner.success('Branch name suggestion ready.');
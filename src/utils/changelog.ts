@@ -0,0 +1,192 @@
+import {
+  type ConventionRules,
+  isSkippedCommitSubject,
+  parseCommitHeader,
+  parseCommitMessage,
+} from './convention.js';
+
+/**
+ * Changelog generation from convention-formatted history.
+ *
+ * Output follows Keep a Changelog (https://keepachangelog.com/):
+ *   ## [1.2.0] - 2026-05-01
+ *   ### Features
+ *   - **scope:** subject (#12)
+ */
+
+export interface ChangelogEntry {
+  hash: string;
+  type: string | null;
+  scope: string | null;
+  subject: string;
+  breaking: boolean;
+  /** BREAKING CHANGE footer text, falling back to the subject */
+  breakingNote: string | null;
+  pr: number | null;
+}
+
+export interface ChangelogSection {
+  title: string;
+  entries: ChangelogEntry[];
+}
+
+const SECTION_ORDER = [
+  'Features',
+  'Fixes',
+  'Security',
+  'Performance',
+  'Changes',
+  'Removals',
+  'Documentation',
+  'Other Changes',
+  'Maintenance',
+];
+
+// Conventional and Clean Commit types share sections where they mean the same thing
+const TYPE_SECTIONS: Record<string, string> = {
+  feat: 'Features',
+  new: 'Features',
+  fix: 'Fixes',
+  security: 'Security',
+  perf: 'Performance',
+  update: 'Changes',
+  refactor: 'Changes',
+  revert: 'Changes',
+  remove: 'Removals',
+  docs: 'Documentation',
+  style: 'Maintenance',
+  test: 'Maintenance',
+  build: 'Maintenance',
+  ci: 'Maintenance',
+  chore: 'Maintenance',
+  setup: 'Maintenance',
+  release: 'Maintenance',
+};
+
+// GitHub squash merges append the PR number: "feat: add search (#42)"
+const PR_SUFFIX_PATTERN = /\s*\(#(\d+)\)$/;
+
+/**
+ * Parse one commit into a changelog entry. Returns null for commits that
+ * never belong in a changelog (merges, fixups, squashes).
+ */
+export function parseChangelogEntry(
+  commit: { hash: string; parents: string[]; message: string },
+  convention: ConventionRules,
+): ChangelogEntry | null {
+  const { header, footers } = parseCommitMessage(commit.message);
+  if (commit.parents.length > 1 || isSkippedCommitSubject(header.text)) return null;
+
+  const parsed = parseCommitHeader(header.text, convention);
+  const rawSubject = parsed?.subject ?? header.text.trim();
+  const prMatch = PR_SUFFIX_PATTERN.exec(rawSubject);
+  const subject = prMatch ? rawSubject.slice(0, prMatch.index) : rawSubject;
+  const breakingFooter = footers.find(
+    (footer) => footer.token === 'BREAKING CHANGE' || footer.token === 'BREAKING-CHANGE',
+  );
+  const breaking = Boolean(parsed?.breaking || breakingFooter);
+
+  return {
+    hash: commit.hash,
+    type: parsed?.type ?? null,
+    scope: parsed?.scope ?? null,
+    subject,
+    breaking,
+    breakingNote: breaking ? (breakingFooter?.value.replace(/\n/g, ' ') ?? subject) : null,
+    pr: prMatch ? Number.parseInt(prMatch[1], 10) : null,
+  };
+}
+
+/**
+ * Group entries into sections in display order. Maintenance types
+ * (chore, ci, test, ...) are left out unless `includeMaintenance` is set.
+ */
+export function groupChangelogEntries(
+  entries: ChangelogEntry[],
+  includeMaintenance = false,
+): ChangelogSection[] {
+  const sections = new Map<string, ChangelogEntry[]>();
+  for (const entry of entries) {
+    const title = (entry.type && TYPE_SECTIONS[entry.type]) || 'Other Changes';
+    if (title === 'Maintenance' && !includeMaintenance) continue;
+    sections.set(title, [...(sections.get(title) ?? []), entry]);
+  }
+  return SECTION_ORDER.filter((title) => sections.has(title)).map((title) => ({
+    title,
+    entries: sections.get(title) ?? [],
+  }));
+}
+
+function formatEntry(entry: ChangelogEntry, text: string): string {
+  const scope = entry.scope ? `**${entry.scope}:** ` : '';
+  const ref = entry.pr ? ` (#${entry.pr})` : ` (${entry.hash.slice(0, 7)})`;
+  return `- ${scope}${text}${ref}`;
+}
+
+/**
+ * Render a release section. `date` is omitted for the Unreleased section.
+ */
+export function renderChangelogSection(options: {
+  title: string;
+  date?: string;
+  entries: ChangelogEntry[];
+  includeMaintenance?: boolean;
+}): string {
+  const { title, date, entries, includeMaintenance } = options;
+  const lines = [`## [${title}]${date ? ` - ${date}` : ''}`, ''];
+
+  const breaking = entries.filter((entry) => entry.breaking);
+  if (breaking.length > 0) {
+    lines.push('### Breaking Changes', '');
+    for (const entry of breaking) {
+      lines.push(formatEntry(entry, entry.breakingNote ?? entry.subject));
+    }
+    lines.push('');
+  }
+
+  const sections = groupChangelogEntries(entries, includeMaintenance);
+  for (const section of sections) {
+    lines.push(`### ${section.title}`, '');
+    for (const entry of section.entries) {
+      lines.push(formatEntry(entry, entry.subject));
+    }
+    lines.push('');
+  }
+
+  if (breaking.length === 0 && sections.length === 0) {
+    lines.push('- No notable changes', '');
+  }
+
+  return lines.join('\n');
+}
+
+const CHANGELOG_HEADER = `# Changelog
+
+All notable changes to this project will be documented in this file.
+`;
+
+/**
+ * Add a rendered section to an existing CHANGELOG.md. A section with the same
+ * title is replaced; otherwise the new one goes above the latest release,
+ * below any Unreleased section.
+ */
+export function insertChangelogSection(existing: string, section: string, title: string): string {
+  const content = existing.trim() ? existing : CHANGELOG_HEADER;
+  const lines = content.split('\n');
+  const headingIndexes = lines.flatMap((line, index) => (line.startsWith('## ') ? [index] : []));
+  const block = section.trimEnd().split('\n');
+
+  const sameIndex = headingIndexes.find((index) => lines[index].startsWith(`## [${title}]`));
+  if (sameIndex !== undefined) {
+    const next = headingIndexes.find((index) => index > sameIndex) ?? lines.length;
+    return [...lines.slice(0, sameIndex), ...block, '', ...lines.slice(next)].join('\n');
+  }
+
+  const releaseIndex = headingIndexes.find(
+    (index) => !lines[index].toLowerCase().startsWith('## [unreleased]'),
+  );
+  if (releaseIndex === undefined) {
+    return `${content.trimEnd()}\n\n${block.join('\n')}\n`;
+  }
+  return [...lines.slice(0, releaseIndex), ...block, '', ...lines.slice(releaseIndex)].join('\n');
+}
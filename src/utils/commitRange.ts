@@ -0,0 +1,70 @@
+import {
+  type CommitMessageProblem,
+  type ConventionRules,
+  formatCommitMessageProblem,
+  isSkippedCommitSubject,
+  lintCommitMessage,
+} from './convention.js';
+
+/**
+ * Commit range validation for CI (`cn validate --range`).
+ */
+
+export type RangeOutputFormat = 'text' | 'json' | 'github';
+
+export const RANGE_OUTPUT_FORMATS: RangeOutputFormat[] = ['text', 'json', 'github'];
+
+export interface CommitValidationResult {
+  hash: string;
+  subject: string;
+  skipped: boolean;
+  problems: CommitMessageProblem[];
+}
+
+/**
+ * Split `<base>..<head>` into its refs. An empty head means HEAD.
+ * Returns null for anything that is not a two-dot range.
+ */
+export function parseCommitRange(range: string): { base: string; head: string } | null {
+  const match = /^([^.\s]+(?:\.[^.\s]+)*)\.\.([^.\s]+(?:\.[^.\s]+)*)?$/.exec(range.trim());
+  if (!match) return null;
+  return { base: match[1], head: match[2] ?? 'HEAD' };
+}
+
+export function validateCommits(
+  commits: { hash: string; parents: string[]; message: string }[],
+  convention: ConventionRules,
+): CommitValidationResult[] {
+  return commits.map(({ hash, parents, message }) => {
+    const subject = message.split('\n', 1)[0] ?? '';
+    const skipped = parents.length > 1 || isSkippedCommitSubject(subject);
+    return {
+      hash,
+      subject,
+      skipped,
+      problems: skipped ? [] : lintCommitMessage(message, convention),
+    };
+  });
+}
+
+// Workflow command data and properties must escape these characters
+function escapeAnnotationData(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeAnnotationProperty(value: string): string {
+  return escapeAnnotationData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
+
+/**
+ * One GitHub Actions `::error` workflow command per problem, so failures show
+ * up as annotations on the pull request.
+ */
+export function formatGitHubAnnotations(results: CommitValidationResult[]): string[] {
+  return results.flatMap(({ hash, subject, problems }) =>
+    problems.map((problem) => {
+      const title = escapeAnnotationProperty(`Commit ${hash.slice(0, 7)}: ${subject}`);
+      return `::error title=${title}::${escapeAnnotationData(formatCommitMessageProblem(problem))}`;
+    }),
+  );
+}
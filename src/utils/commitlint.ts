@@ -0,0 +1,265 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { basename, dirname, join, resolve } from 'node:path';
+import type { CustomCommitConvention } from '../types.js';
+
+/**
+ * commitlint config import.
+ *
+ * Repos that already lint commits with commitlint keep their rules there;
+ * the 'commitlint' convention reads them on every run instead of copying
+ * them into the contribute-now config, so there is one source of truth.
+ */
+
+// Search order mirrors commitlint's own config lookup
+const COMMITLINT_CONFIG_FILES = [
+  '.commitlintrc',
+  '.commitlintrc.json',
+  '.commitlintrc.yaml',
+  '.commitlintrc.yml',
+  '.commitlintrc.js',
+  '.commitlintrc.cjs',
+  '.commitlintrc.mjs',
+  '.commitlintrc.ts',
+  'commitlint.config.js',
+  'commitlint.config.cjs',
+  'commitlint.config.mjs',
+  'commitlint.config.ts',
+];
+
+const SUPPORTED_RULES = [
+  'type-enum',
+  'scope-enum',
+  'scope-empty',
+  'subject-max-length',
+  'header-max-length',
+  'body-max-line-length',
+  'body-leading-blank',
+];
+
+const CONVENTIONAL_TYPES = [
+  'build',
+  'chore',
+  'ci',
+  'docs',
+  'feat',
+  'fix',
+  'perf',
+  'refactor',
+  'revert',
+  'style',
+  'test',
+];
+
+// The subset of @commitlint/config-conventional that maps onto supported rules
+const CONFIG_CONVENTIONAL_RULES: Record<string, unknown> = {
+  'type-enum': [2, 'always', CONVENTIONAL_TYPES],
+  'header-max-length': [2, 'always', 100],
+  'body-max-line-length': [2, 'always', 100],
+  'body-leading-blank': [1, 'always'],
+};
+
+const CONFIG_CONVENTIONAL_NAMES = ['@commitlint/config-conventional', 'config-conventional'];
+
+export interface CommitlintImport {
+  source: string;
+  convention: CustomCommitConvention;
+  imported: string[];
+  ignored: string[];
+}
+
+export interface CommitlintLoadError {
+  source: string;
+  error: string;
+}
+
+export function isCommitlintLoadError(
+  result: CommitlintImport | CommitlintLoadError,
+): result is CommitlintLoadError {
+  return 'error' in result;
+}
+
+/**
+ * Find the nearest commitlint config, walking up from `cwd` to the repo root.
+ * Returns the file path, and whether it is the `commitlint` key of a package.json.
+ */
+export function findCommitlintConfig(
+  cwd = process.cwd(),
+): { path: string; packageJson: boolean } | null {
+  let current = resolve(cwd);
+
+  while (true) {
+    for (const filename of COMMITLINT_CONFIG_FILES) {
+      const path = join(current, filename);
+      if (existsSync(path)) return { path, packageJson: false };
+    }
+
+    const packagePath = join(current, 'package.json');
+    if (existsSync(packagePath)) {
+      try {
+        const pkg = JSON.parse(readFileSync(packagePath, 'utf-8'));
+        if (pkg && typeof pkg === 'object' && pkg.commitlint !== undefined) {
+          return { path: packagePath, packageJson: true };
+        }
+      } catch {
+        // An unreadable package.json just doesn't carry a commitlint key
+      }
+    }
+
+    const parent = dirname(current);
+    if (existsSync(join(current, '.git')) || parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+function loadRawConfig(path: string, packageJson: boolean): unknown {
+  if (packageJson) {
+    return JSON.parse(readFileSync(path, 'utf-8')).commitlint;
+  }
+  const filename = basename(path);
+  if (filename.endsWith('.yaml') || filename.endsWith('.yml')) {
+    throw new Error('YAML commitlint configs are not supported; use JSON or JavaScript.');
+  }
+  if (filename === '.commitlintrc' || filename.endsWith('.json')) {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  }
+  // Bun's require handles CommonJS, ESM, and TypeScript configs synchronously
+  const loaded = createRequire(import.meta.url)(path);
+  return loaded && typeof loaded === 'object' && 'default' in loaded ? loaded.default : loaded;
+}
+
+/**
+ * Read the nearest commitlint config and convert its rules to a custom convention.
+ * Returns null when the repo has no commitlint config.
+ */
+export function readCommitlintConfig(
+  cwd = process.cwd(),
+): CommitlintImport | CommitlintLoadError | null {
+  const found = findCommitlintConfig(cwd);
+  if (!found) return null;
+
+  const source = found.packageJson ? 'package.json (commitlint)' : basename(found.path);
+  try {
+    return importCommitlintRules(loadRawConfig(found.path, found.packageJson), source);
+  } catch (err) {
+    return {
+      source,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
+
+/**
+ * Convert a commitlint config object into a custom convention, listing which
+ * rules were imported and which were ignored as unsupported.
+ *
+ * Only error-level (2) rules are enforced; warnings never block a commit in
+ * commitlint either, so they are reported as ignored.
+ */
+export function importCommitlintRules(raw: unknown, source: string): CommitlintImport {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('commitlint config must be an object.');
+  }
+  const candidate = raw as { extends?: unknown; rules?: unknown };
+  const ignored: string[] = [];
+  let rules: Record<string, unknown> = {};
+
+  const extendsList =
+    candidate.extends === undefined
+      ? []
+      : Array.isArray(candidate.extends)
+        ? candidate.extends
+        : [candidate.extends];
+  for (const entry of extendsList) {
+    if (typeof entry === 'string' && CONFIG_CONVENTIONAL_NAMES.includes(entry)) {
+      rules = { ...rules, ...CONFIG_CONVENTIONAL_RULES };
+    } else {
+      ignored.push(`extends ${String(entry)}`);
+    }
+  }
+  if (candidate.rules !== undefined) {
+    if (typeof candidate.rules !== 'object' || candidate.rules === null) {
+      throw new Error('commitlint rules must be an object.');
+    }
+    rules = { ...rules, ...(candidate.rules as Record<string, unknown>) };
+  }
+
+  const convention: CustomCommitConvention = {
+    name: `commitlint (${source})`,
+    types: [...CONVENTIONAL_TYPES],
+    fromCommitlint: true,
+  };
+  const imported: string[] = [];
+
+  for (const [name, rule] of Object.entries(rules)) {
+    // Functions and async rule configs can't be evaluated here
+    if (!Array.isArray(rule)) {
+      ignored.push(name);
+      continue;
+    }
+    const [level, when = 'always', value] = rule;
+    if (level === 0) continue;
+    if (!SUPPORTED_RULES.includes(name)) {
+      ignored.push(name);
+      continue;
+    }
+    if (level !== 2) {
+      ignored.push(`${name} (warning only)`);
+      continue;
+    }
+    if (applyRule(convention, name, when, value)) {
+      imported.push(name);
+    } else {
+      ignored.push(`${name} (${when})`);
+    }
+  }
+
+  return { source, convention, imported, ignored };
+}
+
+function applyRule(
+  convention: CustomCommitConvention,
+  name: string,
+  when: unknown,
+  value: unknown,
+): boolean {
+  const isList = (list: unknown): list is string[] =>
+    Array.isArray(list) && list.every((item) => typeof item === 'string');
+  const isLength = (length: unknown): length is number =>
+    typeof length === 'number' && Number.isInteger(length) && length > 0;
+
+  switch (name) {
+    case 'type-enum':
+      if (when !== 'always' || !isList(value) || value.length === 0) return false;
+      convention.types = value;
+      return true;
+    case 'scope-enum':
+      if (when !== 'always' || !isList(value)) return false;
+      convention.scopes = value;
+      return true;
+    case 'scope-empty':
+      if (when !== 'never') return false;
+      convention.requireScope = true;
+      return true;
+    case 'subject-max-length':
+      if (when !== 'always' || !isLength(value)) return false;
+      convention.maxSubjectLength = value;
+      return true;
+    case 'header-max-length':
+      if (when !== 'always' || !isLength(value)) return false;
+      convention.maxHeaderLength = value;
+      return true;
+    case 'body-max-line-length':
+      if (when !== 'always' || !isLength(value)) return false;
+      convention.maxBodyLineLength = value;
+      return true;
+    case 'body-leading-blank':
+      if (when !== 'always') return false;
+      convention.bodyLeadingBlank = true;
+      return true;
+    default:
+      return false;
+  }
+}
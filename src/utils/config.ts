@@ -8,12 +8,18 @@ import {
 } from 'node:fs';
 import { dirname, join, resolve } from 'node:path';
 import type { ContributeConfig } from '../types.js';
+import { getAIEndpointError } from './aiProviders.js';
+import { getCustomConventionError } from './convention.js';
+import { getPullRequestConfigError } from './prMetadata.js';
+import { getAIRedactionError } from './redact.js';
+import { getAIReviewError } from './review.js';
+import { getWorkflowSpecError } from './workflow.js';
 
 const CONFIG_FILENAME = '.contributerc.json';
 const LOCAL_CONFIG_DIRNAME = 'contribute-now';
 const LOCAL_CONFIG_FILENAME = 'config.json';
 
-function findRepoRoot(cwd = process.cwd()): string | null {
+export function findRepoRoot(cwd = process.cwd()): string | null {
   let current = resolve(cwd);
 
   while (true) {
@@ -99,13 +105,51 @@ function parseConfigFile(path: string): ContributeConfig | null {
     }
     if (
       parsed.aiProvider !== undefined &&
-      (typeof parsed.aiProvider !== 'string' || !VALID_AI_PROVIDERS.includes(parsed.aiProvider))
+      (typeof parsed.aiProvider !== 'string' || !AI_PROVIDER_ID_PATTERN.test(parsed.aiProvider))
     ) {
       console.error(
-        `Invalid aiProvider "${String(parsed.aiProvider)}" in ${path.endsWith(CONFIG_FILENAME) ? CONFIG_FILENAME : LOCAL_CONFIG_FILENAME}. Valid: ${VALID_AI_PROVIDERS.join(', ')}`,
+        `Invalid aiProvider "${String(parsed.aiProvider)}" in ${path.endsWith(CONFIG_FILENAME) ? CONFIG_FILENAME : LOCAL_CONFIG_FILENAME}. Use a provider id such as: ${BUILT_IN_AI_PROVIDERS.join(', ')}`,
       );
       return null;
     }
+    if (parsed.aiProvider === 'openai-compatible' && parsed.aiEndpoint === undefined) {
+      console.error(
+        `Invalid config (${path}): the openai-compatible AI provider requires an aiEndpoint.`,
+      );
+      return null;
+    }
+    if (parsed.aiEndpoint !== undefined) {
+      const endpointError = getAIEndpointError(parsed.aiEndpoint);
+      if (endpointError) {
+        console.error(`Invalid config (${path}): ${endpointError}`);
+        return null;
+      }
+    }
+    if (parsed.aiRedaction !== undefined) {
+      const redactionError = getAIRedactionError(parsed.aiRedaction);
+      if (redactionError) {
+        console.error(`Invalid config (${path}): ${redactionError}`);
+        return null;
+      }
+    }
+    if (parsed.aiReview !== undefined) {
+      const reviewError = getAIReviewError(parsed.aiReview);
+      if (reviewError) {
+        console.error(`Invalid config (${path}): ${reviewError}`);
+        return null;
+      }
+    }
+    if (parsed.pullRequest !== undefined) {
+      const pullRequestError = getPullRequestConfigError(parsed.pullRequest);
+      if (pullRequestError) {
+        console.error(`Invalid config (${path}): ${pullRequestError}`);
+        return null;
+      }
+    }
+    if (parsed.commitBody !== undefined && typeof parsed.commitBody !== 'boolean') {
+      console.error(`Invalid config (${path}): commitBody must be true or false.`);
+      return null;
+    }
     if (
       parsed.aiModel !== undefined &&
       (typeof parsed.aiModel !== 'string' || !parsed.aiModel.trim())
@@ -113,6 +157,13 @@ function parseConfigFile(path: string): ContributeConfig | null {
       console.error(`Invalid config (${path}): aiModel must be a non-empty string when set.`);
       return null;
     }
+    if (
+      parsed.promptsDir !== undefined &&
+      (typeof parsed.promptsDir !== 'string' || !parsed.promptsDir.trim())
+    ) {
+      console.error(`Invalid config (${path}): promptsDir must be a non-empty path when set.`);
+      return null;
+    }
     if (!parsed.mainBranch.trim()) {
       console.error(`Invalid config (${path}): mainBranch must not be empty.`);
       return null;
@@ -126,6 +177,48 @@ function parseConfigFile(path: string): ContributeConfig | null {
       return null;
     }
 
+    if (parsed.trunkPolicy !== undefined) {
+      const policy = parsed.trunkPolicy;
+      const isPositiveInt = (value: unknown) =>
+        value === undefined || (typeof value === 'number' && Number.isInteger(value) && value > 0);
+      if (
+        typeof policy !== 'object' ||
+        policy === null ||
+        !isPositiveInt(policy.maxBranchAgeDays) ||
+        !isPositiveInt(policy.maxBranchCommits)
+      ) {
+        console.error(
+          `Invalid config (${path}): trunkPolicy limits must be positive integers when set.`,
+        );
+        return null;
+      }
+    }
+
+    if (parsed.commitConvention === 'custom' && parsed.customConvention === undefined) {
+      console.error(
+        `Invalid config (${path}): the custom commit convention requires a customConvention.`,
+      );
+      return null;
+    }
+    if (parsed.customConvention !== undefined) {
+      const conventionError = getCustomConventionError(parsed.customConvention);
+      if (conventionError) {
+        console.error(`Invalid config (${path}): ${conventionError}`);
+        return null;
+      }
+    }
+    if (parsed.workflow === 'custom' && parsed.workflowSpec === undefined) {
+      console.error(`Invalid config (${path}): the custom workflow requires a workflowSpec.`);
+      return null;
+    }
+    if (parsed.workflowSpec !== undefined) {
+      const specError = getWorkflowSpecError(parsed.workflowSpec);
+      if (specError) {
+        console.error(`Invalid config (${path}): ${specError}`);
+        return null;
+      }
+    }
+
     if (parsed.branchPrefixes.length === 0) {
       console.error(`Invalid config (${path}): branchPrefixes must not be empty.`);
       return null;
@@ -217,10 +310,12 @@ export function configExists(cwd = process.cwd()): boolean {
   return getConfigSource(cwd) !== null;
 }
 
-const VALID_WORKFLOWS = ['clean-flow', 'github-flow', 'git-flow'];
+const VALID_WORKFLOWS = ['clean-flow', 'github-flow', 'git-flow', 'trunk', 'custom'];
 const VALID_ROLES = ['maintainer', 'contributor'];
-const VALID_CONVENTIONS = ['conventional', 'clean-commit', 'none'];
-const VALID_AI_PROVIDERS = ['copilot', 'ollama-cloud'];
+const VALID_CONVENTIONS = ['conventional', 'clean-commit', 'none', 'custom', 'commitlint'];
+const BUILT_IN_AI_PROVIDERS = ['copilot', 'ollama-cloud', 'ollama', 'openai-compatible'];
+// Providers can be registered at runtime, so only the id's shape is checked here
+const AI_PROVIDER_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
 
 export function isAIEnabled(config: ContributeConfig, cliNoAI = false): boolean {
   return config.aiEnabled !== false && !cliNoAI;
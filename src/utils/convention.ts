@@ -1,4 +1,5 @@
-import type { CommitConvention } from '../types.js';
+import type { CommitConvention, ContributeConfig, CustomCommitConvention } from '../types.js';
+import { isCommitlintLoadError, readCommitlintConfig } from './commitlint.js';
 
 /**
  * Commit convention validators and metadata.
@@ -6,20 +7,34 @@ import type { CommitConvention } from '../types.js';
  * Supported conventions:
  * - Conventional Commits (https://www.conventionalcommits.org/)
  * - Clean Commit by WGTech Labs (https://github.com/wgtechlabs/clean-commit)
+ * - Custom house style declared as `customConvention` in the repo config
+ * - commitlint rules read from the repo's existing commitlint config
  */
 
-// Clean Commit: <emoji> <type>[!][(<scope>)]: <description>
+/**
+ * A convention ready to validate against: a built-in convention name, or the
+ * custom spec itself when the repo config uses 'custom' or 'commitlint'.
+ */
+export type ConventionRules =
+  | Exclude<CommitConvention, 'custom' | 'commitlint'>
+  | CustomCommitConvention;
+
+export const DEFAULT_MAX_SUBJECT_LENGTH = 72;
+
+// Clean Commit: <emoji> <type>[!][(<scope>)]: <description>, "!" also after the scope
 const CLEAN_COMMIT_PATTERN =
-  /^(📦|🔧|🗑\uFE0F?|🔒|⚙\uFE0F?|☕|🧪|📖|🚀) (new|update|remove|security|setup|chore|test|docs|release)(!?)( \([a-zA-Z0-9][a-zA-Z0-9-]*\))?: .{1,72}$/u;
+  /^(📦|🔧|🗑\uFE0F?|🔒|⚙\uFE0F?|☕|🧪|📖|🚀) (new|update|remove|security|setup|chore|test|docs|release)(?:( \([a-zA-Z0-9][a-zA-Z0-9-]*\))!?|!( \([a-zA-Z0-9][a-zA-Z0-9-]*\))?)?: .{1,72}$/u;
 
-// Conventional Commits: <type>[!][(<scope>)]: <description>
+// Conventional Commits: <type>[(<scope>)][!]: <description>, "!" also before the scope
 const CONVENTIONAL_COMMIT_PATTERN =
-  /^(feat|fix|docs|style|refactor|perf|test|build|ci|chore|revert)(!?)(\([a-zA-Z0-9][a-zA-Z0-9._-]*\))?: .{1,72}$/;
+  /^(feat|fix|docs|style|refactor|perf|test|build|ci|chore|revert)(?:(\([a-zA-Z0-9][a-zA-Z0-9._-]*\))!?|!(\([a-zA-Z0-9][a-zA-Z0-9._-]*\))?)?: .{1,72}$/;
 
 export const CONVENTION_LABELS: Record<CommitConvention, string> = {
   conventional: 'Conventional Commits',
   'clean-commit': 'Clean Commit (by WGTech Labs)',
   none: 'No convention',
+  custom: 'Custom convention',
+  commitlint: 'commitlint',
 };
 
 export const CONVENTION_DESCRIPTIONS: Record<CommitConvention, string> = {
@@ -27,11 +42,16 @@ export const CONVENTION_DESCRIPTIONS: Record<CommitConvention, string> = {
     'Conventional Commits — feat: | fix: | docs: | chore: etc. (conventionalcommits.org)',
   'clean-commit': 'Clean Commit — 📦 new: | 🔧 update: | 🗑️ remove: etc. (by WGTech Labs)',
   none: 'No commit convention enforcement',
+  custom: 'Custom — types, scopes, and emojis from customConvention in the repo config',
+  commitlint: "commitlint — rules imported from the repo's commitlint config",
 };
 
-export const CONVENTION_FORMAT_HINTS: Record<Exclude<CommitConvention, 'none'>, string[]> = {
+export const CONVENTION_FORMAT_HINTS: Record<
+  Exclude<CommitConvention, 'none' | 'custom' | 'commitlint'>,
+  string[]
+> = {
   conventional: [
-    'Format: <type>[!][(<scope>)]: <description>',
+    'Format: <type>[(<scope>)][!]: <description>',
     'Types: feat, fix, docs, style, refactor, perf, test, build, ci, chore, revert',
     'Examples: feat: add login page | fix(auth): resolve token expiry | docs: update README',
     'Do not use backticks or markdown formatting in the message.',
@@ -48,26 +68,553 @@ export function hasUnsupportedCommitMessageChars(message: string): boolean {
   return message.includes('`');
 }
 
+// ── Custom conventions ───────────────────────────────────────────────
+
+export function isCustomConvention(
+  convention: ConventionRules,
+): convention is CustomCommitConvention {
+  return typeof convention === 'object';
+}
+
+/**
+ * Resolve the convention rules for a repo config. A 'custom' convention
+ * without a spec (rejected by config validation) degrades to 'none', as does
+ * 'commitlint' when the commitlint config is missing or unreadable.
+ */
+export function resolveConventionRules(
+  config: Pick<ContributeConfig, 'commitConvention' | 'customConvention'>,
+): ConventionRules {
+  if (config.commitConvention === 'custom') {
+    return config.customConvention ?? 'none';
+  }
+  if (config.commitConvention === 'commitlint') {
+    const commitlint = readCommitlintConfig();
+    return commitlint && !isCommitlintLoadError(commitlint) ? commitlint.convention : 'none';
+  }
+  return config.commitConvention;
+}
+
+export function getConventionLabel(convention: ConventionRules): string {
+  if (isCustomConvention(convention)) {
+    return convention.name?.trim() || CONVENTION_LABELS.custom;
+  }
+  return CONVENTION_LABELS[convention];
+}
+
+/**
+ * Returns a description of what is wrong with a custom convention spec,
+ * or null if it is valid. Used by config parsing.
+ */
+export function getCustomConventionError(spec: unknown): string | null {
+  if (typeof spec !== 'object' || spec === null || Array.isArray(spec)) {
+    return 'customConvention must be an object.';
+  }
+  const candidate = spec as Record<string, unknown>;
+  const isToken = (value: unknown) => typeof value === 'string' && /^[a-zA-Z0-9._-]+$/.test(value);
+
+  if (candidate.name !== undefined && typeof candidate.name !== 'string') {
+    return 'customConvention.name must be a string when set.';
+  }
+  if (
+    !Array.isArray(candidate.types) ||
+    candidate.types.length === 0 ||
+    !candidate.types.every(isToken)
+  ) {
+    return 'customConvention.types must be a non-empty array of words (letters, digits, . _ -).';
+  }
+  if (candidate.emojis !== undefined) {
+    if (typeof candidate.emojis !== 'object' || candidate.emojis === null) {
+      return 'customConvention.emojis must map types to emojis.';
+    }
+    const types = candidate.types as string[];
+    for (const [type, emoji] of Object.entries(candidate.emojis)) {
+      if (!types.includes(type)) {
+        return `customConvention.emojis.${type} is not one of customConvention.types.`;
+      }
+      if (typeof emoji !== 'string' || !emoji.trim() || /\s/.test(emoji)) {
+        return `customConvention.emojis.${type} must be a single emoji.`;
+      }
+    }
+  }
+  if (
+    candidate.scopes !== undefined &&
+    (!Array.isArray(candidate.scopes) || !candidate.scopes.every(isToken))
+  ) {
+    return 'customConvention.scopes must be an array of words (letters, digits, . _ -).';
+  }
+  if (candidate.requireScope !== undefined && typeof candidate.requireScope !== 'boolean') {
+    return 'customConvention.requireScope must be true or false.';
+  }
+  if (
+    candidate.maxSubjectLength !== undefined &&
+    (typeof candidate.maxSubjectLength !== 'number' ||
+      !Number.isInteger(candidate.maxSubjectLength) ||
+      candidate.maxSubjectLength < 1)
+  ) {
+    return 'customConvention.maxSubjectLength must be a positive integer.';
+  }
+  if (
+    candidate.maxHeaderLength !== undefined &&
+    (typeof candidate.maxHeaderLength !== 'number' ||
+      !Number.isInteger(candidate.maxHeaderLength) ||
+      candidate.maxHeaderLength < 1)
+  ) {
+    return 'customConvention.maxHeaderLength must be a positive integer.';
+  }
+  if (
+    candidate.maxBodyLineLength !== undefined &&
+    (typeof candidate.maxBodyLineLength !== 'number' ||
+      !Number.isInteger(candidate.maxBodyLineLength) ||
+      candidate.maxBodyLineLength < 1)
+  ) {
+    return 'customConvention.maxBodyLineLength must be a positive integer.';
+  }
+  if (candidate.bodyLeadingBlank !== undefined && typeof candidate.bodyLeadingBlank !== 'boolean') {
+    return 'customConvention.bodyLeadingBlank must be true or false.';
+  }
+  return null;
+}
+
+// [<emoji> ]<type>[!][(<scope>)][!]: <subject>
+const CUSTOM_HEADER_PATTERN =
+  /^(?:(\S+) )?([a-zA-Z0-9._-]+)(!?)(?:\(([a-zA-Z0-9._-]+)\))?(!?): (.*)$/u;
+
+// Emoji variation selectors are optional in typed messages
+function normalizeEmoji(value: string): string {
+  return value.replace(/\uFE0F/g, '');
+}
+
+/**
+ * Returns every rule a header breaks under a custom convention (empty when valid).
+ * The body and footers are checked by lintCommitMessage.
+ */
+export function getCustomConventionProblems(
+  header: string,
+  spec: CustomCommitConvention,
+): string[] {
+  const match = CUSTOM_HEADER_PATTERN.exec(header);
+  if (!match) {
+    return [`Header must look like: ${getCustomFormat(spec)}`];
+  }
+
+  const [, emoji, type, bangBefore, scope, bangAfter, subject] = match;
+  const problems: string[] = [];
+  const expectedEmoji = spec.emojis?.[type];
+  const maxLength = getMaxSubjectLength(spec);
+
+  if (!spec.types.includes(type)) {
+    problems.push(`Type "${type}" is not allowed. Use one of: ${spec.types.join(', ')}`);
+  }
+  if (expectedEmoji && (!emoji || normalizeEmoji(emoji) !== normalizeEmoji(expectedEmoji))) {
+    problems.push(`Type "${type}" must start with ${expectedEmoji}`);
+  } else if (emoji && !expectedEmoji) {
+    problems.push(`Type "${type}" does not take an emoji prefix`);
+  }
+  if (bangBefore && bangAfter) {
+    problems.push('Use a single "!" to mark a breaking change');
+  }
+  if (!scope && spec.requireScope) {
+    problems.push('A scope is required, e.g. type(scope): subject');
+  }
+  if (scope && spec.scopes && spec.scopes.length > 0 && !spec.scopes.includes(scope)) {
+    problems.push(`Scope "${scope}" is not allowed. Use one of: ${spec.scopes.join(', ')}`);
+  }
+  if (!subject.trim()) {
+    problems.push('Subject must not be empty');
+  } else if (subject.length > maxLength) {
+    problems.push(`Subject is ${subject.length} characters; the limit is ${maxLength}`);
+  }
+  if (spec.maxHeaderLength && header.length > spec.maxHeaderLength) {
+    problems.push(`Header is ${header.length} characters; the limit is ${spec.maxHeaderLength}`);
+  }
+  return problems;
+}
+
+/**
+ * The subject limit for a custom convention. Conventions imported from
+ * commitlint have none unless the config sets `subject-max-length`, as in
+ * commitlint itself; the header limit still applies.
+ */
+export function getMaxSubjectLength(spec: CustomCommitConvention): number {
+  if (spec.maxSubjectLength !== undefined) return spec.maxSubjectLength;
+  return spec.fromCommitlint ? Number.POSITIVE_INFINITY : DEFAULT_MAX_SUBJECT_LENGTH;
+}
+
+function getCustomFormat(spec: CustomCommitConvention): string {
+  const emoji = spec.emojis && Object.keys(spec.emojis).length > 0 ? '<emoji> ' : '';
+  const scope = spec.requireScope ? '(<scope>)' : '[(<scope>)]';
+  return `${emoji}<type>${scope}[!]: <subject>`;
+}
+
+function formatCustomType(spec: CustomCommitConvention, type: string): string {
+  const emoji = spec.emojis?.[type];
+  return emoji ? `${emoji} ${type}` : type;
+}
+
+/**
+ * Format and rule lines for a custom convention. Shared by validation hints
+ * and the AI system prompts so both describe the same house style.
+ */
+export function getCustomConventionHints(spec: CustomCommitConvention): string[] {
+  const example = buildCustomCommitMessage(spec, [], spec.scopes?.[0], 'describe the change');
+  return [
+    `Format: ${getCustomFormat(spec)}`,
+    `Types: ${spec.types.map((type) => formatCustomType(spec, type)).join(' | ')}`,
+    ...(spec.scopes && spec.scopes.length > 0
+      ? [`Scopes${spec.requireScope ? ' (required)' : ''}: ${spec.scopes.join(', ')}`]
+      : spec.requireScope
+        ? ['A scope is required.']
+        : []),
+    ...(Number.isFinite(getMaxSubjectLength(spec))
+      ? [`Subject: max ${getMaxSubjectLength(spec)} characters`]
+      : []),
+    ...(spec.maxHeaderLength ? [`Header: max ${spec.maxHeaderLength} characters`] : []),
+    `Example: ${example}`,
+    'Do not use backticks or markdown formatting in the message.',
+  ];
+}
+
+/**
+ * Build a header that satisfies a custom convention. The first preferred type
+ * the spec allows wins (falling back to its first type); scopes the spec does
+ * not allow are dropped, or replaced with the first allowed scope when required.
+ */
+export function buildCustomCommitMessage(
+  spec: CustomCommitConvention,
+  preferredTypes: string[],
+  scope: string | undefined,
+  subject: string,
+): string {
+  const type = preferredTypes.find((candidate) => spec.types.includes(candidate)) ?? spec.types[0];
+  const allowedScopes = spec.scopes ?? [];
+  let finalScope =
+    scope && (allowedScopes.length === 0 || allowedScopes.includes(scope)) ? scope : undefined;
+  if (!finalScope && spec.requireScope) {
+    finalScope = allowedScopes[0] ?? scope ?? 'core';
+  }
+  const prefix = `${formatCustomType(spec, type)}${finalScope ? `(${finalScope})` : ''}: `;
+  const maxLength = Math.min(
+    getMaxSubjectLength(spec),
+    spec.maxHeaderLength ? spec.maxHeaderLength - prefix.length : Number.POSITIVE_INFINITY,
+  );
+  const trimmedSubject = subject.length > maxLength ? subject.slice(0, maxLength).trim() : subject;
+  return `${prefix}${trimmedSubject}`;
+}
+
+/**
+ * Commit message for a version bump, e.g. "🚀 release: v1.2.0" under Clean Commit
+ * or "chore(release): v1.2.0" under Conventional Commits.
+ */
+export function getReleaseCommitMessage(convention: ConventionRules, tag: string): string {
+  if (isCustomConvention(convention)) {
+    const usesReleaseType = convention.types.includes('release');
+    return buildCustomCommitMessage(
+      convention,
+      ['release', 'chore'],
+      usesReleaseType ? undefined : 'release',
+      usesReleaseType ? tag : `release ${tag}`,
+    );
+  }
+  if (convention === 'clean-commit') return `🚀 release: ${tag}`;
+  if (convention === 'conventional') return `chore(release): ${tag}`;
+  return `Release ${tag}`;
+}
+
+/**
+ * Format hints for any convention (empty for 'none').
+ */
+export function getConventionFormatHints(convention: ConventionRules): string[] {
+  if (isCustomConvention(convention)) return getCustomConventionHints(convention);
+  if (convention === 'none') return [];
+  return CONVENTION_FORMAT_HINTS[convention];
+}
+
+// ── Header parsing ───────────────────────────────────────────────────
+
+export const CONVENTIONAL_TYPES = [
+  'feat',
+  'fix',
+  'docs',
+  'style',
+  'refactor',
+  'perf',
+  'test',
+  'build',
+  'ci',
+  'chore',
+  'revert',
+];
+
+export const CLEAN_COMMIT_TYPES = [
+  'new',
+  'update',
+  'remove',
+  'security',
+  'setup',
+  'chore',
+  'test',
+  'docs',
+  'release',
+];
+
+export interface ParsedCommitHeader {
+  type: string;
+  scope: string | null;
+  breaking: boolean;
+  subject: string;
+}
+
+// [<emoji> ]<type>[!][ ][(<scope>)][!]: <subject> — loose enough for every convention
+const HEADER_PARTS_PATTERN =
+  /^(?:\S+ )?([a-zA-Z0-9._-]+)(!?) ?(?:\(([a-zA-Z0-9._-]+)\))?(!?): (.+)$/u;
+
+/**
+ * Returns the commit types a convention allows. 'none' accepts the types of
+ * both built-in conventions so history written under either still parses.
+ */
+export function getConventionTypes(convention: ConventionRules): string[] {
+  if (isCustomConvention(convention)) return convention.types;
+  if (convention === 'conventional') return CONVENTIONAL_TYPES;
+  if (convention === 'clean-commit') return CLEAN_COMMIT_TYPES;
+  return [...new Set([...CONVENTIONAL_TYPES, ...CLEAN_COMMIT_TYPES])];
+}
+
+/**
+ * Split a header into type, scope, breaking flag, and subject.
+ * Returns null when the header has no type the convention allows.
+ */
+export function parseCommitHeader(
+  header: string,
+  convention: ConventionRules,
+): ParsedCommitHeader | null {
+  const match = HEADER_PARTS_PATTERN.exec(header.trim());
+  if (!match) return null;
+  const [, type, bangBefore, scope, bangAfter, subject] = match;
+  if (!getConventionTypes(convention).includes(type)) return null;
+  return {
+    type,
+    scope: scope ?? null,
+    breaking: Boolean(bangBefore || bangAfter),
+    subject: subject.trim(),
+  };
+}
+
+/**
+ * Add the "!" breaking-change marker before the colon, after any scope, as the
+ * Conventional Commits spec writes it: `feat(api): x` becomes `feat(api)!: x`.
+ * Headers that already have one are returned as is.
+ */
+export function markBreakingHeader(header: string): string {
+  if (header.split(': ')[0].includes('!')) return header;
+  return header.replace(/^((?:\S+ )??[a-zA-Z0-9._-]+ ?(?:\([a-zA-Z0-9._-]+\))?)(?=: )/u, '$1!');
+}
+
+// ── Message structure ────────────────────────────────────────────────
+
+export const DEFAULT_MAX_BODY_LINE_LENGTH = 100;
+
+export interface CommitMessageLine {
+  text: string;
+  /** 1-based line number in the original message, comments included */
+  line: number;
+}
+
+export interface CommitFooter {
+  token: string;
+  value: string;
+  line: number;
+}
+
+export interface ParsedCommitMessage {
+  /** Every line left after dropping comments */
+  lines: CommitMessageLine[];
+  header: CommitMessageLine;
+  /** Lines between the header and the footers, blank lines included */
+  body: CommitMessageLine[];
+  footers: CommitFooter[];
+}
+
+export interface CommitMessageProblem {
+  line: number;
+  message: string;
+}
+
+// <token>: <value> or <token> #<value>; only BREAKING CHANGE may contain a space
+const FOOTER_PATTERN = /^(BREAKING CHANGE|BREAKING-CHANGE|[A-Za-z][A-Za-z0-9-]*)(: | #)(.*)$/;
+const SPACED_TOKEN_PATTERN = /^([A-Za-z][A-Za-z0-9-]*(?: [A-Za-z][A-Za-z0-9-]*)+): /;
+const SCISSORS_PATTERN = /^# -+ >8 -+$/;
+
+function isBreakingToken(token: string): boolean {
+  return token === 'BREAKING CHANGE' || token === 'BREAKING-CHANGE';
+}
+
+/**
+ * Split a commit message into header, body, and footers the way
+ * Conventional Commits defines them. Git comment lines and everything below
+ * a scissors line are dropped, but line numbers still refer to the original text.
+ */
+export function parseCommitMessage(message: string): ParsedCommitMessage {
+  const lines: CommitMessageLine[] = [];
+  for (const [index, text] of message.split(/\r?\n/).entries()) {
+    if (SCISSORS_PATTERN.test(text)) break;
+    if (text.startsWith('#')) continue;
+    lines.push({ text, line: index + 1 });
+  }
+  while (lines.length > 1 && !lines[lines.length - 1].text.trim()) lines.pop();
+
+  const [header = { text: '', line: 1 }, ...rest] = lines;
+
+  // Footers are the trailing paragraph, if it starts with a footer token
+  let footerStart = rest.length;
+  for (let i = rest.length - 1; i >= 0; i--) {
+    if (!rest[i].text.trim()) break;
+    footerStart = i;
+  }
+  const footerLines = rest.slice(footerStart);
+  const hasFooters =
+    footerStart > 0 && footerLines.length > 0 && FOOTER_PATTERN.test(footerLines[0].text);
+
+  const footers: CommitFooter[] = [];
+  if (hasFooters) {
+    for (const { text, line } of footerLines) {
+      const match = FOOTER_PATTERN.exec(text);
+      if (match) {
+        const [, token, separator, value] = match;
+        footers.push({ token, value: separator === ' #' ? `#${value}` : value, line });
+      } else {
+        // A footer value may wrap onto the following lines
+        const last = footers[footers.length - 1];
+        last.value += `\n${text}`;
+      }
+    }
+  }
+
+  return {
+    lines,
+    header,
+    body: hasFooters ? rest.slice(0, footerStart) : rest,
+    footers,
+  };
+}
+
+function getHeaderProblems(header: string, convention: ConventionRules): string[] {
+  if (!header.trim()) return ['Header must not be empty'];
+  const problems: string[] = [];
+  if (hasUnsupportedCommitMessageChars(header)) {
+    problems.push('Do not use backticks or markdown formatting in the header');
+  }
+  if (isCustomConvention(convention)) {
+    problems.push(...getCustomConventionProblems(header, convention));
+  } else if (convention === 'clean-commit' && !CLEAN_COMMIT_PATTERN.test(header)) {
+    problems.push(`Header does not follow the ${CONVENTION_LABELS['clean-commit']} format`);
+  } else if (convention === 'conventional' && !CONVENTIONAL_COMMIT_PATTERN.test(header)) {
+    problems.push(`Header does not follow the ${CONVENTION_LABELS.conventional} format`);
+  }
+  return problems;
+}
+
+/**
+ * Check a whole commit message — header, body, and footers — and return
+ * every problem with the line it was found on (empty when valid).
+ */
+export function lintCommitMessage(
+  message: string,
+  convention: ConventionRules,
+): CommitMessageProblem[] {
+  if (convention === 'none') return [];
+
+  const { lines, header, body, footers } = parseCommitMessage(message);
+  const problems: CommitMessageProblem[] = getHeaderProblems(header.text, convention).map(
+    (text) => ({ line: header.line, message: text }),
+  );
+
+  const custom = isCustomConvention(convention) ? convention : null;
+  const afterHeader = body[0];
+  const requireBlank = custom ? custom.bodyLeadingBlank === true : true;
+  if (requireBlank && afterHeader?.text.trim()) {
+    problems.push({
+      line: afterHeader.line,
+      message: 'Leave a blank line between the header and the body',
+    });
+  }
+
+  // Lines without spaces (long URLs, paths) can't be wrapped
+  const maxLineLength = custom ? custom.maxBodyLineLength : DEFAULT_MAX_BODY_LINE_LENGTH;
+  if (maxLineLength) {
+    for (const { text, line } of lines.slice(1)) {
+      if (text.length > maxLineLength && /\s/.test(text.trim())) {
+        problems.push({
+          line,
+          message: `Line is ${text.length} characters; wrap body and footer lines at ${maxLineLength}`,
+        });
+      }
+    }
+  }
+
+  for (const { text, line } of body) {
+    if (/^breaking[ -]change:/i.test(text) && !FOOTER_PATTERN.test(text)) {
+      problems.push({ line, message: 'Write BREAKING CHANGE in uppercase' });
+    } else if (FOOTER_PATTERN.test(text) && isBreakingToken(text.split(':')[0])) {
+      problems.push({ line, message: 'Put BREAKING CHANGE in the footer, after a blank line' });
+    }
+  }
+
+  for (const footer of footers) {
+    for (const [offset, text] of footer.value.split('\n').entries()) {
+      const spaced = SPACED_TOKEN_PATTERN.exec(text);
+      if (offset > 0 && spaced && !/^breaking change$/i.test(spaced[1])) {
+        problems.push({
+          line: footer.line + offset,
+          message: `Footer tokens use - instead of spaces, e.g. ${spaced[1].replace(/ /g, '-')}:`,
+        });
+      } else if (offset > 0 && /^breaking[ -]change:/i.test(text)) {
+        problems.push({
+          line: footer.line + offset,
+          message: 'Write BREAKING CHANGE in uppercase',
+        });
+      }
+    }
+  }
+
+  return problems.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Merge, fixup, squash, and amend commits are not validated. These are the
+ * subjects the commit-msg hook skips.
+ */
+export function isSkippedCommitSubject(subject: string): boolean {
+  return /^(Merge |fixup!|squash!|amend!)/.test(subject);
+}
+
+export function formatCommitMessageProblem(problem: CommitMessageProblem): string {
+  return `Line ${problem.line}: ${problem.message}`;
+}
+
+// ── Validation ───────────────────────────────────────────────────────
+
 /**
  * Validate a commit message against the given convention.
- * Returns true if the message passes validation.
+ * Returns true if the message passes validation; use lintCommitMessage for the problems.
  */
-export function validateCommitMessage(message: string, convention: CommitConvention): boolean {
-  if (convention === 'none') return true;
-  if (hasUnsupportedCommitMessageChars(message)) return false;
-  if (convention === 'clean-commit') return CLEAN_COMMIT_PATTERN.test(message);
-  if (convention === 'conventional') return CONVENTIONAL_COMMIT_PATTERN.test(message);
-  return true;
+export function validateCommitMessage(message: string, convention: ConventionRules): boolean {
+  return lintCommitMessage(message, convention).length === 0;
 }
 
 /**
  * Get a user-friendly error message explaining why validation failed.
+ * Pass the message to include each problem with its line number.
  */
-export function getValidationError(convention: CommitConvention): string[] {
+export function getValidationError(convention: ConventionRules, message?: string): string[] {
   if (convention === 'none') return [];
+  const problems =
+    message !== undefined
+      ? lintCommitMessage(message, convention).map(formatCommitMessageProblem)
+      : [];
   return [
-    `Commit message does not follow ${CONVENTION_LABELS[convention]} format.`,
+    `Commit message does not follow ${getConventionLabel(convention)} format.`,
+    ...problems,
     'Do not use backticks or markdown formatting in commit messages.',
-    ...CONVENTION_FORMAT_HINTS[convention],
+    ...getConventionFormatHints(convention),
   ];
 }
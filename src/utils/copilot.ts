@@ -1,9 +1,50 @@
 import { CopilotClient } from '@github/copilot-sdk';
-import type { AIProvider, CommitConvention, ContributeConfig } from '../types.js';
+import type { AIProvider, ContributeConfig, CustomCommitConvention } from '../types.js';
+import { getAICacheKey, getCachedAIResponse, setCachedAIResponse } from './aiCache.js';
+import {
+  type AIProviderDefinition,
+  checkEndpointHealth,
+  createIdleTimeout,
+  extractModelIds,
+  fetchEndpointModels,
+  getAIProvider,
+  getAIProviders,
+  openAICompatibleProvider,
+  type ResolvedAIConfig,
+  registerAIProvider,
+  requestChatCompletion,
+} from './aiProviders.js';
 import { readConfig } from './config.js';
+import {
+  buildCustomCommitMessage,
+  type ConventionRules,
+  getConventionLabel,
+  getCustomConventionHints,
+  isCustomConvention,
+  markBreakingHeader,
+  resolveConventionRules,
+} from './convention.js';
+import { getCurrentBranch } from './git.js';
+import { type DiffHunk, formatHunksForAI } from './hunks.js';
+import { ollamaProvider } from './ollama.js';
+import {
+  loadPromptTemplate,
+  type PromptKind,
+  type PromptTemplateVariables,
+  renderPromptTemplate,
+} from './promptTemplates.js';
+import {
+  type FileRedaction,
+  type RedactionCallback,
+  type RedactionKind,
+  redactDiff,
+  resolveRedactionOptions,
+} from './redact.js';
+import { normalizeReviewFindings, type ReviewFinding, type ReviewResult } from './review.js';
 import { getOllamaCloudApiKey, hasOllamaCloudApiKey } from './secrets.js';
+import { getBaseBranch } from './workflow.js';
 
-const CONVENTIONAL_COMMIT_SYSTEM_PROMPT = `Git commit message generator. Format: <type>[!][(<scope>)]: <description>
+const CONVENTIONAL_COMMIT_SYSTEM_PROMPT = `Git commit message generator. Format: <type>[(<scope>)][!]: <description>
 Types: feat, fix, docs, style, refactor, perf, test, build, ci, chore, revert
 Rules: breaking (!) only for feat/fix/refactor/perf; imperative mood; max 72 chars; lowercase start; scope optional camelCase/kebab-case. Do NOT use backticks, quotes, or markdown formatting around filenames, functions, or identifiers. Return ONLY the message line.
 Examples: feat: add user auth | fix(auth): resolve token expiry | feat!: redesign auth API`;
@@ -15,15 +56,54 @@ Rules: breaking (!) only for new/update/remove/security; imperative mood; max 72
 Correct: 📦 new: add user auth | 🔧 update (api): improve error handling | ⚙️ setup (ci): configure github actions
 WRONG: ⚙️setup(ci): ... | 🔧 update(api): ... ← always space before scope parenthesis`;
 
-function getGroupingSystemPrompt(convention: CommitConvention): string {
-  const conventionBlock =
-    convention === 'conventional'
+// Custom conventions describe themselves with the same hints `cn validate` prints
+// (minus the backtick reminder, which every prompt states on its own)
+function getCustomConventionPromptBlock(spec: CustomCommitConvention): string {
+  return getCustomConventionHints(spec)
+    .filter((line) => !line.startsWith('Do not use'))
+    .join('\n');
+}
+
+function getCustomCommitSystemPrompt(spec: CustomCommitConvention): string {
+  return `Git commit message generator for the ${getConventionLabel(spec)} house style.
+${getCustomConventionPromptBlock(spec)}
+Rules: only the listed types${spec.scopes?.length ? ' and scopes' : ''}; breaking (!) only when the change breaks consumers; imperative mood; lowercase start. Do NOT use backticks, quotes, or markdown formatting around filenames, functions, or identifiers. Return ONLY the message line.`;
+}
+
+function getGroupingSystemPrompt(convention: ConventionRules, byHunk = false): string {
+  const conventionBlock = isCustomConvention(convention)
+    ? `Use the ${getConventionLabel(convention)} format:
+${getCustomConventionPromptBlock(convention)}`
+    : convention === 'conventional'
       ? `Use Conventional Commit format: <type>[(<scope>)]: <description>
 Types: feat, fix, docs, style, refactor, perf, test, build, ci, chore, revert`
       : `Use Clean Commit format: <emoji> <type>[!][ (<scope>)]: <description>
 Emoji/type table:
 📦 new, 🔧 update, 🗑️ remove, 🔒 security, ⚙️ setup, ☕ chore, 🧪 test, 📖 docs, 🚀 release`;
 
+  if (byHunk) {
+    return `You are a smart commit grouping assistant. Given the hunks of a diff, each with an id like [h3], group related hunks into logical atomic commits. Hunks of the same file may go to different commits when they make unrelated changes.
+
+${conventionBlock}
+
+Return a JSON array of commit groups with this EXACT structure (no markdown fences, no explanation):
+[
+  {
+    "hunks": ["h1", "h3"],
+    "message": "<commit message following the convention above>"
+  }
+]
+
+Rules:
+- Group hunks that belong to the same logical change, across files when needed (e.g. a function and its call sites and tests)
+- Each group should represent ONE logical change
+- Every hunk id must appear in exactly one group
+- Commit messages must follow the convention, be concise, imperative, max 72 chars
+- Do not use backticks, quotes, or markdown formatting in commit messages
+- Order groups so foundational changes come first (types, utils) and consumers come after
+- Return ONLY the JSON array, nothing else`;
+  }
+
   return `You are a smart commit grouping assistant. Given a list of changed files and their diffs, group related changes into logical atomic commits.
 
 ${conventionBlock}
@@ -56,7 +136,13 @@ Examples: fix/login-timeout | feature/user-profile-page | docs/update-readme | c
 const PR_DESCRIPTION_SYSTEM_PROMPT_BASE = `GitHub PR description generator. Return JSON: {"title":"<72 chars>","body":"## Summary\\n...\\n\\n## Changes\\n- ...\\n\\n## Test Plan\\n..."}
 IMPORTANT: The title must capture the overall theme or goal of the PR — NOT enumerate individual changes. Think: what problem does this PR solve or what capability does it add? Keep it focused and specific but high-level.`;
 
-function getPRDescriptionSystemPrompt(convention: CommitConvention): string {
+function getPRDescriptionSystemPrompt(convention: ConventionRules): string {
+  if (isCustomConvention(convention)) {
+    return `${PR_DESCRIPTION_SYSTEM_PROMPT_BASE}
+CRITICAL: The PR title MUST follow the ${getConventionLabel(convention)} commit format:
+${getCustomConventionPromptBlock(convention)}
+Rules: title follows convention, present tense, describes the PR theme not individual commits; body has Summary, Changes (bullets), Test Plan sections. Return ONLY the JSON object, no fences.`;
+  }
   if (convention === 'clean-commit') {
     return `${PR_DESCRIPTION_SYSTEM_PROMPT_BASE}
 CRITICAL: The PR title MUST follow the Clean Commit format exactly: <emoji> <type>: <description>
@@ -77,16 +163,13 @@ Rules: title concise present tense, describes the PR theme not individual commit
 
 const CONFLICT_RESOLUTION_SYSTEM_PROMPT = `Git merge conflict advisor. Explain each side, suggest resolution strategy. Never auto-resolve — guidance only. Be concise and actionable.`;
 
+const REVIEW_SYSTEM_PROMPT = `Code reviewer for a branch about to be submitted. Report only real problems: bugs, security issues, data loss, broken error handling, missing edge cases. No style nits, no praise, no summaries.
+Return JSON array only: [{"file":"<path as in the diff>","startLine":<n>,"endLine":<n>,"severity":"high|medium|low","message":"<what is wrong and why, 1-2 sentences>"}]
+Lines are in the new version of the file; read them from the @@ hunk headers. high = breaks behavior or is unsafe; medium = likely bug or risk; low = worth a second look. Return [] when nothing needs attention.`;
+
 export const DEFAULT_OLLAMA_CLOUD_MODEL = 'gpt-oss:120b';
 export const DEFAULT_OLLAMA_CLOUD_HOST = 'https://ollama.com/v1';
 
-export interface ResolvedAIConfig {
-  provider: AIProvider;
-  providerLabel: string;
-  model?: string;
-  host?: string;
-}
-
 export function prioritizeOllamaCloudModels(
   models: string[],
   preferredModel = DEFAULT_OLLAMA_CLOUD_MODEL,
@@ -99,54 +182,15 @@ export function prioritizeOllamaCloudModels(
     : sortedModels;
 }
 
-export function extractOllamaCloudModelIds(payload: unknown): string[] {
-  const records =
-    typeof payload === 'object' && payload !== null
-      ? Array.isArray((payload as { data?: unknown }).data)
-        ? (payload as { data: unknown[] }).data
-        : Array.isArray((payload as { models?: unknown }).models)
-          ? (payload as { models: unknown[] }).models
-          : []
-      : [];
-
-  return [...new Set(records.map(getOllamaCloudModelId).filter(Boolean))].sort((left, right) =>
-    left.localeCompare(right),
-  );
-}
-
-function getOllamaCloudModelId(record: unknown): string | null {
-  if (typeof record !== 'object' || record === null) {
-    return null;
-  }
-
-  const candidate =
-    typeof (record as { id?: unknown }).id === 'string'
-      ? (record as { id: string }).id
-      : typeof (record as { name?: unknown }).name === 'string'
-        ? (record as { name: string }).name
-        : null;
-
-  const normalized = candidate?.trim();
-  return normalized ? normalized : null;
-}
+export const extractOllamaCloudModelIds = extractModelIds;
 
 export async function fetchOllamaCloudModels(apiKey: string, host?: string): Promise<string[]> {
-  const response = await fetch(`${normalizeOllamaCloudHost(host)}/models`, {
-    headers: {
-      Accept: 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
+  const models = await fetchEndpointModels({
+    baseUrl: normalizeOllamaCloudHost(host),
+    headers: { Authorization: `Bearer ${apiKey}` },
+    label: 'Ollama Cloud',
   });
-
-  if (!response.ok) {
-    if (response.status === 401 || response.status === 403) {
-      throw new Error('Ollama Cloud authentication failed');
-    }
-
-    throw new Error(`Ollama Cloud model lookup failed (${response.status} ${response.statusText})`);
-  }
-
-  return extractOllamaCloudModelIds(await response.json());
+  return models ?? [];
 }
 
 export function normalizeOllamaCloudHost(host?: string): string {
@@ -157,19 +201,16 @@ export function normalizeOllamaCloudHost(host?: string): string {
 export function resolveAIConfig(config?: ContributeConfig | null): ResolvedAIConfig {
   const resolvedConfig = config ?? readConfig();
   const provider = resolvedConfig?.aiProvider ?? 'copilot';
+  const definition = getAIProvider(provider);
 
-  if (provider === 'ollama-cloud') {
-    return {
-      provider,
-      providerLabel: 'Ollama Cloud',
-      model: resolvedConfig?.aiModel?.trim() || DEFAULT_OLLAMA_CLOUD_MODEL,
-      host: DEFAULT_OLLAMA_CLOUD_HOST,
-    };
+  if (!definition) {
+    return { provider, providerLabel: `Unknown provider "${provider}"` };
   }
 
   return {
-    provider: 'copilot',
-    providerLabel: 'GitHub Copilot',
+    provider,
+    providerLabel: definition.label,
+    ...definition.resolve?.(resolvedConfig),
   };
 }
 
@@ -178,26 +219,6 @@ function suppressSubprocessWarnings(): void {
   process.env.NODE_NO_WARNINGS = '1';
 }
 
-/** Race a promise against a timeout. Rejects with a descriptive error on timeout. */
-function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
-  return new Promise<T>((resolve, reject) => {
-    const timer = setTimeout(
-      () => reject(new Error(`Copilot request timed out after ${ms / 1000}s`)),
-      ms,
-    );
-    promise.then(
-      (val) => {
-        clearTimeout(timer);
-        resolve(val);
-      },
-      (err) => {
-        clearTimeout(timer);
-        reject(err);
-      },
-    );
-  });
-}
-
 const COPILOT_TIMEOUT_MS = 30_000;
 const COPILOT_LONG_TIMEOUT_MS = 90_000;
 
@@ -215,6 +236,8 @@ export const BATCH_CONFIG = {
   MAX_COMPACT_PAYLOAD: 10_000,
   /** Max files to process per batch when single-call grouping fails */
   FALLBACK_BATCH_SIZE: 8,
+  /** Max diff chars per review call; larger branches are reviewed file by file */
+  MAX_REVIEW_PAYLOAD: 8_000,
 } as const;
 
 type GroupingProgressCallback = (message: string) => void;
@@ -247,11 +270,73 @@ function getRecoveryGroupKey(file: string): string {
   return 'root';
 }
 
+// Type names tried, in order, when a custom convention needs a fallback message
+const CUSTOM_FALLBACK_TYPES: Record<string, string[]> = {
+  docs: ['docs', 'doc', 'documentation', 'chore'],
+  test: ['test', 'tests', 'chore'],
+  config: ['setup', 'config', 'build', 'chore'],
+  source: ['update', 'refactor', 'chore'],
+  repo: ['chore', 'update'],
+};
+
+function createCustomFallbackMessage(
+  files: string[],
+  key: string,
+  spec: CustomCommitConvention,
+): string {
+  const countLabel = files.length === 1 ? 'file' : 'files';
+  const segment = key.split('/')[1];
+  const scope = segment && segment !== 'root' ? segment : undefined;
+
+  if (key === 'docs' || key === 'root-docs') {
+    return buildCustomCommitMessage(
+      spec,
+      CUSTOM_FALLBACK_TYPES.docs,
+      undefined,
+      `update ${files.length} documentation ${countLabel}`,
+    );
+  }
+  if (key.startsWith('tests/')) {
+    return buildCustomCommitMessage(
+      spec,
+      CUSTOM_FALLBACK_TYPES.test,
+      scope,
+      `update ${files.length} test ${countLabel}`,
+    );
+  }
+  if (key === 'root-config') {
+    return buildCustomCommitMessage(
+      spec,
+      CUSTOM_FALLBACK_TYPES.config,
+      'config',
+      `update ${files.length} config ${countLabel}`,
+    );
+  }
+  if (key.startsWith('src/') || key === 'landing') {
+    return buildCustomCommitMessage(
+      spec,
+      CUSTOM_FALLBACK_TYPES.source,
+      key === 'landing' ? 'ui' : scope,
+      `update ${files.length} source ${countLabel}`,
+    );
+  }
+  return buildCustomCommitMessage(
+    spec,
+    CUSTOM_FALLBACK_TYPES.repo,
+    undefined,
+    `update ${files.length} repo ${countLabel}`,
+  );
+}
+
 function createFallbackMessageForGroup(
   files: string[],
   key: string,
-  convention: CommitConvention,
+  convention: ConventionRules,
 ): string {
+  if (isCustomConvention(convention)) {
+    return createCustomFallbackMessage(files, key, convention);
+  }
+
   const countLabel = files.length === 1 ? 'file' : 'files';
 
   if (key === 'docs' || key === 'root-docs') {
@@ -306,7 +391,7 @@ function createFallbackMessageForGroup(
 
 export function createRecoveryCommitGroups(
   files: string[],
-  convention: CommitConvention = 'clean-commit',
+  convention: ConventionRules = 'clean-commit',
 ): CommitGroup[] {
   if (files.length === 0) {
     return [];
@@ -398,15 +483,13 @@ export function extractDiffStats(diffSection: string): { added: number; removed:
 export function createCompactDiff(
   files: string[],
   rawDiff: string,
-  maxTotalChars = BATCH_CONFIG.MAX_COMPACT_PAYLOAD,
+  maxTotalChars: number = BATCH_CONFIG.MAX_COMPACT_PAYLOAD,
+  maxPerFileChars: number = BATCH_CONFIG.COMPACT_PER_FILE_CHARS,
 ): string {
   if (files.length === 0) return '';
 
   const diffSections = parseDiffByFile(rawDiff);
-  const perFileBudget = Math.min(
-    BATCH_CONFIG.COMPACT_PER_FILE_CHARS,
-    Math.floor(maxTotalChars / files.length),
-  );
+  const perFileBudget = Math.min(maxPerFileChars, Math.floor(maxTotalChars / files.length));
 
   const parts: string[] = [];
   for (const file of files) {
@@ -438,62 +521,6 @@ export function createCompactDiff(
     : result;
 }
 
-export async function checkCopilotAvailable(): Promise<string | null> {
-  const aiConfig = resolveAIConfig();
-  if (aiConfig.provider === 'ollama-cloud') {
-    if (!(await hasOllamaCloudApiKey())) {
-      return 'Ollama Cloud API key not found. Run `cn setup` to save it.';
-    }
-
-    try {
-      const apiKey = await getOllamaCloudApiKey();
-      if (!apiKey) {
-        return 'Ollama Cloud API key not found. Run `cn setup` to save it.';
-      }
-
-      await fetchOllamaCloudModels(apiKey, aiConfig.host);
-      return null;
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      if (msg === 'Ollama Cloud authentication failed') {
-        return 'Ollama Cloud authentication failed. Update your saved API key with `cn setup`.';
-      }
-      if (msg.startsWith('Ollama Cloud model lookup failed')) {
-        return msg.replace('model lookup', 'health check');
-      }
-      return `Could not reach Ollama Cloud API: ${msg}`;
-    }
-  }
-
-  try {
-    const client = await getManagedClient();
-    try {
-      await client.ping();
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      if (
-        msg.includes('auth') ||
-        msg.includes('token') ||
-        msg.includes('401') ||
-        msg.includes('403')
-      ) {
-        return 'Copilot authentication failed. Run `gh auth login` to refresh your token.';
-      }
-      if (msg.includes('ECONNREFUSED') || msg.includes('timeout') || msg.includes('network')) {
-        return 'Could not reach GitHub Copilot service. Check your internet connection.';
-      }
-      return `Copilot health check failed: ${msg}`;
-    }
-    return null;
-  } catch (err) {
-    const msg = err instanceof Error ? err.message : String(err);
-    if (msg.includes('ENOENT') || msg.includes('not found')) {
-      return 'Copilot CLI binary not found. Ensure GitHub Copilot is installed and your gh CLI is up to date.';
-    }
-    return `Failed to start Copilot service: ${msg}`;
-  }
-}
-
 /** Lazy singleton Copilot client — started once, reused across calls, stopped on process exit. */
 let _managedClient: InstanceType<typeof CopilotClient> | null = null;
 let _clientStarted = false;
@@ -523,78 +550,209 @@ async function getManagedClient(): Promise<InstanceType<typeof CopilotClient>> {
   return _managedClient;
 }
 
-async function callCopilot(
-  systemMessage: string,
-  userMessage: string,
-  model?: string,
-  timeoutMs = COPILOT_TIMEOUT_MS,
-): Promise<string | null> {
-  const client = await getManagedClient();
-  const sessionConfig: Record<string, unknown> = {
-    systemMessage: { mode: 'replace', content: systemMessage },
-  };
-  if (model) sessionConfig.model = model;
-  const session = await client.createSession(sessionConfig);
-  try {
-    const response = await withTimeout(session.sendAndWait({ prompt: userMessage }), timeoutMs);
-    if (!response?.data?.content) return null;
-    return response.data.content;
-  } finally {
-    await session.destroy();
-  }
-}
-
-async function callOllamaCloud(
-  systemMessage: string,
-  userMessage: string,
-  model?: string,
-  timeoutMs = COPILOT_TIMEOUT_MS,
-): Promise<string | null> {
-  const aiConfig = resolveAIConfig();
-  const apiKey = await getOllamaCloudApiKey();
-  if (!apiKey) {
-    throw new Error('Ollama Cloud API key is not configured');
-  }
+// ── Providers ──────────────────────────────────────────────────────
 
-  const controller = new AbortController();
-  const timer = setTimeout(() => controller.abort(), timeoutMs);
+const copilotProvider: AIProviderDefinition = {
+  id: 'copilot',
+  label: 'GitHub Copilot',
+  description: 'use your existing GitHub/Copilot auth',
+  async complete(request) {
+    const client = await getManagedClient();
+    const sessionConfig: Record<string, unknown> = {
+      systemMessage: { mode: 'replace', content: request.systemMessage },
+      streaming: true,
+    };
+    if (request.model) sessionConfig.model = request.model;
+    const session = await client.createSession(sessionConfig);
+    const idle = createIdleTimeout(request.timeoutMs, request.signal);
+    let unsubscribe = () => {};
+    try {
+      // Like sendAndWait, but every session event counts as progress
+      return await new Promise<string | null>((resolve, reject) => {
+        let reply = '';
+        let streamed = '';
+        const stop = () => {
+          session.abort().catch(() => {});
+          reject(idle.error('Copilot'));
+        };
+        if (idle.signal.aborted) return stop();
+        idle.signal.addEventListener('abort', stop);
+        unsubscribe = session.on((event) => {
+          idle.touch();
+          if (event.type === 'assistant.message_delta') {
+            streamed += event.data.deltaContent;
+            request.onStream?.(streamed);
+          } else if (event.type === 'assistant.message') {
+            reply = event.data.content;
+            streamed = '';
+          } else if (event.type === 'session.error') {
+            reject(new Error(event.data.message));
+          } else if (event.type === 'session.idle') {
+            resolve(reply || null);
+          }
+        });
+        session.send({ prompt: request.userMessage }).catch(reject);
+      });
+    } finally {
+      unsubscribe();
+      idle.clear();
+      await session.destroy();
+    }
+  },
+  async checkHealth() {
+    try {
+      const client = await getManagedClient();
+      try {
+        await client.ping();
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        if (
+          msg.includes('auth') ||
+          msg.includes('token') ||
+          msg.includes('401') ||
+          msg.includes('403')
+        ) {
+          return 'Copilot authentication failed. Run `gh auth login` to refresh your token.';
+        }
+        if (msg.includes('ECONNREFUSED') || msg.includes('timeout') || msg.includes('network')) {
+          return 'Could not reach GitHub Copilot service. Check your internet connection.';
+        }
+        return `Copilot health check failed: ${msg}`;
+      }
+      return null;
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      if (msg.includes('ENOENT') || msg.includes('not found')) {
+        return 'Copilot CLI binary not found. Ensure GitHub Copilot is installed and your gh CLI is up to date.';
+      }
+      return `Failed to start Copilot service: ${msg}`;
+    }
+  },
+};
+
+const ollamaCloudProvider: AIProviderDefinition = {
+  id: 'ollama-cloud',
+  label: 'Ollama Cloud',
+  description: 'use an API key stored in the local secrets store',
+  resolve(config) {
+    return {
+      model: config?.aiModel?.trim() || DEFAULT_OLLAMA_CLOUD_MODEL,
+      host: DEFAULT_OLLAMA_CLOUD_HOST,
+    };
+  },
+  async complete(request, aiConfig) {
+    const apiKey = await getOllamaCloudApiKey();
+    if (!apiKey) {
+      throw new Error('Ollama Cloud API key is not configured');
+    }
 
-  try {
-    const response = await fetch(`${aiConfig.host}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: model?.trim() || aiConfig.model || DEFAULT_OLLAMA_CLOUD_MODEL,
-        messages: [
-          { role: 'system', content: systemMessage },
-          { role: 'user', content: userMessage },
-        ],
-        stream: false,
-      }),
-      signal: controller.signal,
+    return requestChatCompletion({
+      baseUrl: aiConfig.host ?? DEFAULT_OLLAMA_CLOUD_HOST,
+      headers: { Authorization: `Bearer ${apiKey}` },
+      label: 'Ollama Cloud',
+      model: request.model?.trim() || aiConfig.model || DEFAULT_OLLAMA_CLOUD_MODEL,
+      systemMessage: request.systemMessage,
+      userMessage: request.userMessage,
+      timeoutMs: request.timeoutMs,
+      onStream: request.onStream,
+      signal: request.signal,
     });
+  },
+  async checkHealth(aiConfig) {
+    const apiKey = (await hasOllamaCloudApiKey()) ? await getOllamaCloudApiKey() : null;
+    if (!apiKey) {
+      return 'Ollama Cloud API key not found. Run `cn setup` to save it.';
+    }
 
-    if (!response.ok) {
-      const body = await response.text();
-      if (response.status === 401 || response.status === 403) {
-        throw new Error('Ollama Cloud authentication failed');
-      }
-      throw new Error(
-        `Ollama Cloud request failed (${response.status} ${response.statusText}): ${body.slice(0, 200)}`,
-      );
+    const problem = await checkEndpointHealth(aiConfig, { Authorization: `Bearer ${apiKey}` });
+    if (problem === 'Ollama Cloud authentication failed') {
+      return 'Ollama Cloud authentication failed. Update your saved API key with `cn setup`.';
     }
+    return problem;
+  },
+};
 
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string | null } }>;
-    };
+registerAIProvider(copilotProvider);
+registerAIProvider(ollamaCloudProvider);
+registerAIProvider(ollamaProvider);
+registerAIProvider(openAICompatibleProvider);
 
-    return data.choices?.[0]?.message?.content?.trim() || null;
-  } finally {
-    clearTimeout(timer);
+/**
+ * Health-check the active AI provider. Returns a user-facing problem, or null
+ * when AI calls can go ahead.
+ */
+export async function checkCopilotAvailable(): Promise<string | null> {
+  const aiConfig = resolveAIConfig();
+  const provider = getAIProvider(aiConfig.provider);
+  if (!provider) {
+    return `Unknown AI provider "${aiConfig.provider}". Available: ${getAIProviders()
+      .map((candidate) => candidate.id)
+      .join(', ')}`;
   }
+
+  return provider.checkHealth(aiConfig);
+}
+
+export interface AIProviderStatus {
+  provider: AIProvider;
+  label: string;
+  active: boolean;
+  host?: string;
+  model?: string;
+  problem: string | null;
+}
+
+/**
+ * Health-check every registered provider against the repo config, in
+ * registration order.
+ */
+export async function checkAIProviders(
+  config?: ContributeConfig | null,
+): Promise<AIProviderStatus[]> {
+  const resolvedConfig = config ?? readConfig();
+  const activeProvider = resolvedConfig?.aiProvider ?? 'copilot';
+
+  return Promise.all(
+    getAIProviders().map(async (provider) => {
+      const aiConfig: ResolvedAIConfig = {
+        provider: provider.id,
+        providerLabel: provider.label,
+        ...provider.resolve?.(resolvedConfig),
+      };
+      return {
+        provider: provider.id,
+        label: provider.label,
+        active: provider.id === activeProvider,
+        host: aiConfig.host,
+        model: aiConfig.model,
+        problem: await provider.checkHealth(aiConfig),
+      };
+    }),
+  );
+}
+
+export interface AIRequestOptions {
+  /** Called with the files that were masked or withheld before sending */
+  onRedaction?: RedactionCallback;
+  /** Ask the provider again instead of reusing a cached reply (Regenerate actions) */
+  fresh?: boolean;
+  /** Called with the reply so far while a streaming provider is answering */
+  onStream?: (text: string) => void;
+  /** Cancels the request in flight */
+  signal?: AbortSignal;
+}
+
+/** How a single AI call is made, without the prompt-building options */
+type AICallOptions = Pick<AIRequestOptions, 'fresh' | 'onStream' | 'signal'>;
+
+export interface CommitMessageOptions extends AIRequestOptions {
+  /** Ask for a body (and a BREAKING CHANGE footer when needed) under the subject */
+  withBody?: boolean;
+}
+
+export interface PRDescriptionOptions extends AIRequestOptions {
+  /** The repo's PR template, filled in place of the default Summary/Changes/Test Plan body */
+  template?: string;
 }
 
 async function callAI(
@@ -602,21 +760,143 @@ async function callAI(
   userMessage: string,
   model?: string,
   timeoutMs = COPILOT_TIMEOUT_MS,
+  options: AICallOptions = {},
 ): Promise<string | null> {
   const aiConfig = resolveAIConfig();
-  if (aiConfig.provider === 'ollama-cloud') {
-    return callOllamaCloud(systemMessage, userMessage, model, timeoutMs);
+  const provider = getAIProvider(aiConfig.provider);
+  if (!provider) {
+    throw new Error(`Unknown AI provider "${aiConfig.provider}"`);
+  }
+
+  const cacheKey = getAICacheKey({
+    provider: aiConfig.provider,
+    model: model?.trim() || aiConfig.model || '',
+    systemMessage,
+    userMessage,
+  });
+  if (!options.fresh) {
+    const cached = getCachedAIResponse(cacheKey);
+    if (cached !== null) return cached;
   }
 
-  return callCopilot(systemMessage, userMessage, model, timeoutMs);
+  const result = await provider.complete(
+    {
+      systemMessage,
+      userMessage,
+      model,
+      timeoutMs,
+      onStream: options.onStream,
+      signal: options.signal,
+    },
+    aiConfig,
+  );
+  if (result) setCachedAIResponse(cacheKey, result);
+  return result;
+}
+
+/**
+ * Mask secrets and withhold denylisted files before a diff goes into a prompt.
+ * Runs for every provider so a compliance setting can't be bypassed by a caller.
+ */
+function redactForAI(
+  diff: string,
+  onRedaction?: RedactionCallback,
+  relevantFiles?: string[],
+): string {
+  const { text, files } = redactDiff(diff, resolveRedactionOptions(readConfig()));
+  const reported = relevantFiles
+    ? files.filter((redaction) => relevantFiles.includes(redaction.file))
+    : files;
+  if (reported.length > 0) onRedaction?.(reported);
+  return text;
 }
 
-function getCommitSystemPrompt(convention: CommitConvention): string {
+function getCommitSystemPrompt(convention: ConventionRules): string {
+  if (isCustomConvention(convention)) return getCustomCommitSystemPrompt(convention);
   if (convention === 'conventional') return CONVENTIONAL_COMMIT_SYSTEM_PROMPT;
   // Default to Clean Commit for both 'clean-commit' and 'none'
   return CLEAN_COMMIT_SYSTEM_PROMPT;
 }
 
+// ── Prompt templates ───────────────────────────────────────────────
+
+function getDefaultSystemPrompt(
+  kind: PromptKind,
+  convention: ConventionRules,
+  byHunk = false,
+): string {
+  switch (kind) {
+    case 'commit':
+      return getCommitSystemPrompt(convention);
+    case 'pr':
+      return getPRDescriptionSystemPrompt(convention);
+    case 'branch':
+      return BRANCH_NAME_SYSTEM_PROMPT;
+    case 'conflict':
+      return CONFLICT_RESOLUTION_SYSTEM_PROMPT;
+    case 'group':
+      return getGroupingSystemPrompt(convention, byHunk);
+    case 'review':
+      return REVIEW_SYSTEM_PROMPT;
+  }
+}
+
+/** The `{{conventionHints}}` block: the format and types a message must use. */
+function getConventionPromptHints(convention: ConventionRules): string {
+  if (isCustomConvention(convention)) return getCustomConventionPromptBlock(convention);
+  if (convention === 'conventional') {
+    return `Format: <type>[(<scope>)][!]: <description>
+Types: feat, fix, docs, style, refactor, perf, test, build, ci, chore, revert`;
+  }
+  if (convention === 'clean-commit') {
+    return `Format: <emoji> <type>[!][ (<scope>)]: <description>
+Types: 📦 new, 🔧 update, 🗑️ remove, 🔒 security, ⚙️ setup, ☕ chore, 🧪 test, 📖 docs, 🚀 release`;
+  }
+  return 'No commit convention: write a concise, imperative summary.';
+}
+
+export interface ResolvedSystemPrompt {
+  kind: PromptKind;
+  prompt: string;
+  /** Repo-relative template path, or null for the built-in prompt */
+  template: string | null;
+  unknownVariables: string[];
+}
+
+/**
+ * The system prompt for `kind`: the repo's template rendered with the current
+ * branch, base branch, convention, and files, or the built-in prompt.
+ */
+export async function resolveSystemPrompt(
+  kind: PromptKind,
+  options: { convention?: ConventionRules; files?: string[]; byHunk?: boolean } = {},
+): Promise<ResolvedSystemPrompt> {
+  const config = readConfig();
+  const convention =
+    options.convention ?? (config ? resolveConventionRules(config) : 'clean-commit');
+  const defaultPrompt = getDefaultSystemPrompt(kind, convention, options.byHunk);
+  const template = loadPromptTemplate(kind, config);
+  if (!template) {
+    return { kind, prompt: defaultPrompt, template: null, unknownVariables: [] };
+  }
+
+  const variables: PromptTemplateVariables = {
+    default: defaultPrompt,
+    convention: getConventionLabel(convention),
+    conventionHints: getConventionPromptHints(convention),
+    branch: (await getCurrentBranch()) ?? '',
+    baseBranch: config ? getBaseBranch(config) : '',
+    files: (options.files ?? []).join('\n'),
+  };
+  const rendered = renderPromptTemplate(template.content, variables);
+  return {
+    kind,
+    prompt: rendered.prompt,
+    template: template.path,
+    unknownVariables: rendered.unknownVariables,
+  };
+}
+
 /**
  * Extract a JSON array or object from an AI response that may contain
  * preamble text, markdown fences, or trailing commentary.
@@ -664,54 +944,192 @@ export function sanitizeGeneratedCommitMessage(message: string): string {
   return message.replace(/`+/g, '').replace(/\s+/g, ' ').trim();
 }
 
+export const COMMIT_BODY_WIDTH = 72;
+
+/**
+ * Wrap body text at `width` columns. Each line of the input is wrapped on its
+ * own, and list items keep their marker with continuation lines indented.
+ */
+export function wrapCommitBody(text: string, width: number = COMMIT_BODY_WIDTH): string {
+  return text
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map((line) => {
+      const marker = /^\s*(?:[-*]|\d+\.)\s+/.exec(line)?.[0] ?? '';
+      const words = line.slice(marker.length).split(/\s+/).filter(Boolean);
+      if (words.length === 0) return '';
+      const indent = ' '.repeat(marker.length);
+      const wrapped: string[] = [];
+      let current = `${marker}${words[0]}`;
+      for (const word of words.slice(1)) {
+        if (current.length + 1 + word.length > width) {
+          wrapped.push(current);
+          current = `${indent}${word}`;
+        } else {
+          current = `${current} ${word}`;
+        }
+      }
+      wrapped.push(current);
+      return wrapped.join('\n');
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+const COMMIT_BODY_HINT =
+  '\n\nFORMAT: Also write a commit body. Instead of the bare message line, return JSON (no markdown fences, no explanation): {"subject": "<the message line, in the required format>", "body": "<1-3 sentences on why the change was made, then the notable changes as lines starting with - >", "breaking": "<what breaks for existing users and how to migrate, or null>"}. Only set breaking when existing users have to change something.';
+
+/**
+ * Build a full commit message from a reply to `COMMIT_BODY_HINT`: the subject,
+ * a wrapped body, and a BREAKING CHANGE footer (with "!" added to the header)
+ * when the AI flagged one. Plain-text replies are read as subject plus body.
+ * Returns null when there is no subject.
+ * @internal exported for testing
+ */
+export function composeCommitMessage(reply: string): string | null {
+  let parsed: unknown = null;
+  try {
+    parsed = JSON.parse(extractJson(reply));
+  } catch {
+    // Not JSON; read it as a plain commit message below
+  }
+
+  let subject: string;
+  let body: string;
+  let breaking = '';
+  if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+    const fields = parsed as Record<string, unknown>;
+    subject = typeof fields.subject === 'string' ? fields.subject : '';
+    body = Array.isArray(fields.body)
+      ? fields.body.filter((line) => typeof line === 'string').join('\n')
+      : typeof fields.body === 'string'
+        ? fields.body
+        : '';
+    if (
+      typeof fields.breaking === 'string' &&
+      !/^(null|none|no|false)?$/i.test(fields.breaking.trim())
+    ) {
+      breaking = fields.breaking.replace(/\s+/g, ' ').trim();
+    }
+  } else {
+    const [firstLine = '', ...rest] = reply.trim().split('\n');
+    subject = firstLine;
+    body = rest.join('\n');
+  }
+
+  const header = sanitizeGeneratedCommitMessage(subject);
+  if (!header) return null;
+  const parts = [breaking ? markBreakingHeader(header) : header];
+  const wrappedBody = wrapCommitBody(body);
+  if (wrappedBody) parts.push(wrappedBody);
+  if (breaking) parts.push(wrapCommitBody(`BREAKING CHANGE: ${breaking}`));
+  return parts.join('\n\n');
+}
+
+export interface CommitMessagePrompt {
+  system: ResolvedSystemPrompt;
+  userMessage: string;
+  isLarge: boolean;
+}
+
+/** Build the prompts `generateCommitMessage` sends, after redaction. */
+export async function buildCommitMessagePrompt(
+  rawDiff: string,
+  stagedFiles: string[],
+  convention: ConventionRules = 'clean-commit',
+  context?: 'squash-merge',
+  onRedaction?: RedactionCallback,
+  withBody = false,
+): Promise<CommitMessagePrompt> {
+  const diff = redactForAI(rawDiff, onRedaction);
+  const isLarge = stagedFiles.length >= BATCH_CONFIG.LARGE_CHANGESET_THRESHOLD;
+  const hasMissingDiffCoverage = hasIncompleteDiffCoverage(stagedFiles, diff);
+  const multiFileHint =
+    stagedFiles.length > 1
+      ? '\n\nIMPORTANT: Multiple files are staged. Generate ONE commit message that captures the high-level purpose of ALL changes together. Focus on the overall intent, not individual file changes. Be specific but concise — do not list every file.'
+      : '';
+
+  const squashHint =
+    context === 'squash-merge'
+      ? '\n\nCONTEXT: This is a squash merge of an entire feature branch into the base branch. All commits are being combined into ONE single commit. Generate a single high-level summary that describes the overall feature or change — NOT a list of individual commits. Think: what capability was added or what problem was solved? Be specific but concise.'
+      : '';
+
+  // Use compact representation for large changesets so ALL files get coverage
+  const diffContent =
+    isLarge || hasMissingDiffCoverage ? createCompactDiff(stagedFiles, diff) : diff.slice(0, 4000);
+
+  return {
+    system: await resolveSystemPrompt('commit', { convention, files: stagedFiles }),
+    userMessage: `Generate a commit message for these staged changes:\n\nFiles (${stagedFiles.length}): ${stagedFiles.join(', ')}\n\nDiff:\n${diffContent}${multiFileHint}${squashHint}${withBody ? COMMIT_BODY_HINT : ''}`,
+    isLarge,
+  };
+}
+
 export async function generateCommitMessage(
-  diff: string,
+  rawDiff: string,
   stagedFiles: string[],
   model?: string,
-  convention: CommitConvention = 'clean-commit',
+  convention: ConventionRules = 'clean-commit',
   context?: 'squash-merge',
+  options: CommitMessageOptions = {},
 ): Promise<string | null> {
   try {
-    const isLarge = stagedFiles.length >= BATCH_CONFIG.LARGE_CHANGESET_THRESHOLD;
-    const hasMissingDiffCoverage = hasIncompleteDiffCoverage(stagedFiles, diff);
-    const multiFileHint =
-      stagedFiles.length > 1
-        ? '\n\nIMPORTANT: Multiple files are staged. Generate ONE commit message that captures the high-level purpose of ALL changes together. Focus on the overall intent, not individual file changes. Be specific but concise — do not list every file.'
-        : '';
-
-    const squashHint =
-      context === 'squash-merge'
-        ? '\n\nCONTEXT: This is a squash merge of an entire feature branch into the base branch. All commits are being combined into ONE single commit. Generate a single high-level summary that describes the overall feature or change — NOT a list of individual commits. Think: what capability was added or what problem was solved? Be specific but concise.'
-        : '';
-
-    // Use compact representation for large changesets so ALL files get coverage
-    const diffContent =
-      isLarge || hasMissingDiffCoverage
-        ? createCompactDiff(stagedFiles, diff)
-        : diff.slice(0, 4000);
-
-    const userMessage = `Generate a commit message for these staged changes:\n\nFiles (${stagedFiles.length}): ${stagedFiles.join(', ')}\n\nDiff:\n${diffContent}${multiFileHint}${squashHint}`;
+    const { system, userMessage, isLarge } = await buildCommitMessagePrompt(
+      rawDiff,
+      stagedFiles,
+      convention,
+      context,
+      options.onRedaction,
+      options.withBody,
+    );
     const result = await callAI(
-      getCommitSystemPrompt(convention),
+      system.prompt,
       userMessage,
       model,
       isLarge ? COPILOT_LONG_TIMEOUT_MS : COPILOT_TIMEOUT_MS,
+      options,
     );
-    return result ? sanitizeGeneratedCommitMessage(result) : null;
+    if (!result) return null;
+    return options.withBody ? composeCommitMessage(result) : sanitizeGeneratedCommitMessage(result);
   } catch {
     return null;
   }
 }
 
+/**
+ * Ask for the body as the repo's PR template filled in, overriding the section
+ * layout in the system prompt. Checkboxes stay unchecked unless the commits or
+ * diff show the item is done, since the AI can't run tests or read the issue.
+ * @internal exported for testing
+ */
+export function buildPRTemplateHint(template: string): string {
+  return `\n\nTEMPLATE: This repository has a PR template. The body MUST be this template filled in, NOT the Summary/Changes/Test Plan layout:
+- Keep every heading of the template, in its order, and write the matching content under each one
+- Replace placeholder text and HTML comments (<!-- ... -->) with real content; write "N/A" for sections that do not apply
+- Keep checklist items ("- [ ] ...") as they are. Change one to "- [x]" ONLY when the commits or diff prove it (e.g. tests were added). Anything you cannot verify, such as tests having been run, docs checked, or an issue read, stays "- [ ]"
+Template:
+${template}`;
+}
+
 export async function generatePRDescription(
   commits: string[],
   diff: string,
   model?: string,
-  convention: CommitConvention = 'clean-commit',
+  convention: ConventionRules = 'clean-commit',
+  options: PRDescriptionOptions = {},
 ): Promise<{ title: string; body: string } | null> {
   try {
-    const userMessage = `Generate a PR description for these changes:\n\nCommits:\n${commits.join('\n')}\n\nDiff (truncated):\n${diff.slice(0, 4000)}`;
-    const result = await callAI(getPRDescriptionSystemPrompt(convention), userMessage, model);
+    const redacted = redactForAI(diff, options.onRedaction);
+    const templateHint = options.template ? buildPRTemplateHint(options.template) : '';
+    const userMessage = `Generate a PR description for these changes:\n\nCommits:\n${commits.join('\n')}\n\nDiff (truncated):\n${redacted.slice(0, 4000)}${templateHint}`;
+    const result = await callAI(
+      (await resolveSystemPrompt('pr', { convention })).prompt,
+      userMessage,
+      model,
+      COPILOT_TIMEOUT_MS,
+      options,
+    );
     if (!result) return null;
     const cleaned = extractJson(result);
     return JSON.parse(cleaned) as { title: string; body: string };
@@ -723,9 +1141,16 @@ export async function generatePRDescription(
 export async function suggestBranchName(
   description: string,
   model?: string,
+  options: AIRequestOptions = {},
 ): Promise<string | null> {
   try {
-    const result = await callAI(BRANCH_NAME_SYSTEM_PROMPT, description, model);
+    const result = await callAI(
+      (await resolveSystemPrompt('branch')).prompt,
+      description,
+      model,
+      COPILOT_TIMEOUT_MS,
+      options,
+    );
     const trimmed = result?.trim() ?? null;
     // Validate it looks like an actual branch name, not a conversational response
     if (trimmed && /^[a-z]+\/[a-z0-9-]+$/.test(trimmed)) {
@@ -740,10 +1165,18 @@ export async function suggestBranchName(
 export async function suggestConflictResolution(
   conflictDiff: string,
   model?: string,
+  options: AIRequestOptions = {},
 ): Promise<string | null> {
   try {
-    const userMessage = `Help me resolve this merge conflict:\n\n${conflictDiff.slice(0, 4000)}`;
-    const result = await callAI(CONFLICT_RESOLUTION_SYSTEM_PROMPT, userMessage, model);
+    const redacted = redactForAI(conflictDiff, options.onRedaction);
+    const userMessage = `Help me resolve this merge conflict:\n\n${redacted.slice(0, 4000)}`;
+    const result = await callAI(
+      (await resolveSystemPrompt('conflict')).prompt,
+      userMessage,
+      model,
+      COPILOT_TIMEOUT_MS,
+      options,
+    );
     return result?.trim() ?? null;
   } catch {
     return null;
@@ -753,6 +1186,8 @@ export async function suggestConflictResolution(
 export interface CommitGroup {
   files: string[];
   message: string;
+  /** Hunk ids when grouping by hunk (`cn commit --group --hunks`); `files` then lists the files they touch */
+  hunks?: string[];
 }
 
 export interface NormalizedCommitGroups {
@@ -809,13 +1244,157 @@ export function normalizeCommitGroups(
   };
 }
 
+export interface NormalizedHunkGroups {
+  groups: CommitGroup[];
+  unknownHunks: string[];
+  duplicateHunks: string[];
+  unassignedHunks: DiffHunk[];
+}
+
+/**
+ * Validate hunk groups from the AI: drop unknown and repeated hunk ids, derive
+ * each group's files from its hunks, and report the hunks no group took.
+ */
+export function normalizeHunkCommitGroups(
+  hunks: DiffHunk[],
+  groups: Array<{ hunks?: unknown; message: string }>,
+): NormalizedHunkGroups {
+  const hunksById = new Map(hunks.map((hunk) => [hunk.id, hunk]));
+  const assigned = new Set<string>();
+  const unknownHunks = new Set<string>();
+  const duplicateHunks = new Set<string>();
+
+  const normalizedGroups: CommitGroup[] = [];
+  for (const group of groups) {
+    const ids: string[] = [];
+    for (const id of Array.isArray(group.hunks) ? group.hunks : []) {
+      const hunk = typeof id === 'string' ? hunksById.get(id) : undefined;
+      if (!hunk) {
+        unknownHunks.add(String(id));
+        continue;
+      }
+      if (assigned.has(hunk.id)) {
+        duplicateHunks.add(hunk.id);
+        continue;
+      }
+      assigned.add(hunk.id);
+      ids.push(hunk.id);
+    }
+    if (ids.length === 0) continue;
+    normalizedGroups.push({
+      files: [...new Set(ids.map((id) => hunksById.get(id)?.file ?? ''))],
+      message: sanitizeGeneratedCommitMessage(group.message),
+      hunks: ids,
+    });
+  }
+
+  return {
+    groups: normalizedGroups,
+    unknownHunks: [...unknownHunks],
+    duplicateHunks: [...duplicateHunks],
+    unassignedHunks: hunks.filter((hunk) => !assigned.has(hunk.id)),
+  };
+}
+
+/**
+ * Recovery groups for hunks the AI left out, by area like `createRecoveryCommitGroups`.
+ */
+export function createRecoveryHunkGroups(
+  hunks: DiffHunk[],
+  convention: ConventionRules = 'clean-commit',
+): CommitGroup[] {
+  const files = [...new Set(hunks.map((hunk) => hunk.file))];
+  return createRecoveryCommitGroups(files, convention).map((group) => ({
+    ...group,
+    hunks: hunks.filter((hunk) => group.files.includes(hunk.file)).map((hunk) => hunk.id),
+  }));
+}
+
+/**
+ * `redactForAI` for hunks: each hunk is redacted as its own file section, and
+ * files with several hunks are reported once.
+ */
+function redactHunksForAI(hunks: DiffHunk[], onRedaction?: RedactionCallback): DiffHunk[] {
+  const sections = hunks.map((hunk) => `diff --git a/${hunk.file} b/${hunk.file}\n${hunk.body}\n`);
+  const text = redactForAI(sections.join(''), (redactions) => {
+    const byFile = new Map<string, FileRedaction>();
+    for (const redaction of redactions) {
+      const previous = byFile.get(redaction.file);
+      if (!previous) {
+        byFile.set(redaction.file, { ...redaction, counts: { ...redaction.counts } });
+        continue;
+      }
+      for (const [kind, count] of Object.entries(redaction.counts) as [RedactionKind, number][]) {
+        previous.counts[kind] = (previous.counts[kind] ?? 0) + count;
+      }
+    }
+    onRedaction?.([...byFile.values()]);
+  });
+  const bodies = text.split(/^diff --git .*\n/m).slice(1);
+  return hunks.map((hunk, index) => ({ ...hunk, body: (bodies[index] ?? '').trimEnd() }));
+}
+
+/**
+ * Ask the AI to group individual hunks, so unrelated changes in one file can
+ * land in separate commits. Throws when no usable groups come back.
+ */
+export async function generateHunkCommitGroups(
+  hunks: DiffHunk[],
+  model?: string,
+  convention: ConventionRules = 'clean-commit',
+  options: AIRequestOptions = {},
+): Promise<CommitGroup[]> {
+  const files = [...new Set(hunks.map((hunk) => hunk.file))];
+  const redacted = redactHunksForAI(hunks, options.onRedaction);
+  // Spread the payload budget over every hunk so none is left out
+  const perHunkChars = Math.max(
+    200,
+    Math.floor(BATCH_CONFIG.MAX_COMPACT_PAYLOAD / Math.max(1, hunks.length)),
+  );
+  const userMessage = `Group these hunks into logical atomic commits:\n\nFiles:\n${files.join('\n')}\n\nHunks:\n${formatHunksForAI(redacted, perHunkChars)}`;
+
+  const result = await callAI(
+    (await resolveSystemPrompt('group', { convention, files, byHunk: true })).prompt,
+    userMessage,
+    model,
+    COPILOT_LONG_TIMEOUT_MS,
+    options,
+  );
+  if (!result) throw new Error('AI returned an empty response');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(result));
+  } catch {
+    throw new Error(`AI response is not valid JSON. Raw start: "${result.slice(0, 120)}..."`);
+  }
+  if (!Array.isArray(parsed) || parsed.length === 0) {
+    throw new Error('AI response was not a valid JSON array of commit groups');
+  }
+  return parsed
+    .filter(
+      (group): group is { hunks: unknown; message: string } =>
+        typeof group === 'object' &&
+        group !== null &&
+        Array.isArray((group as { hunks?: unknown }).hunks) &&
+        typeof (group as { message?: unknown }).message === 'string',
+    )
+    .map((group) => ({
+      files: [],
+      message: group.message,
+      hunks: (group.hunks as unknown[]).map(String),
+    }));
+}
+
 export async function generateCommitGroups(
   files: string[],
-  diffs: string,
+  rawDiffs: string,
   model?: string,
-  convention: CommitConvention = 'clean-commit',
+  convention: ConventionRules = 'clean-commit',
   onProgress?: GroupingProgressCallback,
+  options: AIRequestOptions = {},
 ): Promise<CommitGroup[]> {
+  const diffs = redactForAI(rawDiffs, options.onRedaction);
   const isLarge = files.length >= BATCH_CONFIG.LARGE_CHANGESET_THRESHOLD;
   const shouldBatchImmediately = files.length >= BATCH_CONFIG.DIRECT_BATCH_THRESHOLD;
   const hasMissingDiffCoverage = hasIncompleteDiffCoverage(files, diffs);
@@ -824,7 +1403,7 @@ export async function generateCommitGroups(
     onProgress?.(
       `Large changeset detected. Grouping in focused batches of ${BATCH_CONFIG.FALLBACK_BATCH_SIZE} files...`,
     );
-    return generateCommitGroupsInBatches(files, diffs, model, convention, onProgress);
+    return generateCommitGroupsInBatches(files, diffs, model, convention, onProgress, options);
   }
 
   // Use compact diff to ensure ALL files get representation in the prompt
@@ -840,17 +1419,18 @@ export async function generateCommitGroups(
   try {
     onProgress?.(`Analyzing ${files.length} files together before batching fallback...`);
     result = await callAI(
-      getGroupingSystemPrompt(convention),
+      (await resolveSystemPrompt('group', { convention, files })).prompt,
       userMessage,
       model,
       COPILOT_LONG_TIMEOUT_MS,
+      options,
     );
   } catch {
     if (isLarge) {
       onProgress?.(
         `Initial grouping timed out. Switching to focused batches of ${BATCH_CONFIG.FALLBACK_BATCH_SIZE} files...`,
       );
-      return generateCommitGroupsInBatches(files, diffs, model, convention, onProgress);
+      return generateCommitGroupsInBatches(files, diffs, model, convention, onProgress, options);
     }
     throw new Error('AI grouping failed before a response was returned');
   }
@@ -858,7 +1438,7 @@ export async function generateCommitGroups(
     // For large changesets, fall back to batch processing before giving up
     if (isLarge) {
       onProgress?.(`AI returned an empty response. Switching to focused batches...`);
-      return generateCommitGroupsInBatches(files, diffs, model, convention, onProgress);
+      return generateCommitGroupsInBatches(files, diffs, model, convention, onProgress, options);
     }
     throw new Error('AI returned an empty response');
   }
@@ -871,7 +1451,7 @@ export async function generateCommitGroups(
       onProgress?.(
         'AI returned invalid JSON for the full changeset. Switching to focused batches...',
       );
-      return generateCommitGroupsInBatches(files, diffs, model, convention, onProgress);
+      return generateCommitGroupsInBatches(files, diffs, model, convention, onProgress, options);
     }
     throw new Error(`AI response is not valid JSON. Raw start: "${result.slice(0, 120)}..."`);
   }
@@ -881,7 +1461,7 @@ export async function generateCommitGroups(
       onProgress?.(
         'AI returned no usable groups for the full changeset. Switching to focused batches...',
       );
-      return generateCommitGroupsInBatches(files, diffs, model, convention, onProgress);
+      return generateCommitGroupsInBatches(files, diffs, model, convention, onProgress, options);
     }
     throw new Error('AI response was not a valid JSON array of commit groups');
   }
@@ -907,8 +1487,9 @@ async function generateCommitGroupsInBatches(
   files: string[],
   diffs: string,
   model?: string,
-  convention: CommitConvention = 'clean-commit',
+  convention: ConventionRules = 'clean-commit',
   onProgress?: GroupingProgressCallback,
+  options: AICallOptions = {},
 ): Promise<CommitGroup[]> {
   const batchSize = BATCH_CONFIG.FALLBACK_BATCH_SIZE;
   const allGroups: CommitGroup[] = [];
@@ -930,6 +1511,8 @@ async function generateCommitGroupsInBatches(
         ? createCompactDiff(batchFiles, batchDiff)
         : batchDiff.slice(0, 6000);
 
+    // A cancelled request must not fall through to the recovery groups below
+    options.signal?.throwIfAborted();
     const batchNum = Math.floor(i / batchSize) + 1;
     onProgress?.(`Grouping batch ${batchNum}/${totalBatches} (${batchFiles.length} files)...`);
 
@@ -937,10 +1520,11 @@ async function generateCommitGroupsInBatches(
 
     try {
       const result = await callAI(
-        getGroupingSystemPrompt(convention),
+        (await resolveSystemPrompt('group', { convention, files: batchFiles })).prompt,
         userMessage,
         model,
         COPILOT_LONG_TIMEOUT_MS,
+        options,
       );
       if (!result) continue;
 
@@ -987,11 +1571,14 @@ async function generateCommitGroupsInBatches(
  */
 export async function regenerateAllGroupMessages(
   groups: CommitGroup[],
-  diffs: string,
+  rawDiffs: string,
   model?: string,
-  convention: CommitConvention = 'clean-commit',
+  convention: ConventionRules = 'clean-commit',
+  options: Omit<AIRequestOptions, 'fresh'> = {},
 ): Promise<CommitGroup[]> {
+  const diffs = redactForAI(rawDiffs, options.onRedaction);
   const totalFiles = groups.reduce((sum, g) => sum + g.files.length, 0);
+  const byHunk = groups.some((g) => g.hunks);
   const isLarge = totalFiles >= BATCH_CONFIG.LARGE_CHANGESET_THRESHOLD;
 
   const diffContent = isLarge
@@ -1003,11 +1590,19 @@ export async function regenerateAllGroupMessages(
 
   const groupSummary = groups.map((g, i) => `Group ${i + 1}: [${g.files.join(', ')}]`).join('\n');
   const userMessage = `Regenerate ONLY the commit messages for these pre-defined file groups. Do NOT change the file groupings.\n\nGroups:\n${groupSummary}\n\nDiffs:\n${diffContent}`;
+  // Regenerating always asks the provider again
   const result = await callAI(
-    getGroupingSystemPrompt(convention),
+    (
+      await resolveSystemPrompt('group', {
+        convention,
+        files: groups.flatMap((g) => g.files),
+        byHunk,
+      })
+    ).prompt,
     userMessage,
     model,
     COPILOT_LONG_TIMEOUT_MS,
+    { ...options, fresh: true },
   );
   if (!result) return groups;
   try {
@@ -1016,7 +1611,7 @@ export async function regenerateAllGroupMessages(
     if (!Array.isArray(parsed) || parsed.length !== groups.length) return groups;
     // Preserve original file groupings, only take new messages
     return groups.map((g, i) => ({
-      files: g.files,
+      ...g,
       message:
         typeof parsed[i]?.message === 'string'
           ? sanitizeGeneratedCommitMessage(parsed[i].message)
@@ -1032,18 +1627,107 @@ export async function regenerateAllGroupMessages(
  */
 export async function regenerateGroupMessage(
   files: string[],
-  diffs: string,
+  rawDiffs: string,
   model?: string,
-  convention: CommitConvention = 'clean-commit',
+  convention: ConventionRules = 'clean-commit',
+  options: Omit<AIRequestOptions, 'fresh'> = {},
 ): Promise<string | null> {
   try {
+    const diffs = redactForAI(rawDiffs, options.onRedaction, files);
     const isLarge = files.length >= BATCH_CONFIG.LARGE_CHANGESET_THRESHOLD;
     const diffContent = isLarge ? createCompactDiff(files, diffs) : diffs.slice(0, 4000);
 
     const userMessage = `Generate a single commit message for these files:\n\nFiles: ${files.join(', ')}\n\nDiff:\n${diffContent}`;
-    const result = await callAI(getCommitSystemPrompt(convention), userMessage, model);
+    const result = await callAI(
+      (await resolveSystemPrompt('commit', { convention, files })).prompt,
+      userMessage,
+      model,
+      COPILOT_TIMEOUT_MS,
+      { ...options, fresh: true },
+    );
     return result ? sanitizeGeneratedCommitMessage(result) : null;
   } catch {
     return null;
   }
 }
+
+// ── Branch review ──────────────────────────────────────────────────
+
+async function reviewDiffChunk(
+  files: string[],
+  diffContent: string,
+  model?: string,
+  options: AICallOptions = {},
+): Promise<ReviewFinding[] | null> {
+  const userMessage = `Review these changes:\n\nFiles (${files.length}): ${files.join(', ')}\n\nDiff:\n${diffContent}`;
+  const result = await callAI(
+    (await resolveSystemPrompt('review', { files })).prompt,
+    userMessage,
+    model,
+    COPILOT_LONG_TIMEOUT_MS,
+    options,
+  );
+  if (!result) return null;
+  return normalizeReviewFindings(JSON.parse(extractJson(result)), files);
+}
+
+/**
+ * Review a branch diff. Small branches go in one call; larger ones are
+ * reviewed file by file, with oversized files cut down to a compact diff, and
+ * files whose call fails are listed as unreviewed. Returns null when no part
+ * of the diff could be reviewed; throws when the request is cancelled.
+ */
+export async function reviewBranchDiff(
+  rawDiff: string,
+  files: string[],
+  model?: string,
+  onProgress?: (message: string) => void,
+  options: AIRequestOptions = {},
+): Promise<ReviewResult | null> {
+  const diff = redactForAI(rawDiff, options.onRedaction);
+  if (
+    diff.length <= BATCH_CONFIG.MAX_REVIEW_PAYLOAD &&
+    files.length < BATCH_CONFIG.LARGE_CHANGESET_THRESHOLD
+  ) {
+    let findings: ReviewFinding[] | null = null;
+    try {
+      findings = await reviewDiffChunk(files, diff, model, options);
+    } catch {
+      // Reported as a review that could not run, unless it was cancelled
+    }
+    options.signal?.throwIfAborted();
+    return findings ? { findings, unreviewed: [] } : null;
+  }
+
+  const diffSections = parseDiffByFile(diff);
+  const reviewable = files.filter((file) => diffSections.has(file));
+  const findings: ReviewFinding[] = [];
+  const unreviewed: string[] = [];
+
+  for (const [index, file] of reviewable.entries()) {
+    // A cancelled review must not come back looking complete
+    options.signal?.throwIfAborted();
+    onProgress?.(`Reviewing file ${index + 1}/${reviewable.length}: ${file}...`);
+    const section = diffSections.get(file) ?? '';
+    const diffContent =
+      section.length <= BATCH_CONFIG.MAX_REVIEW_PAYLOAD
+        ? section
+        : createCompactDiff(
+            [file],
+            section,
+            BATCH_CONFIG.MAX_REVIEW_PAYLOAD,
+            BATCH_CONFIG.MAX_REVIEW_PAYLOAD,
+          );
+    try {
+      const fileFindings = await reviewDiffChunk([file], diffContent, model, options);
+      if (fileFindings) findings.push(...fileFindings);
+      else unreviewed.push(file);
+    } catch {
+      // Keep going — the rest may still succeed
+      unreviewed.push(file);
+    }
+  }
+  options.signal?.throwIfAborted();
+
+  return unreviewed.length < reviewable.length ? { findings, unreviewed } : null;
+}
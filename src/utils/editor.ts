@@ -0,0 +1,35 @@
+import { spawnSync } from 'node:child_process';
+import { readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { getGitEditor } from './git.js';
+
+/**
+ * Open `text` in the editor git would use and return what was saved, or null
+ * when the editor could not be started or exited with an error. `fileName`
+ * only matters to editors that pick a syntax from the extension.
+ */
+export async function editInGitEditor(text: string, fileName: string): Promise<string | null> {
+  const file = join(tmpdir(), `contribute-now-${process.pid}-${fileName}`);
+  writeFileSync(file, text);
+  try {
+    const editor = await getGitEditor();
+    // Run through the shell like git does, so editors configured with flags work
+    const result = spawnSync(`${editor} "${file}"`, { shell: true, stdio: 'inherit' });
+    if (result.error || result.status !== 0) return null;
+    return readFileSync(file, 'utf-8');
+  } catch {
+    return null;
+  } finally {
+    rmSync(file, { force: true });
+  }
+}
+
+/** Drop git-style `#` comment lines and surrounding blank lines. */
+export function stripCommentLines(text: string): string {
+  return text
+    .split('\n')
+    .filter((line) => !line.startsWith('#'))
+    .join('\n')
+    .trim();
+}
@@ -0,0 +1,336 @@
+import type { RepoInfo } from '../types.js';
+import {
+  checkGhAuth,
+  checkGhInstalled,
+  checkRepoPermissions,
+  createPR,
+  createPRFill,
+  type ExistingPR,
+  getCurrentRepoInfo,
+  getLabelNames,
+  getMergedPRForBranch,
+  getPRForBranch,
+  isRepoFork,
+  type RepoPermissions,
+} from './gh.js';
+import { getCommitMessages, getCurrentBranch, getRemoteUrl } from './git.js';
+import {
+  checkGiteaAuth,
+  checkGiteaPermissions,
+  createGiteaPR,
+  findGiteaPR,
+  type GiteaRemote,
+  getGiteaBaseUrl,
+  getGiteaLabelNames,
+  isGiteaHostName,
+  isGiteaRepoFork,
+} from './gitea.js';
+import {
+  checkGitHubApiAuth,
+  checkGitHubApiPermissions,
+  createGitHubApiPR,
+  findGitHubApiPR,
+  type GitHubApiRemote,
+  getGitHubApiLabelNames,
+  getGitHubApiUrl,
+  isGitHubApiRepoFork,
+  resolveGitHubToken,
+} from './githubApi.js';
+import {
+  checkGitLabPermissions,
+  checkGlabAuth,
+  checkGlabInstalled,
+  createMR,
+  createMRFill,
+  getGitLabLabelNames,
+  getGitLabRepoInfo,
+  getMergedMRForBranch,
+  getMRForBranch,
+  isGitLabRepoFork,
+} from './gitlab.js';
+import type { PRMetadata } from './prMetadata.js';
+import { parseRemoteUrl, type RemoteInfo } from './remote.js';
+import { getGiteaToken, getGiteaTokenHosts } from './secrets.js';
+
+/**
+ * The code host behind a remote and how to talk to it: GitHub through `gh`
+ * (or its REST API with a token when `gh` is unavailable), GitLab (gitlab.com or self-hosted) through `glab`, Gitea and Forgejo
+ * through their REST API. Commands that open or look up pull/merge requests
+ * go through a Forge so they work the same on all of them.
+ */
+
+export type ForgeId = 'github' | 'gitlab' | 'gitea';
+
+type CommandResult = {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+  /** Parts of a created request that could not be set, such as an unknown label */
+  warnings?: string[];
+};
+
+export interface Forge {
+  id: ForgeId;
+  /** e.g. "GitHub" */
+  label: string;
+  /** The CLI the forge is driven through, or null when it is called over HTTP */
+  cli: 'gh' | 'glab' | null;
+  /** What requests go through, for messages: e.g. "gh CLI" or "Gitea API" */
+  client: string;
+  /** What to do when the client is missing */
+  installHint: string;
+  /** What to do when the client is not signed in */
+  authHint: string;
+  /** What the forge calls a pull request: "PR" or "MR" */
+  requestName: string;
+  /** e.g. "PR #12" or "MR !12" */
+  formatRequest(number: number): string;
+  isInstalled(): Promise<boolean>;
+  isAuthenticated(): Promise<boolean>;
+  isFork(): Promise<boolean | null>;
+  getRepoInfo(): Promise<RepoInfo | null>;
+  getPermissions(repo: RepoInfo): Promise<RepoPermissions | null>;
+  /** The open request for `headBranch`, or null */
+  getOpenRequest(headBranch: string): Promise<ExistingPR | null>;
+  /** The merged request for `headBranch`, or null */
+  getMergedRequest(headBranch: string): Promise<ExistingPR | null>;
+  /** Whether requests can be added to a project (`metadata.project`) */
+  supportsProject: boolean;
+  /** Names of the repo's labels, or null when they can't be listed */
+  listLabels(): Promise<string[] | null>;
+  createRequest(options: {
+    base: string;
+    title: string;
+    body: string;
+    draft?: boolean;
+    metadata?: PRMetadata;
+  }): Promise<CommandResult>;
+  /** Create a request titled and described from the branch commits */
+  createRequestFill(base: string, draft?: boolean, metadata?: PRMetadata): Promise<CommandResult>;
+  /** The web page for opening the request by hand, or null when the remote is unknown */
+  getNewRequestUrl(base: string, head: string): string | null;
+}
+
+export function createGitHubForge(remote: RemoteInfo | null = null): Forge {
+  return {
+    id: 'github',
+    label: 'GitHub',
+    cli: 'gh',
+    client: 'gh CLI',
+    installHint: 'install from https://cli.github.com, or set GH_TOKEN',
+    authHint: 'run `gh auth login`, or set GH_TOKEN',
+    requestName: 'PR',
+    formatRequest: (number) => `PR #${number}`,
+    isInstalled: checkGhInstalled,
+    isAuthenticated: checkGhAuth,
+    isFork: isRepoFork,
+    getRepoInfo: getCurrentRepoInfo,
+    getPermissions: (repo) => checkRepoPermissions(repo.owner, repo.repo),
+    getOpenRequest: getPRForBranch,
+    getMergedRequest: getMergedPRForBranch,
+    supportsProject: true,
+    listLabels: getLabelNames,
+    createRequest: createPR,
+    createRequestFill: createPRFill,
+    getNewRequestUrl(base, head) {
+      if (!remote) return null;
+      return `https://${remote.host}/${remote.owner}/${remote.repo}/compare/${base}...${head}?expand=1`;
+    },
+  };
+}
+
+export function createGitLabForge(remote: RemoteInfo | null = null): Forge {
+  return {
+    id: 'gitlab',
+    label: 'GitLab',
+    cli: 'glab',
+    client: 'glab CLI',
+    installHint: 'install from https://gitlab.com/gitlab-org/cli',
+    authHint: 'run `glab auth login`',
+    requestName: 'MR',
+    formatRequest: (number) => `MR !${number}`,
+    isInstalled: checkGlabInstalled,
+    isAuthenticated: () => checkGlabAuth(remote?.host),
+    isFork: isGitLabRepoFork,
+    getRepoInfo: getGitLabRepoInfo,
+    getPermissions: (repo) => checkGitLabPermissions(repo.owner, repo.repo),
+    getOpenRequest: getMRForBranch,
+    getMergedRequest: getMergedMRForBranch,
+    supportsProject: false,
+    listLabels: getGitLabLabelNames,
+    createRequest: createMR,
+    createRequestFill: createMRFill,
+    getNewRequestUrl(base, head) {
+      if (!remote) return null;
+      const query = new URLSearchParams({
+        'merge_request[source_branch]': head,
+        'merge_request[target_branch]': base,
+      });
+      return `https://${remote.host}/${remote.owner}/${remote.repo}/-/merge_requests/new?${query}`;
+    },
+  };
+}
+
+/**
+ * Title and body for a PR filled from its commits, as `gh pr create --fill`
+ * does: a single commit gives its subject and body, several give the branch
+ * name and a list of subjects.
+ */
+export function fillPullRequest(
+  headBranch: string,
+  messages: string[],
+): { title: string; body: string } {
+  if (messages.length === 1) {
+    const [subject = '', ...rest] = messages[0].split('\n');
+    return { title: subject.trim(), body: rest.join('\n').trim() };
+  }
+  return {
+    title: headBranch,
+    body: messages.map((message) => `- ${message.split('\n')[0]}`).join('\n'),
+  };
+}
+
+/** Title and body for the current branch filled from its commits since `base`. */
+export async function fillRequestFromCommits(
+  base: string,
+): Promise<{ title: string; body: string }> {
+  const head = (await getCurrentBranch()) ?? '';
+  const messages = (await getCommitMessages(base, 'HEAD')).map((commit) => commit.message);
+  return fillPullRequest(head, messages);
+}
+
+/**
+ * `createRequest` and `createRequestFill` for forges reached over HTTP, which
+ * need the head branch spelled out where a CLI would read it from the checkout.
+ */
+function createRequestsFromBranch(
+  create: (
+    options: Parameters<Forge['createRequest']>[0] & { head: string },
+  ) => Promise<CommandResult>,
+): Pick<Forge, 'createRequest' | 'createRequestFill'> {
+  const createRequest: Forge['createRequest'] = async (options) => {
+    const head = await getCurrentBranch();
+    if (!head) return { exitCode: 1, stdout: '', stderr: 'Not on a branch' };
+    return create({ ...options, head });
+  };
+  return {
+    createRequest,
+    async createRequestFill(base, draft, metadata) {
+      return createRequest({ base, ...(await fillRequestFromCommits(base)), draft, metadata });
+    },
+  };
+}
+
+/** GitHub over the REST API, for when `gh` is missing or signed out but a token is set. */
+export function createGitHubApiForge(remote: RemoteInfo, token: string): Forge {
+  const api: GitHubApiRemote = { ...remote, apiUrl: getGitHubApiUrl(remote.host), token };
+
+  return {
+    ...createGitHubForge(remote),
+    cli: null,
+    client: 'GitHub API',
+    installHint: 'no CLI needed',
+    authHint:
+      'check the token in GH_TOKEN/GITHUB_TOKEN (GH_ENTERPRISE_TOKEN on Enterprise hosts) or the one saved by `cn setup`',
+    isInstalled: async () => true,
+    isAuthenticated: () => checkGitHubApiAuth(api),
+    isFork: () => isGitHubApiRepoFork(api),
+    getRepoInfo: async () => ({ owner: remote.owner, repo: remote.repo }),
+    getPermissions: (repo) => checkGitHubApiPermissions(api, repo),
+    getOpenRequest: (headBranch) => findGitHubApiPR(api, headBranch, 'open'),
+    getMergedRequest: (headBranch) => findGitHubApiPR(api, headBranch, 'merged'),
+    supportsProject: false,
+    listLabels: () => getGitHubApiLabelNames(api),
+    ...createRequestsFromBranch((options) => createGitHubApiPR(api, options)),
+  };
+}
+
+export function createGiteaForge(remote: RemoteInfo, baseUrl: string): Forge {
+  const connect = async (): Promise<GiteaRemote> => ({
+    ...remote,
+    baseUrl,
+    token: await getGiteaToken(remote.host),
+  });
+
+  return {
+    id: 'gitea',
+    label: 'Gitea/Forgejo',
+    cli: null,
+    client: 'Gitea API',
+    installHint: 'no CLI needed',
+    authHint: 'save an access token with `cn setup`',
+    requestName: 'PR',
+    formatRequest: (number) => `PR #${number}`,
+    isInstalled: async () => true,
+    isAuthenticated: async () => checkGiteaAuth(await connect()),
+    isFork: async () => isGiteaRepoFork(await connect()),
+    getRepoInfo: async () => ({ owner: remote.owner, repo: remote.repo }),
+    getPermissions: async (repo) => checkGiteaPermissions(await connect(), repo),
+    getOpenRequest: async (headBranch) => findGiteaPR(await connect(), headBranch, 'open'),
+    getMergedRequest: async (headBranch) => findGiteaPR(await connect(), headBranch, 'merged'),
+    supportsProject: false,
+    listLabels: async () => getGiteaLabelNames(await connect()),
+    ...createRequestsFromBranch(async (options) => createGiteaPR(await connect(), options)),
+    getNewRequestUrl(base, head) {
+      return `${baseUrl}/${remote.owner}/${remote.repo}/compare/${base}...${head}`;
+    },
+  };
+}
+
+/**
+ * Which forge hosts `host`. gitlab.com, hosts with "gitlab" in the name, and
+ * the host in `GITLAB_HOST` (the variable `glab` reads for self-hosted
+ * instances) are GitLab. Codeberg, hosts with "gitea" or "forgejo" in the
+ * name, and hosts with a saved Gitea token are Gitea. Everything else is
+ * treated as GitHub.
+ */
+export function detectForgeId(
+  host: string,
+  env: Record<string, string | undefined> = process.env,
+  giteaHosts: string[] = [],
+): ForgeId {
+  const normalized = host.toLowerCase();
+  if (isGiteaHostName(normalized) || giteaHosts.includes(normalized)) {
+    return 'gitea';
+  }
+  if (normalized.split('.').some((label) => label === 'gitlab' || label.startsWith('gitlab-'))) {
+    return 'gitlab';
+  }
+
+  const gitlabHost = env.GITLAB_HOST?.trim();
+  if (gitlabHost) {
+    const configured = gitlabHost
+      .replace(/^https?:\/\//, '')
+      .replace(/[:/].*$/, '')
+      .toLowerCase();
+    if (configured === normalized) return 'gitlab';
+  }
+  return 'github';
+}
+
+/** The forge for a remote URL. `giteaHosts` are the hosts with a saved Gitea token. */
+export function getForgeForUrl(url: string | null, giteaHosts: string[] = []): Forge {
+  const remote = url ? parseRemoteUrl(url) : null;
+  if (!remote) return createGitHubForge(null);
+
+  const forgeId = detectForgeId(remote.host, process.env, giteaHosts);
+  if (forgeId === 'gitlab') return createGitLabForge(remote);
+  if (forgeId === 'gitea') return createGiteaForge(remote, getGiteaBaseUrl(url ?? '', remote.host));
+  return createGitHubForge(remote);
+}
+
+/**
+ * The forge behind a git remote, defaulting to GitHub when the URL can't be
+ * read. GitHub goes through `gh` unless it is missing or signed out and a
+ * token is available, in which case the REST API is used instead.
+ */
+export async function getForge(remote = 'origin'): Promise<Forge> {
+  const url = await getRemoteUrl(remote);
+  const forge = getForgeForUrl(url, await getGiteaTokenHosts());
+  const remoteInfo = url ? parseRemoteUrl(url) : null;
+  if (forge.id !== 'github' || !remoteInfo) return forge;
+
+  const token = await resolveGitHubToken(remoteInfo.host);
+  if (!token || ((await forge.isInstalled()) && (await forge.isAuthenticated()))) return forge;
+  return createGitHubApiForge(remoteInfo, token);
+}
@@ -1,4 +1,5 @@
 import { execFile as execFileCb } from 'node:child_process';
+import type { PRMetadata } from './prMetadata.js';
 
 function run(args: string[]): Promise<{ exitCode: number; stdout: string; stderr: string }> {
   return new Promise((resolve) => {
@@ -82,11 +83,24 @@ export async function getCurrentRepoInfo(): Promise<{ owner: string; repo: strin
   return { owner, repo };
 }
 
+/** `gh pr create` flags for reviewers (users or "org/team"), labels, and the rest. */
+function metadataArgs(metadata?: PRMetadata): string[] {
+  if (!metadata) return [];
+  return [
+    ...metadata.reviewers.flatMap((reviewer) => ['--reviewer', reviewer]),
+    ...metadata.labels.flatMap((label) => ['--label', label]),
+    ...metadata.assignees.flatMap((assignee) => ['--assignee', assignee]),
+    ...(metadata.milestone ? ['--milestone', metadata.milestone] : []),
+    ...(metadata.project ? ['--project', metadata.project] : []),
+  ];
+}
+
 export async function createPR(options: {
   base: string;
   title: string;
   body: string;
   draft?: boolean;
+  metadata?: PRMetadata;
 }): Promise<{ exitCode: number; stdout: string; stderr: string }> {
   const args = [
     'pr',
@@ -97,6 +111,7 @@ export async function createPR(options: {
     options.title,
     '--body',
     options.body,
+    ...metadataArgs(options.metadata),
   ];
   if (options.draft) args.push('--draft');
   return run(args);
@@ -105,12 +120,29 @@ export async function createPR(options: {
 export async function createPRFill(
   base: string,
   draft?: boolean,
+  metadata?: PRMetadata,
 ): Promise<{ exitCode: number; stdout: string; stderr: string }> {
-  const args = ['pr', 'create', '--base', base, '--fill'];
+  const args = ['pr', 'create', '--base', base, '--fill', ...metadataArgs(metadata)];
   if (draft) args.push('--draft');
   return run(args);
 }
 
+/** Names of the labels in the repo, or null when they can't be listed. */
+export async function getLabelNames(): Promise<string[] | null> {
+  const { exitCode, stdout } = await run([
+    'label',
+    'list',
+    '--limit',
+    '1000',
+    '--json',
+    'name',
+    '-q',
+    '.[].name',
+  ]);
+  if (exitCode !== 0) return null;
+  return stdout.split('\n').filter(Boolean);
+}
+
 export interface ExistingPR {
   number: number;
   url: string;
@@ -1,21 +1,37 @@
 import { execFile as execFileCb } from 'node:child_process';
-import { existsSync, readFileSync } from 'node:fs';
-import { join } from 'node:path';
+import { copyFileSync, existsSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { isAbsolute, join } from 'node:path';
 import type { GitResult } from '../types.js';
 
-function run(args: string[]): Promise<GitResult> {
+interface RunOptions {
+  /** Written to git's stdin */
+  input?: string;
+  /** Extra environment variables, e.g. GIT_INDEX_FILE */
+  env?: Record<string, string>;
+}
+
+function run(args: string[], options: RunOptions = {}): Promise<GitResult> {
   return new Promise((resolve) => {
-    execFileCb('git', args, (error, stdout, stderr) => {
-      resolve({
-        exitCode: error
-          ? (error as NodeJS.ErrnoException).code === 'ENOENT'
-            ? 127
-            : ((error as { status?: number }).status ?? 1)
-          : 0,
-        stdout: stdout ?? '',
-        stderr: stderr ?? '',
-      });
-    });
+    const child = execFileCb(
+      'git',
+      args,
+      { env: options.env ? { ...process.env, ...options.env } : undefined },
+      (error, stdout, stderr) => {
+        resolve({
+          exitCode: error
+            ? (error as NodeJS.ErrnoException).code === 'ENOENT'
+              ? 127
+              : ((error as { status?: number }).status ?? 1)
+            : 0,
+          stdout: stdout ?? '',
+          stderr: stderr ?? '',
+        });
+      },
+    );
+    if (options.input !== undefined) {
+      child.stdin?.end(options.input);
+    }
   });
 }
 
@@ -233,6 +249,11 @@ export async function rebaseAbort(): Promise<GitResult> {
   return run(['rebase', '--abort']);
 }
 
+/** Abort an in-progress merge. */
+export async function mergeAbort(): Promise<GitResult> {
+  return run(['merge', '--abort']);
+}
+
 /** Returns the upstream tracking ref for the current branch (e.g. "origin/feature/git-add"), or null if none. */
 export async function getUpstreamRef(): Promise<string | null> {
   const { exitCode, stdout } = await run([
@@ -490,10 +511,56 @@ export async function mergeSquash(branch: string): Promise<GitResult> {
   return run(['merge', '--squash', branch]);
 }
 
+/**
+ * Fast-forward the current branch to another branch, refusing to create a merge commit.
+ * Used by the trunk workflow's rebase-and-fast-forward submit.
+ */
+export async function mergeFastForwardOnly(branch: string): Promise<GitResult> {
+  return run(['merge', '--ff-only', branch]);
+}
+
+/**
+ * Merge a branch with --no-ff so the merge commit keeps the branch visible in history.
+ * Used by Git Flow release/hotfix finish, which always records an explicit merge.
+ */
+export async function mergeNoFastForward(branch: string): Promise<GitResult> {
+  return run(['merge', '--no-ff', '--no-edit', branch]);
+}
+
 export async function pushBranch(remote: string, branch: string): Promise<GitResult> {
   return run(['push', remote, branch]);
 }
 
+/** Create an annotated tag at HEAD. */
+export async function createAnnotatedTag(tag: string, message: string): Promise<GitResult> {
+  return run(['tag', '-a', tag, '-m', message]);
+}
+
+/** Returns the most recent tag reachable from `ref`, or null if there is none. */
+export async function getLatestTag(ref = 'HEAD'): Promise<string | null> {
+  const { exitCode, stdout } = await run(['describe', '--tags', '--abbrev=0', ref]);
+  if (exitCode !== 0) return null;
+  return stdout.trim() || null;
+}
+
+/** Returns the tags reachable from `ref`. */
+export async function getMergedTags(ref = 'HEAD'): Promise<string[]> {
+  const { exitCode, stdout } = await run(['tag', '--merged', ref]);
+  if (exitCode !== 0) return [];
+  return stdout.trim().split('\n').filter(Boolean);
+}
+
+/** Returns true if `ref` names an existing tag. */
+export async function tagExists(ref: string): Promise<boolean> {
+  const { exitCode } = await run(['rev-parse', '--verify', '--quiet', `refs/tags/${ref}`]);
+  return exitCode === 0;
+}
+
+/** Push a single tag to a remote. */
+export async function pushTag(remote: string, tag: string): Promise<GitResult> {
+  return run(['push', remote, `refs/tags/${tag}`]);
+}
+
 export async function pruneRemote(remote: string): Promise<GitResult> {
   return run(['remote', 'prune', remote]);
 }
@@ -507,12 +574,45 @@ export async function getLogDiff(base: string, head: string): Promise<string> {
   return stdout;
 }
 
+/** Files changed in `base...head`, i.e. since `head` branched off `base`. */
+export async function getLogDiffFiles(base: string, head: string): Promise<string[]> {
+  const { exitCode, stdout } = await run(['diff', '--name-only', `${base}...${head}`]);
+  if (exitCode !== 0) return [];
+  return stdout.trim().split('\n').filter(Boolean);
+}
+
 export async function getLog(base: string, head: string): Promise<string[]> {
   const { exitCode, stdout } = await run(['log', `${base}..${head}`, '--oneline']);
   if (exitCode !== 0) return [];
   return stdout.trim().split('\n').filter(Boolean);
 }
 
+/**
+ * Returns the full messages of the commits in `base..head`, oldest first.
+ * A null base walks all history reachable from `head`.
+ * `parents` has more than one entry for merge commits.
+ */
+export async function getCommitMessages(
+  base: string | null,
+  head: string,
+): Promise<{ hash: string; parents: string[]; message: string }[]> {
+  const { exitCode, stdout } = await run([
+    'log',
+    '--reverse',
+    '--format=%H%x1f%P%x1f%B%x1e',
+    base ? `${base}..${head}` : head,
+  ]);
+  if (exitCode !== 0) return [];
+  return stdout
+    .split('\x1e')
+    .map((entry) => entry.replace(/^\n/, ''))
+    .filter(Boolean)
+    .map((entry) => {
+      const [hash = '', parents = '', message = ''] = entry.split('\x1f');
+      return { hash, parents: parents.split(' ').filter(Boolean), message: message.trimEnd() };
+    });
+}
+
 export async function pullBranch(remote: string, branch: string): Promise<GitResult> {
   return run(['pull', remote, branch]);
 }
@@ -543,6 +643,61 @@ export async function unstageFiles(files: string[]): Promise<GitResult> {
   return run(['reset', 'HEAD', '--', ...files]);
 }
 
+/** Reset the index to HEAD, keeping the working tree as it is. */
+export async function resetIndex(): Promise<GitResult> {
+  return run(['reset', '--quiet']);
+}
+
+/**
+ * Stage a patch (e.g. a subset of a file's hunks) without touching the working tree.
+ * With `checkOnly`, only report whether it would apply.
+ */
+export async function applyPatchToIndex(patch: string, checkOnly = false): Promise<GitResult> {
+  return run(['apply', '--cached', '--whitespace=nowarn', ...(checkOnly ? ['--check'] : []), '-'], {
+    input: patch,
+  });
+}
+
+/** The editor git itself would open: GIT_EDITOR, core.editor, VISUAL, EDITOR, then vi. */
+export async function getGitEditor(): Promise<string> {
+  const { exitCode, stdout } = await run(['var', 'GIT_EDITOR']);
+  return (exitCode === 0 && stdout.trim()) || 'vi';
+}
+
+/**
+ * Tracked changes against HEAD, staged or not, as one diff. Renames show up as
+ * a deletion plus an addition so each side can be staged on its own.
+ */
+export async function getDiffAgainstHead(): Promise<string> {
+  const { stdout } = await run(['diff', 'HEAD', '--no-renames', '--no-color', '--no-ext-diff']);
+  return stdout;
+}
+
+/**
+ * Tree hash of the working tree (tracked and untracked, minus ignored files),
+ * built in a throwaway index so the real one is left alone.
+ */
+export async function getWorkingTreeSnapshot(): Promise<string | null> {
+  const indexFile = join(tmpdir(), `contribute-now-index-${process.pid}-${Date.now()}`);
+  const env = { GIT_INDEX_FILE: indexFile };
+  try {
+    // Start from the real index so unchanged files don't need to be hashed again
+    const { stdout } = await run(['rev-parse', '--git-path', 'index']);
+    const realIndex = stdout.trim();
+    const realIndexPath = isAbsolute(realIndex) ? realIndex : join(process.cwd(), realIndex);
+    if (realIndex && existsSync(realIndexPath)) {
+      copyFileSync(realIndexPath, indexFile);
+    } else if ((await run(['read-tree', 'HEAD'], { env })).exitCode !== 0) {
+      return null;
+    }
+    if ((await run(['add', '--all'], { env })).exitCode !== 0) return null;
+    const tree = await run(['write-tree'], { env });
+    return tree.exitCode === 0 ? tree.stdout.trim() || null : null;
+  } finally {
+    rmSync(indexFile, { force: true });
+  }
+}
+
 export async function stageAll(): Promise<GitResult> {
   return run(['add', '-A']);
 }
@@ -887,3 +1042,19 @@ export async function getLastCommitDate(branch: string): Promise<string | null>
   const date = stdout.trim();
   return date || null;
 }
+
+/**
+ * Returns the ISO date of the oldest commit on `branch` that is not in `base`,
+ * i.e. when work on the branch started. Null if the branch has no own commits.
+ */
+export async function getBranchStartDate(branch: string, base: string): Promise<string | null> {
+  const { exitCode, stdout } = await run([
+    'log',
+    '--reverse',
+    '--format=%aI',
+    `${base}..${branch}`,
+  ]);
+  if (exitCode !== 0) return null;
+  const date = stdout.split('\n')[0]?.trim();
+  return date || null;
+}
@@ -0,0 +1,71 @@
+import type { ContributeConfig } from '../types.js';
+import { getBaseBranch } from './workflow.js';
+
+/**
+ * Git Flow lifecycle branches.
+ *
+ * - release/<version> branches are cut from the dev branch and prepare a release
+ * - hotfix/<version> branches are cut from main and patch a shipped release
+ *
+ * Both finish the same way: merge into main and dev, tag the version on main,
+ * push everything, and delete the lifecycle branch.
+ */
+export type LifecycleKind = 'release' | 'hotfix';
+
+export const LIFECYCLE_LABELS: Record<LifecycleKind, string> = {
+  release: 'Release',
+  hotfix: 'Hotfix',
+};
+
+// Semantic version with optional prerelease and build metadata (leading "v" is stripped first)
+const LIFECYCLE_VERSION_PATTERN =
+  /^\d+\.\d+\.\d+(?:-[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+/**
+ * Normalize a user-supplied version (e.g. "v1.2.0" → "1.2.0").
+ * Returns null if the input is not a valid semantic version.
+ */
+export function normalizeLifecycleVersion(input: string): string | null {
+  const version = input.trim().replace(/^v/i, '');
+  return LIFECYCLE_VERSION_PATTERN.test(version) ? version : null;
+}
+
+export function getLifecycleBranchName(kind: LifecycleKind, version: string): string {
+  return `${kind}/${version}`;
+}
+
+export function getLifecycleTagName(version: string): string {
+  return `v${version}`;
+}
+
+/**
+ * Returns the branch a lifecycle branch is cut from.
+ * Releases start from the dev branch, hotfixes start from main.
+ */
+export function getLifecycleSourceBranch(kind: LifecycleKind, config: ContributeConfig): string {
+  return kind === 'release' ? getBaseBranch(config) : config.mainBranch;
+}
+
+/**
+ * Returns the branches a finished lifecycle branch is merged into, in merge order.
+ * Main comes first so the version tag lands on the released commit.
+ */
+export function getLifecycleTargetBranches(config: ContributeConfig): string[] {
+  return [config.mainBranch, getBaseBranch(config)];
+}
+
+/**
+ * Parse a branch name like "release/1.2.0" or "hotfix/1.2.1".
+ * Returns null for any other branch or an invalid version.
+ */
+export function parseLifecycleBranch(
+  branch: string,
+): { kind: LifecycleKind; version: string } | null {
+  const match = /^(release|hotfix)\/(.+)$/.exec(branch);
+  if (!match) return null;
+
+  const version = normalizeLifecycleVersion(match[2]);
+  if (!version) return null;
+
+  return { kind: match[1] as LifecycleKind, version };
+}
@@ -0,0 +1,322 @@
+import type { RepoInfo } from '../types.js';
+import type { ExistingPR, RepoPermissions } from './gh.js';
+import type { PRMetadata } from './prMetadata.js';
+
+/**
+ * Gitea and Forgejo (e.g. Codeberg) pull requests through the REST API
+ * (`/api/v1`). There is no CLI to shell out to, so requests carry an access
+ * token from the secrets store.
+ */
+
+const GITEA_REQUEST_TIMEOUT_MS = 15_000;
+const GITEA_PROBE_TIMEOUT_MS = 3_000;
+/** Draft PRs are marked with a title prefix on Gitea and Forgejo */
+const DRAFT_TITLE_PREFIX = 'WIP: ';
+const PR_PAGE_SIZE = 50;
+
+const KNOWN_HOSTS = ['codeberg.org'];
+
+export interface GiteaRemote extends RepoInfo {
+  /** Web root of the instance, e.g. "https://codeberg.org" */
+  baseUrl: string;
+  token: string | null;
+}
+
+/** Codeberg, and hosts with "gitea" or "forgejo" in the name. */
+export function isGiteaHostName(host: string): boolean {
+  const normalized = host.toLowerCase();
+  return (
+    KNOWN_HOSTS.includes(normalized) ||
+    normalized.split('.').some((label) => /^(gitea|forgejo)(-|$)/.test(label))
+  );
+}
+
+/**
+ * Web root of the instance behind a remote: the scheme, host, and port of an
+ * HTTP(S) remote, or https on the host of an SSH remote.
+ */
+export function getGiteaBaseUrl(remoteUrl: string, host: string): string {
+  const match = remoteUrl.trim().match(/^(https?):\/\/(?:[^@/]+@)?([^/]+)/);
+  return match ? `${match[1]}://${match[2]}` : `https://${host}`;
+}
+
+/** The Gitea/Forgejo version an instance reports, or null when it isn't one. */
+export async function probeGiteaVersion(baseUrl: string): Promise<string | null> {
+  try {
+    const response = await fetch(`${baseUrl}/api/v1/version`, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(GITEA_PROBE_TIMEOUT_MS),
+    });
+    if (!response.ok) return null;
+    const { version } = (await response.json()) as { version?: unknown };
+    return typeof version === 'string' ? version : null;
+  } catch {
+    return null;
+  }
+}
+
+async function request<T>(
+  remote: GiteaRemote,
+  path: string,
+  init: { method?: string; body?: unknown } = {},
+): Promise<T> {
+  if (!remote.token) {
+    throw new Error('No Gitea token saved for this host. Run `cn setup` to add one.');
+  }
+  const response = await fetch(`${remote.baseUrl}/api/v1${path}`, {
+    method: init.method ?? 'GET',
+    headers: {
+      Accept: 'application/json',
+      Authorization: `token ${remote.token}`,
+      ...(init.body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    signal: AbortSignal.timeout(GITEA_REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(
+      `Gitea request failed (${response.status} ${response.statusText}): ${body.slice(0, 200)}`,
+    );
+  }
+  return (await response.json()) as T;
+}
+
+function repoPath(owner: string, repo: string): string {
+  return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+}
+
+interface GiteaRepository {
+  full_name: string;
+  fork: boolean;
+  parent?: { full_name: string } | null;
+  permissions?: RepoPermissions;
+}
+
+interface GiteaPullRequest {
+  number: number;
+  html_url: string;
+  title: string;
+  state: string;
+  merged: boolean;
+  head: { ref: string; repo?: { full_name: string } | null };
+}
+
+function splitFullName(fullName: string): RepoInfo | null {
+  const slash = fullName.lastIndexOf('/');
+  if (slash <= 0) return null;
+  return { owner: fullName.slice(0, slash), repo: fullName.slice(slash + 1) };
+}
+
+async function getRepository(remote: GiteaRemote): Promise<GiteaRepository | null> {
+  try {
+    return await request<GiteaRepository>(remote, repoPath(remote.owner, remote.repo));
+  } catch {
+    return null;
+  }
+}
+
+/** The token works for this instance. */
+export async function checkGiteaAuth(remote: GiteaRemote): Promise<boolean> {
+  try {
+    await request(remote, '/user');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function isGiteaRepoFork(remote: GiteaRemote): Promise<boolean | null> {
+  return (await getRepository(remote))?.fork ?? null;
+}
+
+export async function checkGiteaPermissions(
+  remote: GiteaRemote,
+  repo: RepoInfo,
+): Promise<RepoPermissions | null> {
+  try {
+    const data = await request<GiteaRepository>(remote, repoPath(repo.owner, repo.repo));
+    return data.permissions ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Where PRs from the remote's repo go: the parent repo for a fork (with the
+ * head branch written as "owner:branch"), the repo itself otherwise.
+ */
+async function getPullTarget(
+  remote: GiteaRemote,
+): Promise<{ target: RepoInfo; headOwner: string | null } | null> {
+  const repository = await getRepository(remote);
+  if (!repository) return null;
+  const parent =
+    repository.fork && repository.parent ? splitFullName(repository.parent.full_name) : null;
+  return parent
+    ? { target: parent, headOwner: remote.owner }
+    : { target: { owner: remote.owner, repo: remote.repo }, headOwner: null };
+}
+
+/**
+ * The most recent open, or merged, PR from `headBranch` of the remote's repo.
+ * Merged PRs are read from the latest page of closed ones.
+ */
+export async function findGiteaPR(
+  remote: GiteaRemote,
+  headBranch: string,
+  state: 'open' | 'merged',
+): Promise<ExistingPR | null> {
+  try {
+    const pullTarget = await getPullTarget(remote);
+    if (!pullTarget) return null;
+    const { target } = pullTarget;
+    const pulls = await request<GiteaPullRequest[]>(
+      remote,
+      `${repoPath(target.owner, target.repo)}/pulls?state=${state === 'open' ? 'open' : 'closed'}&sort=recentupdate&limit=${PR_PAGE_SIZE}`,
+    );
+    const headRepo = `${remote.owner}/${remote.repo}`.toLowerCase();
+    const match = pulls.find(
+      (pull) =>
+        pull.head.ref === headBranch &&
+        (!pull.head.repo || pull.head.repo.full_name.toLowerCase() === headRepo) &&
+        (state === 'open' || pull.merged),
+    );
+    return match
+      ? { number: match.number, url: match.html_url, title: match.title, state: match.state }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+async function listLabels(
+  remote: GiteaRemote,
+  target: RepoInfo,
+): Promise<Array<{ id: number; name: string }>> {
+  return request(remote, `${repoPath(target.owner, target.repo)}/labels?limit=${PR_PAGE_SIZE}`);
+}
+
+/** Names of the labels in the repo PRs go to, or null when they can't be listed. */
+export async function getGiteaLabelNames(remote: GiteaRemote): Promise<string[] | null> {
+  try {
+    const pullTarget = await getPullTarget(remote);
+    if (!pullTarget) return null;
+    return (await listLabels(remote, pullTarget.target)).map((label) => label.name);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Label and milestone IDs for the new PR, which the API takes instead of
+ * names. Names that don't match anything come back as warnings.
+ */
+async function resolveMetadataIds(
+  remote: GiteaRemote,
+  target: RepoInfo,
+  metadata: PRMetadata,
+): Promise<{ labels: number[]; milestone?: number; warnings: string[] }> {
+  const warnings: string[] = [];
+  const labels: number[] = [];
+  if (metadata.labels.length > 0) {
+    const known = await listLabels(remote, target);
+    for (const name of metadata.labels) {
+      const label = known.find((candidate) => candidate.name === name);
+      if (label) labels.push(label.id);
+      else warnings.push(`Could not add label "${name}": no such label`);
+    }
+  }
+
+  let milestone: number | undefined;
+  if (metadata.milestone) {
+    const milestones = await request<Array<{ id: number; title: string }>>(
+      remote,
+      `${repoPath(target.owner, target.repo)}/milestones?state=open&limit=${PR_PAGE_SIZE}`,
+    );
+    milestone = milestones.find((candidate) => candidate.title === metadata.milestone)?.id;
+    if (milestone === undefined) {
+      warnings.push(
+        `Could not add milestone "${metadata.milestone}": no open milestone with that title`,
+      );
+    }
+  }
+  return { labels, milestone, warnings };
+}
+
+/**
+ * Open a PR from `head`. Prints the PR URL on success, like `gh pr create`;
+ * metadata that could not be added comes back as warnings. Gitea has no
+ * projects to add PRs to.
+ */
+export async function createGiteaPR(
+  remote: GiteaRemote,
+  options: {
+    base: string;
+    head: string;
+    title: string;
+    body: string;
+    draft?: boolean;
+    metadata?: PRMetadata;
+  },
+): Promise<{ exitCode: number; stdout: string; stderr: string; warnings?: string[] }> {
+  try {
+    const pullTarget = await getPullTarget(remote);
+    if (!pullTarget) {
+      return { exitCode: 1, stdout: '', stderr: `Could not read ${remote.owner}/${remote.repo}` };
+    }
+    const { target, headOwner } = pullTarget;
+    const { metadata } = options;
+    const ids = metadata
+      ? await resolveMetadataIds(remote, target, metadata)
+      : { labels: [], warnings: [] };
+    // Gitea has no "@me" shorthand like gh
+    const assignees = metadata?.assignees.includes('@me')
+      ? await request<{ login: string }>(remote, '/user').then(({ login }) =>
+          metadata.assignees.map((name) => (name === '@me' ? login : name)),
+        )
+      : (metadata?.assignees ?? []);
+    const pull = await request<GiteaPullRequest>(
+      remote,
+      `${repoPath(target.owner, target.repo)}/pulls`,
+      {
+        method: 'POST',
+        body: {
+          base: options.base,
+          head: headOwner ? `${headOwner}:${options.head}` : options.head,
+          title: options.draft ? `${DRAFT_TITLE_PREFIX}${options.title}` : options.title,
+          body: options.body,
+          ...(assignees.length > 0 ? { assignees } : {}),
+          ...(ids.labels.length > 0 ? { labels: ids.labels } : {}),
+          ...(ids.milestone !== undefined ? { milestone: ids.milestone } : {}),
+        },
+      },
+    );
+
+    const warnings = ids.warnings;
+    if (metadata?.reviewers.length) {
+      try {
+        await request(
+          remote,
+          `${repoPath(target.owner, target.repo)}/pulls/${pull.number}/requested_reviewers`,
+          {
+            method: 'POST',
+            body: {
+              reviewers: metadata.reviewers.filter((reviewer) => !reviewer.includes('/')),
+              team_reviewers: metadata.reviewers
+                .filter((reviewer) => reviewer.includes('/'))
+                .map((team) => team.slice(team.indexOf('/') + 1)),
+            },
+          },
+        );
+      } catch (err) {
+        warnings.push(
+          `Could not add reviewers: ${err instanceof Error ? err.message : String(err)}`,
+        );
+      }
+    }
+    return { exitCode: 0, stdout: `${pull.html_url}\n`, stderr: '', warnings };
+  } catch (err) {
+    return { exitCode: 1, stdout: '', stderr: err instanceof Error ? err.message : String(err) };
+  }
+}
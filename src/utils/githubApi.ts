@@ -0,0 +1,309 @@
+import type { RepoInfo } from '../types.js';
+import type { ExistingPR, RepoPermissions } from './gh.js';
+import type { PRMetadata } from './prMetadata.js';
+import { getGitHubToken } from './secrets.js';
+
+/**
+ * The GitHub REST API, for when `gh` is missing or signed out. Requests carry
+ * a token from the environment or the secrets store, and go to the
+ * Enterprise API (`https://<host>/api/v3`) for hosts other than github.com.
+ */
+
+const GITHUB_REQUEST_TIMEOUT_MS = 15_000;
+const GITHUB_API_VERSION = '2022-11-28';
+
+export interface GitHubApiRemote extends RepoInfo {
+  /** API root, e.g. "https://api.github.com" */
+  apiUrl: string;
+  token: string | null;
+}
+
+export function getGitHubApiUrl(host: string): string {
+  const normalized = host.toLowerCase();
+  return normalized === 'github.com' ? 'https://api.github.com' : `https://${normalized}/api/v3`;
+}
+
+/**
+ * github.com, GitHub Enterprise Cloud (`*.ghe.com`), and hosts with "github"
+ * or "ghe" in the name. Other hosts may still be GitHub Enterprise Server.
+ */
+export function isGitHubHostName(host: string): boolean {
+  return host
+    .toLowerCase()
+    .split('.')
+    .some((label) => /^(github|ghe)(-|$)/.test(label));
+}
+
+/**
+ * The token for `host`, read as `gh` reads them: `GH_TOKEN` or `GITHUB_TOKEN`
+ * on github.com, only `GH_ENTERPRISE_TOKEN` or `GITHUB_ENTERPRISE_TOKEN` on
+ * other hosts, so a github.com token is never sent anywhere else. Then the one
+ * saved for the host in the secrets store.
+ */
+export async function resolveGitHubToken(
+  host: string,
+  env: Record<string, string | undefined> = process.env,
+  baseDir?: string,
+): Promise<string | null> {
+  const enterprise = host.toLowerCase() !== 'github.com';
+  const fromEnv = (
+    enterprise
+      ? [env.GH_ENTERPRISE_TOKEN, env.GITHUB_ENTERPRISE_TOKEN]
+      : [env.GH_TOKEN, env.GITHUB_TOKEN]
+  )
+    .map((token) => token?.trim())
+    .find(Boolean);
+  return fromEnv ?? (await getGitHubToken(host, baseDir));
+}
+
+async function request<T>(
+  remote: GitHubApiRemote,
+  path: string,
+  init: { method?: string; body?: unknown } = {},
+): Promise<T> {
+  if (!remote.token) {
+    throw new Error('No GitHub token. Set GH_TOKEN or run `cn setup` to save one.');
+  }
+  const response = await fetch(`${remote.apiUrl}${path}`, {
+    method: init.method ?? 'GET',
+    headers: {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${remote.token}`,
+      'X-GitHub-Api-Version': GITHUB_API_VERSION,
+      ...(init.body === undefined ? {} : { 'Content-Type': 'application/json' }),
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    signal: AbortSignal.timeout(GITHUB_REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const body = await response.text();
+    let message = body.slice(0, 200);
+    try {
+      message = (JSON.parse(body) as { message?: string }).message ?? message;
+    } catch {
+      // Not JSON; keep the raw text
+    }
+    throw new Error(`GitHub request failed (${response.status}): ${message}`);
+  }
+  return (await response.json()) as T;
+}
+
+function repoPath(owner: string, repo: string): string {
+  return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+}
+
+interface GitHubRepository {
+  full_name: string;
+  fork: boolean;
+  parent?: { owner: { login: string }; name: string };
+  permissions?: RepoPermissions;
+}
+
+interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+  title: string;
+  state: string;
+  merged_at: string | null;
+}
+
+async function getRepository(remote: GitHubApiRemote): Promise<GitHubRepository | null> {
+  try {
+    return await request<GitHubRepository>(remote, repoPath(remote.owner, remote.repo));
+  } catch {
+    return null;
+  }
+}
+
+/** The token works for this host. */
+export async function checkGitHubApiAuth(remote: GitHubApiRemote): Promise<boolean> {
+  try {
+    await request(remote, '/user');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function isGitHubApiRepoFork(remote: GitHubApiRemote): Promise<boolean | null> {
+  return (await getRepository(remote))?.fork ?? null;
+}
+
+export async function checkGitHubApiPermissions(
+  remote: GitHubApiRemote,
+  repo: RepoInfo,
+): Promise<RepoPermissions | null> {
+  try {
+    const data = await request<GitHubRepository>(remote, repoPath(repo.owner, repo.repo));
+    return data.permissions ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Where PRs go, like `gh`: the parent repo for a fork, the repo itself otherwise. */
+async function getPullTarget(remote: GitHubApiRemote): Promise<RepoInfo | null> {
+  const repository = await getRepository(remote);
+  if (!repository) return null;
+  return repository.fork && repository.parent
+    ? { owner: repository.parent.owner.login, repo: repository.parent.name }
+    : { owner: remote.owner, repo: remote.repo };
+}
+
+/** The most recent open, or merged, PR from `headBranch` of the remote's repo. */
+export async function findGitHubApiPR(
+  remote: GitHubApiRemote,
+  headBranch: string,
+  state: 'open' | 'merged',
+): Promise<ExistingPR | null> {
+  try {
+    const target = await getPullTarget(remote);
+    if (!target) return null;
+    const query = new URLSearchParams({
+      head: `${remote.owner}:${headBranch}`,
+      state: state === 'open' ? 'open' : 'closed',
+      sort: 'updated',
+      direction: 'desc',
+      per_page: '30',
+    });
+    const pulls = await request<GitHubPullRequest[]>(
+      remote,
+      `${repoPath(target.owner, target.repo)}/pulls?${query}`,
+    );
+    const match = pulls.find((pull) => state === 'open' || pull.merged_at !== null);
+    if (!match) return null;
+    return {
+      number: match.number,
+      url: match.html_url,
+      title: match.title,
+      state: match.merged_at ? 'MERGED' : match.state.toUpperCase(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Names of the labels in the repo PRs go to, or null when they can't be listed. */
+export async function getGitHubApiLabelNames(remote: GitHubApiRemote): Promise<string[] | null> {
+  try {
+    const target = await getPullTarget(remote);
+    if (!target) return null;
+    const labels = await request<Array<{ name: string }>>(
+      remote,
+      `${repoPath(target.owner, target.repo)}/labels?per_page=100`,
+    );
+    return labels.map((label) => label.name);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Add reviewers, labels, assignees, and the milestone to PR `number`, the way
+ * `gh pr create` does after opening it. Returns a warning for each part that
+ * could not be set; projects need the GraphQL API and are not supported.
+ */
+async function applyMetadata(
+  remote: GitHubApiRemote,
+  target: RepoInfo,
+  number: number,
+  metadata: PRMetadata,
+): Promise<string[]> {
+  const warnings: string[] = [];
+  const path = repoPath(target.owner, target.repo);
+  const attempt = async (what: string, action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err) {
+      warnings.push(`Could not add ${what}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  let milestone: number | undefined;
+  if (metadata.milestone) {
+    await attempt(`milestone "${metadata.milestone}"`, async () => {
+      const milestones = await request<Array<{ number: number; title: string }>>(
+        remote,
+        `${path}/milestones?state=open&per_page=100`,
+      );
+      milestone = milestones.find((m) => m.title === metadata.milestone)?.number;
+      if (milestone === undefined) throw new Error('no open milestone with that title');
+    });
+  }
+
+  if (metadata.labels.length > 0 || metadata.assignees.length > 0 || milestone !== undefined) {
+    await attempt('labels, assignees, or milestone', async () => {
+      const login = metadata.assignees.includes('@me')
+        ? (await request<{ login: string }>(remote, '/user')).login
+        : null;
+      await request(remote, `${path}/issues/${number}`, {
+        method: 'PATCH',
+        body: {
+          ...(metadata.labels.length > 0 ? { labels: metadata.labels } : {}),
+          ...(metadata.assignees.length > 0
+            ? { assignees: metadata.assignees.map((name) => (name === '@me' ? login : name)) }
+            : {}),
+          ...(milestone !== undefined ? { milestone } : {}),
+        },
+      });
+    });
+  }
+
+  if (metadata.reviewers.length > 0) {
+    await attempt('reviewers', () =>
+      request(remote, `${path}/pulls/${number}/requested_reviewers`, {
+        method: 'POST',
+        body: {
+          reviewers: metadata.reviewers.filter((reviewer) => !reviewer.includes('/')),
+          team_reviewers: metadata.reviewers
+            .filter((reviewer) => reviewer.includes('/'))
+            .map((team) => team.slice(team.indexOf('/') + 1)),
+        },
+      }),
+    );
+  }
+  return warnings;
+}
+
+/**
+ * Open a PR from `head`. Prints the PR URL on success, like `gh pr create`;
+ * metadata that could not be added comes back as warnings.
+ */
+export async function createGitHubApiPR(
+  remote: GitHubApiRemote,
+  options: {
+    base: string;
+    head: string;
+    title: string;
+    body: string;
+    draft?: boolean;
+    metadata?: PRMetadata;
+  },
+): Promise<{ exitCode: number; stdout: string; stderr: string; warnings?: string[] }> {
+  try {
+    const target = await getPullTarget(remote);
+    if (!target) {
+      return { exitCode: 1, stdout: '', stderr: `Could not read ${remote.owner}/${remote.repo}` };
+    }
+    const pull = await request<GitHubPullRequest>(
+      remote,
+      `${repoPath(target.owner, target.repo)}/pulls`,
+      {
+        method: 'POST',
+        body: {
+          base: options.base,
+          head: `${remote.owner}:${options.head}`,
+          title: options.title,
+          body: options.body,
+          draft: options.draft ?? false,
+        },
+      },
+    );
+    const warnings = options.metadata
+      ? await applyMetadata(remote, target, pull.number, options.metadata)
+      : [];
+    return { exitCode: 0, stdout: `${pull.html_url}\n`, stderr: '', warnings };
+  } catch (err) {
+    return { exitCode: 1, stdout: '', stderr: err instanceof Error ? err.message : String(err) };
+  }
+}
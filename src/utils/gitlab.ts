@@ -0,0 +1,219 @@
+import { execFile as execFileCb } from 'node:child_process';
+import type { RepoInfo } from '../types.js';
+import type { ExistingPR, RepoPermissions } from './gh.js';
+import type { PRMetadata } from './prMetadata.js';
+
+/**
+ * GitLab counterparts of the `gh` wrappers in gh.ts, driven through the
+ * `glab` CLI. Like `gh`, `glab` finds the project from the git remotes of the
+ * working directory, so self-hosted instances work once `glab auth login` ran.
+ */
+
+function run(args: string[]): Promise<{ exitCode: number; stdout: string; stderr: string }> {
+  return new Promise((resolve) => {
+    execFileCb('glab', args, (error, stdout, stderr) => {
+      resolve({
+        exitCode: error
+          ? (error as NodeJS.ErrnoException).code === 'ENOENT'
+            ? 127
+            : ((error as { status?: number }).status ?? 1)
+          : 0,
+        stdout: stdout ?? '',
+        stderr: stderr ?? '',
+      });
+    });
+  });
+}
+
+export async function checkGlabInstalled(): Promise<boolean> {
+  try {
+    const { exitCode } = await run(['--version']);
+    return exitCode === 0;
+  } catch {
+    return false;
+  }
+}
+
+/** Checks the login for `host`, or for every configured host when none is given. */
+export async function checkGlabAuth(host?: string): Promise<boolean> {
+  try {
+    const { exitCode } = await run(
+      host ? ['auth', 'status', '--hostname', host] : ['auth', 'status'],
+    );
+    return exitCode === 0;
+  } catch {
+    return false;
+  }
+}
+
+interface GitLabProject {
+  path_with_namespace?: string;
+  forked_from_project?: unknown;
+}
+
+async function viewProject(): Promise<GitLabProject | null> {
+  const { exitCode, stdout } = await run(['repo', 'view', '--output', 'json']);
+  if (exitCode !== 0) return null;
+  try {
+    return JSON.parse(stdout.trim()) as GitLabProject;
+  } catch {
+    return null;
+  }
+}
+
+export async function isGitLabRepoFork(): Promise<boolean | null> {
+  const project = await viewProject();
+  if (!project) return null;
+  return project.forked_from_project != null;
+}
+
+/** The current project, with its whole namespace (e.g. "group/subgroup") as the owner. */
+export async function getGitLabRepoInfo(): Promise<RepoInfo | null> {
+  const path = (await viewProject())?.path_with_namespace;
+  const slash = path?.lastIndexOf('/') ?? -1;
+  if (!path || slash <= 0) return null;
+  return { owner: path.slice(0, slash), repo: path.slice(slash + 1) };
+}
+
+// GitLab access levels: https://docs.gitlab.com/ee/api/members.html#roles
+const GUEST_ACCESS = 10;
+const DEVELOPER_ACCESS = 30;
+const MAINTAINER_ACCESS = 40;
+
+/**
+ * Map the `permissions` block of a GitLab project to the GitHub-style flags
+ * used for role detection: Developer can push, Maintainer and Owner are admins.
+ */
+export function accessLevelToPermissions(permissions: unknown): RepoPermissions | null {
+  if (typeof permissions !== 'object' || permissions === null) return null;
+  const { project_access: project, group_access: group } = permissions as {
+    project_access?: { access_level?: number } | null;
+    group_access?: { access_level?: number } | null;
+  };
+  const level = Math.max(project?.access_level ?? 0, group?.access_level ?? 0);
+  return {
+    admin: level >= MAINTAINER_ACCESS,
+    push: level >= DEVELOPER_ACCESS,
+    pull: level >= GUEST_ACCESS,
+  };
+}
+
+const SAFE_NAMESPACE = /^[\w.-]+(?:\/[\w.-]+)*$/;
+const SAFE_SLUG = /^[\w.-]+$/;
+
+export async function checkGitLabPermissions(
+  owner: string,
+  repo: string,
+): Promise<RepoPermissions | null> {
+  if (!SAFE_NAMESPACE.test(owner) || !SAFE_SLUG.test(repo)) return null;
+  const { exitCode, stdout } = await run([
+    'api',
+    `projects/${encodeURIComponent(`${owner}/${repo}`)}`,
+  ]);
+  if (exitCode !== 0) return null;
+  try {
+    return accessLevelToPermissions(
+      (JSON.parse(stdout.trim()) as { permissions?: unknown }).permissions,
+    );
+  } catch {
+    return null;
+  }
+}
+
+/** `glab mr create` flags for reviewers, labels, assignees, and milestone. GitLab has no projects. */
+function metadataArgs(metadata?: PRMetadata): string[] {
+  if (!metadata) return [];
+  return [
+    ...metadata.reviewers.flatMap((reviewer) => ['--reviewer', reviewer]),
+    ...metadata.labels.flatMap((label) => ['--label', label]),
+    ...metadata.assignees.flatMap((assignee) => ['--assignee', assignee]),
+    ...(metadata.milestone ? ['--milestone', metadata.milestone] : []),
+  ];
+}
+
+export async function createMR(options: {
+  base: string;
+  title: string;
+  body: string;
+  draft?: boolean;
+  metadata?: PRMetadata;
+}): Promise<{ exitCode: number; stdout: string; stderr: string }> {
+  const args = [
+    'mr',
+    'create',
+    '--target-branch',
+    options.base,
+    '--title',
+    options.title,
+    '--description',
+    options.body,
+    ...metadataArgs(options.metadata),
+    '--yes',
+  ];
+  if (options.draft) args.push('--draft');
+  return run(args);
+}
+
+export async function createMRFill(
+  base: string,
+  draft?: boolean,
+  metadata?: PRMetadata,
+): Promise<{ exitCode: number; stdout: string; stderr: string }> {
+  const args = [
+    'mr',
+    'create',
+    '--target-branch',
+    base,
+    '--fill',
+    ...metadataArgs(metadata),
+    '--yes',
+  ];
+  if (draft) args.push('--draft');
+  return run(args);
+}
+
+/** Names of the project's labels, or null when they can't be listed. */
+export async function getGitLabLabelNames(): Promise<string[] | null> {
+  const { exitCode, stdout } = await run(['api', 'projects/:fullpath/labels?per_page=100']);
+  if (exitCode !== 0) return null;
+  try {
+    return (JSON.parse(stdout.trim()) as Array<{ name: string }>).map((label) => label.name);
+  } catch {
+    return null;
+  }
+}
+
+async function findMR(headBranch: string, state: 'open' | 'merged'): Promise<ExistingPR | null> {
+  const args = ['mr', 'list', '--source-branch', headBranch, '--per-page', '1', '--output', 'json'];
+  if (state === 'merged') args.push('--merged');
+  const { exitCode, stdout } = await run(args);
+  if (exitCode !== 0) return null;
+  try {
+    const mrs = JSON.parse(stdout.trim()) as Array<{
+      iid: number;
+      web_url: string;
+      title: string;
+      state: string;
+    }>;
+    const [mr] = mrs;
+    return mr ? { number: mr.iid, url: mr.web_url, title: mr.title, state: mr.state } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if an open MR already exists for the given source branch.
+ * Returns the MR info if found, or null if none exists.
+ */
+export async function getMRForBranch(headBranch: string): Promise<ExistingPR | null> {
+  return findMR(headBranch, 'open');
+}
+
+/**
+ * Check if a merged MR exists for the given source branch.
+ * Returns the MR info if found, or null if none exists.
+ */
+export async function getMergedMRForBranch(headBranch: string): Promise<ExistingPR | null> {
+  return findMR(headBranch, 'merged');
+}
@@ -0,0 +1,168 @@
+import pc from 'picocolors';
+import { selectPrompt } from './confirm.js';
+import { editInGitEditor } from './editor.js';
+import {
+  applyPatchToIndex,
+  getDiffAgainstHead,
+  getFullDiffForFiles,
+  getUntrackedFiles,
+  refExists,
+  stageFiles,
+} from './git.js';
+import {
+  buildHunkPatch,
+  type DiffHunk,
+  formatHunkLabel,
+  parseDiffHunks,
+  parseEditedHunk,
+  splitHunk,
+} from './hunks.js';
+import { info, warn } from './logger.js';
+
+/**
+ * Staging individual hunks: the interactive picker behind "Pick hunks to
+ * stage" in `cn commit` (like `git add -p`), and the staging of hunk groups
+ * for `cn commit --group --hunks`.
+ */
+
+const STAGE = 'Stage this hunk';
+const SKIP = 'Skip this hunk';
+const SPLIT = 'Split into smaller hunks';
+const EDIT = 'Edit this hunk';
+const STAGE_FILE = 'Stage the rest of this file';
+const SKIP_FILE = 'Skip the rest of this file';
+const DONE = 'Done (skip the remaining hunks)';
+
+export function printHunkBody(body: string): void {
+  for (const line of body.split('\n')) {
+    if (line.startsWith('@@')) console.log(`      ${pc.cyan(line)}`);
+    else if (line.startsWith('+')) console.log(`      ${pc.green(line)}`);
+    else if (line.startsWith('-')) console.log(`      ${pc.red(line)}`);
+    else console.log(`      ${pc.dim(line)}`);
+  }
+}
+
+/**
+ * Stage hunks on top of the `applied` hunks already in the index: whole files
+ * with `git add`, partial files as a patch applied to the index.
+ * Returns an error message, or null when everything was staged.
+ */
+export async function stageHunks(
+  hunks: DiffHunk[],
+  applied: DiffHunk[] = [],
+): Promise<string | null> {
+  const wholeFiles = [...new Set(hunks.filter((h) => h.wholeFile).map((h) => h.file))];
+  if (wholeFiles.length > 0) {
+    const result = await stageFiles(wholeFiles);
+    if (result.exitCode !== 0) return result.stderr.trim();
+  }
+
+  const partialByFile = new Map<string, DiffHunk[]>();
+  for (const hunk of hunks.filter((h) => !h.wholeFile)) {
+    partialByFile.set(hunk.file, [...(partialByFile.get(hunk.file) ?? []), hunk]);
+  }
+  for (const [file, fileHunks] of partialByFile) {
+    const result = await applyPatchToIndex(buildHunkPatch(fileHunks, applied));
+    if (result.exitCode !== 0) return `${file}: ${result.stderr.trim()}`;
+  }
+  return null;
+}
+
+/**
+ * Open the hunk in the user's git editor. Returns the edited hunk, or null
+ * (after saying why) to go back to the original.
+ */
+async function editHunk(hunk: DiffHunk): Promise<DiffHunk | null> {
+  const [header, ...lines] = hunk.body.split('\n');
+  const text = await editInGitEditor(
+    [
+      `# Editing ${hunk.file} ${header}`,
+      "# To leave out a '-' line, turn its '-' into a space. To leave out a '+' line, delete it.",
+      '# Lines starting with # are ignored.',
+      ...lines,
+      '',
+    ].join('\n'),
+    'hunk.diff',
+  );
+  if (text === null) {
+    warn('The editor exited with an error. Back to the original hunk.');
+    return null;
+  }
+
+  const edited = parseEditedHunk(hunk, text);
+  if (!edited) {
+    warn('The edited hunk has a malformed line or no changes left. Back to the original hunk.');
+    return null;
+  }
+  const check = await applyPatchToIndex(buildHunkPatch([edited]), true);
+  if (check.exitCode !== 0) {
+    warn('The edited hunk does not apply. Back to the original hunk.');
+    return null;
+  }
+  return edited;
+}
+
+/**
+ * Walk through every unstaged hunk (untracked files count as one hunk each)
+ * and return the ones the user picked, edited or split as they chose.
+ * Nothing is staged yet; pass the result to `stageHunks`.
+ */
+export async function pickHunksToStage(): Promise<DiffHunk[]> {
+  const untracked = await getUntrackedFiles();
+  const [trackedDiff, untrackedDiff] = await Promise.all([
+    refExists('HEAD').then((hasHead) => (hasHead ? getDiffAgainstHead() : '')),
+    untracked.length > 0 ? getFullDiffForFiles(untracked) : '',
+  ]);
+  const queue = parseDiffHunks(`${trackedDiff}\n${untrackedDiff}`, untracked);
+  const picked: DiffHunk[] = [];
+
+  let index = 0;
+  while (index < queue.length) {
+    const hunk = queue[index];
+    console.log(
+      `\n  ${pc.bold(formatHunkLabel(hunk))} ${pc.dim(`(${index + 1}/${queue.length})`)}`,
+    );
+    if (hunk.body) printHunkBody(hunk.body);
+
+    const parts = splitHunk(hunk);
+    const action = await selectPrompt('Stage this hunk?', [
+      STAGE,
+      SKIP,
+      ...(parts.length > 1 ? [SPLIT] : []),
+      ...(hunk.wholeFile ? [] : [EDIT]),
+      STAGE_FILE,
+      SKIP_FILE,
+      DONE,
+    ]);
+
+    if (action === DONE) break;
+
+    if (action === SPLIT) {
+      queue.splice(index, 1, ...parts);
+      info(`Split into ${parts.length} hunks.`);
+      continue;
+    }
+
+    if (action === EDIT) {
+      const edited = await editHunk(hunk);
+      if (edited) {
+        picked.push(edited);
+        index++;
+      }
+      continue;
+    }
+
+    if (action === STAGE_FILE || action === SKIP_FILE) {
+      let end = index;
+      while (end < queue.length && queue[end].file === hunk.file) end++;
+      if (action === STAGE_FILE) picked.push(...queue.slice(index, end));
+      index = end;
+      continue;
+    }
+
+    if (action === STAGE) picked.push(hunk);
+    index++;
+  }
+
+  return picked;
+}
@@ -0,0 +1,304 @@
+/**
+ * Hunk-level view of a diff for `cn commit --group --hunks`, where one file's
+ * changes can be split across several commits and staged with `git apply --cached`.
+ */
+
+export interface DiffHunk {
+  /** Stable id shown to the AI, e.g. "h3" */
+  id: string;
+  file: string;
+  /** Lines from `diff --git` up to the first `@@`, shared by every hunk of the file */
+  fileHeader: string;
+  /** The hunk from its `@@` line on; for whole-file changes, whatever content is known */
+  body: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  added: number;
+  removed: number;
+  /** New, deleted, binary, or mode changes, which can only be staged as a whole file */
+  wholeFile: boolean;
+}
+
+const FILE_HEADER_PATTERN = /^diff --git a\/(.+?) b\/(.+)$/;
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const WHOLE_FILE_PATTERN =
+  /^(new file|deleted file|old mode|new mode|Binary files|GIT binary patch)/m;
+
+function countLines(body: string): { added: number; removed: number } {
+  let added = 0;
+  let removed = 0;
+  for (const line of body.split('\n')) {
+    if (line.startsWith('+') && !line.startsWith('+++')) added++;
+    if (line.startsWith('-') && !line.startsWith('---')) removed++;
+  }
+  return { added, removed };
+}
+
+function wholeFileHunk(id: string, file: string, fileHeader: string, body: string): DiffHunk {
+  return {
+    id,
+    file,
+    fileHeader,
+    body,
+    oldStart: 0,
+    oldLines: 0,
+    newStart: 0,
+    newLines: 0,
+    ...countLines(body),
+    wholeFile: true,
+  };
+}
+
+/**
+ * Split a diff (e.g. `git diff HEAD --no-renames`) into hunks. Files in `files`
+ * that have no section in the diff, such as unreadable untracked files, are
+ * added as whole-file hunks so every change can still be assigned to a group.
+ */
+export function parseDiffHunks(diff: string, files: string[] = []): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  const nextId = () => `h${hunks.length + 1}`;
+  const lines = diff.split('\n');
+
+  let index = 0;
+  while (index < lines.length) {
+    const header = lines[index].match(FILE_HEADER_PATTERN);
+    if (!header) {
+      index++;
+      continue;
+    }
+
+    const file = header[2];
+    const start = index;
+    index++;
+    while (index < lines.length && !FILE_HEADER_PATTERN.test(lines[index])) index++;
+    const section = lines.slice(start, index);
+    // Drop the blank line that separates concatenated diffs
+    while (section.length > 1 && section.at(-1) === '') section.pop();
+
+    const firstHunk = section.findIndex((line) => HUNK_HEADER_PATTERN.test(line));
+    if (firstHunk === -1) {
+      // No @@ lines: a mode change, a binary file, or new-file content listed after `+++`
+      const contentStart = section.findIndex((line) => line.startsWith('+++ ')) + 1;
+      const headerEnd = contentStart > 0 ? contentStart : section.length;
+      hunks.push(
+        wholeFileHunk(
+          nextId(),
+          file,
+          section.slice(0, headerEnd).join('\n'),
+          section.slice(headerEnd).join('\n'),
+        ),
+      );
+      continue;
+    }
+    const fileHeader = section.slice(0, firstHunk).join('\n');
+    if (WHOLE_FILE_PATTERN.test(fileHeader)) {
+      hunks.push(wholeFileHunk(nextId(), file, fileHeader, section.slice(firstHunk).join('\n')));
+      continue;
+    }
+
+    let hunkStart = firstHunk;
+    for (let line = firstHunk + 1; line <= section.length; line++) {
+      if (line < section.length && !HUNK_HEADER_PATTERN.test(section[line])) continue;
+      const body = section.slice(hunkStart, line).join('\n');
+      const match = section[hunkStart].match(HUNK_HEADER_PATTERN);
+      if (match) {
+        hunks.push({
+          id: nextId(),
+          file,
+          fileHeader,
+          body,
+          oldStart: Number(match[1]),
+          oldLines: match[2] === undefined ? 1 : Number(match[2]),
+          newStart: Number(match[3]),
+          newLines: match[4] === undefined ? 1 : Number(match[4]),
+          ...countLines(body),
+          wholeFile: false,
+        });
+      }
+      hunkStart = line;
+    }
+  }
+
+  const covered = new Set(hunks.map((hunk) => hunk.file));
+  for (const file of files) {
+    if (!covered.has(file)) hunks.push(wholeFileHunk(nextId(), file, '', ''));
+  }
+  return hunks;
+}
+
+/** e.g. "src/app.ts @@ -10,4 +10,6 @@ (+2/-0)" or "src/new.ts (whole file)" */
+export function formatHunkLabel(hunk: DiffHunk): string {
+  if (hunk.wholeFile) return `${hunk.file} (whole file)`;
+  const range = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+  return `${hunk.file} ${range} (+${hunk.added}/-${hunk.removed})`;
+}
+
+/** Hunks listed with their ids for an AI prompt, each body cut to `maxBodyChars`. */
+export function formatHunksForAI(hunks: DiffHunk[], maxBodyChars = 1500): string {
+  return hunks
+    .map((hunk) => {
+      const body =
+        hunk.body.length > maxBodyChars
+          ? `${hunk.body.slice(0, maxBodyChars)}\n...(truncated)`
+          : hunk.body;
+      return `[${hunk.id}] ${formatHunkLabel(hunk)}${body ? `\n${body}` : ''}`;
+    })
+    .join('\n\n');
+}
+
+/** The hunks as a regular diff with one section per file, for code that reads diffs by file. */
+export function formatHunksAsDiff(hunks: DiffHunk[]): string {
+  const byFile = new Map<string, DiffHunk[]>();
+  for (const hunk of hunks) byFile.set(hunk.file, [...(byFile.get(hunk.file) ?? []), hunk]);
+  return [...byFile]
+    .map(([file, fileHunks]) => {
+      const header = fileHunks[0].fileHeader || `diff --git a/${file} b/${file}`;
+      return [header, ...fileHunks.map((hunk) => hunk.body).filter(Boolean)].join('\n');
+    })
+    .join('\n');
+}
+
+function delta(hunk: DiffHunk): number {
+  return hunk.newLines - hunk.oldLines;
+}
+
+/**
+ * Hunks from `splitHunk` share the context between them, which `git apply`
+ * rejects within one patch, so overlapping neighbours are joined first.
+ */
+function mergeOverlappingHunks(ordered: DiffHunk[]): DiffHunk[] {
+  const merged: DiffHunk[] = [];
+  for (const hunk of ordered) {
+    const previous = merged.at(-1);
+    const overlap = previous ? previous.oldStart + previous.oldLines - hunk.oldStart : 0;
+    if (!previous || overlap <= 0) {
+      merged.push(hunk);
+      continue;
+    }
+    // The overlapping lines are the shared context at the start of `hunk`
+    const [, ...lines] = hunk.body.split('\n');
+    merged[merged.length - 1] = {
+      ...previous,
+      body: [previous.body, ...lines.slice(overlap)].join('\n'),
+      oldLines: hunk.oldStart + hunk.oldLines - previous.oldStart,
+      newLines: previous.newLines + hunk.newLines - overlap,
+      added: previous.added + hunk.added,
+      removed: previous.removed + hunk.removed,
+    };
+  }
+  return merged;
+}
+
+/**
+ * A patch with `selected` hunks of one file, to apply to an index that already
+ * has the `applied` hunks of that file. Hunk positions are shifted to account
+ * for the hunks applied earlier and for the ones left out.
+ */
+export function buildHunkPatch(selected: DiffHunk[], applied: DiffHunk[] = []): string {
+  const [first] = selected;
+  if (!first || selected.some((hunk) => hunk.wholeFile || hunk.file !== first.file)) {
+    throw new Error('buildHunkPatch takes partial hunks of a single file');
+  }
+
+  const ordered = mergeOverlappingHunks([...selected].sort((a, b) => a.oldStart - b.oldStart));
+  const parts = [first.fileHeader];
+  let selectedDelta = 0;
+  for (const hunk of ordered) {
+    const appliedDelta = applied
+      .filter((other) => other.file === hunk.file && other.oldStart < hunk.oldStart)
+      .reduce((sum, other) => sum + delta(other), 0);
+    const oldStart = hunk.oldStart + appliedDelta;
+    // An empty range points at the line before it, so insertions start one line later
+    // on the new side and deletions one line earlier
+    const emptyRangeShift = (hunk.oldLines === 0 ? 1 : 0) - (hunk.newLines === 0 ? 1 : 0);
+    const newStart = oldStart + selectedDelta + emptyRangeShift;
+    const [headerLine, ...rest] = hunk.body.split('\n');
+    parts.push(
+      `@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@${headerLine.replace(HUNK_HEADER_PATTERN, '')}`,
+      ...rest,
+    );
+    selectedDelta += delta(hunk);
+  }
+  return `${parts.join('\n')}\n`;
+}
+
+function isChangeLine(line: string): boolean {
+  return line.startsWith('+') || line.startsWith('-');
+}
+
+function hunkFromLines(
+  hunk: DiffHunk,
+  id: string,
+  oldStart: number,
+  newStart: number,
+  lines: string[],
+): DiffHunk {
+  // "\ No newline at end of file" markers don't count as lines on either side
+  const oldLines = lines.filter((line) => !line.startsWith('+') && !line.startsWith('\\')).length;
+  const newLines = lines.filter((line) => !line.startsWith('-') && !line.startsWith('\\')).length;
+  const body = [`@@ -${oldStart},${oldLines} +${newStart},${newLines} @@`, ...lines].join('\n');
+  return { ...hunk, id, body, oldStart, oldLines, newStart, newLines, ...countLines(body) };
+}
+
+/**
+ * Split a hunk at the unchanged lines between its changes, like `s` in
+ * `git add -p`. Each part keeps the context on both sides, so neighbouring
+ * parts share it. Returns `[hunk]` when there is nothing to split.
+ */
+export function splitHunk(hunk: DiffHunk): DiffHunk[] {
+  if (hunk.wholeFile) return [hunk];
+  const [, ...lines] = hunk.body.split('\n');
+
+  // Runs of changed lines as [start, end) indexes into `lines`
+  const blocks: Array<[number, number]> = [];
+  for (let index = 0; index < lines.length; index++) {
+    const last = blocks.at(-1);
+    const extendsBlock = last?.[1] === index;
+    if (!isChangeLine(lines[index]) && !(extendsBlock && lines[index].startsWith('\\'))) continue;
+    if (last && extendsBlock) last[1] = index + 1;
+    else blocks.push([index, index + 1]);
+  }
+  if (blocks.length < 2) return [hunk];
+
+  // Old and new line numbers at each line
+  const oldAt: number[] = [];
+  const newAt: number[] = [];
+  let oldLine = hunk.oldStart;
+  let newLine = hunk.newStart;
+  for (const line of lines) {
+    oldAt.push(oldLine);
+    newAt.push(newLine);
+    if (line.startsWith('\\')) continue;
+    if (!line.startsWith('+')) oldLine++;
+    if (!line.startsWith('-')) newLine++;
+  }
+
+  return blocks.map((_, index) => {
+    const from = index === 0 ? 0 : blocks[index - 1][1];
+    const to = index === blocks.length - 1 ? lines.length : blocks[index + 1][0];
+    return hunkFromLines(
+      hunk,
+      `${hunk.id}.${index + 1}`,
+      oldAt[from],
+      newAt[from],
+      lines.slice(from, to),
+    );
+  });
+}
+
+/**
+ * Read back a hunk edited by hand (its lines without the `@@` header; lines
+ * starting with `#` are dropped) and recount its ranges. Returns null when a
+ * line is malformed or no change is left.
+ */
+export function parseEditedHunk(hunk: DiffHunk, edited: string): DiffHunk | null {
+  const lines = edited.split('\n').filter((line) => !line.startsWith('#'));
+  while (lines.length > 0 && lines.at(-1) === '') lines.pop();
+  // Editors that strip trailing whitespace turn blank context lines into empty ones
+  const normalized = lines.map((line) => (line === '' ? ' ' : line));
+  if (normalized.some((line) => !/^[ +\-\\]/.test(line))) return null;
+  if (!normalized.some(isChangeLine)) return null;
+  return hunkFromLines(hunk, hunk.id, hunk.oldStart, hunk.newStart, normalized);
+}
@@ -0,0 +1,327 @@
+import {
+  buildCustomCommitMessage,
+  type ConventionRules,
+  DEFAULT_MAX_SUBJECT_LENGTH,
+  getMaxSubjectLength,
+  isCustomConvention,
+  validateCommitMessage,
+} from './convention.js';
+import { extractDiffStats, parseDiffByFile } from './copilot.js';
+
+/**
+ * Rule-based commit messages for when AI is off or unavailable. The type comes
+ * from what the files are (tests, docs, config, CI) and how they changed, the
+ * scope from the directory they share, and the verb from the file status.
+ */
+
+export type FileChangeStatus = 'added' | 'deleted' | 'renamed' | 'modified';
+
+export type FileCategory = 'source' | 'test' | 'docs' | 'config' | 'ci' | 'build';
+
+export interface FileChange {
+  file: string;
+  status: FileChangeStatus;
+  /** Previous path of a renamed file */
+  oldFile?: string;
+  added: number;
+  removed: number;
+}
+
+/** What kind of change a set of files makes, before it is mapped to a convention's types. */
+type ChangeKind = FileCategory | 'feature' | 'removal' | 'refactor' | 'maintenance';
+
+const CONVENTIONAL_TYPE: Record<ChangeKind, string> = {
+  feature: 'feat',
+  removal: 'refactor',
+  refactor: 'refactor',
+  maintenance: 'chore',
+  source: 'chore',
+  test: 'test',
+  docs: 'docs',
+  config: 'chore',
+  ci: 'ci',
+  build: 'build',
+};
+
+const CLEAN_COMMIT_TYPE: Record<ChangeKind, string> = {
+  feature: '📦 new',
+  removal: '🗑️ remove',
+  refactor: '🔧 update',
+  maintenance: '🔧 update',
+  source: '🔧 update',
+  test: '🧪 test',
+  docs: '📖 docs',
+  config: '⚙️ setup',
+  ci: '⚙️ setup',
+  build: '⚙️ setup',
+};
+
+// Type names tried, in order, when a custom convention is active
+const CUSTOM_TYPES: Record<ChangeKind, string[]> = {
+  feature: ['feat', 'feature', 'new', 'add', 'update', 'chore'],
+  removal: ['remove', 'refactor', 'chore'],
+  refactor: ['refactor', 'update', 'chore'],
+  maintenance: ['update', 'chore', 'refactor'],
+  source: ['update', 'chore', 'refactor'],
+  test: ['test', 'tests', 'chore'],
+  docs: ['docs', 'doc', 'documentation', 'chore'],
+  config: ['config', 'setup', 'build', 'chore'],
+  ci: ['ci', 'setup', 'build', 'chore'],
+  build: ['build', 'deps', 'setup', 'chore'],
+};
+
+// Types that drive a version bump and a changelog section, so never a guess
+const RELEASE_TYPES = new Set(['feat', 'feature', 'new', 'add', 'fix', 'bugfix']);
+
+// Stands in for the type when a custom convention has none that fits the change
+const TYPE_PLACEHOLDER = '<type>';
+
+/**
+ * The type for a change under a custom convention: the first preferred type it
+ * allows, else its first type that does not mark a feature or fix. Null when
+ * every type does, e.g. only feat and fix for a maintenance edit; the user
+ * picks the type then.
+ */
+function getCustomType(types: string[], kind: ChangeKind): string | null {
+  return (
+    CUSTOM_TYPES[kind].find((type) => types.includes(type)) ??
+    types.find((type) => !RELEASE_TYPES.has(type)) ??
+    null
+  );
+}
+
+const CATEGORY_LABELS: Record<FileCategory, string> = {
+  source: 'source',
+  test: 'test',
+  docs: 'documentation',
+  config: 'config',
+  ci: 'CI',
+  build: 'build',
+};
+
+const STATUS_VERBS: Record<FileChangeStatus, string> = {
+  added: 'add',
+  deleted: 'remove',
+  renamed: 'rename',
+  modified: 'update',
+};
+
+// Directories that say where code lives rather than what it is about
+const GENERIC_DIRECTORIES = new Set([
+  'src',
+  'lib',
+  'app',
+  'apps',
+  'packages',
+  'pkg',
+  'source',
+  'test',
+  'tests',
+  '__tests__',
+  'spec',
+  'docs',
+  'doc',
+]);
+
+const BUILD_FILES = new Set([
+  'package.json',
+  'package-lock.json',
+  'bun.lock',
+  'bun.lockb',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'pnpm-workspace.yaml',
+  'dockerfile',
+  'makefile',
+  'go.mod',
+  'go.sum',
+  'cargo.toml',
+  'cargo.lock',
+  'requirements.txt',
+  'pyproject.toml',
+]);
+
+const CI_PATH_PATTERN =
+  /^(\.github\/workflows\/|\.circleci\/|\.gitlab-ci\.yml$|\.travis\.yml$|azure-pipelines\.yml$|Jenkinsfile$)/;
+const TEST_PATH_PATTERN = /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.[^/]+$|_test\.[^/]+$/;
+const DOCS_FILE_PATTERN = /\.(md|mdx|rst|adoc|txt)$|(^|\/)(LICENSE|CHANGELOG|CONTRIBUTING)[^/]*$/i;
+const CONFIG_FILE_PATTERN = /(^|\/)\.[^/]+$|\.config\.[cm]?[jt]s$|(^|\/)tsconfig[^/]*\.json$/;
+const ROOT_CONFIG_EXTENSIONS = /\.(json|ya?ml|toml|ini)$/;
+
+export function categorizeFile(file: string): FileCategory {
+  const name = file.split('/').at(-1)?.toLowerCase() ?? '';
+  if (CI_PATH_PATTERN.test(file)) return 'ci';
+  if (TEST_PATH_PATTERN.test(file)) return 'test';
+  if (BUILD_FILES.has(name)) return 'build';
+  if (/^docs?\//.test(file) || DOCS_FILE_PATTERN.test(file)) return 'docs';
+  if (CONFIG_FILE_PATTERN.test(file)) return 'config';
+  if (!file.includes('/') && ROOT_CONFIG_EXTENSIONS.test(name)) return 'config';
+  return 'source';
+}
+
+/**
+ * Status and line counts for each file, read from the staged diff.
+ * Files without a diff section (e.g. mode-only changes) count as modified.
+ * @internal exported for testing
+ */
+export function getFileChanges(rawDiff: string, files: string[]): FileChange[] {
+  const sections = parseDiffByFile(rawDiff);
+  return files.map((file) => {
+    const section = sections.get(file) ?? '';
+    const { added, removed } = extractDiffStats(section);
+    const renamedFrom = section.match(/^rename from (.+)$/m)?.[1];
+    if (/^new file mode/m.test(section)) return { file, status: 'added', added, removed };
+    if (/^deleted file mode/m.test(section)) return { file, status: 'deleted', added, removed };
+    if (renamedFrom && renamedFrom !== file) {
+      return { file, status: 'renamed', oldFile: renamedFrom, added, removed };
+    }
+    return { file, status: 'modified', added, removed };
+  });
+}
+
+function getDominantCategory(changes: FileChange[]): FileCategory {
+  const categories = new Set(changes.map((change) => categorizeFile(change.file)));
+  if (categories.size === 1) return [...categories][0];
+  // Tests and docs that ride along with code don't change what the commit is
+  if (categories.has('source')) return 'source';
+  if (categories.has('build')) return 'build';
+  if (categories.has('ci')) return 'ci';
+  return categories.has('config') ? 'config' : 'docs';
+}
+
+function getChangeKind(changes: FileChange[], category: FileCategory): ChangeKind {
+  if (category !== 'source') return category;
+
+  const statuses = new Set(changes.map((change) => change.status));
+  if (statuses.size === 1 && statuses.has('added')) return 'feature';
+  if (statuses.size === 1 && statuses.has('deleted')) return 'removal';
+  if (statuses.size === 1 && statuses.has('renamed')) return 'refactor';
+
+  const added = changes.reduce((sum, change) => sum + change.added, 0);
+  const removed = changes.reduce((sum, change) => sum + change.removed, 0);
+  if (statuses.has('added') && !statuses.has('deleted')) return 'feature';
+  // Mostly new lines reads as new behavior; mostly deleted lines as cleanup
+  if (added >= 20 && added >= removed * 3) return 'feature';
+  if (removed > 0 && removed >= added * 2) return 'removal';
+  return 'maintenance';
+}
+
+function sanitizeScope(segment: string): string | undefined {
+  const scope = segment
+    .toLowerCase()
+    .replace(/\.[^.]+$/, '')
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return scope || undefined;
+}
+
+/**
+ * The first directory below generic roots like `src/` or `packages/` that all
+ * files share, e.g. "utils" for src/utils/a.ts and tests/utils/a.test.ts.
+ * @internal exported for testing
+ */
+export function inferScope(files: string[]): string | undefined {
+  const scopes = new Set<string | undefined>();
+  for (const file of files) {
+    const directories = file.split('/').slice(0, -1);
+    const meaningful = directories.find(
+      (directory) => !directory.startsWith('.') && !GENERIC_DIRECTORIES.has(directory),
+    );
+    scopes.add(meaningful ? sanitizeScope(meaningful) : undefined);
+  }
+  return scopes.size === 1 ? [...scopes][0] : undefined;
+}
+
+function displayName(file: string): string {
+  return file.split('/').at(-1) ?? file;
+}
+
+function getSubjectCandidates(changes: FileChange[], category: FileCategory): string[] {
+  const statuses = new Set(changes.map((change) => change.status));
+  const verb = statuses.size === 1 ? STATUS_VERBS[[...statuses][0]] : 'update';
+  const count = changes.length;
+  const countSubject = `${verb} ${count} ${CATEGORY_LABELS[category]} file${count !== 1 ? 's' : ''}`;
+
+  if (count === 1) {
+    const [change] = changes;
+    if (change.status === 'renamed' && change.oldFile) {
+      return [
+        `rename ${displayName(change.oldFile)} to ${displayName(change.file)}`,
+        `${verb} ${displayName(change.file)}`,
+        countSubject,
+      ];
+    }
+    return [`${verb} ${displayName(change.file)}`, countSubject];
+  }
+  if (count === 2) {
+    return [
+      `${verb} ${changes.map((change) => displayName(change.file)).join(' and ')}`,
+      countSubject,
+    ];
+  }
+  return [countSubject];
+}
+
+function formatHeader(
+  convention: ConventionRules,
+  kind: ChangeKind,
+  scope: string | undefined,
+  subject: string,
+): string {
+  if (isCustomConvention(convention)) {
+    const type = getCustomType(convention.types, kind);
+    if (!type) {
+      return buildCustomCommitMessage(
+        { ...convention, types: [TYPE_PLACEHOLDER], emojis: {} },
+        [],
+        scope,
+        subject,
+      );
+    }
+    return buildCustomCommitMessage(convention, [type], scope, subject);
+  }
+  if (convention === 'conventional') {
+    return `${CONVENTIONAL_TYPE[kind]}${scope ? `(${scope})` : ''}: ${subject}`;
+  }
+  if (convention === 'clean-commit') {
+    return `${CLEAN_COMMIT_TYPE[kind]}${scope ? ` (${scope})` : ''}: ${subject}`;
+  }
+  return subject.charAt(0).toUpperCase() + subject.slice(1);
+}
+
+/**
+ * A commit message for the staged changes that passes `validateCommitMessage`
+ * for `convention`, built without AI. Longer subjects and scopes are tried
+ * first and dropped until the header validates. Under a custom convention with
+ * no type that fits, the header starts with a "<type>" placeholder to replace.
+ */
+export function generateOfflineCommitMessage(
+  rawDiff: string,
+  files: string[],
+  convention: ConventionRules = 'clean-commit',
+): string {
+  const changes = getFileChanges(rawDiff, files);
+  if (changes.length === 0)
+    return formatHeader(convention, 'maintenance', undefined, 'update files');
+
+  const category = getDominantCategory(changes);
+  const kind = getChangeKind(changes, category);
+  const scope = inferScope(files);
+  const maxSubjectLength = isCustomConvention(convention)
+    ? getMaxSubjectLength(convention)
+    : DEFAULT_MAX_SUBJECT_LENGTH;
+  const subjects = getSubjectCandidates(changes, category).filter(
+    (subject) => subject.length <= maxSubjectLength,
+  );
+
+  const candidates: string[] = [];
+  for (const subject of subjects) {
+    if (scope) candidates.push(formatHeader(convention, kind, scope, subject));
+    candidates.push(formatHeader(convention, kind, undefined, subject));
+  }
+  const fallback = formatHeader(convention, kind, undefined, 'update files');
+  if (isCustomConvention(convention) && !getCustomType(convention.types, kind)) {
+    return candidates[0] ?? fallback;
+  }
+  return candidates.find((message) => validateCommitMessage(message, convention)) ?? fallback;
+}
@@ -0,0 +1,153 @@
+import {
+  type AIProviderDefinition,
+  createIdleTimeout,
+  extractModelIds,
+  readStreamLines,
+} from './aiProviders.js';
+
+/**
+ * Local Ollama daemon, talked to through its native API (`/api/tags`,
+ * `/api/chat`). No API key is involved, so AI features keep working offline.
+ */
+
+export const OLLAMA_PROVIDER = 'ollama';
+export const DEFAULT_OLLAMA_HOST = 'http://127.0.0.1:11434';
+const OLLAMA_TAGS_TIMEOUT_MS = 5_000;
+
+/**
+ * The daemon address: `OLLAMA_HOST` (as the Ollama CLI reads it) or the default.
+ * Accepts bare `host:port` values.
+ */
+export function getOllamaHost(env: Record<string, string | undefined> = process.env): string {
+  const raw = env.OLLAMA_HOST?.trim();
+  if (!raw) return DEFAULT_OLLAMA_HOST;
+  const withScheme = /^https?:\/\//.test(raw) ? raw : `http://${raw}`;
+  return withScheme.replace(/\/+$/, '');
+}
+
+/**
+ * True when `model` is installed. Ollama stores untagged pulls as ":latest".
+ */
+export function isOllamaModelInstalled(model: string, installed: string[]): boolean {
+  const name = model.trim();
+  return installed.includes(name) || (!name.includes(':') && installed.includes(`${name}:latest`));
+}
+
+/**
+ * The text added by one line of a streamed `/api/chat` reply, which Ollama
+ * sends as newline-delimited JSON. Throws when the line reports an error.
+ */
+export function parseOllamaChatChunk(line: string): string | null {
+  if (!line.trim()) return null;
+  let chunk: { message?: { content?: string | null }; error?: string };
+  try {
+    chunk = JSON.parse(line);
+  } catch {
+    return null;
+  }
+  if (chunk.error) throw new Error(`Ollama request failed: ${chunk.error}`);
+  return chunk.message?.content || null;
+}
+
+/** List the models pulled into the local daemon. */
+export async function fetchOllamaModels(host = getOllamaHost()): Promise<string[]> {
+  let response: Response;
+  try {
+    response = await fetch(`${host}/api/tags`, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(OLLAMA_TAGS_TIMEOUT_MS),
+    });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Could not reach Ollama at ${host} (${msg}). Start it with \`ollama serve\`.`);
+  }
+
+  if (!response.ok) {
+    throw new Error(`Ollama model lookup failed (${response.status} ${response.statusText})`);
+  }
+
+  return extractModelIds(await response.json());
+}
+
+export const ollamaProvider: AIProviderDefinition = {
+  id: OLLAMA_PROVIDER,
+  label: 'Ollama (local)',
+  description: 'models pulled into the Ollama daemon on this machine, no API key',
+  resolve(config) {
+    return {
+      model: config?.aiModel?.trim() || undefined,
+      host: getOllamaHost(),
+    };
+  },
+  async complete(request, aiConfig) {
+    const host = aiConfig.host ?? getOllamaHost();
+    const model = request.model?.trim() || aiConfig.model;
+    if (!model) {
+      throw new Error('No Ollama model is configured');
+    }
+
+    const idle = createIdleTimeout(request.timeoutMs, request.signal);
+
+    try {
+      const response = await fetch(`${host}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: 'system', content: request.systemMessage },
+            { role: 'user', content: request.userMessage },
+          ],
+          stream: true,
+        }),
+        signal: idle.signal,
+      });
+
+      if (!response.ok) {
+        const body = await response.text();
+        if (response.status === 404) {
+          throw new Error(`Ollama model "${model}" is not pulled. Run \`ollama pull ${model}\`.`);
+        }
+        throw new Error(
+          `Ollama request failed (${response.status} ${response.statusText}): ${body.slice(0, 200)}`,
+        );
+      }
+
+      let text = '';
+      if (response.body) {
+        await readStreamLines(response.body, (line) => {
+          idle.touch();
+          const delta = parseOllamaChatChunk(line);
+          if (!delta) return;
+          text += delta;
+          request.onStream?.(text);
+        });
+      }
+      return text.trim() || null;
+    } catch (err) {
+      if (idle.signal.aborted) {
+        throw idle.error('Ollama');
+      }
+      throw err;
+    } finally {
+      idle.clear();
+    }
+  },
+  async checkHealth(aiConfig) {
+    const host = aiConfig.host ?? getOllamaHost();
+    let installed: string[];
+    try {
+      installed = await fetchOllamaModels(host);
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+
+    if (!aiConfig.model) {
+      return 'No Ollama model configured. Pick one with `cn config --edit`.';
+    }
+    if (!isOllamaModelInstalled(aiConfig.model, installed)) {
+      return `Ollama model "${aiConfig.model}" is not pulled. Run \`ollama pull ${aiConfig.model}\`.`;
+    }
+    return null;
+  },
+};
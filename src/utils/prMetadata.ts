@@ -0,0 +1,161 @@
+import type { PullRequestConfig } from '../types.js';
+import { type ConventionRules, parseCommitHeader } from './convention.js';
+
+/**
+ * Reviewers, labels, assignees, milestone, and project for PRs opened by
+ * `cn submit`, from its flags, the `pullRequest` defaults in the repo config,
+ * and the branch's commits.
+ */
+
+export interface PRMetadata {
+  /** Users, or teams written as "org/team" */
+  reviewers: string[];
+  labels: string[];
+  assignees: string[];
+  milestone?: string;
+  project?: string;
+}
+
+/** Labels added for commit types unless `pullRequest.typeLabels` says otherwise */
+export const DEFAULT_TYPE_LABELS: Record<string, string> = {
+  feat: 'enhancement',
+  new: 'enhancement',
+  fix: 'bug',
+  docs: 'documentation',
+};
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim());
+}
+
+export function getPullRequestConfigError(pullRequest: unknown): string | null {
+  if (typeof pullRequest !== 'object' || pullRequest === null || Array.isArray(pullRequest)) {
+    return 'pullRequest must be an object.';
+  }
+  const candidate = pullRequest as Record<string, unknown>;
+  for (const key of ['reviewers', 'labels', 'assignees'] as const) {
+    if (candidate[key] !== undefined && !isStringList(candidate[key])) {
+      return `pullRequest.${key} must be an array of names.`;
+    }
+  }
+  for (const key of ['milestone', 'project'] as const) {
+    const value = candidate[key];
+    if (value !== undefined && (typeof value !== 'string' || !value.trim())) {
+      return `pullRequest.${key} must be a non-empty string when set.`;
+    }
+  }
+  const { typeLabels, linkIssues } = candidate;
+  if (
+    typeLabels !== undefined &&
+    typeLabels !== false &&
+    (typeof typeLabels !== 'object' ||
+      typeLabels === null ||
+      Array.isArray(typeLabels) ||
+      !Object.values(typeLabels).every((label) => typeof label === 'string'))
+  ) {
+    return 'pullRequest.typeLabels must map commit types to labels, or be false.';
+  }
+  if (linkIssues !== undefined && typeof linkIssues !== 'boolean') {
+    return 'pullRequest.linkIssues must be true or false.';
+  }
+  return null;
+}
+
+/** Split a comma-separated flag value ("a,b, c") into names. */
+export function parseListFlag(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+/**
+ * Labels for the commit types used on the branch. `typeLabels` from the
+ * config extends the defaults; a type mapped to "" gets no label.
+ */
+export function getTypeLabels(
+  messages: string[],
+  convention: ConventionRules,
+  typeLabels: PullRequestConfig['typeLabels'] = {},
+): string[] {
+  if (typeLabels === false) return [];
+  const mapping = { ...DEFAULT_TYPE_LABELS, ...typeLabels };
+  const labels = messages.map((message) => {
+    const type = parseCommitHeader(message.split('\n')[0], convention)?.type;
+    return type ? mapping[type] : undefined;
+  });
+  return unique(labels.filter((label): label is string => Boolean(label)));
+}
+
+/**
+ * Flags win over the config for the milestone and project; lists from both
+ * are combined.
+ */
+export function resolvePRMetadata(
+  flags: Partial<Record<keyof PRMetadata, string>>,
+  config: PullRequestConfig = {},
+  typeLabels: string[] = [],
+): PRMetadata {
+  return {
+    reviewers: unique([...(config.reviewers ?? []), ...parseListFlag(flags.reviewers)]),
+    labels: unique([...(config.labels ?? []), ...parseListFlag(flags.labels), ...typeLabels]),
+    assignees: unique([...(config.assignees ?? []), ...parseListFlag(flags.assignees)]),
+    milestone: flags.milestone?.trim() || config.milestone,
+    project: flags.project?.trim() || config.project,
+  };
+}
+
+// An issue number right after a feature/fix-style prefix ("fix/123-crash"), or
+// after "issue"/"gh" anywhere in the name ("feature/login-issue-7", "gh-7").
+// Numbers after other prefixes are usually versions or dates ("release/2026-10-01").
+const BRANCH_LEADING_ISSUE = /^(?:feature|feat|fix|bugfix|bug|issue)s?\/(\d+)(?=[-_]|$)/i;
+const BRANCH_NAMED_ISSUE = /(?:^|[/_-])(?:issue|gh)[-_]?(\d+)(?=[-_/]|$)/i;
+// Only mentions with a closing keyword ("Fixes #12"), not "follow-up to #12"
+const COMMIT_CLOSING_ISSUE = /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s+#(\d+)\b/gi;
+
+/**
+ * Issues the PR should close: the one the branch is named after, and those
+ * its commits close, in order of appearance.
+ */
+export function findIssueReferences(branch: string, messages: string[]): number[] {
+  const numbers: string[] = [];
+  const fromBranch = BRANCH_NAMED_ISSUE.exec(branch) ?? BRANCH_LEADING_ISSUE.exec(branch);
+  if (fromBranch) numbers.push(fromBranch[1]);
+  for (const message of messages) {
+    for (const match of message.matchAll(COMMIT_CLOSING_ISSUE)) numbers.push(match[1]);
+  }
+  return unique(numbers)
+    .map(Number)
+    .filter((number) => number > 0);
+}
+
+/** Add a "Closes #N" line for each issue the body doesn't already close. */
+export function appendClosingReferences(body: string, issues: number[]): string {
+  const missing = issues.filter(
+    (issue) =>
+      !new RegExp(`\\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\\s*:?\\s+#${issue}\\b`, 'i').test(
+        body,
+      ),
+  );
+  if (missing.length === 0) return body;
+  const lines = missing.map((issue) => `Closes #${issue}`).join('\n');
+  return body.trim() ? `${body.trimEnd()}\n\n${lines}` : lines;
+}
+
+/** One line listing what gets added to the PR, or "" when nothing does. */
+export function formatPRMetadata(metadata: PRMetadata, issues: number[] = []): string {
+  return [
+    metadata.reviewers.length > 0 ? `Reviewers: ${metadata.reviewers.join(', ')}` : '',
+    metadata.labels.length > 0 ? `Labels: ${metadata.labels.join(', ')}` : '',
+    metadata.assignees.length > 0 ? `Assignees: ${metadata.assignees.join(', ')}` : '',
+    metadata.milestone ? `Milestone: ${metadata.milestone}` : '',
+    metadata.project ? `Project: ${metadata.project}` : '',
+    issues.length > 0 ? `Closes ${issues.map((issue) => `#${issue}`).join(', ')}` : '',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
@@ -0,0 +1,107 @@
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { basename, join, relative } from 'node:path';
+import { findRepoRoot } from './config.js';
+
+/**
+ * Pull request templates from the repo: the single-file and directory forms
+ * in the places GitHub (and Gitea) look for them, plus GitLab's merge request
+ * templates. `cn submit` has the AI fill the chosen one, or prefills it from
+ * the commits without AI.
+ */
+
+export interface PRTemplate {
+  /** File name without the extension, e.g. "bug_fix" or "pull_request_template" */
+  name: string;
+  /** Path relative to the repo root, for display */
+  path: string;
+  content: string;
+}
+
+const TEMPLATE_PARENTS = ['.github', '.gitea', 'docs', ''];
+const TEMPLATE_FILE = 'pull_request_template.md';
+const TEMPLATE_DIR = 'pull_request_template';
+const GITLAB_TEMPLATE_DIR = join('.gitlab', 'merge_request_templates');
+
+function listEntries(dir: string): string[] {
+  try {
+    return readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function markdownFilesIn(dir: string): string[] {
+  return listEntries(dir)
+    .filter((entry) => entry.toLowerCase().endsWith('.md'))
+    .sort()
+    .map((entry) => join(dir, entry));
+}
+
+/** Every PR template in the repo, single files first. File names match case-insensitively, as on GitHub. */
+export function findPRTemplates(cwd = process.cwd()): PRTemplate[] {
+  const root = findRepoRoot(cwd) ?? cwd;
+  const singles: string[] = [];
+  const fromDirs: string[] = [];
+
+  for (const parent of TEMPLATE_PARENTS) {
+    const dir = join(root, parent);
+    for (const entry of listEntries(dir)) {
+      const path = join(dir, entry);
+      const lower = entry.toLowerCase();
+      if (lower === TEMPLATE_FILE && !isDirectory(path)) singles.push(path);
+      else if (lower === TEMPLATE_DIR && isDirectory(path)) fromDirs.push(...markdownFilesIn(path));
+    }
+  }
+  const gitlabDir = join(root, GITLAB_TEMPLATE_DIR);
+  if (existsSync(gitlabDir)) fromDirs.push(...markdownFilesIn(gitlabDir));
+
+  const templates: PRTemplate[] = [];
+  for (const path of [...singles, ...fromDirs]) {
+    try {
+      const content = readFileSync(path, 'utf-8').trim();
+      if (!content) continue;
+      templates.push({
+        name: basename(path).replace(/\.md$/i, ''),
+        path: relative(root, path),
+        content,
+      });
+    } catch {
+      // Unreadable template; skip it
+    }
+  }
+  return templates;
+}
+
+const SUMMARY_HEADING = /^#{1,6}\s*.*\b(summary|description|overview|what|changes)\b/i;
+const COMMENT_BLOCK = /^\s*<!--[\s\S]*?-->\s*\n?/;
+
+/**
+ * Fill a template from the branch commits without AI: the commit summary goes
+ * under the first Summary/Description/Changes-like heading (after the hint
+ * comment below it, if any), or on top when there is no such heading. Every
+ * checklist item is left as the template has it.
+ */
+export function prefillPRTemplate(template: string, summary: string): string {
+  if (!summary.trim()) return template;
+  const lines = template.split('\n');
+  const headingIndex = lines.findIndex((line) => SUMMARY_HEADING.test(line));
+  if (headingIndex === -1) return `${summary.trim()}\n\n${template}`;
+
+  const before = lines.slice(0, headingIndex + 1).join('\n');
+  let after = lines.slice(headingIndex + 1).join('\n');
+  const comment = COMMENT_BLOCK.exec(after.replace(/^\n+/, ''));
+  let hint = '';
+  if (comment) {
+    after = after.replace(/^\n+/, '').slice(comment[0].length);
+    hint = `\n${comment[0].trimEnd()}`;
+  }
+  return `${before}${hint}\n${summary.trim()}\n\n${after.replace(/^\n+/, '')}`.trimEnd();
+}
@@ -0,0 +1,89 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { relative, resolve } from 'node:path';
+import type { ContributeConfig } from '../types.js';
+import { findRepoRoot } from './config.js';
+
+/**
+ * Repo-specific AI prompt templates.
+ *
+ * `promptsDir` in the config points at a directory with one Markdown file per
+ * prompt (`commit.md`, `pr.md`, ...). A template replaces the built-in system
+ * prompt; `{{default}}` pulls the built-in one back in so a template can
+ * extend it instead.
+ */
+
+export const PROMPT_KINDS = ['commit', 'pr', 'branch', 'conflict', 'group', 'review'] as const;
+export type PromptKind = (typeof PROMPT_KINDS)[number];
+
+export const PROMPT_TEMPLATE_VARIABLES = [
+  'default',
+  'convention',
+  'conventionHints',
+  'branch',
+  'baseBranch',
+  'files',
+] as const;
+export type PromptTemplateVariable = (typeof PROMPT_TEMPLATE_VARIABLES)[number];
+export type PromptTemplateVariables = Record<PromptTemplateVariable, string>;
+
+export interface LoadedPromptTemplate {
+  /** Path relative to the repo root, for display */
+  path: string;
+  content: string;
+}
+
+export interface RenderedPromptTemplate {
+  prompt: string;
+  /** `{{names}}` in the template that are not template variables */
+  unknownVariables: string[];
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9]*)\s*\}\}/g;
+
+/** Absolute path of the template for `kind`, or null when no prompts dir is configured. */
+export function getPromptTemplatePath(
+  kind: PromptKind,
+  config: ContributeConfig | null | undefined,
+  cwd = process.cwd(),
+): string | null {
+  const promptsDir = config?.promptsDir?.trim();
+  if (!promptsDir) return null;
+  return resolve(findRepoRoot(cwd) ?? cwd, promptsDir, `${kind}.md`);
+}
+
+/** The repo's template for `kind`, or null to use the built-in prompt. */
+export function loadPromptTemplate(
+  kind: PromptKind,
+  config: ContributeConfig | null | undefined,
+  cwd = process.cwd(),
+): LoadedPromptTemplate | null {
+  const templatePath = getPromptTemplatePath(kind, config, cwd);
+  if (!templatePath || !existsSync(templatePath)) return null;
+
+  try {
+    const content = readFileSync(templatePath, 'utf-8').trim();
+    if (!content) return null;
+    return { path: relative(findRepoRoot(cwd) ?? cwd, templatePath), content };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Substitute `{{variable}}` placeholders. Unknown names are left as written
+ * so a typo shows up in the preview instead of silently vanishing.
+ */
+export function renderPromptTemplate(
+  template: string,
+  variables: PromptTemplateVariables,
+): RenderedPromptTemplate {
+  const unknownVariables = new Set<string>();
+  const prompt = template.replace(VARIABLE_PATTERN, (match, name: string) => {
+    if ((PROMPT_TEMPLATE_VARIABLES as readonly string[]).includes(name)) {
+      return variables[name as PromptTemplateVariable];
+    }
+    unknownVariables.add(name);
+    return match;
+  });
+  return { prompt: prompt.trim(), unknownVariables: [...unknownVariables] };
+}
@@ -0,0 +1,341 @@
+import pc from 'picocolors';
+import type { AIRedactionConfig, ContributeConfig } from '../types.js';
+import type { Spinner } from './spinner.js';
+import { matchesBranchPattern } from './workflow.js';
+
+/**
+ * Secret redaction for diffs sent to AI providers.
+ *
+ * Every diff is split into per-file sections. Sections whose path matches the
+ * denylist are withheld entirely; everything else has API keys, tokens,
+ * private keys, .env values, and high-entropy strings masked in place.
+ */
+
+export type RedactionKind = 'private-key' | 'token' | 'credential' | 'env-value' | 'high-entropy';
+
+export interface FileRedaction {
+  file: string;
+  /** Denylist pattern that matched, when the whole section was withheld */
+  withheld?: string;
+  counts: Partial<Record<RedactionKind, number>>;
+}
+
+export interface RedactionResult {
+  text: string;
+  /** Files that had something masked or withheld, in diff order */
+  files: FileRedaction[];
+}
+
+export interface RedactionOptions {
+  enabled: boolean;
+  denylist: string[];
+}
+
+export type RedactionCallback = (files: FileRedaction[]) => void;
+
+/** Paths that never leave the machine, whatever the config adds. */
+export const DEFAULT_REDACTION_DENYLIST = [
+  '.env*',
+  '*.pem',
+  '*.key',
+  '*.p12',
+  '*.pfx',
+  '*.jks',
+  '*.keystore',
+  'id_rsa*',
+  'id_ecdsa*',
+  'id_ed25519*',
+  '*.tfstate',
+  '*.tfstate.backup',
+];
+
+const KIND_LABELS: Record<RedactionKind, [singular: string, plural: string]> = {
+  'private-key': ['private key', 'private keys'],
+  token: ['token', 'tokens'],
+  credential: ['credential', 'credentials'],
+  'env-value': ['env value', 'env values'],
+  'high-entropy': ['high-entropy string', 'high-entropy strings'],
+};
+
+const TOKEN_PATTERNS: RegExp[] = [
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+  /\bgithub_pat_[A-Za-z0-9_]{22,}\b/g,
+  /\bglpat-[A-Za-z0-9_-]{20,}/g,
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  /\b[sr]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g,
+  /\bsk-[A-Za-z0-9_-]{20,}/g,
+  /\bAIza[0-9A-Za-z_-]{35}/g,
+  /\bnpm_[A-Za-z0-9]{36}\b/g,
+  /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+];
+
+const SECRET_NAME =
+  '[A-Za-z0-9_.-]*(?:api[_-]?key|secret|token|passw(?:or)?d|pwd|access[_-]?key|auth)[A-Za-z0-9_.-]*';
+// `apiKey: "value"`, `"client_secret": "value"`, `password = 'value'`
+const QUOTED_CREDENTIAL = new RegExp(
+  `(["']?${SECRET_NAME}["']?\\s*[:=]\\s*)(["'])([^"'\\s]{8,})\\2`,
+  'gi',
+);
+// `DB_PASSWORD=value` and `api_key: value` in env, YAML, and INI files
+const BARE_CREDENTIAL = new RegExp(
+  `^(\\s*(?:export\\s+)?${SECRET_NAME}\\s*[:=]\\s*)([^\\s"'\`$<{][^\\s"'\`]{7,})$`,
+  'gi',
+);
+const URL_CREDENTIAL = /\b([a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:)([^\s@/]+)(@)/gi;
+const BEARER_TOKEN = /\b(Bearer\s+)([A-Za-z0-9._~+/-]{16,}=*)/g;
+const ENV_ASSIGNMENT = /^(\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_]*\s*=\s*)(\S.*)$/;
+const HIGH_ENTROPY_CANDIDATE = /[A-Za-z0-9+/_=-]{24,}/g;
+const PRIVATE_KEY_BEGIN = /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/;
+const PRIVATE_KEY_END = /-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/;
+const PRIVATE_KEY_SPAN = new RegExp(
+  `${PRIVATE_KEY_BEGIN.source}.*?(?:${PRIVATE_KEY_END.source}|$)`,
+);
+// Diff metadata lines carry hashes and paths, not file content
+const DIFF_METADATA =
+  /^(?:diff --git |index |@@ |\+\+\+ |--- |similarity |rename |copy |new file mode|deleted file mode|old mode|new mode|Binary files )/;
+// `diff --git a/x b/y` sections, or `--- path ---` blocks of raw file content
+const SECTION_HEADER = /^(?:diff --git a\/.+? b\/(.+)|--- (.+) ---)$/gm;
+
+function marker(kind: RedactionKind): string {
+  return `[REDACTED:${kind}]`;
+}
+
+/**
+ * Validate an `aiRedaction` config block. Returns a message naming the
+ * offending field, or null when the block is usable.
+ */
+export function getAIRedactionError(redaction: unknown): string | null {
+  if (typeof redaction !== 'object' || redaction === null || Array.isArray(redaction)) {
+    return 'aiRedaction must be an object.';
+  }
+  const candidate = redaction as Record<string, unknown>;
+
+  if (candidate.enabled !== undefined && typeof candidate.enabled !== 'boolean') {
+    return 'aiRedaction.enabled must be true or false.';
+  }
+  if (candidate.required !== undefined && typeof candidate.required !== 'boolean') {
+    return 'aiRedaction.required must be true or false.';
+  }
+  if (candidate.required === true && candidate.enabled === false) {
+    return 'aiRedaction.enabled cannot be false while aiRedaction.required is true.';
+  }
+  if (
+    candidate.denylist !== undefined &&
+    (!Array.isArray(candidate.denylist) ||
+      !candidate.denylist.every((entry) => typeof entry === 'string' && entry.trim()))
+  ) {
+    return 'aiRedaction.denylist must be an array of path globs.';
+  }
+  return null;
+}
+
+/** True when the config forbids switching redaction off. */
+export function isRedactionRequired(config: ContributeConfig | null | undefined): boolean {
+  return config?.aiRedaction?.required === true;
+}
+
+/**
+ * Redaction settings for a repo: on unless the config turns it off (which a
+ * `required` block forbids), with the config denylist added to the defaults.
+ */
+export function resolveRedactionOptions(
+  config: ContributeConfig | null | undefined,
+): RedactionOptions {
+  const redaction: AIRedactionConfig = config?.aiRedaction ?? {};
+  const extra = (redaction.denylist ?? []).map((entry) => entry.trim()).filter(Boolean);
+  return {
+    enabled: redaction.required === true || redaction.enabled !== false,
+    denylist: [...new Set([...DEFAULT_REDACTION_DENYLIST, ...extra])],
+  };
+}
+
+/**
+ * The denylist entry that matches `file`, or null. Entries without a slash
+ * match the file name in any directory, like .gitignore.
+ */
+export function matchRedactionDenylist(file: string, denylist: string[]): string | null {
+  const basename = file.slice(file.lastIndexOf('/') + 1);
+  for (const pattern of denylist) {
+    const target = pattern.includes('/') ? file : basename;
+    if (matchesBranchPattern(target, pattern.replace(/^\//, ''))) {
+      return pattern;
+    }
+  }
+  return null;
+}
+
+/** Shannon entropy in bits per character. */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Random-looking tokens: mixed case plus digits and at least 4 bits of
+ * entropy per character. Plain hex (commit and content hashes) and
+ * subresource-integrity hashes in lockfiles are left alone.
+ */
+function isHighEntropy(token: string): boolean {
+  if (/^[0-9a-f]+$/i.test(token)) return false;
+  if (/^sha(?:1|256|384|512)-/.test(token)) return false;
+  if (!/[a-z]/.test(token) || !/[A-Z]/.test(token) || !/[0-9]/.test(token)) return false;
+  return shannonEntropy(token) >= 4;
+}
+
+function isEnvFile(file: string): boolean {
+  const basename = file.slice(file.lastIndexOf('/') + 1);
+  return /^\.env(?:\..+)?$/.test(basename) || basename.endsWith('.env');
+}
+
+function redactLine(line: string, envFile: boolean, count: (kind: RedactionKind) => void): string {
+  if (DIFF_METADATA.test(line)) return line;
+
+  // Keep the +/-/space diff marker out of the patterns below
+  const diffMarker = /^[+\- ]/.test(line) ? line[0] : '';
+  let result = line.slice(diffMarker.length);
+  if (envFile && !/^\s*#/.test(result)) {
+    result = result.replace(ENV_ASSIGNMENT, (_match, prefix: string) => {
+      count('env-value');
+      return `${prefix}${marker('env-value')}`;
+    });
+  }
+
+  for (const pattern of TOKEN_PATTERNS) {
+    result = result.replace(pattern, () => {
+      count('token');
+      return marker('token');
+    });
+  }
+
+  result = result
+    .replace(URL_CREDENTIAL, (_match, prefix: string, _password: string, at: string) => {
+      count('credential');
+      return `${prefix}${marker('credential')}${at}`;
+    })
+    .replace(BEARER_TOKEN, (match, prefix: string, token: string) => {
+      if (token.includes('[REDACTED:')) return match;
+      count('credential');
+      return `${prefix}${marker('credential')}`;
+    })
+    .replace(QUOTED_CREDENTIAL, (match, prefix: string, quote: string, value: string) => {
+      if (value.includes('[REDACTED:')) return match;
+      count('credential');
+      return `${prefix}${quote}${marker('credential')}${quote}`;
+    })
+    .replace(BARE_CREDENTIAL, (match, prefix: string, value: string) => {
+      if (value.includes('[REDACTED:')) return match;
+      count('credential');
+      return `${prefix}${marker('credential')}`;
+    });
+
+  result = result.replace(HIGH_ENTROPY_CANDIDATE, (token) => {
+    if (!isHighEntropy(token)) return token;
+    count('high-entropy');
+    return marker('high-entropy');
+  });
+  return `${diffMarker}${result}`;
+}
+
+function redactSection(
+  file: string,
+  section: string,
+  options: RedactionOptions,
+): { text: string; redaction: FileRedaction | null } {
+  const withheld = matchRedactionDenylist(file, options.denylist);
+  if (withheld) {
+    const header = section.slice(0, section.indexOf('\n') + 1 || section.length);
+    return {
+      text: `${header.trimEnd()}\n[diff withheld: ${file} matches the redaction denylist (${withheld})]\n`,
+      redaction: { file, withheld, counts: {} },
+    };
+  }
+
+  const counts: Partial<Record<RedactionKind, number>> = {};
+  const count = (kind: RedactionKind) => {
+    counts[kind] = (counts[kind] ?? 0) + 1;
+  };
+  const envFile = isEnvFile(file);
+  let inPrivateKey = false;
+
+  const lines = section.split('\n').map((line) => {
+    if (inPrivateKey) {
+      if (PRIVATE_KEY_END.test(line)) inPrivateKey = false;
+      return line.replace(/^([\s+-]?).*$/, `$1${marker('private-key')}`);
+    }
+    if (PRIVATE_KEY_BEGIN.test(line)) {
+      count('private-key');
+      inPrivateKey = !PRIVATE_KEY_END.test(line);
+      return line.replace(PRIVATE_KEY_SPAN, marker('private-key'));
+    }
+    return redactLine(line, envFile, count);
+  });
+
+  return {
+    text: lines.join('\n'),
+    redaction: Object.keys(counts).length > 0 ? { file, counts } : null,
+  };
+}
+
+/**
+ * Mask secrets in a unified diff (or `--- path ---` blocks of file content)
+ * and withhold denylisted files. Text before the first file header is
+ * redacted as if it belonged to an unnamed file.
+ */
+export function redactDiff(diff: string, options: RedactionOptions): RedactionResult {
+  if (!options.enabled) return { text: diff, files: [] };
+
+  const headers = [...diff.matchAll(SECTION_HEADER)].map((match) => ({
+    file: (match[1] ?? match[2]).trim(),
+    start: match.index,
+  }));
+
+  const parts: string[] = [];
+  const files: FileRedaction[] = [];
+  const preamble = diff.slice(0, headers[0]?.start ?? diff.length);
+  if (preamble) {
+    const { text, redaction } = redactSection('', preamble, { ...options, denylist: [] });
+    parts.push(text);
+    if (redaction) files.push({ ...redaction, file: '(diff)' });
+  }
+
+  headers.forEach(({ file, start }, index) => {
+    const end = headers[index + 1]?.start ?? diff.length;
+    const { text, redaction } = redactSection(file, diff.slice(start, end), options);
+    parts.push(text);
+    if (redaction) files.push(redaction);
+  });
+
+  return { text: parts.join(''), files };
+}
+
+/** One-line summary such as "src/app.ts: 2 tokens, 1 credential masked". */
+export function formatFileRedaction(redaction: FileRedaction): string {
+  if (redaction.withheld) {
+    return `${redaction.file}: withheld (matches ${redaction.withheld})`;
+  }
+  const parts = (Object.keys(KIND_LABELS) as RedactionKind[])
+    .filter((kind) => redaction.counts[kind])
+    .map((kind) => {
+      const n = redaction.counts[kind] ?? 0;
+      return `${n} ${KIND_LABELS[kind][n === 1 ? 0 : 1]}`;
+    });
+  return `${redaction.file}: ${parts.join(', ')} masked`;
+}
+
+/** Print each redacted file above a running spinner. */
+export function noteRedactions(spinner: Pick<Spinner, 'note'>): RedactionCallback {
+  return (files) => {
+    for (const file of files) {
+      spinner.note(`  ${pc.yellow('🔒')} ${pc.dim(formatFileRedaction(file))}`);
+    }
+  };
+}
@@ -15,6 +15,27 @@ export function parseRepoFromUrl(url: string): RepoInfo | null {
   return null;
 }
 
+export interface RemoteInfo extends RepoInfo {
+  host: string;
+}
+
+/**
+ * Host, owner, and repo of any git remote URL: HTTPS, `ssh://`, or scp-style
+ * `git@host:owner/repo`. The owner keeps every path segment before the repo,
+ * so GitLab subgroups come out as e.g. "group/subgroup".
+ */
+export function parseRemoteUrl(url: string): RemoteInfo | null {
+  const match =
+    url.trim().match(/^(?:https?|ssh|git):\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\/(.+)$/) ??
+    url.trim().match(/^(?:[^@/:]+@)?([^/:]+):(?!\/)(.+)$/);
+  if (!match) return null;
+
+  const path = match[2].replace(/\/+$/, '').replace(/\.git$/, '');
+  const slash = path.lastIndexOf('/');
+  if (slash <= 0 || slash === path.length - 1) return null;
+  return { host: match[1].toLowerCase(), owner: path.slice(0, slash), repo: path.slice(slash + 1) };
+}
+
 export interface ForkSetup {
   isFork: boolean;
   originRemote: string | null;
@@ -0,0 +1,143 @@
+import pc from 'picocolors';
+
+/**
+ * Findings from the AI review of a branch (`cn review`, and `cn submit` when
+ * `aiReview.onSubmit` is set).
+ */
+
+export const REVIEW_SEVERITIES = ['high', 'medium', 'low'] as const;
+export type ReviewSeverity = (typeof REVIEW_SEVERITIES)[number];
+
+export interface ReviewFinding {
+  file: string;
+  /** Line range in the new version of the file; null when the finding covers the whole file */
+  startLine: number | null;
+  endLine: number | null;
+  severity: ReviewSeverity;
+  message: string;
+}
+
+export interface ReviewResult {
+  findings: ReviewFinding[];
+  /** Files whose part of the review failed; the review is incomplete when any are listed */
+  unreviewed: string[];
+}
+
+const SEVERITY_LABELS: Record<ReviewSeverity, string> = {
+  high: pc.red('high  '),
+  medium: pc.yellow('medium'),
+  low: pc.cyan('low   '),
+};
+
+export function getAIReviewError(review: unknown): string | null {
+  if (typeof review !== 'object' || review === null || Array.isArray(review)) {
+    return 'aiReview must be an object.';
+  }
+  const { onSubmit, blockOnHigh } = review as Record<string, unknown>;
+  if (onSubmit !== undefined && typeof onSubmit !== 'boolean') {
+    return 'aiReview.onSubmit must be true or false.';
+  }
+  if (blockOnHigh !== undefined && typeof blockOnHigh !== 'boolean') {
+    return 'aiReview.blockOnHigh must be true or false.';
+  }
+  return null;
+}
+
+function toLineNumber(value: unknown): number | null {
+  const line = typeof value === 'string' ? Number.parseInt(value, 10) : value;
+  return typeof line === 'number' && Number.isInteger(line) && line > 0 ? line : null;
+}
+
+/**
+ * Keep the well-formed findings from a parsed AI reply. Findings for files
+ * outside `files` are dropped so the model can't point at code it never saw.
+ * @internal exported for testing
+ */
+export function normalizeReviewFindings(raw: unknown, files: string[]): ReviewFinding[] {
+  // Some models wrap the array as {"findings": [...]}
+  const wrapped =
+    typeof raw === 'object' && raw !== null ? (raw as { findings?: unknown }).findings : undefined;
+  const items: unknown[] = Array.isArray(raw) ? raw : Array.isArray(wrapped) ? wrapped : [];
+
+  const findings: ReviewFinding[] = [];
+  for (const item of items) {
+    if (typeof item !== 'object' || item === null) continue;
+    const { file, startLine, endLine, severity, message } = item as Record<string, unknown>;
+    if (typeof file !== 'string' || !files.includes(file)) continue;
+    if (typeof message !== 'string' || !message.trim()) continue;
+
+    const level = typeof severity === 'string' ? severity.toLowerCase() : '';
+    const start = toLineNumber(startLine);
+    const end = start === null ? null : Math.max(start, toLineNumber(endLine) ?? start);
+    findings.push({
+      file,
+      startLine: start,
+      endLine: end,
+      severity: (REVIEW_SEVERITIES as readonly string[]).includes(level)
+        ? (level as ReviewSeverity)
+        : 'medium',
+      message: message.replace(/\s+/g, ' ').trim(),
+    });
+  }
+  return findings;
+}
+
+/** Group findings by file in `files` order, most severe first within a file. */
+export function groupReviewFindings(
+  findings: ReviewFinding[],
+  files: string[],
+): Map<string, ReviewFinding[]> {
+  const order = (file: string) => {
+    const index = files.indexOf(file);
+    return index === -1 ? files.length : index;
+  };
+  const sorted = [...findings].sort(
+    (a, b) =>
+      order(a.file) - order(b.file) ||
+      a.file.localeCompare(b.file) ||
+      REVIEW_SEVERITIES.indexOf(a.severity) - REVIEW_SEVERITIES.indexOf(b.severity) ||
+      (a.startLine ?? 0) - (b.startLine ?? 0),
+  );
+
+  const groups = new Map<string, ReviewFinding[]>();
+  for (const finding of sorted) {
+    const group = groups.get(finding.file) ?? [];
+    group.push(finding);
+    groups.set(finding.file, group);
+  }
+  return groups;
+}
+
+export function formatReviewLineRange(finding: ReviewFinding): string {
+  if (finding.startLine === null) return 'file';
+  return finding.endLine !== null && finding.endLine !== finding.startLine
+    ? `L${finding.startLine}-${finding.endLine}`
+    : `L${finding.startLine}`;
+}
+
+/** e.g. "3 findings (1 high, 2 medium)" */
+export function summarizeReviewFindings(findings: ReviewFinding[]): string {
+  const counts = REVIEW_SEVERITIES.map(
+    (severity) =>
+      [severity, findings.filter((finding) => finding.severity === severity).length] as const,
+  )
+    .filter(([, count]) => count > 0)
+    .map(([severity, count]) => `${count} ${severity}`);
+  const total = `${findings.length} finding${findings.length !== 1 ? 's' : ''}`;
+  return counts.length > 0 ? `${total} (${counts.join(', ')})` : total;
+}
+
+export function hasHighSeverityFindings(findings: ReviewFinding[]): boolean {
+  return findings.some((finding) => finding.severity === 'high');
+}
+
+export function printReviewFindings(findings: ReviewFinding[], files: string[]): void {
+  for (const [file, fileFindings] of groupReviewFindings(findings, files)) {
+    console.log(`\n  ${pc.bold(file)}`);
+    for (const finding of fileFindings) {
+      const range = formatReviewLineRange(finding).padEnd(9);
+      console.log(`    ${SEVERITY_LABELS[finding.severity]} ${pc.dim(range)} ${finding.message}`);
+    }
+  }
+  console.log();
+}
@@ -5,9 +5,15 @@ import { join, resolve } from 'node:path';
 const CONTRIBUTE_NOW_SECRETS_DIRNAME = '.contribute-now';
 const CONTRIBUTE_NOW_SECRETS_STORE_DIRNAME = 'secrets';
 const OLLAMA_CLOUD_API_KEY = 'ollama.cloud.apiKey';
+const GITEA_TOKEN_PREFIX = 'gitea.token.';
+const GITHUB_TOKEN_PREFIX = 'github.token.';
 
 interface SecretsStore {
   [OLLAMA_CLOUD_API_KEY]?: string;
+  /** Gitea/Forgejo access tokens, one per host */
+  [giteaToken: `${typeof GITEA_TOKEN_PREFIX}${string}`]: string | undefined;
+  /** GitHub tokens for the REST API fallback, one per host (github.com or Enterprise) */
+  [githubToken: `${typeof GITHUB_TOKEN_PREFIX}${string}`]: string | undefined;
 }
 
 export function getSecretsStorePath(baseDir = homedir()): string {
@@ -96,6 +102,51 @@ export async function deleteOllamaCloudApiKey(baseDir = homedir()): Promise<bool
   return true;
 }
 
+export async function getGiteaToken(host: string, baseDir = homedir()): Promise<string | null> {
+  return readSecretsStore(baseDir)?.[`${GITEA_TOKEN_PREFIX}${host.toLowerCase()}`] ?? null;
+}
+
+export async function setGiteaToken(
+  host: string,
+  value: string,
+  baseDir = homedir(),
+): Promise<void> {
+  const existingStore = readSecretsStore(baseDir) ?? {};
+  writeSecretsStore(
+    {
+      ...existingStore,
+      [`${GITEA_TOKEN_PREFIX}${host.toLowerCase()}`]: value,
+    },
+    baseDir,
+  );
+}
+
+/** Hosts with a saved Gitea/Forgejo token, which is how those hosts are recognized. */
+export async function getGiteaTokenHosts(baseDir = homedir()): Promise<string[]> {
+  return Object.keys(readSecretsStore(baseDir) ?? {})
+    .filter((key) => key.startsWith(GITEA_TOKEN_PREFIX))
+    .map((key) => key.slice(GITEA_TOKEN_PREFIX.length));
+}
+
+export async function getGitHubToken(host: string, baseDir = homedir()): Promise<string | null> {
+  return readSecretsStore(baseDir)?.[`${GITHUB_TOKEN_PREFIX}${host.toLowerCase()}`] ?? null;
+}
+
+export async function setGitHubToken(
+  host: string,
+  value: string,
+  baseDir = homedir(),
+): Promise<void> {
+  const existingStore = readSecretsStore(baseDir) ?? {};
+  writeSecretsStore(
+    {
+      ...existingStore,
+      [`${GITHUB_TOKEN_PREFIX}${host.toLowerCase()}`]: value,
+    },
+    baseDir,
+  );
+}
+
 export async function closeSecretsStore(baseDir = homedir()): Promise<void> {
   void baseDir;
 }
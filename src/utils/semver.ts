@@ -0,0 +1,149 @@
+import type { ChangelogEntry } from './changelog.js';
+
+/**
+ * Semantic version bumps for `cn version`.
+ *
+ * The bump comes from the commits since the latest stable tag: breaking
+ * changes bump major, features bump minor, everything else bumps patch.
+ */
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export const VERSION_BUMPS: VersionBump[] = ['major', 'minor', 'patch'];
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: (string | number)[];
+}
+
+// Build metadata is accepted but ignored — it has no precedence in semver
+const SEMVER_PATTERN =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+// Commit types that add functionality under Conventional Commits and Clean Commit
+const FEATURE_TYPES = ['feat', 'new'];
+
+export function parseSemver(input: string): SemVer | null {
+  const match = SEMVER_PATTERN.exec(input.trim());
+  if (!match) return null;
+  const [, major, minor, patch, prerelease] = match;
+  return {
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    prerelease: prerelease
+      ? prerelease.split('.').map((part) => (/^\d+$/.test(part) ? Number(part) : part))
+      : [],
+  };
+}
+
+export function formatSemver(version: SemVer): string {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length > 0 ? `${core}-${version.prerelease.join('.')}` : core;
+}
+
+/**
+ * Compare by semver precedence: negative when a < b, positive when a > b.
+ * A prerelease sorts before the release it leads up to.
+ */
+export function compareSemver(a: SemVer, b: SemVer): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) return core;
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === undefined) return -1;
+    if (right === undefined) return 1;
+    if (left === right) continue;
+    if (typeof left === 'number' && typeof right === 'number') return left - right;
+    if (typeof left === 'number') return -1;
+    if (typeof right === 'number') return 1;
+    return left < right ? -1 : 1;
+  }
+  return 0;
+}
+
+/**
+ * Pick the highest semver tag, optionally ignoring prereleases.
+ * Tags that are not semantic versions are skipped.
+ */
+export function getLatestSemverTag(
+  tags: string[],
+  options: { stable?: boolean } = {},
+): { tag: string; version: SemVer } | null {
+  let latest: { tag: string; version: SemVer } | null = null;
+  for (const tag of tags) {
+    const version = parseSemver(tag);
+    if (!version || (options.stable && version.prerelease.length > 0)) continue;
+    if (!latest || compareSemver(version, latest.version) > 0) {
+      latest = { tag, version };
+    }
+  }
+  return latest;
+}
+
+/**
+ * Classify commits into the bump they require, or null when there is nothing to release.
+ */
+export function getVersionBump(entries: ChangelogEntry[]): VersionBump | null {
+  if (entries.length === 0) return null;
+  if (entries.some((entry) => entry.breaking)) return 'major';
+  if (entries.some((entry) => entry.type && FEATURE_TYPES.includes(entry.type))) return 'minor';
+  return 'patch';
+}
+
+export function bumpSemver(version: SemVer, bump: VersionBump): SemVer {
+  if (bump === 'major') return { major: version.major + 1, minor: 0, patch: 0, prerelease: [] };
+  if (bump === 'minor') {
+    return { major: version.major, minor: version.minor + 1, patch: 0, prerelease: [] };
+  }
+  return { major: version.major, minor: version.minor, patch: version.patch + 1, prerelease: [] };
+}
+
+/**
+ * Work out the next version.
+ *
+ * - `stable` is the latest release the bump applies to (0.0.0 when there is none)
+ * - `latest` is the latest tag overall; when it is a prerelease of a version at
+ *   least as high as the bump, the release line continues there
+ * - `preid` (e.g. "beta") produces `<version>-beta.N`, counting up on the same line
+ */
+export function getNextVersion(options: {
+  stable: SemVer | null;
+  latest: SemVer | null;
+  bump: VersionBump;
+  preid?: string;
+}): SemVer {
+  const { stable, latest, bump, preid } = options;
+  let target = bumpSemver(stable ?? { major: 0, minor: 0, patch: 0, prerelease: [] }, bump);
+
+  if (latest && latest.prerelease.length > 0) {
+    const line = { ...latest, prerelease: [] };
+    if (compareSemver(line, target) > 0) target = line;
+  }
+
+  if (!preid) return target;
+
+  const onSameLine =
+    latest !== null &&
+    latest.prerelease[0] === preid &&
+    compareSemver({ ...latest, prerelease: [] }, target) === 0;
+  const previous = onSameLine ? latest.prerelease[1] : undefined;
+  const counter = typeof previous === 'number' ? previous + 1 : 0;
+  return { ...target, prerelease: [preid, counter] };
+}
+
+/**
+ * Replace the first "version" field in package.json text, keeping its formatting.
+ * Returns null when the file has no version field.
+ */
+export function setPackageVersion(content: string, version: string): string | null {
+  const pattern = /^(\s*"version"\s*:\s*)"[^"]*"/m;
+  if (!pattern.test(content)) return null;
+  return content.replace(pattern, `$1"${version}"`);
+}
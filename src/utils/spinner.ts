@@ -12,6 +12,15 @@ interface SpinnerOptions {
 export interface Spinner {
   /** Update the spinner text while it's still running. */
   update(text: string): void;
+  /** Print a line above the spinner without stopping it. */
+  note(text: string): void;
+  /** Show the tail of a streaming reply under the spinner, in place of the tip. */
+  preview(text: string): void;
+  /**
+   * Let the user cancel with Esc (or q) while the spinner runs. The returned
+   * signal aborts on that keypress; input goes back to normal when the spinner stops.
+   */
+  listenForCancel(): AbortSignal;
   /** Stop the spinner and show a final success message. */
   success(text: string): void;
   /** Stop the spinner and show a final failure message. */
@@ -41,6 +50,28 @@ export function formatSpinnerLines(
   return [primary, secondary];
 }
 
+/** The end of a streaming reply on one line, e.g. "…feat(api): add the /v2 route" */
+export function formatStreamPreview(text: string, maxWidth: number): string {
+  const flattened = text.replace(/\s+/g, ' ').trim();
+  const width = Math.max(MIN_LINE_WIDTH, maxWidth);
+  if (flattened.length <= width) {
+    return flattened;
+  }
+
+  return `…${flattened.slice(flattened.length - width + 1)}`;
+}
+
+/**
+ * AI request options that stream the reply into `spinner` and cancel the
+ * request when the user presses Esc.
+ */
+export function streamIntoSpinner(spinner: Pick<Spinner, 'preview' | 'listenForCancel'>): {
+  onStream: (text: string) => void;
+  signal: AbortSignal;
+} {
+  return { onStream: (text) => spinner.preview(text), signal: spinner.listenForCancel() };
+}
+
 /**
  * Create and immediately start a lightweight CLI spinner.
  * Zero external dependencies — uses picocolors + setInterval.
@@ -53,6 +84,10 @@ export function createSpinner(text: string, options: SpinnerOptions = {}): Spinn
   let renderedLineCount = 0;
   let lastPrimaryLine = '';
   let lastSecondaryLine = '';
+  let previewText = '';
+  let cancelController: AbortController | null = null;
+  let listeningForCancel = false;
+  let releaseInput = () => {};
 
   const tips = options.tips?.filter(Boolean) ?? [];
   const tipIntervalMs = options.tipIntervalMs ?? DEFAULT_TIP_INTERVAL_MS;
@@ -126,11 +161,17 @@ export function createSpinner(text: string, options: SpinnerOptions = {}): Spinn
       MIN_LINE_WIDTH,
       (process.stderr.columns ?? process.stdout.columns ?? 100) - 4,
     );
-    const lines = formatSpinnerLines(currentText, tips[tipIdx % tips.length], width);
+    const primaryText = listeningForCancel ? `${currentText} (esc to cancel)` : currentText;
+    const lines = formatSpinnerLines(
+      primaryText,
+      previewText ? undefined : tips[tipIdx % tips.length],
+      width,
+    );
+    const secondary = previewText ? formatStreamPreview(previewText, width - 2) : lines[1];
 
     renderNextState(
       `${frame} ${pc.cyan(lines[0] ?? '')}`,
-      lines[1] ? `  ${pc.dim(lines[1])}` : undefined,
+      secondary ? `  ${pc.dim(secondary)}` : undefined,
     );
 
     frameIdx++;
@@ -150,6 +191,7 @@ export function createSpinner(text: string, options: SpinnerOptions = {}): Spinn
     stopped = true;
     clearInterval(timer);
     if (tipTimer) clearInterval(tipTimer);
+    releaseInput();
     clearBlock();
     renderedLineCount = 0;
   };
@@ -158,13 +200,55 @@ export function createSpinner(text: string, options: SpinnerOptions = {}): Spinn
     update(newText: string) {
       currentText = newText;
     },
+    note(msg: string) {
+      if (stopped) {
+        process.stderr.write(`${msg}\n`);
+        return;
+      }
+      clearBlock();
+      renderedLineCount = 0;
+      process.stderr.write(`${msg}\n`);
+      render();
+    },
+    preview(text: string) {
+      previewText = text;
+    },
+    listenForCancel() {
+      if (cancelController) return cancelController.signal;
+      const controller = new AbortController();
+      cancelController = controller;
+      const stdin = process.stdin;
+      if (stopped || !stdin.isTTY) return controller.signal;
+
+      const wasRaw = stdin.isRaw;
+      const onKey = (data: Buffer) => {
+        const key = data.toString();
+        if (key === '\x03') {
+          // Raw mode swallows Ctrl+C, so exit the way SIGINT would
+          stop();
+          process.exit(130);
+        }
+        if (key === '\x1b' || key === 'q') controller.abort();
+      };
+      stdin.setRawMode(true);
+      stdin.resume();
+      stdin.on('data', onKey);
+      listeningForCancel = true;
+      releaseInput = () => {
+        stdin.off('data', onKey);
+        stdin.setRawMode(wasRaw);
+        stdin.pause();
+      };
+      return controller.signal;
+    },
     success(msg: string) {
       stop();
       process.stderr.write(`${pc.green('✔')} ${msg}\n`);
     },
     fail(msg: string) {
       stop();
-      process.stderr.write(`${pc.red('✖')} ${msg}\n`);
+      const cancelled = cancelController?.signal.aborted ? pc.dim(' (cancelled)') : '';
+      process.stderr.write(`${pc.red('✖')} ${msg}${cancelled}\n`);
     },
     stop() {
       stop();
@@ -57,7 +57,12 @@ const COMMAND_GUIDES: Record<string, CommandGuide> = {
       { command: 'cn commit --help', description: 'learn commit generation and grouping flags' },
       { command: 'cn commit', description: 'stage and create one commit' },
       { command: 'cn commit --no-ai', description: 'write the commit message yourself' },
+      { command: 'cn commit --body', description: 'add a body that explains the change' },
       { command: 'cn commit --group', description: 'split a large changeset into atomic commits' },
+      {
+        command: 'cn commit --group --hunks',
+        description: 'split changes within a file across commits',
+      },
     ],
   },
   update: {
@@ -76,6 +81,31 @@ const COMMAND_GUIDES: Record<string, CommandGuide> = {
       { command: 'cn submit', description: 'push and create or update a PR' },
       { command: 'cn submit --pullrequest', description: 'go straight to the PR flow' },
       { command: 'cn submit -l', description: 'maintainers can squash-merge locally' },
+      { command: 'cn submit --review', description: 'run an AI review before pushing' },
+    ],
+  },
+  review: {
+    summary: 'Have AI review your branch diff for bugs and risks before you submit it.',
+    examples: [
+      { command: 'cn review --help', description: 'learn model and strict options' },
+      { command: 'cn review', description: 'list findings by file with severity' },
+      { command: 'cn review --strict', description: 'fail on high-severity findings' },
+    ],
+  },
+  release: {
+    summary: 'Cut, merge, and tag Git Flow release branches without memorizing the steps.',
+    examples: [
+      { command: 'cn release --help', description: 'learn the release lifecycle subcommands' },
+      { command: 'cn release start 1.2.0', description: 'branch release/1.2.0 from dev' },
+      { command: 'cn release finish', description: 'merge into main and dev, tag, and push' },
+    ],
+  },
+  hotfix: {
+    summary: 'Patch a shipped release from main and merge the fix back everywhere.',
+    examples: [
+      { command: 'cn hotfix --help', description: 'learn the hotfix lifecycle subcommands' },
+      { command: 'cn hotfix start 1.2.1', description: 'branch hotfix/1.2.1 from main' },
+      { command: 'cn hotfix finish -y', description: 'merge, tag, and push without prompting' },
     ],
   },
   switch: {
@@ -169,6 +199,40 @@ const COMMAND_GUIDES: Record<string, CommandGuide> = {
       },
     ],
   },
+  changelog: {
+    summary: 'Turn convention-formatted commits into Keep a Changelog release notes.',
+    examples: [
+      { command: 'cn changelog --help', description: 'learn range, title, and write options' },
+      { command: 'cn changelog', description: 'preview changes since the latest tag' },
+      {
+        command: 'cn changelog --to v1.2.0 --write',
+        description: 'add the 1.2.0 section to CHANGELOG.md',
+      },
+    ],
+  },
+  version: {
+    summary: 'Recommend the next semantic version from commits, then tag and push it.',
+    examples: [
+      { command: 'cn version --help', description: 'learn bump, prerelease, and tag options' },
+      { command: 'cn version', description: 'preview the next version since the latest tag' },
+      {
+        command: 'cn version --preid beta --tag',
+        description: 'commit and tag the next beta prerelease',
+      },
+      {
+        command: 'cn version --push',
+        description: 'commit, tag, and push the release',
+      },
+    ],
+  },
+  cache: {
+    summary: 'Inspect or clear the repo-local cache of AI commit and PR generations.',
+    examples: [
+      { command: 'cn cache --help', description: 'learn the info and clear actions' },
+      { command: 'cn cache', description: 'show cached entries, size, and expiry' },
+      { command: 'cn cache clear', description: 'drop every cached AI response' },
+    ],
+  },
   doctor: {
     summary: 'Run environment, dependency, config, and workflow diagnostics for the CLI.',
     examples: [
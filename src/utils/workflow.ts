@@ -1,4 +1,10 @@
-import type { ContributeConfig, WorkflowMode } from '../types.js';
+import type {
+  ContributeConfig,
+  MergeStrategy,
+  TrunkPolicy,
+  WorkflowMode,
+  WorkflowSpec,
+} from '../types.js';
 
 /**
  * Workflow mode descriptions for display and selection.
@@ -14,13 +20,94 @@ import type { ContributeConfig, WorkflowMode } from '../types.js';
  * Git Flow
  *   main + develop + release + hotfix branches. Full-ceremony branching
  *   model for versioned software with multiple supported releases.
+ *
+ * Trunk-Based Development
+ *   Single main branch. Short-lived branches are rebased and fast-forwarded
+ *   into main within a day or two, keeping history linear.
+ *
+ * Custom
+ *   Branches, feature base/target, sync sources, protection and merge
+ *   strategies all come from `workflowSpec` in the repo config.
  */
 export const WORKFLOW_DESCRIPTIONS: Record<WorkflowMode, string> = {
   'clean-flow': 'Clean Flow — main + dev, squash features into dev, merge dev into main',
   'github-flow': 'GitHub Flow — main + feature branches, squash/merge into main',
   'git-flow': 'Git Flow — main + develop + release + hotfix branches',
+  trunk: 'Trunk-Based — main + short-lived branches, rebase and fast-forward into main',
+  custom: 'Custom — branches and rules defined by workflowSpec in the repo config',
 };
 
+const WORKFLOW_SPEC_ROLES = ['maintainer', 'contributor'];
+const MERGE_STRATEGIES: MergeStrategy[] = ['squash', 'merge', 'rebase'];
+
+/**
+ * Returns the custom workflow spec. Config validation guarantees one exists
+ * for the custom workflow; the fallback only keeps callers total.
+ */
+function getWorkflowSpec(config: ContributeConfig): WorkflowSpec {
+  return config.workflowSpec ?? { branches: [config.mainBranch], featureBase: config.mainBranch };
+}
+
+/**
+ * Returns a description of what is wrong with a workflow spec, or null if it is valid.
+ * Used by config parsing, so messages name the offending field.
+ */
+export function getWorkflowSpecError(spec: unknown): string | null {
+  if (typeof spec !== 'object' || spec === null || Array.isArray(spec)) {
+    return 'workflowSpec must be an object.';
+  }
+  const candidate = spec as Record<string, unknown>;
+  const isName = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+
+  if (candidate.name !== undefined && !isName(candidate.name)) {
+    return 'workflowSpec.name must be a non-empty string when set.';
+  }
+  if (
+    !Array.isArray(candidate.branches) ||
+    candidate.branches.length === 0 ||
+    !candidate.branches.every(isName)
+  ) {
+    return 'workflowSpec.branches must be a non-empty array of branch names.';
+  }
+  const branches = candidate.branches as string[];
+  if (!isName(candidate.featureBase) || !branches.includes(candidate.featureBase as string)) {
+    return 'workflowSpec.featureBase must name one of workflowSpec.branches.';
+  }
+  if (
+    candidate.featureTarget !== undefined &&
+    (!isName(candidate.featureTarget) || !branches.includes(candidate.featureTarget as string))
+  ) {
+    return 'workflowSpec.featureTarget must name one of workflowSpec.branches.';
+  }
+  if (candidate.sync !== undefined) {
+    if (typeof candidate.sync !== 'object' || candidate.sync === null) {
+      return 'workflowSpec.sync must map roles to branch names.';
+    }
+    for (const [role, branch] of Object.entries(candidate.sync)) {
+      if (!WORKFLOW_SPEC_ROLES.includes(role) || !isName(branch)) {
+        return `workflowSpec.sync.${role} must be a branch name (roles: ${WORKFLOW_SPEC_ROLES.join(', ')}).`;
+      }
+    }
+  }
+  if (
+    candidate.protected !== undefined &&
+    (!Array.isArray(candidate.protected) || !candidate.protected.every(isName))
+  ) {
+    return 'workflowSpec.protected must be an array of branch names or globs.';
+  }
+  if (candidate.mergeStrategy !== undefined) {
+    if (typeof candidate.mergeStrategy !== 'object' || candidate.mergeStrategy === null) {
+      return 'workflowSpec.mergeStrategy must map target branches to a strategy.';
+    }
+    for (const [target, strategy] of Object.entries(candidate.mergeStrategy)) {
+      if (!MERGE_STRATEGIES.includes(strategy as MergeStrategy)) {
+        return `workflowSpec.mergeStrategy.${target} must be one of: ${MERGE_STRATEGIES.join(', ')}.`;
+      }
+    }
+  }
+  return null;
+}
+
 /**
  * Returns the base branch that feature branches should be created from
  * and that PRs should target.
@@ -31,8 +118,33 @@ export function getBaseBranch(config: ContributeConfig): string {
     case 'git-flow':
       return config.devBranch ?? 'dev';
     case 'github-flow':
+    case 'trunk':
       return config.mainBranch;
+    case 'custom':
+      return getWorkflowSpec(config).featureBase;
+  }
+}
+
+/**
+ * Returns the branch that feature PRs and local merges should land on.
+ * Only custom workflows can target a different branch than they start from.
+ */
+export function getTargetBranch(config: ContributeConfig): string {
+  if (config.workflow === 'custom') {
+    const spec = getWorkflowSpec(config);
+    return spec.featureTarget ?? spec.featureBase;
+  }
+  return getBaseBranch(config);
+}
+
+/**
+ * Returns the long-lived branches of the workflow, main first.
+ */
+export function getWorkflowBranches(config: ContributeConfig): string[] {
+  if (config.workflow === 'custom') {
+    return [...new Set([config.mainBranch, ...getWorkflowSpec(config).branches])];
   }
+  return getProtectedBranches(config);
 }
 
 /**
@@ -47,8 +159,9 @@ export function hasDevBranch(workflow: WorkflowMode): boolean {
  *
  * - Clean Flow maintainer: pull (fast-forward) from origin/dev
  * - Clean Flow contributor: pull from upstream/dev
- * - GitHub Flow: fetch origin/main
+ * - GitHub Flow / Trunk: fetch origin/main
  * - Git Flow: pull from origin/develop
+ * - Custom: the spec's sync branch for the role (defaults to the feature base)
  */
 export function getSyncSource(config: ContributeConfig): {
   remote: string;
@@ -66,6 +179,7 @@ export function getSyncSource(config: ContributeConfig): {
       return { remote: origin, ref: `${origin}/${devBranch}`, strategy: 'pull' };
 
     case 'github-flow':
+    case 'trunk':
       if (role === 'contributor') {
         return { remote: upstream, ref: `${upstream}/${mainBranch}`, strategy: 'pull' };
       }
@@ -76,7 +190,43 @@ export function getSyncSource(config: ContributeConfig): {
         return { remote: upstream, ref: `${upstream}/${devBranch}`, strategy: 'pull' };
       }
       return { remote: origin, ref: `${origin}/${devBranch}`, strategy: 'pull' };
+
+    case 'custom': {
+      const spec = getWorkflowSpec(config);
+      const branch = spec.sync?.[role] ?? spec.featureBase;
+      const remote = role === 'contributor' ? upstream : origin;
+      return { remote, ref: `${remote}/${branch}`, strategy: 'pull' };
+    }
+  }
+}
+
+/**
+ * Returns true if a protected entry is a glob rather than an exact branch name.
+ */
+function isBranchPattern(entry: string): boolean {
+  return /[*?]/.test(entry);
+}
+
+/**
+ * Match a branch name against a glob: `*` and `?` stay within one path
+ * segment, `**` crosses segments (e.g. "release/*", "team/**").
+ */
+export function matchesBranchPattern(branch: string, pattern: string): boolean {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
   }
+  return new RegExp(`^${source}$`).test(branch);
 }
 
 /**
@@ -84,6 +234,12 @@ export function getSyncSource(config: ContributeConfig): {
  * For git-flow, this also protects release/* and hotfix/* prefixes.
  */
 export function getProtectedBranches(config: ContributeConfig): string[] {
+  if (config.workflow === 'custom') {
+    const spec = getWorkflowSpec(config);
+    const exact = (spec.protected ?? []).filter((entry) => !isBranchPattern(entry));
+    return [...new Set([config.mainBranch, ...spec.branches, ...exact])];
+  }
+
   const branches = [config.mainBranch];
   if (hasDevBranch(config.workflow) && config.devBranch) {
     branches.push(config.devBranch);
@@ -111,6 +267,63 @@ export function isBranchProtected(branch: string, config: ContributeConfig): boo
   const protectedBranches = getProtectedBranches(config);
   if (protectedBranches.includes(branch)) return true;
 
+  if (config.workflow === 'custom') {
+    const patterns = (getWorkflowSpec(config).protected ?? []).filter(isBranchPattern);
+    return patterns.some((pattern) => matchesBranchPattern(branch, pattern));
+  }
+
   const protectedPrefixes = getProtectedPrefixes(config);
   return protectedPrefixes.some((prefix) => branch.startsWith(prefix));
 }
+
+/**
+ * Returns how a maintainer's local submit lands a feature branch on `target`.
+ * Trunk keeps history linear with rebase + fast-forward, custom workflows pick
+ * per target, and everything else squashes.
+ */
+export function getLocalMergeStrategy(
+  config: ContributeConfig,
+  target = getTargetBranch(config),
+): MergeStrategy {
+  if (config.workflow === 'trunk') return 'rebase';
+  if (config.workflow === 'custom') {
+    return getWorkflowSpec(config).mergeStrategy?.[target] ?? 'squash';
+  }
+  return 'squash';
+}
+
+// ── Trunk branch policy ───────────────────────────────────────────────
+
+export const DEFAULT_TRUNK_POLICY: Required<TrunkPolicy> = {
+  maxBranchAgeDays: 2,
+  maxBranchCommits: 10,
+};
+
+/**
+ * Returns the effective short-lived branch policy, or null when the workflow
+ * is not trunk-based. Unset limits fall back to DEFAULT_TRUNK_POLICY.
+ */
+export function getTrunkPolicy(config: ContributeConfig): Required<TrunkPolicy> | null {
+  if (config.workflow !== 'trunk') return null;
+  return { ...DEFAULT_TRUNK_POLICY, ...config.trunkPolicy };
+}
+
+/**
+ * Returns human-readable policy violations for a branch, empty when it is
+ * still short-lived enough.
+ */
+export function getTrunkPolicyViolations(
+  branch: { ageDays: number | null; commits: number },
+  policy: Required<TrunkPolicy>,
+): string[] {
+  const violations: string[] = [];
+  if (branch.ageDays !== null && branch.ageDays > policy.maxBranchAgeDays) {
+    violations.push(
+      `open for ${branch.ageDays} days (limit ${policy.maxBranchAgeDays} day${policy.maxBranchAgeDays !== 1 ? 's' : ''})`,
+    );
+  }
+  if (branch.commits > policy.maxBranchCommits) {
+    violations.push(`${branch.commits} commits ahead (limit ${policy.maxBranchCommits})`);
+  }
+  return violations;
+}
@@ -84,6 +84,33 @@ describe('finalizeEditedConfig', () => {
   });
 });
 
+describe('finalizeEditedConfig with an OpenAI-compatible endpoint', () => {
+  it('keeps the endpoint and model, and drops them for Copilot', () => {
+    const draft = {
+      workflow: 'clean-flow' as const,
+      role: 'contributor' as const,
+      mainBranch: 'main',
+      devBranch: 'dev',
+      upstream: 'upstream',
+      origin: 'origin',
+      branchPrefixes: ['feature'],
+      commitConvention: 'clean-commit' as const,
+      aiEnabled: true,
+      aiProvider: 'openai-compatible',
+      aiModel: ' llama3.1 ',
+      aiEndpoint: { baseUrl: 'http://localhost:11434/v1' },
+      showTips: true,
+    };
+    const next = finalizeEditedConfig(sampleConfig(), draft);
+    expect(next.aiEndpoint).toEqual({ baseUrl: 'http://localhost:11434/v1' });
+    expect(next.aiModel).toBe('llama3.1');
+
+    const copilot = finalizeEditedConfig(next, { ...draft, aiProvider: 'copilot' });
+    expect(copilot.aiEndpoint).toBeUndefined();
+    expect(copilot.aiModel).toBeUndefined();
+  });
+});
+
 describe('buildConfigSnapshot', () => {
   it('includes config metadata and ollama secrets status', () => {
     const snapshot = buildConfigSnapshot(sampleConfig(), {
@@ -1,5 +1,8 @@
 import { describe, expect, it } from 'bun:test';
-import { shouldContinueSetupWithExistingConfig } from '../../src/commands/setup.js';
+import {
+  mergeSetupConfig,
+  shouldContinueSetupWithExistingConfig,
+} from '../../src/commands/setup.js';
 import type { ContributeConfig } from '../../src/types.js';
 
 function sampleConfig(): ContributeConfig {
@@ -99,3 +102,78 @@ describe('setup existing config gate', () => {
     expect(shouldContinue).toBe(true);
   });
 });
+
+describe('mergeSetupConfig', () => {
+  it('keeps mandatory redaction when setup runs again', () => {
+    const existing: ContributeConfig = {
+      ...sampleConfig(),
+      aiRedaction: { required: true, denylist: ['secrets/**'] },
+    };
+
+    const merged = mergeSetupConfig(existing, { ...sampleConfig(), role: 'maintainer' });
+
+    expect(merged.role).toBe('maintainer');
+    expect(merged.aiRedaction).toEqual({ required: true, denylist: ['secrets/**'] });
+  });
+
+  it('keeps the review-on-submit settings', () => {
+    const existing: ContributeConfig = {
+      ...sampleConfig(),
+      aiReview: { onSubmit: true, blockOnHigh: true },
+    };
+
+    expect(mergeSetupConfig(existing, sampleConfig()).aiReview).toEqual({
+      onSubmit: true,
+      blockOnHigh: true,
+    });
+  });
+
+  it('keeps the prompt templates directory', () => {
+    const existing: ContributeConfig = { ...sampleConfig(), promptsDir: '.github/cn-prompts' };
+
+    expect(mergeSetupConfig(existing, sampleConfig()).promptsDir).toBe('.github/cn-prompts');
+  });
+
+  it('keeps the commit body setting', () => {
+    const existing: ContributeConfig = { ...sampleConfig(), commitBody: true };
+
+    expect(mergeSetupConfig(existing, sampleConfig()).commitBody).toBe(true);
+  });
+
+  it('keeps the pull request defaults', () => {
+    const pullRequest = {
+      reviewers: ['my-org/maintainers'],
+      labels: ['needs-review'],
+      assignees: ['@me'],
+      milestone: 'v2',
+      project: 'Roadmap',
+      typeLabels: false as const,
+      linkIssues: false,
+    };
+    const existing: ContributeConfig = { ...sampleConfig(), pullRequest };
+
+    expect(mergeSetupConfig(existing, sampleConfig()).pullRequest).toEqual(pullRequest);
+  });
+
+  it('takes the answers for what setup asks about', () => {
+    const existing: ContributeConfig = {
+      ...sampleConfig(),
+      aiProvider: 'ollama-cloud',
+      aiModel: 'gpt-oss:120b',
+    };
+    const answers: ContributeConfig = {
+      workflow: 'github-flow',
+      role: 'contributor',
+      mainBranch: 'main',
+      upstream: 'upstream',
+      origin: 'origin',
+      branchPrefixes: ['feature', 'fix'],
+      commitConvention: 'clean-commit',
+      aiEnabled: false,
+    };
+
+    const merged = mergeSetupConfig(existing, answers);
+
+    expect(merged).toEqual(answers);
+  });
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { existsSync, mkdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AI_CACHE_MAX_ENTRIES,
+  AI_CACHE_TTL_MS,
+  clearAICache,
+  getAICacheKey,
+  getAICacheLocationLabel,
+  getAICachePath,
+  getAICacheStats,
+  getCachedAIResponse,
+  pruneAICache,
+  setCachedAIResponse,
+} from '../../src/utils/aiCache.js';
+
+let testDir = '';
+
+beforeEach(() => {
+  testDir = join(
+    tmpdir(),
+    `contribute-now-ai-cache-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+  );
+  mkdirSync(join(testDir, '.git'), { recursive: true });
+});
+
+afterEach(() => {
+  if (existsSync(testDir)) rmSync(testDir, { recursive: true, force: true });
+});
+
+const parts = {
+  provider: 'ollama',
+  model: 'llama3.1',
+  systemMessage: 'Git commit message generator.',
+  userMessage: 'Generate a commit message for these staged changes: ...',
+};
+
+describe('AI response cache', () => {
+  it('keys entries by provider, model, system prompt, and prompt', () => {
+    const key = getAICacheKey(parts);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(getAICacheKey({ ...parts })).toBe(key);
+    expect(getAICacheKey({ ...parts, provider: 'copilot' })).not.toBe(key);
+    expect(getAICacheKey({ ...parts, model: 'qwen2.5-coder' })).not.toBe(key);
+    expect(getAICacheKey({ ...parts, systemMessage: 'other' })).not.toBe(key);
+    expect(getAICacheKey({ ...parts, userMessage: 'other' })).not.toBe(key);
+  });
+
+  it('stores replies next to the local state db', () => {
+    const key = getAICacheKey(parts);
+    expect(getCachedAIResponse(key, testDir)).toBeNull();
+
+    setCachedAIResponse(key, 'feat: add cache', testDir);
+    expect(getAICachePath(testDir)).toBe(join(testDir, '.git', 'contribute-now', 'ai-cache.json'));
+    expect(getAICacheLocationLabel(testDir)).toBe('.git/contribute-now/ai-cache.json');
+    expect(getCachedAIResponse(key, testDir)).toBe('feat: add cache');
+    expect(getAICacheStats(testDir).entries).toBe(1);
+  });
+
+  it('ignores expired entries', () => {
+    const key = getAICacheKey(parts);
+    setCachedAIResponse(key, 'feat: add cache', testDir, 1_000);
+    expect(getCachedAIResponse(key, testDir, 1_000 + AI_CACHE_TTL_MS - 1)).toBe('feat: add cache');
+    expect(getCachedAIResponse(key, testDir, 1_000 + AI_CACHE_TTL_MS)).toBeNull();
+  });
+
+  it('drops the oldest entries past the size cap', () => {
+    const store = Object.fromEntries(
+      Array.from({ length: AI_CACHE_MAX_ENTRIES + 5 }, (_, index) => [
+        `key-${index}`,
+        { response: `reply ${index}`, createdAt: index },
+      ]),
+    );
+    const pruned = pruneAICache(store, AI_CACHE_MAX_ENTRIES + 5);
+    expect(Object.keys(pruned)).toHaveLength(AI_CACHE_MAX_ENTRIES);
+    expect(pruned['key-0']).toBeUndefined();
+    expect(pruned[`key-${AI_CACHE_MAX_ENTRIES + 4}`]).toBeDefined();
+
+    const large = { big: { response: 'x'.repeat(2 * 1024 * 1024), createdAt: 10 } };
+    expect(pruneAICache({ ...large, small: { response: 'ok', createdAt: 5 } }, 10)).toEqual({
+      small: { response: 'ok', createdAt: 5 },
+    });
+  });
+
+  it('clears the cache', () => {
+    setCachedAIResponse(getAICacheKey(parts), 'one', testDir);
+    setCachedAIResponse(getAICacheKey({ ...parts, model: 'other' }), 'two', testDir);
+    expect(clearAICache(testDir)).toBe(2);
+    expect(existsSync(getAICachePath(testDir) ?? '')).toBe(false);
+    expect(clearAICache(testDir)).toBe(0);
+  });
+});
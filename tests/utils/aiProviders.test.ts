@@ -0,0 +1,251 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import type { ContributeConfig } from '../../src/types.js';
+import {
+  getAIEndpointError,
+  getAIProvider,
+  getAIProviders,
+  getEndpointAuthHeaders,
+  normalizeEndpointBaseUrl,
+  openAICompatibleProvider,
+  parseChatCompletionChunk,
+  type ResolvedAIConfig,
+  registerAIProvider,
+} from '../../src/utils/aiProviders.js';
+import { resolveAIConfig } from '../../src/utils/copilot.js';
+
+const API_KEY = 'local-test-key';
+const KEY_ENV = 'CN_TEST_ENDPOINT_KEY';
+
+// Replies word by word as server-sent events, waiting `delayMs` between words;
+// a negative delay sends the first word and then stalls
+function streamReply(text: string, delayMs: number): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      for (const [index, word] of text.split(' ').entries()) {
+        const chunk = { choices: [{ delta: { content: index === 0 ? word : ` ${word}` } }] };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+        if (delayMs < 0) return;
+        await Bun.sleep(delayMs);
+      }
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+  return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+// Stand-in for a local OpenAI-compatible server (Ollama, LM Studio, vLLM, ...)
+let server: ReturnType<typeof Bun.serve>;
+let baseUrl = '';
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      if (request.headers.get('api-key') !== API_KEY) {
+        return new Response('unauthorized', { status: 401 });
+      }
+      if (url.pathname === '/v1/models') {
+        return Response.json({ data: [{ id: 'llama3.1' }, { id: 'qwen2.5-coder' }] });
+      }
+      if (url.pathname === '/v1/chat/completions' && request.method === 'POST') {
+        const body = (await request.json()) as {
+          model: string;
+          messages: Array<{ role: string; content: string }>;
+        };
+        const user = body.messages.find((message) => message.role === 'user')?.content;
+        if (body.model === 'streamer') return streamReply(`streamed: ${user}`, 40);
+        if (body.model === 'stalled') return streamReply(`stalled: ${user}`, -1);
+        return Response.json({
+          choices: [{ message: { content: `  ${body.model} says: ${user}  ` } }],
+        });
+      }
+      return new Response('not found', { status: 404 });
+    },
+  });
+  baseUrl = `http://localhost:${server.port}/v1`;
+  process.env[KEY_ENV] = API_KEY;
+});
+
+afterAll(() => {
+  server.stop(true);
+  delete process.env[KEY_ENV];
+});
+
+function endpointConfig(overrides: Partial<ResolvedAIConfig> = {}): ResolvedAIConfig {
+  return {
+    provider: 'openai-compatible',
+    providerLabel: 'OpenAI-compatible endpoint',
+    model: 'llama3.1',
+    host: baseUrl,
+    authHeader: 'api-key',
+    apiKeyEnv: KEY_ENV,
+    ...overrides,
+  };
+}
+
+describe('AI provider registry', () => {
+  it('registers the built-in providers in order', () => {
+    expect(getAIProviders().map((provider) => provider.id)).toEqual([
+      'copilot',
+      'ollama-cloud',
+      'ollama',
+      'openai-compatible',
+    ]);
+  });
+
+  it('resolves registered providers from config', () => {
+    registerAIProvider({
+      id: 'test-echo',
+      label: 'Test Echo',
+      description: 'echoes prompts back',
+      resolve: (config) => ({ model: config?.aiModel ?? 'echo-1' }),
+      complete: async (request) => request.userMessage,
+      checkHealth: async () => null,
+    });
+
+    const config = {
+      workflow: 'github-flow',
+      role: 'maintainer',
+      mainBranch: 'main',
+      upstream: 'upstream',
+      origin: 'origin',
+      branchPrefixes: ['feature'],
+      commitConvention: 'conventional',
+      aiProvider: 'test-echo',
+    } satisfies ContributeConfig;
+
+    expect(getAIProvider('test-echo')?.label).toBe('Test Echo');
+    expect(resolveAIConfig(config)).toEqual({
+      provider: 'test-echo',
+      providerLabel: 'Test Echo',
+      model: 'echo-1',
+    });
+    expect(resolveAIConfig({ ...config, aiProvider: 'missing' }).providerLabel).toContain(
+      'Unknown provider',
+    );
+  });
+});
+
+describe('OpenAI-compatible endpoints', () => {
+  it('validates endpoint config', () => {
+    expect(getAIEndpointError({ baseUrl: 'http://localhost:11434/v1' })).toBeNull();
+    expect(getAIEndpointError({ baseUrl: 'localhost:11434' })).toContain('http or https');
+    expect(getAIEndpointError({ baseUrl: '' })).toContain('baseUrl');
+    expect(getAIEndpointError({ baseUrl: 'http://x', apiKeyEnv: 'MY-KEY' })).toContain('apiKeyEnv');
+    expect(getAIEndpointError({ baseUrl: 'http://x', authHeader: 'X Key' })).toContain(
+      'authHeader',
+    );
+  });
+
+  it('normalizes pasted completion URLs', () => {
+    expect(normalizeEndpointBaseUrl('http://localhost:1234/v1/chat/completions/')).toBe(
+      'http://localhost:1234/v1',
+    );
+  });
+
+  it('sends the key as a bearer token or a raw header', () => {
+    const env = { KEY: 'abc' };
+    expect(getEndpointAuthHeaders({ apiKeyEnv: 'KEY' }, env)).toEqual({
+      Authorization: 'Bearer abc',
+    });
+    expect(getEndpointAuthHeaders({ apiKeyEnv: 'KEY', authHeader: 'api-key' }, env)).toEqual({
+      'api-key': 'abc',
+    });
+    expect(getEndpointAuthHeaders({}, env)).toEqual({});
+    expect(() => getEndpointAuthHeaders({ apiKeyEnv: 'MISSING' }, env)).toThrow('MISSING');
+  });
+
+  it('completes chat requests against the endpoint', async () => {
+    const reply = await openAICompatibleProvider.complete(
+      { systemMessage: 'system', userMessage: 'hello', timeoutMs: 5_000 },
+      endpointConfig(),
+    );
+    expect(reply).toBe('llama3.1 says: hello');
+
+    const override = await openAICompatibleProvider.complete(
+      { systemMessage: 'system', userMessage: 'hi', model: 'qwen2.5-coder', timeoutMs: 5_000 },
+      endpointConfig(),
+    );
+    expect(override).toBe('qwen2.5-coder says: hi');
+  });
+
+  it('reads the text out of streamed chunks', () => {
+    expect(parseChatCompletionChunk('data: {"choices":[{"delta":{"content":"Hi"}}]}')).toBe('Hi');
+    expect(parseChatCompletionChunk('data: {"choices":[{"delta":{"role":"assistant"}}]}')).toBe(
+      null,
+    );
+    expect(parseChatCompletionChunk('data: [DONE]')).toBeNull();
+    expect(parseChatCompletionChunk(': keep-alive')).toBeNull();
+  });
+
+  it('streams replies and only times out between tokens', async () => {
+    const partials: string[] = [];
+    // Takes longer than the timeout overall, but no gap between tokens does
+    const reply = await openAICompatibleProvider.complete(
+      {
+        systemMessage: 'system',
+        userMessage: 'one two three four five',
+        model: 'streamer',
+        timeoutMs: 150,
+        onStream: (text) => partials.push(text),
+      },
+      endpointConfig(),
+    );
+
+    expect(reply).toBe('streamed: one two three four five');
+    expect(partials[0]).toBe('streamed:');
+    expect(partials.at(-1)).toBe(reply ?? '');
+  });
+
+  it('times out when a stream stalls and stops when cancelled', async () => {
+    await expect(
+      openAICompatibleProvider.complete(
+        { systemMessage: 'system', userMessage: 'hi', model: 'stalled', timeoutMs: 100 },
+        endpointConfig(),
+      ),
+    ).rejects.toThrow('timed out after 0.1s without a response');
+
+    const controller = new AbortController();
+    const pending = openAICompatibleProvider.complete(
+      {
+        systemMessage: 'system',
+        userMessage: 'hi',
+        model: 'stalled',
+        timeoutMs: 5_000,
+        signal: controller.signal,
+        onStream: () => controller.abort(),
+      },
+      endpointConfig(),
+    );
+    await expect(pending).rejects.toThrow('request was cancelled');
+  });
+
+  it('reports a healthy endpoint', async () => {
+    expect(await openAICompatibleProvider.checkHealth(endpointConfig())).toBeNull();
+  });
+
+  it('reports missing models, keys, and endpoints', async () => {
+    expect(
+      await openAICompatibleProvider.checkHealth(endpointConfig({ model: 'gpt-4o' })),
+    ).toContain('Model "gpt-4o" is not available');
+    expect(
+      await openAICompatibleProvider.checkHealth(endpointConfig({ apiKeyEnv: 'CN_NOT_SET' })),
+    ).toContain('CN_NOT_SET is not set');
+    expect(
+      await openAICompatibleProvider.checkHealth(endpointConfig({ authHeader: 'x-api-key' })),
+    ).toContain('authentication failed');
+    expect(
+      await openAICompatibleProvider.checkHealth(endpointConfig({ host: undefined })),
+    ).toContain('No OpenAI-compatible endpoint configured');
+  });
+
+  it('reports an unreachable endpoint', async () => {
+    const problem = await openAICompatibleProvider.checkHealth(
+      endpointConfig({ host: 'http://127.0.0.1:9/v1' }),
+    );
+    expect(problem).toContain('Could not reach');
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  type ChangelogEntry,
+  groupChangelogEntries,
+  insertChangelogSection,
+  parseChangelogEntry,
+  renderChangelogSection,
+} from '../../src/utils/changelog';
+
+function entry(message: string, convention: 'conventional' | 'clean-commit' = 'conventional') {
+  return parseChangelogEntry({ hash: 'abcdef1234', parents: ['p'], message }, convention);
+}
+
+describe('changelog', () => {
+  test('parses type, scope, and squash-merge PR numbers', () => {
+    expect(entry('feat(api): add search (#42)')).toEqual({
+      hash: 'abcdef1234',
+      type: 'feat',
+      scope: 'api',
+      subject: 'add search',
+      breaking: false,
+      breakingNote: null,
+      pr: 42,
+    });
+  });
+
+  test('parses Clean Commit headers', () => {
+    const parsed = entry('📦 new (cli): add changelog command (#7)', 'clean-commit');
+    expect(parsed?.type).toBe('new');
+    expect(parsed?.scope).toBe('cli');
+    expect(parsed?.pr).toBe(7);
+  });
+
+  test('uses the BREAKING CHANGE footer as the breaking note', () => {
+    const parsed = entry('feat!: drop v1\n\nBREAKING CHANGE: v1 clients\nmust upgrade');
+    expect(parsed?.breaking).toBe(true);
+    expect(parsed?.breakingNote).toBe('v1 clients must upgrade');
+    expect(entry('fix!: reject empty tokens')?.breakingNote).toBe('reject empty tokens');
+  });
+
+  test('skips merge, fixup, and squash commits', () => {
+    expect(
+      parseChangelogEntry(
+        { hash: 'a', parents: ['p', 'q'], message: 'Merge branch dev' },
+        'conventional',
+      ),
+    ).toBeNull();
+    expect(entry('fixup! feat: add search')).toBeNull();
+  });
+
+  test('groups by type and hides maintenance unless asked', () => {
+    const entries = ['feat: a', 'fix: b', 'chore: c', 'wip stuff'].map(
+      (message) => entry(message) as ChangelogEntry,
+    );
+    expect(groupChangelogEntries(entries).map((section) => section.title)).toEqual([
+      'Features',
+      'Fixes',
+      'Other Changes',
+    ]);
+    expect(groupChangelogEntries(entries, true).map((section) => section.title)).toContain(
+      'Maintenance',
+    );
+  });
+
+  test('renders Keep a Changelog sections', () => {
+    const section = renderChangelogSection({
+      title: '1.2.0',
+      date: '2026-05-01',
+      entries: [entry('feat(api)!: new auth (#3)') as ChangelogEntry],
+    });
+    expect(section).toBe(
+      [
+        '## [1.2.0] - 2026-05-01',
+        '',
+        '### Breaking Changes',
+        '',
+        '- **api:** new auth (#3)',
+        '',
+        '### Features',
+        '',
+        '- **api:** new auth (#3)',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('inserts below Unreleased and above the latest release', () => {
+    const existing = '# Changelog\n\n## [Unreleased]\n\n## [1.0.0] - 2026-01-01\n\n- first\n';
+    const updated = insertChangelogSection(
+      existing,
+      '## [1.1.0] - 2026-02-01\n\n- second\n',
+      '1.1.0',
+    );
+    expect(updated).toBe(
+      '# Changelog\n\n## [Unreleased]\n\n## [1.1.0] - 2026-02-01\n\n- second\n\n## [1.0.0] - 2026-01-01\n\n- first\n',
+    );
+  });
+
+  test('replaces a section with the same title', () => {
+    const existing = '# Changelog\n\n## [Unreleased]\n\n- old\n\n## [1.0.0] - 2026-01-01\n';
+    const updated = insertChangelogSection(existing, '## [Unreleased]\n\n- new\n', 'Unreleased');
+    expect(updated).toBe('# Changelog\n\n## [Unreleased]\n\n- new\n\n## [1.0.0] - 2026-01-01\n');
+  });
+
+  test('creates a changelog when there is none', () => {
+    const updated = insertChangelogSection('', '## [1.0.0] - 2026-01-01\n\n- first\n', '1.0.0');
+    expect(updated.startsWith('# Changelog\n')).toBe(true);
+    expect(updated.endsWith('## [1.0.0] - 2026-01-01\n\n- first\n')).toBe(true);
+  });
+});
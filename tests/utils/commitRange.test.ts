@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  formatGitHubAnnotations,
+  parseCommitRange,
+  validateCommits,
+} from '../../src/utils/commitRange';
+
+describe('commit range validation', () => {
+  test('parses two-dot ranges', () => {
+    expect(parseCommitRange('main..HEAD')).toEqual({ base: 'main', head: 'HEAD' });
+    expect(parseCommitRange('origin/dev..feature/x')).toEqual({
+      base: 'origin/dev',
+      head: 'feature/x',
+    });
+    expect(parseCommitRange('v1.2.0..')).toEqual({ base: 'v1.2.0', head: 'HEAD' });
+  });
+
+  test('rejects anything that is not a two-dot range', () => {
+    expect(parseCommitRange('main')).toBeNull();
+    expect(parseCommitRange('main...HEAD')).toBeNull();
+    expect(parseCommitRange('..HEAD')).toBeNull();
+  });
+
+  test('skips merge, fixup, and squash commits', () => {
+    const results = validateCommits(
+      [
+        { hash: 'a1', parents: ['p'], message: 'feat: add search' },
+        { hash: 'b2', parents: ['p', 'q'], message: 'Merge branch main' },
+        { hash: 'c3', parents: ['p'], message: 'fixup! feat: add search' },
+        { hash: 'd4', parents: ['p'], message: 'squash! feat: add search' },
+        { hash: 'e5', parents: ['p'], message: 'added stuff' },
+      ],
+      'conventional',
+    );
+    expect(results.map((result) => result.skipped)).toEqual([false, true, true, true, false]);
+    expect(results[0].problems).toEqual([]);
+    expect(results[4].problems).toHaveLength(1);
+  });
+
+  test('formats GitHub annotations with escaped properties', () => {
+    const [annotation] = formatGitHubAnnotations([
+      {
+        hash: 'abcdef1234',
+        subject: 'added stuff, 100%',
+        skipped: false,
+        problems: [{ line: 1, message: 'Header is wrong' }],
+      },
+    ]);
+    expect(annotation).toBe(
+      '::error title=Commit abcdef1%3A added stuff%2C 100%25::Line 1: Header is wrong',
+    );
+  });
+});
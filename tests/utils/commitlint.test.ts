@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  findCommitlintConfig,
+  importCommitlintRules,
+  isCommitlintLoadError,
+  readCommitlintConfig,
+} from '../../src/utils/commitlint.js';
+import { validateCommitMessage } from '../../src/utils/convention.js';
+
+const TEST_DIR = join(tmpdir(), 'contribute-now-commitlint-test');
+
+describe('commitlint import', () => {
+  beforeEach(() => {
+    mkdirSync(join(TEST_DIR, '.git'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('maps supported rules onto a custom convention', () => {
+    const result = importCommitlintRules(
+      {
+        rules: {
+          'type-enum': [2, 'always', ['feat', 'fix']],
+          'scope-enum': [2, 'always', ['api', 'web']],
+          'scope-empty': [2, 'never'],
+          'subject-max-length': [2, 'always', 50],
+          'header-max-length': [2, 'always', 60],
+          'body-leading-blank': [2, 'always'],
+        },
+      },
+      '.commitlintrc.json',
+    );
+    expect(result.convention).toEqual({
+      name: 'commitlint (.commitlintrc.json)',
+      types: ['feat', 'fix'],
+      scopes: ['api', 'web'],
+      requireScope: true,
+      maxSubjectLength: 50,
+      maxHeaderLength: 60,
+      bodyLeadingBlank: true,
+      fromCommitlint: true,
+    });
+    expect(result.imported).toHaveLength(6);
+    expect(result.ignored).toEqual([]);
+  });
+
+  it('reports unsupported, warning-level and inverted rules as ignored', () => {
+    const result = importCommitlintRules(
+      {
+        extends: ['@commitlint/config-angular'],
+        rules: {
+          'subject-case': [2, 'always', 'lower-case'],
+          'body-leading-blank': [1, 'always'],
+          'type-enum': [2, 'never', ['wip']],
+          'footer-leading-blank': [0, 'always'],
+        },
+      },
+      'commitlint.config.js',
+    );
+    expect(result.imported).toEqual([]);
+    expect(result.ignored).toEqual([
+      'extends @commitlint/config-angular',
+      'subject-case',
+      'body-leading-blank (warning only)',
+      'type-enum (never)',
+    ]);
+  });
+
+  it('expands config-conventional and lets local rules override it', () => {
+    const result = importCommitlintRules(
+      {
+        extends: '@commitlint/config-conventional',
+        rules: { 'header-max-length': [2, 'always', 72] },
+      },
+      'package.json (commitlint)',
+    );
+    expect(result.convention.types).toContain('feat');
+    expect(result.convention.maxHeaderLength).toBe(72);
+    expect(result.ignored).toEqual(['body-leading-blank (warning only)']);
+  });
+
+  it('only applies the header limit when the config sets no subject limit', () => {
+    const { convention } = importCommitlintRules(
+      { extends: ['@commitlint/config-conventional'] },
+      '.commitlintrc.json',
+    );
+    const subject = 'x'.repeat(85);
+    expect(validateCommitMessage(`feat: ${subject}`, convention)).toBe(true);
+    expect(validateCommitMessage(`feat: ${subject}${'y'.repeat(15)}`, convention)).toBe(false);
+  });
+
+  it('imported conventions validate messages', () => {
+    const { convention } = importCommitlintRules(
+      {
+        rules: {
+          'type-enum': [2, 'always', ['feat', 'fix']],
+          'header-max-length': [2, 'always', 20],
+          'body-leading-blank': [2, 'always'],
+        },
+      },
+      '.commitlintrc',
+    );
+    expect(validateCommitMessage('feat: add login', convention)).toBe(true);
+    expect(validateCommitMessage('chore: add login', convention)).toBe(false);
+    expect(validateCommitMessage('feat: add a much longer login page', convention)).toBe(false);
+    expect(validateCommitMessage('fix: token\nbody without blank', convention)).toBe(false);
+    expect(validateCommitMessage('fix: token\n\nbody after blank', convention)).toBe(true);
+  });
+
+  it('reads JSON configs from the repo', () => {
+    writeFileSync(
+      join(TEST_DIR, '.commitlintrc.json'),
+      JSON.stringify({ rules: { 'type-enum': [2, 'always', ['add']] } }),
+    );
+    const result = readCommitlintConfig(TEST_DIR);
+    expect(result && !isCommitlintLoadError(result) && result.convention.types).toEqual(['add']);
+  });
+
+  it('reads the commitlint key from package.json', () => {
+    writeFileSync(
+      join(TEST_DIR, 'package.json'),
+      JSON.stringify({
+        name: 'demo',
+        commitlint: { extends: ['@commitlint/config-conventional'] },
+      }),
+    );
+    const result = readCommitlintConfig(TEST_DIR);
+    expect(result?.source).toBe('package.json (commitlint)');
+  });
+
+  it('reads JavaScript configs', () => {
+    writeFileSync(
+      join(TEST_DIR, 'commitlint.config.cjs'),
+      "module.exports = { rules: { 'subject-max-length': [2, 'always', 40] } };",
+    );
+    const result = readCommitlintConfig(TEST_DIR);
+    expect(result && !isCommitlintLoadError(result) && result.convention.maxSubjectLength).toBe(40);
+  });
+
+  it('returns a load error for YAML configs', () => {
+    writeFileSync(join(TEST_DIR, '.commitlintrc.yml'), 'extends: [config-conventional]\n');
+    const result = readCommitlintConfig(TEST_DIR);
+    expect(result && isCommitlintLoadError(result)).toBe(true);
+  });
+
+  it('stops searching at the repo root', () => {
+    const nested = join(TEST_DIR, 'packages', 'app');
+    mkdirSync(nested, { recursive: true });
+    expect(findCommitlintConfig(nested)).toBeNull();
+    writeFileSync(join(TEST_DIR, '.commitlintrc'), '{}');
+    expect(findCommitlintConfig(nested)?.path).toBe(join(TEST_DIR, '.commitlintrc'));
+  });
+});
@@ -399,4 +399,207 @@ describe('config utilities', () => {
     writeFileSync(join(TEST_DIR, '.contributerc.json'), JSON.stringify(cfg));
     expect(readConfig(TEST_DIR)).toBeNull();
   });
+
+  it('readConfig round-trips a custom workflow spec', () => {
+    const cfg = {
+      workflow: 'custom',
+      role: 'maintainer',
+      mainBranch: 'main',
+      upstream: 'upstream',
+      origin: 'origin',
+      branchPrefixes: ['feature'],
+      commitConvention: 'clean-commit',
+      workflowSpec: {
+        branches: ['main', 'staging', 'integration'],
+        featureBase: 'integration',
+        protected: ['release/*'],
+        mergeStrategy: { integration: 'squash', staging: 'merge' },
+      },
+    };
+    writeFileSync(join(TEST_DIR, '.contributerc.json'), JSON.stringify(cfg));
+    expect(readConfig(TEST_DIR)?.workflowSpec).toEqual(cfg.workflowSpec);
+  });
+
+  it('readConfig returns null for the custom workflow without a spec', () => {
+    const cfg = {
+      workflow: 'custom',
+      role: 'maintainer',
+      mainBranch: 'main',
+      upstream: 'upstream',
+      origin: 'origin',
+      branchPrefixes: ['feature'],
+      commitConvention: 'clean-commit',
+    };
+    writeFileSync(join(TEST_DIR, '.contributerc.json'), JSON.stringify(cfg));
+    expect(readConfig(TEST_DIR)).toBeNull();
+  });
+
+  it('readConfig returns null when featureBase is not a spec branch', () => {
+    const cfg = {
+      workflow: 'custom',
+      role: 'maintainer',
+      mainBranch: 'main',
+      upstream: 'upstream',
+      origin: 'origin',
+      branchPrefixes: ['feature'],
+      commitConvention: 'clean-commit',
+      workflowSpec: { branches: ['main', 'staging'], featureBase: 'integration' },
+    };
+    writeFileSync(join(TEST_DIR, '.contributerc.json'), JSON.stringify(cfg));
+    expect(readConfig(TEST_DIR)).toBeNull();
+  });
+
+  it('readConfig round-trips a custom commit convention', () => {
+    const cfg = {
+      workflow: 'github-flow',
+      role: 'maintainer',
+      mainBranch: 'main',
+      upstream: 'upstream',
+      origin: 'origin',
+      branchPrefixes: ['feature'],
+      commitConvention: 'custom',
+      customConvention: { types: ['add', 'change'], emojis: { add: '✨' }, requireScope: true },
+    };
+    writeFileSync(join(TEST_DIR, '.contributerc.json'), JSON.stringify(cfg));
+    expect(readConfig(TEST_DIR)?.customConvention).toEqual(cfg.customConvention);
+  });
+
+  it('readConfig returns null for the custom convention without a spec', () => {
+    const cfg = {
+      workflow: 'github-flow',
+      role: 'maintainer',
+      mainBranch: 'main',
+      upstream: 'upstream',
+      origin: 'origin',
+      branchPrefixes: ['feature'],
+      commitConvention: 'custom',
+    };
+    writeFileSync(join(TEST_DIR, '.contributerc.json'), JSON.stringify(cfg));
+    expect(readConfig(TEST_DIR)).toBeNull();
+  });
+
+  it('readConfig round-trips an OpenAI-compatible endpoint', () => {
+    const cfg = {
+      workflow: 'github-flow',
+      role: 'maintainer',
+      mainBranch: 'main',
+      upstream: 'upstream',
+      origin: 'origin',
+      branchPrefixes: ['feature'],
+      commitConvention: 'conventional',
+      aiProvider: 'openai-compatible',
+      aiModel: 'llama3.1',
+      aiEndpoint: { baseUrl: 'http://localhost:1234/v1', apiKeyEnv: 'LM_STUDIO_KEY' },
+    };
+    writeFileSync(join(TEST_DIR, '.contributerc.json'), JSON.stringify(cfg));
+    expect(readConfig(TEST_DIR)?.aiEndpoint).toEqual(cfg.aiEndpoint);
+  });
+
+  it('readConfig returns null for an OpenAI-compatible provider without a usable endpoint', () => {
+    const cfg = {
+      workflow: 'github-flow',
+      role: 'maintainer',
+      mainBranch: 'main',
+      upstream: 'upstream',
+      origin: 'origin',
+      branchPrefixes: ['feature'],
+      commitConvention: 'conventional',
+      aiProvider: 'openai-compatible',
+    };
+    writeFileSync(join(TEST_DIR, '.contributerc.json'), JSON.stringify(cfg));
+    expect(readConfig(TEST_DIR)).toBeNull();
+
+    writeFileSync(
+      join(TEST_DIR, '.contributerc.json'),
+      JSON.stringify({ ...cfg, aiEndpoint: { baseUrl: 'ftp://models.internal' } }),
+    );
+    expect(readConfig(TEST_DIR)).toBeNull();
+  });
+
+  it('readConfig validates aiRedaction', () => {
+    const cfg = {
+      workflow: 'github-flow',
+      role: 'maintainer',
+      mainBranch: 'main',
+      upstream: 'upstream',
+      origin: 'origin',
+      branchPrefixes: ['feature'],
+      commitConvention: 'conventional',
+      aiRedaction: { required: true, denylist: ['secrets/**'] },
+    };
+    writeFileSync(join(TEST_DIR, '.contributerc.json'), JSON.stringify(cfg));
+    expect(readConfig(TEST_DIR)?.aiRedaction).toEqual(cfg.aiRedaction);
+
+    writeFileSync(
+      join(TEST_DIR, '.contributerc.json'),
+      JSON.stringify({ ...cfg, aiRedaction: { required: true, enabled: false } }),
+    );
+    expect(readConfig(TEST_DIR)).toBeNull();
+
+    writeFileSync(
+      join(TEST_DIR, '.contributerc.json'),
+      JSON.stringify({ ...cfg, aiRedaction: { denylist: '*.pem' } }),
+    );
+    expect(readConfig(TEST_DIR)).toBeNull();
+  });
+
+  it('readConfig validates promptsDir', () => {
+    const cfg = {
+      workflow: 'github-flow',
+      role: 'maintainer',
+      mainBranch: 'main',
+      upstream: 'upstream',
+      origin: 'origin',
+      branchPrefixes: ['feature'],
+      commitConvention: 'conventional',
+      promptsDir: '.github/cn-prompts',
+    };
+    writeFileSync(join(TEST_DIR, '.contributerc.json'), JSON.stringify(cfg));
+    expect(readConfig(TEST_DIR)?.promptsDir).toBe('.github/cn-prompts');
+
+    writeFileSync(join(TEST_DIR, '.contributerc.json'), JSON.stringify({ ...cfg, promptsDir: '' }));
+    expect(readConfig(TEST_DIR)).toBeNull();
+  });
+
+  it('readConfig validates commitBody', () => {
+    const cfg = {
+      workflow: 'github-flow',
+      role: 'maintainer',
+      mainBranch: 'main',
+      upstream: 'upstream',
+      origin: 'origin',
+      branchPrefixes: ['feature'],
+      commitConvention: 'conventional',
+      commitBody: true,
+    };
+    writeFileSync(join(TEST_DIR, '.contributerc.json'), JSON.stringify(cfg));
+    expect(readConfig(TEST_DIR)?.commitBody).toBe(true);
+
+    writeFileSync(
+      join(TEST_DIR, '.contributerc.json'),
+      JSON.stringify({ ...cfg, commitBody: 'yes' }),
+    );
+    expect(readConfig(TEST_DIR)).toBeNull();
+  });
+
+  it('readConfig validates pullRequest defaults', () => {
+    const cfg = {
+      workflow: 'github-flow',
+      role: 'maintainer',
+      mainBranch: 'main',
+      upstream: 'upstream',
+      origin: 'origin',
+      branchPrefixes: ['feature'],
+      commitConvention: 'conventional',
+      pullRequest: { reviewers: ['org/core'], labels: ['triage'], typeLabels: false },
+    };
+    writeFileSync(join(TEST_DIR, '.contributerc.json'), JSON.stringify(cfg));
+    expect(readConfig(TEST_DIR)?.pullRequest?.reviewers).toEqual(['org/core']);
+
+    writeFileSync(
+      join(TEST_DIR, '.contributerc.json'),
+      JSON.stringify({ ...cfg, pullRequest: { labels: 'triage' } }),
+    );
+    expect(readConfig(TEST_DIR)).toBeNull();
+  });
 });
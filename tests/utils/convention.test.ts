@@ -1,12 +1,31 @@
 import { describe, expect, test } from 'bun:test';
+import type { CustomCommitConvention } from '../../src/types';
 import {
+  buildCustomCommitMessage,
   CONVENTION_FORMAT_HINTS,
   CONVENTION_LABELS,
+  getConventionLabel,
+  getCustomConventionError,
+  getCustomConventionProblems,
+  getReleaseCommitMessage,
   getValidationError,
   hasUnsupportedCommitMessageChars,
+  lintCommitMessage,
+  markBreakingHeader,
+  parseCommitHeader,
+  parseCommitMessage,
+  resolveConventionRules,
   validateCommitMessage,
 } from '../../src/utils/convention';
 
+const HOUSE_STYLE: CustomCommitConvention = {
+  name: 'Acme Style',
+  types: ['add', 'change', 'drop'],
+  emojis: { add: '✨' },
+  scopes: ['api', 'web'],
+  maxSubjectLength: 20,
+};
+
 describe('convention validator', () => {
   describe('conventional commits', () => {
     test('valid messages pass', () => {
@@ -26,6 +45,14 @@ describe('convention validator', () => {
     test('breaking changes pass', () => {
       expect(validateCommitMessage('feat!: redesign auth API', 'conventional')).toBe(true);
       expect(validateCommitMessage('fix!(auth): change error codes', 'conventional')).toBe(true);
+      expect(validateCommitMessage('feat(api)!: drop v1 routes', 'conventional')).toBe(true);
+      expect(validateCommitMessage('feat!(api)!: drop v1 routes', 'conventional')).toBe(false);
+      expect(parseCommitHeader('feat(api)!: drop v1 routes', 'conventional')).toEqual({
+        type: 'feat',
+        scope: 'api',
+        breaking: true,
+        subject: 'drop v1 routes',
+      });
     });
 
     test('scoped messages pass', () => {
@@ -73,6 +100,7 @@ describe('convention validator', () => {
     test('breaking changes pass', () => {
       expect(validateCommitMessage('📦 new!: redesign config format', 'clean-commit')).toBe(true);
       expect(validateCommitMessage('🔧 update! (sync): change default', 'clean-commit')).toBe(true);
+      expect(validateCommitMessage('🔧 update (sync)!: change default', 'clean-commit')).toBe(true);
     });
 
     test('invalid messages fail', () => {
@@ -94,6 +122,175 @@ describe('convention validator', () => {
     });
   });
 
+  describe('custom convention', () => {
+    test('valid messages pass', () => {
+      expect(validateCommitMessage('✨ add: login page', HOUSE_STYLE)).toBe(true);
+      expect(validateCommitMessage('change(api): token expiry', HOUSE_STYLE)).toBe(true);
+      expect(validateCommitMessage('drop!: legacy flags', HOUSE_STYLE)).toBe(true);
+    });
+
+    test('unknown types, scopes and emojis fail', () => {
+      expect(validateCommitMessage('feat: login page', HOUSE_STYLE)).toBe(false);
+      expect(validateCommitMessage('change(db): token expiry', HOUSE_STYLE)).toBe(false);
+      expect(validateCommitMessage('add: login page', HOUSE_STYLE)).toBe(false);
+      expect(validateCommitMessage('🔥 drop: legacy flags', HOUSE_STYLE)).toBe(false);
+    });
+
+    test('enforces subject length and required scopes', () => {
+      expect(validateCommitMessage('change: a subject that is far too long', HOUSE_STYLE)).toBe(
+        false,
+      );
+      expect(validateCommitMessage('change: fix', { ...HOUSE_STYLE, requireScope: true })).toBe(
+        false,
+      );
+    });
+
+    test('reports each broken rule', () => {
+      const problems = getCustomConventionProblems('feat(db): login', HOUSE_STYLE);
+      expect(problems).toHaveLength(2);
+      expect(problems[0]).toContain('"feat"');
+      expect(problems[1]).toContain('"db"');
+    });
+
+    test('validation errors name the convention and the broken rules', () => {
+      const errors = getValidationError(HOUSE_STYLE, 'feat: login');
+      expect(errors[0]).toContain('Acme Style');
+      expect(errors[1]).toContain('"feat"');
+    });
+
+    test('builds headers that pass validation', () => {
+      const message = buildCustomCommitMessage(HOUSE_STYLE, ['feat', 'add'], 'db', 'login page');
+      expect(message).toBe('✨ add: login page');
+      expect(validateCommitMessage(message, HOUSE_STYLE)).toBe(true);
+      expect(buildCustomCommitMessage(HOUSE_STYLE, ['feat'], 'web', 'x')).toBe('✨ add(web): x');
+    });
+
+    test('release commits follow each convention', () => {
+      expect(getReleaseCommitMessage('clean-commit', 'v1.3.0')).toBe('🚀 release: v1.3.0');
+      expect(getReleaseCommitMessage('conventional', 'v1.3.0')).toBe('chore(release): v1.3.0');
+      expect(getReleaseCommitMessage('none', 'v1.3.0')).toBe('Release v1.3.0');
+      expect(getReleaseCommitMessage({ types: ['release', 'fix'] }, 'v1.3.0')).toBe(
+        'release: v1.3.0',
+      );
+      expect(getReleaseCommitMessage(HOUSE_STYLE, 'v1.3.0')).toBe('✨ add: release v1.3.0');
+    });
+
+    test('resolves rules from config', () => {
+      expect(resolveConventionRules({ commitConvention: 'conventional' })).toBe('conventional');
+      expect(
+        resolveConventionRules({ commitConvention: 'custom', customConvention: HOUSE_STYLE }),
+      ).toBe(HOUSE_STYLE);
+      expect(resolveConventionRules({ commitConvention: 'custom' })).toBe('none');
+      expect(getConventionLabel({ types: ['add'] })).toBe(CONVENTION_LABELS.custom);
+    });
+
+    test('spec validation names the offending field', () => {
+      expect(getCustomConventionError(HOUSE_STYLE)).toBeNull();
+      expect(getCustomConventionError({ types: [] })).toContain('types');
+      expect(getCustomConventionError({ types: ['add'], emojis: { drop: '🔥' } })).toContain(
+        'emojis.drop',
+      );
+      expect(getCustomConventionError({ types: ['add'], maxSubjectLength: 0 })).toContain(
+        'maxSubjectLength',
+      );
+    });
+  });
+
+  describe('full message', () => {
+    test('parses body and footers with line numbers', () => {
+      const parsed = parseCommitMessage(
+        'feat!: drop v1 API\n\nRemove the old handlers.\n\nBREAKING CHANGE: v1 clients must upgrade\nRefs #123\nReviewed-by: Ada',
+      );
+      expect(parsed.header).toEqual({ text: 'feat!: drop v1 API', line: 1 });
+      expect(parsed.body.map((line) => line.text)).toEqual(['', 'Remove the old handlers.', '']);
+      expect(parsed.footers).toEqual([
+        { token: 'BREAKING CHANGE', value: 'v1 clients must upgrade', line: 5 },
+        { token: 'Refs', value: '#123', line: 6 },
+        { token: 'Reviewed-by', value: 'Ada', line: 7 },
+      ]);
+    });
+
+    test('drops git comments and everything below the scissors line', () => {
+      const parsed = parseCommitMessage(
+        'fix: token expiry\n# Please enter the commit message\n\nBody\n# ------------------------ >8 ------------------------\ndiff --git a/x b/x',
+      );
+      expect(parsed.body).toEqual([
+        { text: '', line: 3 },
+        { text: 'Body', line: 4 },
+      ]);
+    });
+
+    test('valid multi-line messages pass', () => {
+      expect(
+        lintCommitMessage(
+          'feat(api): add search\n\nSearch by name or tag.\n\nRefs: #42',
+          'conventional',
+        ),
+      ).toEqual([]);
+      expect(
+        lintCommitMessage(
+          'fix!: reject empty tokens\n\nBREAKING CHANGE: tokens are required',
+          'conventional',
+        ),
+      ).toEqual([]);
+    });
+
+    test('requires a blank line after the header', () => {
+      expect(lintCommitMessage('fix: token expiry\nBody text', 'conventional')).toEqual([
+        { line: 2, message: 'Leave a blank line between the header and the body' },
+      ]);
+    });
+
+    test('flags long body lines but not unbreakable ones', () => {
+      const long = 'word '.repeat(25).trim();
+      const url = `https://example.com/${'a'.repeat(120)}`;
+      const problems = lintCommitMessage(`fix: token\n\n${long}\n${url}`, 'conventional');
+      expect(problems).toHaveLength(1);
+      expect(problems[0].line).toBe(3);
+    });
+
+    test('a BREAKING CHANGE footer alone marks a breaking change', () => {
+      expect(
+        lintCommitMessage(
+          'feat: drop v1 API\n\nBREAKING CHANGE: v1 clients must upgrade',
+          'conventional',
+        ),
+      ).toEqual([]);
+    });
+
+    test('flags lowercase breaking changes and spaced footer tokens', () => {
+      const problems = lintCommitMessage(
+        'feat!: drop v1\n\nbreaking change: v1 removed\n\nRefs: #1\nReviewed by: Ada',
+        'conventional',
+      );
+      expect(problems.map((problem) => problem.line)).toEqual([3, 6]);
+    });
+
+    test('header problems are reported on line 1', () => {
+      expect(lintCommitMessage('added stuff', 'clean-commit')[0].line).toBe(1);
+      expect(lintCommitMessage('', 'conventional')).toEqual([
+        { line: 1, message: 'Header must not be empty' },
+      ]);
+    });
+
+    test('custom conventions only wrap and require blank lines when asked', () => {
+      const message = `add: login\nsecond line ${'x '.repeat(60)}`;
+      expect(lintCommitMessage(message, { types: ['add'] })).toEqual([]);
+      expect(
+        lintCommitMessage(message, {
+          types: ['add'],
+          bodyLeadingBlank: true,
+          maxBodyLineLength: 80,
+        }),
+      ).toHaveLength(2);
+    });
+
+    test('validation errors list problems with line numbers', () => {
+      const errors = getValidationError('conventional', 'fix: token\nBody');
+      expect(errors[1]).toBe('Line 2: Leave a blank line between the header and the body');
+    });
+  });
+
   describe('getValidationError', () => {
     test('returns empty for none', () => {
       expect(getValidationError('none')).toEqual([]);
@@ -129,4 +326,27 @@ describe('convention validator', () => {
       expect(hasUnsupportedCommitMessageChars('feat: update example.json parsing')).toBe(false);
     });
   });
+
+  describe('markBreakingHeader', () => {
+    test('adds the marker before the colon, after any scope', () => {
+      expect(markBreakingHeader('feat(api): drop v1 routes')).toBe('feat(api)!: drop v1 routes');
+      expect(markBreakingHeader('📦 new (api): drop v1 routes')).toBe(
+        '📦 new (api)!: drop v1 routes',
+      );
+      expect(markBreakingHeader('refactor: rename config keys')).toBe(
+        'refactor!: rename config keys',
+      );
+    });
+
+    test('leaves marked headers and free-form subjects alone', () => {
+      expect(markBreakingHeader('feat!: drop v1 routes')).toBe('feat!: drop v1 routes');
+      expect(markBreakingHeader('feat!(api): drop v1 routes')).toBe('feat!(api): drop v1 routes');
+      expect(markBreakingHeader('Drop v1 routes')).toBe('Drop v1 routes');
+    });
+
+    test('produces headers that pass validation with a breaking footer', () => {
+      const message = `${markBreakingHeader('feat(api): drop v1 routes')}\n\nBREAKING CHANGE: v1 is gone`;
+      expect(validateCommitMessage(message, 'conventional')).toBe(true);
+    });
+  });
 });
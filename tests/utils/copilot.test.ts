@@ -1,20 +1,27 @@
 import { describe, expect, it } from 'bun:test';
 import type { ContributeConfig } from '../../src/types.js';
+import { validateCommitMessage } from '../../src/utils/convention.js';
 import {
   BATCH_CONFIG,
+  buildPRTemplateHint,
+  composeCommitMessage,
   createCompactDiff,
   createRecoveryCommitGroups,
+  createRecoveryHunkGroups,
   DEFAULT_OLLAMA_CLOUD_HOST,
   DEFAULT_OLLAMA_CLOUD_MODEL,
   extractDiffStats,
   extractOllamaCloudModelIds,
   normalizeCommitGroups,
+  normalizeHunkCommitGroups,
   normalizeOllamaCloudHost,
   parseDiffByFile,
   prioritizeOllamaCloudModels,
   resolveAIConfig,
   sanitizeGeneratedCommitMessage,
+  wrapCommitBody,
 } from '../../src/utils/copilot.js';
+import { parseDiffHunks } from '../../src/utils/hunks.js';
 
 // ── Helpers ────────────────────────────────────────────────────────
 
@@ -199,6 +206,12 @@ describe('createCompactDiff', () => {
     const compact = createCompactDiff(files, raw, maxChars);
     expect(compact.length).toBeLessThanOrEqual(maxChars);
   });
+
+  it('lets callers raise the per-file budget', () => {
+    const diff = fakeDiff('src/big.ts', ['a'.repeat(1000)], []);
+    expect(createCompactDiff(['src/big.ts'], diff, 5000)).toContain('...(truncated)');
+    expect(createCompactDiff(['src/big.ts'], diff, 5000, 5000)).not.toContain('...(truncated)');
+  });
 });
 
 // ── BATCH_CONFIG ───────────────────────────────────────────────────
@@ -401,6 +414,80 @@ describe('normalizeCommitGroups', () => {
   });
 });
 
+// ── normalizeHunkCommitGroups ──────────────────────────────────────
+
+const HUNK_DIFF = [
+  'diff --git a/src/a.ts b/src/a.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/a.ts',
+  '+++ b/src/a.ts',
+  '@@ -1,3 +1,3 @@',
+  '-one',
+  '+ONE',
+  ' two',
+  ' three',
+  '@@ -20,3 +20,3 @@',
+  ' twenty',
+  '-twenty-one',
+  '+TWENTY-ONE',
+  'diff --git a/src/b.ts b/src/b.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/b.ts',
+  '+++ b/src/b.ts',
+  '@@ -1 +1 @@',
+  '-b',
+  '+B',
+].join('\n');
+
+describe('normalizeHunkCommitGroups', () => {
+  it('derives files from hunks and drops unknown and duplicate hunk ids', () => {
+    const hunks = parseDiffHunks(HUNK_DIFF);
+    const result = normalizeHunkCommitGroups(hunks, [
+      { hunks: ['h1', 'h3', 'h9'], message: 'group 1' },
+      { hunks: ['h3'], message: 'group 2' },
+    ]);
+
+    expect(result.groups).toEqual([
+      { files: ['src/a.ts', 'src/b.ts'], message: 'group 1', hunks: ['h1', 'h3'] },
+    ]);
+    expect(result.unknownHunks).toEqual(['h9']);
+    expect(result.duplicateHunks).toEqual(['h3']);
+    expect(result.unassignedHunks.map((hunk) => hunk.id)).toEqual(['h2']);
+  });
+
+  it('lets the hunks of one file land in different groups', () => {
+    const hunks = parseDiffHunks(HUNK_DIFF);
+    const result = normalizeHunkCommitGroups(hunks, [
+      { hunks: ['h2'], message: 'group 1' },
+      { hunks: ['h1', 'h3'], message: 'group 2' },
+    ]);
+
+    expect(result.groups.map((group) => group.files)).toEqual([
+      ['src/a.ts'],
+      ['src/a.ts', 'src/b.ts'],
+    ]);
+    expect(result.unassignedHunks).toEqual([]);
+  });
+});
+
+describe('createRecoveryHunkGroups', () => {
+  it('keeps leftover hunks of the same file in one group', () => {
+    const hunks = parseDiffHunks(HUNK_DIFF);
+    const groups = createRecoveryHunkGroups([hunks[0], hunks[1]], 'conventional');
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]?.files).toEqual(['src/a.ts']);
+    expect(groups[0]?.hunks).toEqual(['h1', 'h2']);
+  });
+
+  it('gives every leftover hunk a group', () => {
+    const hunks = parseDiffHunks(HUNK_DIFF);
+    const groups = createRecoveryHunkGroups(hunks);
+
+    expect(groups.flatMap((group) => group.hunks)).toEqual(['h1', 'h2', 'h3']);
+  });
+});
+
 describe('sanitizeGeneratedCommitMessage', () => {
   it('removes backticks from generated commit messages', () => {
     expect(sanitizeGeneratedCommitMessage('feat: update `example.json` loading')).toBe(
@@ -414,3 +501,74 @@ describe('sanitizeGeneratedCommitMessage', () => {
     );
   });
 });
+
+describe('wrapCommitBody', () => {
+  it('wraps long lines at 72 columns', () => {
+    const wrapped = wrapCommitBody(`${'word '.repeat(30)}end`);
+    expect(wrapped.split('\n').every((line) => line.length <= 72)).toBe(true);
+    expect(wrapped.split(/\s+/)).toHaveLength(31);
+  });
+
+  it('indents the continuation lines of list items', () => {
+    const wrapped = wrapCommitBody(`- ${'item '.repeat(20)}`);
+    const [first, second] = wrapped.split('\n');
+    expect(first?.startsWith('- item')).toBe(true);
+    expect(second?.startsWith('  item')).toBe(true);
+  });
+
+  it('keeps paragraph breaks but collapses extra blank lines', () => {
+    expect(wrapCommitBody('Why.\n\n\n\n- one\n- two')).toBe('Why.\n\n- one\n- two');
+  });
+});
+
+describe('buildPRTemplateHint', () => {
+  it('asks for the template filled in, with unverifiable checkboxes left unchecked', () => {
+    const hint = buildPRTemplateHint('## What\n\n## Checklist\n- [ ] Tests pass');
+    expect(hint).toContain('NOT the Summary/Changes/Test Plan layout');
+    expect(hint).toContain('stays "- [ ]"');
+    expect(hint.endsWith('Template:\n## What\n\n## Checklist\n- [ ] Tests pass')).toBe(true);
+  });
+});
+
+describe('composeCommitMessage', () => {
+  it('builds subject, body, and a breaking footer from a JSON reply', () => {
+    const message = composeCommitMessage(
+      JSON.stringify({
+        subject: 'feat(api): drop the `v1` routes',
+        body: 'The v1 routes were deprecated a year ago.\n\n- remove v1 handlers\n- update docs',
+        breaking: 'Clients must call /v2 instead of /v1.',
+      }),
+    );
+
+    expect(message).toBe(
+      [
+        'feat(api)!: drop the v1 routes',
+        '',
+        'The v1 routes were deprecated a year ago.',
+        '',
+        '- remove v1 handlers',
+        '- update docs',
+        '',
+        'BREAKING CHANGE: Clients must call /v2 instead of /v1.',
+      ].join('\n'),
+    );
+    expect(validateCommitMessage(message ?? '', 'conventional')).toBe(true);
+  });
+
+  it('leaves out the footer when nothing breaks', () => {
+    const message = composeCommitMessage(
+      '```json\n{"subject": "fix: handle empty input", "body": ["- return early"], "breaking": null}\n```',
+    );
+    expect(message).toBe('fix: handle empty input\n\n- return early');
+  });
+
+  it('reads plain-text replies as a subject and body', () => {
+    expect(composeCommitMessage('fix: handle empty input\n\nReturn early.')).toBe(
+      'fix: handle empty input\n\nReturn early.',
+    );
+  });
+
+  it('returns null without a subject', () => {
+    expect(composeCommitMessage('{"body": "why"}')).toBeNull();
+  });
+});
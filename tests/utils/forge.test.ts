@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  createGitHubApiForge,
+  detectForgeId,
+  fillPullRequest,
+  getForgeForUrl,
+} from '../../src/utils/forge.js';
+
+describe('detectForgeId', () => {
+  it('recognizes gitlab.com and self-hosted GitLab hosts', () => {
+    expect(detectForgeId('gitlab.com', {})).toBe('gitlab');
+    expect(detectForgeId('gitlab.example.com', {})).toBe('gitlab');
+    expect(detectForgeId('gitlab-ce.corp.local', {})).toBe('gitlab');
+  });
+
+  it('uses GITLAB_HOST for instances without gitlab in the name', () => {
+    expect(detectForgeId('git.example.com', { GITLAB_HOST: 'https://git.example.com' })).toBe(
+      'gitlab',
+    );
+    expect(detectForgeId('git.example.com', { GITLAB_HOST: 'other.example.com' })).toBe('github');
+  });
+
+  it('recognizes Codeberg, Gitea/Forgejo hosts, and hosts with a saved token', () => {
+    expect(detectForgeId('codeberg.org', {})).toBe('gitea');
+    expect(detectForgeId('gitea.example.com', {})).toBe('gitea');
+    expect(detectForgeId('forgejo-dev.corp.local', {})).toBe('gitea');
+    expect(detectForgeId('git.example.com', {}, ['git.example.com'])).toBe('gitea');
+  });
+
+  it('treats other hosts as GitHub', () => {
+    expect(detectForgeId('github.com', {})).toBe('github');
+    expect(detectForgeId('notgitlab.io', {})).toBe('github');
+  });
+});
+
+describe('getForgeForUrl', () => {
+  it('builds the manual PR link for GitHub', () => {
+    const forge = getForgeForUrl('git@github.com:owner/repo.git');
+
+    expect(forge.id).toBe('github');
+    expect(forge.formatRequest(12)).toBe('PR #12');
+    expect(forge.getNewRequestUrl('main', 'feature/x')).toBe(
+      'https://github.com/owner/repo/compare/main...feature/x?expand=1',
+    );
+  });
+
+  it('builds the manual MR link for GitLab', () => {
+    const forge = getForgeForUrl('https://gitlab.com/group/sub/repo.git');
+
+    expect(forge.id).toBe('gitlab');
+    expect(forge.cli).toBe('glab');
+    expect(forge.formatRequest(7)).toBe('MR !7');
+    const url = new URL(forge.getNewRequestUrl('main', 'feature/x') ?? '');
+    expect(url.pathname).toBe('/group/sub/repo/-/merge_requests/new');
+    expect(url.searchParams.get('merge_request[source_branch]')).toBe('feature/x');
+    expect(url.searchParams.get('merge_request[target_branch]')).toBe('main');
+  });
+
+  it('uses the Gitea API and compare page for Gitea/Forgejo', () => {
+    const forge = getForgeForUrl('http://git.example.com:3000/owner/repo.git', ['git.example.com']);
+
+    expect(forge.id).toBe('gitea');
+    expect(forge.cli).toBeNull();
+    expect(forge.formatRequest(3)).toBe('PR #3');
+    expect(forge.getNewRequestUrl('main', 'feature/x')).toBe(
+      'http://git.example.com:3000/owner/repo/compare/main...feature/x',
+    );
+    expect(getForgeForUrl('git@codeberg.org:owner/repo.git').getNewRequestUrl('main', 'x')).toBe(
+      'https://codeberg.org/owner/repo/compare/main...x',
+    );
+  });
+
+  it('keeps the GitHub links when going through the REST API', () => {
+    const forge = createGitHubApiForge(
+      { host: 'ghe.corp.example', owner: 'owner', repo: 'repo' },
+      'token',
+    );
+
+    expect(forge.id).toBe('github');
+    expect(forge.cli).toBeNull();
+    expect(forge.client).toBe('GitHub API');
+    expect(forge.getNewRequestUrl('main', 'x')).toBe(
+      'https://ghe.corp.example/owner/repo/compare/main...x?expand=1',
+    );
+  });
+
+  it('falls back to GitHub without a remote', () => {
+    const forge = getForgeForUrl(null);
+    expect(forge.id).toBe('github');
+    expect(forge.getNewRequestUrl('main', 'feature/x')).toBeNull();
+  });
+});
+
+describe('fillPullRequest', () => {
+  it('uses the commit for a single-commit branch', () => {
+    expect(fillPullRequest('feature/x', ['feat: add x\n\nWhy x matters.'])).toEqual({
+      title: 'feat: add x',
+      body: 'Why x matters.',
+    });
+  });
+
+  it('lists the subjects for several commits', () => {
+    expect(fillPullRequest('feature/x', ['feat: add x\n\nBody', 'fix: tweak x'])).toEqual({
+      title: 'feature/x',
+      body: '- feat: add x\n- fix: tweak x',
+    });
+  });
+});
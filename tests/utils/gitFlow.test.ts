@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'bun:test';
+import type { ContributeConfig } from '../../src/types.js';
+import {
+  getLifecycleBranchName,
+  getLifecycleSourceBranch,
+  getLifecycleTagName,
+  getLifecycleTargetBranches,
+  normalizeLifecycleVersion,
+  parseLifecycleBranch,
+} from '../../src/utils/gitFlow.js';
+
+const gitFlowConfig: ContributeConfig = {
+  workflow: 'git-flow',
+  role: 'maintainer',
+  mainBranch: 'main',
+  devBranch: 'develop',
+  upstream: 'upstream',
+  origin: 'origin',
+  branchPrefixes: ['feature', 'fix'],
+  commitConvention: 'clean-commit',
+};
+
+describe('normalizeLifecycleVersion', () => {
+  it('accepts plain semantic versions', () => {
+    expect(normalizeLifecycleVersion('1.2.0')).toBe('1.2.0');
+  });
+
+  it('strips a leading v', () => {
+    expect(normalizeLifecycleVersion('v1.2.0')).toBe('1.2.0');
+    expect(normalizeLifecycleVersion(' V2.0.0 ')).toBe('2.0.0');
+  });
+
+  it('accepts prerelease and build metadata', () => {
+    expect(normalizeLifecycleVersion('1.2.0-beta.1')).toBe('1.2.0-beta.1');
+    expect(normalizeLifecycleVersion('1.2.0+build.5')).toBe('1.2.0+build.5');
+  });
+
+  it('rejects non-semver input', () => {
+    expect(normalizeLifecycleVersion('')).toBeNull();
+    expect(normalizeLifecycleVersion('1.2')).toBeNull();
+    expect(normalizeLifecycleVersion('next')).toBeNull();
+    expect(normalizeLifecycleVersion('1.2.0 beta')).toBeNull();
+  });
+});
+
+describe('lifecycle naming', () => {
+  it('builds branch and tag names', () => {
+    expect(getLifecycleBranchName('release', '1.2.0')).toBe('release/1.2.0');
+    expect(getLifecycleBranchName('hotfix', '1.2.1')).toBe('hotfix/1.2.1');
+    expect(getLifecycleTagName('1.2.0')).toBe('v1.2.0');
+  });
+});
+
+describe('parseLifecycleBranch', () => {
+  it('parses release and hotfix branches', () => {
+    expect(parseLifecycleBranch('release/1.2.0')).toEqual({ kind: 'release', version: '1.2.0' });
+    expect(parseLifecycleBranch('hotfix/v1.2.1')).toEqual({ kind: 'hotfix', version: '1.2.1' });
+  });
+
+  it('returns null for other branches', () => {
+    expect(parseLifecycleBranch('feature/release-notes')).toBeNull();
+    expect(parseLifecycleBranch('release/next')).toBeNull();
+    expect(parseLifecycleBranch('main')).toBeNull();
+  });
+});
+
+describe('lifecycle branches', () => {
+  it('starts releases from the dev branch and hotfixes from main', () => {
+    expect(getLifecycleSourceBranch('release', gitFlowConfig)).toBe('develop');
+    expect(getLifecycleSourceBranch('hotfix', gitFlowConfig)).toBe('main');
+  });
+
+  it('merges into main first, then the dev branch', () => {
+    expect(getLifecycleTargetBranches(gitFlowConfig)).toEqual(['main', 'develop']);
+  });
+});
@@ -0,0 +1,280 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import {
+  checkGiteaAuth,
+  checkGiteaPermissions,
+  createGiteaPR,
+  findGiteaPR,
+  type GiteaRemote,
+  getGiteaBaseUrl,
+  getGiteaLabelNames,
+  isGiteaHostName,
+  isGiteaRepoFork,
+  probeGiteaVersion,
+} from '../../src/utils/gitea.js';
+
+const TOKEN = 'gitea-test-token';
+
+interface Pull {
+  number: number;
+  html_url: string;
+  title: string;
+  body: string;
+  state: string;
+  merged: boolean;
+  head: { ref: string; repo: { full_name: string } };
+  base: { ref: string };
+}
+
+// Stand-in for a Gitea/Forgejo instance: "alice/app" is a fork of "team/app",
+// "team/tool" is a plain repo alice can push to
+let server: ReturnType<typeof Bun.serve>;
+let baseUrl = '';
+let pulls: Record<string, Pull[]> = {};
+let requests: string[] = [];
+let bodies: Record<string, unknown> = {};
+
+function pull(number: number, ref: string, headRepo: string, state: string, merged = false): Pull {
+  return {
+    number,
+    html_url: `${baseUrl}/pulls/${number}`,
+    title: `PR ${number}`,
+    body: '',
+    state,
+    merged,
+    head: { ref, repo: { full_name: headRepo } },
+    base: { ref: 'main' },
+  };
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      requests.push(`${req.method} ${url.pathname}${url.search}`);
+      if (url.pathname === '/api/v1/version') return Response.json({ version: '1.22.0' });
+      if (req.headers.get('authorization') !== `token ${TOKEN}`) {
+        return Response.json({ message: 'token is required' }, { status: 401 });
+      }
+
+      if (url.pathname === '/api/v1/user') return Response.json({ login: 'alice' });
+      if (url.pathname === '/api/v1/repos/team/app/labels') {
+        return Response.json([
+          { id: 11, name: 'bug' },
+          { id: 12, name: 'enhancement' },
+        ]);
+      }
+      if (url.pathname === '/api/v1/repos/team/app/milestones') {
+        return Response.json([{ id: 5, title: 'v2' }]);
+      }
+      if (req.method === 'POST') {
+        bodies[url.pathname] = await req.clone().json();
+        if (url.pathname.endsWith('/requested_reviewers')) return Response.json([]);
+      }
+      if (url.pathname === '/api/v1/repos/alice/app') {
+        return Response.json({
+          full_name: 'alice/app',
+          fork: true,
+          parent: { full_name: 'team/app' },
+          permissions: { admin: true, push: true, pull: true },
+        });
+      }
+      if (url.pathname === '/api/v1/repos/team/app') {
+        return Response.json({
+          full_name: 'team/app',
+          fork: false,
+          permissions: { admin: false, push: false, pull: true },
+        });
+      }
+      if (url.pathname === '/api/v1/repos/team/tool') {
+        return Response.json({
+          full_name: 'team/tool',
+          fork: false,
+          permissions: { admin: false, push: true, pull: true },
+        });
+      }
+
+      const match = url.pathname.match(/^\/api\/v1\/repos\/([^/]+\/[^/]+)\/pulls$/);
+      if (match) {
+        pulls[match[1]] ??= [];
+        const repoPulls = pulls[match[1]];
+        if (req.method === 'POST') {
+          const body = (await req.json()) as {
+            base: string;
+            head: string;
+            title: string;
+            body: string;
+          };
+          const [owner, ref] = body.head.includes(':')
+            ? body.head.split(':')
+            : [match[1].split('/')[0], body.head];
+          const created = {
+            ...pull(repoPulls.length + 1, ref, `${owner}/app`, 'open'),
+            title: body.title,
+            body: body.body,
+            base: { ref: body.base },
+          };
+          repoPulls.push(created);
+          return Response.json(created, { status: 201 });
+        }
+        const state = url.searchParams.get('state');
+        return Response.json(repoPulls.filter((p) => state === 'all' || p.state === state));
+      }
+      return Response.json({ message: 'not found' }, { status: 404 });
+    },
+  });
+  baseUrl = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  pulls = {};
+  requests = [];
+  bodies = {};
+});
+
+function remote(owner: string, repo: string, token: string | null = TOKEN): GiteaRemote {
+  return { owner, repo, baseUrl, token };
+}
+
+describe('host detection', () => {
+  it('recognizes Codeberg and hosts named after Gitea or Forgejo', () => {
+    expect(isGiteaHostName('codeberg.org')).toBe(true);
+    expect(isGiteaHostName('gitea.example.com')).toBe(true);
+    expect(isGiteaHostName('code.forgejo.org')).toBe(true);
+    expect(isGiteaHostName('github.com')).toBe(false);
+    expect(isGiteaHostName('mygitea.example.com')).toBe(false);
+  });
+
+  it('derives the web root from HTTP and SSH remotes', () => {
+    expect(getGiteaBaseUrl('http://user@git.local:3000/o/r.git', 'git.local')).toBe(
+      'http://git.local:3000',
+    );
+    expect(getGiteaBaseUrl('git@codeberg.org:o/r.git', 'codeberg.org')).toBe(
+      'https://codeberg.org',
+    );
+  });
+
+  it('probes the version endpoint', async () => {
+    expect(await probeGiteaVersion(baseUrl)).toBe('1.22.0');
+    expect(await probeGiteaVersion(`${baseUrl}/missing`)).toBeNull();
+  });
+});
+
+describe('repository lookups', () => {
+  it('checks the token', async () => {
+    expect(await checkGiteaAuth(remote('alice', 'app'))).toBe(true);
+    expect(await checkGiteaAuth(remote('alice', 'app', 'wrong'))).toBe(false);
+    expect(await checkGiteaAuth(remote('alice', 'app', null))).toBe(false);
+  });
+
+  it('detects forks', async () => {
+    expect(await isGiteaRepoFork(remote('alice', 'app'))).toBe(true);
+    expect(await isGiteaRepoFork(remote('team', 'tool'))).toBe(false);
+    expect(await isGiteaRepoFork(remote('nobody', 'missing'))).toBeNull();
+  });
+
+  it('reads repo permissions', async () => {
+    expect(
+      await checkGiteaPermissions(remote('team', 'tool'), { owner: 'team', repo: 'tool' }),
+    ).toEqual({ admin: false, push: true, pull: true });
+    expect(
+      await checkGiteaPermissions(remote('team', 'tool'), { owner: 'nobody', repo: 'missing' }),
+    ).toBeNull();
+  });
+});
+
+describe('pull requests', () => {
+  it('opens PRs from a fork against its parent', async () => {
+    const result = await createGiteaPR(remote('alice', 'app'), {
+      base: 'main',
+      head: 'feature/login',
+      title: 'Add login',
+      body: 'Details',
+      draft: true,
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBe(`${baseUrl}/pulls/1`);
+    expect(pulls['team/app'][0]).toMatchObject({
+      title: 'WIP: Add login',
+      body: 'Details',
+      head: { ref: 'feature/login', repo: { full_name: 'alice/app' } },
+      base: { ref: 'main' },
+    });
+    expect(requests).toContain('POST /api/v1/repos/team/app/pulls');
+  });
+
+  it('adds labels and the milestone by ID, assignees, and reviewers', async () => {
+    const result = await createGiteaPR(remote('alice', 'app'), {
+      base: 'main',
+      head: 'feature/login',
+      title: 'Add login',
+      body: '',
+      metadata: {
+        reviewers: ['bob', 'team/core'],
+        labels: ['enhancement', 'ui'],
+        assignees: ['@me'],
+        milestone: 'v2',
+      },
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(bodies['/api/v1/repos/team/app/pulls']).toMatchObject({
+      labels: [12],
+      assignees: ['alice'],
+      milestone: 5,
+    });
+    expect(bodies['/api/v1/repos/team/app/pulls/1/requested_reviewers']).toEqual({
+      reviewers: ['bob'],
+      team_reviewers: ['core'],
+    });
+    expect(result.warnings).toEqual(['Could not add label "ui": no such label']);
+    expect(await getGiteaLabelNames(remote('alice', 'app'))).toEqual(['bug', 'enhancement']);
+  });
+
+  it('reports API errors as a failed command', async () => {
+    const result = await createGiteaPR(remote('alice', 'app', 'wrong'), {
+      base: 'main',
+      head: 'feature/login',
+      title: 'Add login',
+      body: '',
+    });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain('Could not read alice/app');
+  });
+
+  it('finds the open PR for a head branch', async () => {
+    pulls['team/app'] = [
+      pull(1, 'feature/login', 'bob/app', 'open'),
+      pull(2, 'feature/login', 'alice/app', 'open'),
+      pull(3, 'feature/other', 'alice/app', 'open'),
+    ];
+
+    const found = await findGiteaPR(remote('alice', 'app'), 'feature/login', 'open');
+    expect(found).toEqual({
+      number: 2,
+      url: `${baseUrl}/pulls/2`,
+      title: 'PR 2',
+      state: 'open',
+    });
+    expect(await findGiteaPR(remote('alice', 'app'), 'feature/none', 'open')).toBeNull();
+  });
+
+  it('only counts merged PRs among the closed ones', async () => {
+    pulls['team/tool'] = [
+      pull(4, 'fix/crash', 'team/tool', 'closed'),
+      pull(5, 'fix/crash', 'team/tool', 'closed', true),
+    ];
+
+    const found = await findGiteaPR(remote('team', 'tool'), 'fix/crash', 'merged');
+    expect(found?.number).toBe(5);
+    expect(
+      requests.some((r) => r.startsWith('GET /api/v1/repos/team/tool/pulls?state=closed')),
+    ).toBe(true);
+  });
+});
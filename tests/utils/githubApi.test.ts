@@ -0,0 +1,328 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { existsSync, mkdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  checkGitHubApiAuth,
+  checkGitHubApiPermissions,
+  createGitHubApiPR,
+  findGitHubApiPR,
+  type GitHubApiRemote,
+  getGitHubApiLabelNames,
+  getGitHubApiUrl,
+  isGitHubApiRepoFork,
+  isGitHubHostName,
+  resolveGitHubToken,
+} from '../../src/utils/githubApi.js';
+import { setGitHubToken } from '../../src/utils/secrets.js';
+
+const TOKEN = 'ghp_test_token';
+
+interface Pull {
+  number: number;
+  html_url: string;
+  title: string;
+  body: string;
+  state: string;
+  merged_at: string | null;
+  draft: boolean;
+  head: string;
+  base: string;
+}
+
+// Stand-in for the GitHub REST API: "alice/app" is a fork of "team/app",
+// "team/tool" is a plain repo alice can push to
+let server: ReturnType<typeof Bun.serve>;
+let apiUrl = '';
+let pulls: Record<string, Pull[]> = {};
+let requests: string[] = [];
+let bodies: Record<string, unknown> = {};
+
+function pull(number: number, head: string, state: string, mergedAt: string | null = null): Pull {
+  return {
+    number,
+    html_url: `https://github.com/pulls/${number}`,
+    title: `PR ${number}`,
+    body: '',
+    state,
+    merged_at: mergedAt,
+    draft: false,
+    head,
+    base: 'main',
+  };
+}
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+      requests.push(`${req.method} ${url.pathname}${url.search}`);
+      if (req.headers.get('authorization') !== `Bearer ${TOKEN}`) {
+        return Response.json({ message: 'Bad credentials' }, { status: 401 });
+      }
+
+      if (url.pathname === '/user') return Response.json({ login: 'alice' });
+      if (url.pathname === '/repos/alice/app') {
+        return Response.json({
+          full_name: 'alice/app',
+          fork: true,
+          parent: { owner: { login: 'team' }, name: 'app' },
+          permissions: { admin: true, push: true, pull: true },
+        });
+      }
+      if (url.pathname === '/repos/team/tool') {
+        return Response.json({
+          full_name: 'team/tool',
+          fork: false,
+          permissions: { admin: false, push: true, pull: true },
+        });
+      }
+
+      if (url.pathname.endsWith('/milestones')) {
+        const open = url.pathname === '/repos/team/app/milestones';
+        return Response.json(open ? [{ number: 3, title: 'v2' }] : []);
+      }
+      if (url.pathname === '/repos/team/app/labels') {
+        return Response.json([{ name: 'bug' }, { name: 'enhancement' }]);
+      }
+      if (url.pathname === '/repos/team/app/pulls/1/requested_reviewers') {
+        return Response.json(
+          { message: 'Reviews may only be requested from collaborators.' },
+          { status: 422 },
+        );
+      }
+      if (req.method === 'PATCH' || url.pathname.endsWith('/requested_reviewers')) {
+        bodies[`${req.method} ${url.pathname}`] = await req.json();
+        return Response.json({});
+      }
+
+      const match = url.pathname.match(/^\/repos\/([^/]+\/[^/]+)\/pulls$/);
+      if (match) {
+        pulls[match[1]] ??= [];
+        const repoPulls = pulls[match[1]];
+        if (req.method === 'POST') {
+          const body = (await req.json()) as Pull;
+          if (repoPulls.some((p) => p.head === body.head && p.state === 'open')) {
+            return Response.json(
+              { message: `A pull request already exists for ${body.head}.` },
+              { status: 422 },
+            );
+          }
+          const created = { ...pull(repoPulls.length + 1, body.head, 'open'), ...body };
+          repoPulls.push(created);
+          return Response.json(created, { status: 201 });
+        }
+        const state = url.searchParams.get('state');
+        const head = url.searchParams.get('head');
+        return Response.json(repoPulls.filter((p) => p.state === state && p.head === head));
+      }
+      return Response.json({ message: 'Not Found' }, { status: 404 });
+    },
+  });
+  apiUrl = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+beforeEach(() => {
+  pulls = {};
+  requests = [];
+  bodies = {};
+});
+
+function remote(owner: string, repo: string, token: string | null = TOKEN): GitHubApiRemote {
+  return { owner, repo, apiUrl, token };
+}
+
+describe('hosts and tokens', () => {
+  let secretsDir = '';
+
+  beforeEach(() => {
+    secretsDir = join(tmpdir(), `cn-github-api-test-${Date.now()}`);
+    mkdirSync(secretsDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(secretsDir)) rmSync(secretsDir, { recursive: true, force: true });
+  });
+
+  it('uses the Enterprise API root for hosts other than github.com', () => {
+    expect(getGitHubApiUrl('github.com')).toBe('https://api.github.com');
+    expect(getGitHubApiUrl('GHE.corp.example')).toBe('https://ghe.corp.example/api/v3');
+  });
+
+  it('recognizes GitHub hosts by name', () => {
+    expect(isGitHubHostName('github.com')).toBe(true);
+    expect(isGitHubHostName('acme.ghe.com')).toBe(true);
+    expect(isGitHubHostName('github.corp.example')).toBe(true);
+    expect(isGitHubHostName('git.mycorp.example')).toBe(false);
+    expect(isGitHubHostName('mygithub.example')).toBe(false);
+  });
+
+  it('prefers GH_TOKEN, then GITHUB_TOKEN, then the saved token', async () => {
+    await setGitHubToken('github.com', 'saved', secretsDir);
+
+    const env = { GH_TOKEN: 'gh', GITHUB_TOKEN: 'github' };
+    expect(await resolveGitHubToken('github.com', env, secretsDir)).toBe('gh');
+    expect(await resolveGitHubToken('github.com', { GITHUB_TOKEN: 'github' }, secretsDir)).toBe(
+      'github',
+    );
+    expect(await resolveGitHubToken('github.com', { GH_TOKEN: ' ' }, secretsDir)).toBe('saved');
+    expect(await resolveGitHubToken('ghe.corp.example', {}, secretsDir)).toBeNull();
+  });
+
+  it('reads only the Enterprise variables on Enterprise hosts', async () => {
+    const env = { GH_TOKEN: 'gh', GH_ENTERPRISE_TOKEN: 'enterprise' };
+    expect(await resolveGitHubToken('ghe.corp.example', env, secretsDir)).toBe('enterprise');
+    expect(await resolveGitHubToken('github.com', env, secretsDir)).toBe('gh');
+  });
+
+  it('never sends a github.com token to another host', async () => {
+    await setGitHubToken('ghe.corp.example', 'saved-ghe', secretsDir);
+
+    expect(await resolveGitHubToken('ghe.corp.example', { GH_TOKEN: 'gh' })).toBeNull();
+    expect(
+      await resolveGitHubToken('git.mycorp.example', { GITHUB_TOKEN: 'github' }, secretsDir),
+    ).toBeNull();
+    expect(await resolveGitHubToken('ghe.corp.example', { GH_TOKEN: 'gh' }, secretsDir)).toBe(
+      'saved-ghe',
+    );
+  });
+});
+
+describe('repository lookups', () => {
+  it('checks the token', async () => {
+    expect(await checkGitHubApiAuth(remote('alice', 'app'))).toBe(true);
+    expect(await checkGitHubApiAuth(remote('alice', 'app', 'wrong'))).toBe(false);
+    expect(await checkGitHubApiAuth(remote('alice', 'app', null))).toBe(false);
+  });
+
+  it('detects forks', async () => {
+    expect(await isGitHubApiRepoFork(remote('alice', 'app'))).toBe(true);
+    expect(await isGitHubApiRepoFork(remote('team', 'tool'))).toBe(false);
+    expect(await isGitHubApiRepoFork(remote('nobody', 'missing'))).toBeNull();
+  });
+
+  it('reads repo permissions', async () => {
+    expect(
+      await checkGitHubApiPermissions(remote('team', 'tool'), { owner: 'team', repo: 'tool' }),
+    ).toEqual({ admin: false, push: true, pull: true });
+    expect(
+      await checkGitHubApiPermissions(remote('team', 'tool'), { owner: 'nobody', repo: 'x' }),
+    ).toBeNull();
+  });
+});
+
+describe('pull requests', () => {
+  it('opens draft PRs from a fork against its parent', async () => {
+    const result = await createGitHubApiPR(remote('alice', 'app'), {
+      base: 'main',
+      head: 'feature/login',
+      title: 'Add login',
+      body: 'Details',
+      draft: true,
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout.trim()).toBe('https://github.com/pulls/1');
+    expect(pulls['team/app'][0]).toMatchObject({
+      head: 'alice:feature/login',
+      base: 'main',
+      title: 'Add login',
+      body: 'Details',
+      draft: true,
+    });
+  });
+
+  it('adds labels, assignees, the milestone, and reviewers after opening the PR', async () => {
+    const result = await createGitHubApiPR(remote('team', 'tool'), {
+      base: 'main',
+      head: 'fix/crash',
+      title: 'Fix crash',
+      body: '',
+      metadata: {
+        reviewers: ['bob', 'team/core'],
+        labels: ['bug'],
+        assignees: ['@me', 'carol'],
+        milestone: 'v2',
+      },
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(bodies['PATCH /repos/team/tool/issues/1']).toEqual({
+      labels: ['bug'],
+      assignees: ['alice', 'carol'],
+    });
+    expect(bodies['POST /repos/team/tool/pulls/1/requested_reviewers']).toEqual({
+      reviewers: ['bob'],
+      team_reviewers: ['core'],
+    });
+    expect(result.warnings).toEqual([
+      'Could not add milestone "v2": no open milestone with that title',
+    ]);
+  });
+
+  it('reports metadata that could not be added as warnings', async () => {
+    const result = await createGitHubApiPR(remote('alice', 'app'), {
+      base: 'main',
+      head: 'feature/login',
+      title: 'Add login',
+      body: '',
+      metadata: { reviewers: ['bob'], labels: [], assignees: [], milestone: 'v2' },
+    });
+
+    expect(result.exitCode).toBe(0);
+    expect(bodies['PATCH /repos/team/app/issues/1']).toEqual({ milestone: 3 });
+    expect(result.warnings).toEqual([
+      'Could not add reviewers: GitHub request failed (422): Reviews may only be requested from collaborators.',
+    ]);
+    expect(await getGitHubApiLabelNames(remote('alice', 'app'))).toEqual(['bug', 'enhancement']);
+  });
+
+  it('passes API errors through as a failed command', async () => {
+    pulls['team/tool'] = [pull(1, 'team:fix/crash', 'open')];
+
+    const result = await createGitHubApiPR(remote('team', 'tool'), {
+      base: 'main',
+      head: 'fix/crash',
+      title: 'Fix crash',
+      body: '',
+    });
+
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toBe(
+      'GitHub request failed (422): A pull request already exists for team:fix/crash.',
+    );
+  });
+
+  it('finds the open PR for a head branch', async () => {
+    pulls['team/app'] = [
+      pull(2, 'bob:feature/login', 'open'),
+      pull(3, 'alice:feature/login', 'open'),
+    ];
+
+    expect(await findGitHubApiPR(remote('alice', 'app'), 'feature/login', 'open')).toEqual({
+      number: 3,
+      url: 'https://github.com/pulls/3',
+      title: 'PR 3',
+      state: 'OPEN',
+    });
+    expect(await findGitHubApiPR(remote('alice', 'app'), 'feature/none', 'open')).toBeNull();
+  });
+
+  it('only counts merged PRs among the closed ones', async () => {
+    pulls['team/tool'] = [
+      pull(4, 'team:fix/crash', 'closed'),
+      pull(5, 'team:fix/crash', 'closed', '2026-01-01T00:00:00Z'),
+    ];
+
+    const found = await findGitHubApiPR(remote('team', 'tool'), 'fix/crash', 'merged');
+    expect(found).toMatchObject({ number: 5, state: 'MERGED' });
+    expect(requests).toContain(
+      'GET /repos/team/tool/pulls?head=team%3Afix%2Fcrash&state=closed&sort=updated&direction=desc&per_page=30',
+    );
+  });
+});
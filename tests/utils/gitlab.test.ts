@@ -0,0 +1,155 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { chmodSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  accessLevelToPermissions,
+  checkGitLabPermissions,
+  checkGlabAuth,
+  createMR,
+  getGitLabLabelNames,
+  getGitLabRepoInfo,
+  getMergedMRForBranch,
+  getMRForBranch,
+  isGitLabRepoFork,
+} from '../../src/utils/gitlab.js';
+
+// A fake `glab` on PATH: it logs its arguments and prints the canned reply
+// for the command from a file, or fails when there is none
+const FAKE_GLAB = `#!/bin/sh
+echo "$*" >> "$FAKE_GLAB_DIR/calls.log"
+case "$1" in
+  api|auth) key="$1" ;;
+  *) key="$1-$2" ;;
+esac
+case " $* " in
+  *" --merged "*) key="$key-merged" ;;
+esac
+[ -f "$FAKE_GLAB_DIR/$key.json" ] || exit 1
+cat "$FAKE_GLAB_DIR/$key.json"
+`;
+
+let dir = '';
+const originalPath = process.env.PATH;
+
+function reply(key: string, body: unknown): void {
+  writeFileSync(join(dir, `${key}.json`), JSON.stringify(body));
+}
+
+function calls(): string[] {
+  return readFileSync(join(dir, 'calls.log'), 'utf-8').trim().split('\n');
+}
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), 'cn-fake-glab-'));
+  writeFileSync(join(dir, 'glab'), FAKE_GLAB);
+  chmodSync(join(dir, 'glab'), 0o755);
+  process.env.PATH = `${dir}:${originalPath}`;
+  process.env.FAKE_GLAB_DIR = dir;
+});
+
+afterAll(() => {
+  process.env.PATH = originalPath;
+  delete process.env.FAKE_GLAB_DIR;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  for (const file of ['calls.log', 'repo-view.json', 'mr-list.json', 'mr-list-merged.json']) {
+    rmSync(join(dir, file), { force: true });
+  }
+  writeFileSync(join(dir, 'calls.log'), '');
+});
+
+describe('glab wrappers', () => {
+  it('checks the login for the remote host', async () => {
+    expect(await checkGlabAuth('gitlab.example.com')).toBe(false);
+    reply('auth', {});
+    expect(await checkGlabAuth('gitlab.example.com')).toBe(true);
+    expect(calls().at(-1)).toBe('auth status --hostname gitlab.example.com');
+  });
+
+  it('detects forks and reads the project path', async () => {
+    reply('repo-view', { path_with_namespace: 'group/sub/app', forked_from_project: { id: 1 } });
+    expect(await isGitLabRepoFork()).toBe(true);
+    expect(await getGitLabRepoInfo()).toEqual({ owner: 'group/sub', repo: 'app' });
+
+    reply('repo-view', { path_with_namespace: 'group/app', forked_from_project: null });
+    expect(await isGitLabRepoFork()).toBe(false);
+  });
+
+  it('maps project access levels to permissions', async () => {
+    reply('api', { permissions: { project_access: null, group_access: { access_level: 30 } } });
+    expect(await checkGitLabPermissions('group/sub', 'app')).toEqual({
+      admin: false,
+      push: true,
+      pull: true,
+    });
+    expect(calls().at(-1)).toBe('api projects/group%2Fsub%2Fapp');
+    expect(await checkGitLabPermissions('group;rm', 'app')).toBeNull();
+
+    expect(accessLevelToPermissions({ project_access: { access_level: 40 } })?.admin).toBe(true);
+    expect(accessLevelToPermissions({ project_access: { access_level: 20 } })?.push).toBe(false);
+  });
+
+  it('finds open and merged MRs by source branch', async () => {
+    expect(await getMRForBranch('feature/x')).toBeNull();
+
+    reply('mr-list', [
+      {
+        iid: 4,
+        web_url: 'https://gitlab.com/g/app/-/merge_requests/4',
+        title: 'Open',
+        state: 'opened',
+      },
+    ]);
+    reply('mr-list-merged', []);
+    expect(await getMRForBranch('feature/x')).toEqual({
+      number: 4,
+      url: 'https://gitlab.com/g/app/-/merge_requests/4',
+      title: 'Open',
+      state: 'opened',
+    });
+    expect(await getMergedMRForBranch('feature/x')).toBeNull();
+    expect(calls().at(-1)).toBe(
+      'mr list --source-branch feature/x --per-page 1 --output json --merged',
+    );
+  });
+
+  it('creates MRs without prompting', async () => {
+    reply('mr-create', 'https://gitlab.com/g/app/-/merge_requests/5');
+    const result = await createMR({ base: 'main', title: 'Add it', body: 'Body', draft: true });
+
+    expect(result.exitCode).toBe(0);
+    expect(calls().at(-1)).toBe(
+      'mr create --target-branch main --title Add it --description Body --yes --draft',
+    );
+  });
+
+  it('passes reviewers, labels, assignees, and the milestone to glab', async () => {
+    reply('mr-create', 'https://gitlab.com/g/app/-/merge_requests/6');
+    await createMR({
+      base: 'main',
+      title: 'Add it',
+      body: 'Body',
+      metadata: {
+        reviewers: ['alice'],
+        labels: ['bug', 'ui'],
+        assignees: ['@me'],
+        milestone: 'v2',
+        project: 'Roadmap',
+      },
+    });
+
+    expect(calls().at(-1)).toBe(
+      'mr create --target-branch main --title Add it --description Body --reviewer alice --label bug --label ui --assignee @me --milestone v2 --yes',
+    );
+  });
+
+  it('lists the project labels', async () => {
+    reply('api', [{ name: 'bug' }, { name: 'enhancement' }]);
+
+    expect(await getGitLabLabelNames()).toEqual(['bug', 'enhancement']);
+    expect(calls().at(-1)).toBe('api projects/:fullpath/labels?per_page=100');
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  buildHunkPatch,
+  formatHunkLabel,
+  formatHunksAsDiff,
+  formatHunksForAI,
+  parseDiffHunks,
+  parseEditedHunk,
+  splitHunk,
+} from '../../src/utils/hunks.js';
+
+const MODIFIED = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -1,4 +1,5 @@ export function main() {',
+  '+import { a } from "./a";',
+  ' one',
+  ' two',
+  ' three',
+  ' four',
+  '@@ -10,4 +11,3 @@',
+  ' ten',
+  '-eleven',
+  ' twelve',
+  ' thirteen',
+  '@@ -30,3 +30,4 @@',
+  ' thirty',
+  '+thirty-a',
+  ' thirty-one',
+  ' thirty-two',
+].join('\n');
+
+const CREATED = [
+  'diff --git a/src/new.ts b/src/new.ts',
+  'new file mode 100644',
+  'index 0000000..2222222',
+  '--- /dev/null',
+  '+++ b/src/new.ts',
+  '@@ -0,0 +1,2 @@',
+  '+first',
+  '+second',
+].join('\n');
+
+// What getFullDiffForFiles produces for an untracked file
+const UNTRACKED = [
+  'diff --git a/notes.txt b/notes.txt',
+  'new file',
+  '--- /dev/null',
+  '+++ b/notes.txt',
+  '+hello',
+].join('\n');
+
+// Two changes separated by three unchanged lines
+const SPLITTABLE = [
+  'diff --git a/list.txt b/list.txt',
+  'index 1111111..2222222 100644',
+  '--- a/list.txt',
+  '+++ b/list.txt',
+  '@@ -2,9 +2,9 @@',
+  ' 2',
+  ' 3',
+  ' 4',
+  '-5',
+  '+five',
+  ' 6',
+  ' 7',
+  '-8',
+  '+eight',
+  ' 9',
+  ' 10',
+].join('\n');
+
+describe('parseDiffHunks', () => {
+  it('splits a modified file into one hunk per @@ section', () => {
+    const hunks = parseDiffHunks(MODIFIED);
+
+    expect(hunks.map((hunk) => hunk.id)).toEqual(['h1', 'h2', 'h3']);
+    expect(hunks.every((hunk) => hunk.file === 'src/app.ts' && !hunk.wholeFile)).toBe(true);
+    expect(hunks[1]).toMatchObject({
+      oldStart: 10,
+      oldLines: 4,
+      newStart: 11,
+      newLines: 3,
+      added: 0,
+      removed: 1,
+    });
+    expect(hunks[0]?.fileHeader).toBe(MODIFIED.split('\n').slice(0, 4).join('\n'));
+    expect(hunks[2]?.body.split('\n')[0]).toBe('@@ -30,3 +30,4 @@');
+  });
+
+  it('keeps new, deleted, and untracked files as whole-file hunks', () => {
+    const hunks = parseDiffHunks(`${CREATED}\n${UNTRACKED}`);
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks.every((hunk) => hunk.wholeFile)).toBe(true);
+    expect(hunks[0]?.added).toBe(2);
+    expect(hunks[1]?.body).toBe('+hello');
+  });
+
+  it('adds files without a diff section as empty whole-file hunks', () => {
+    const hunks = parseDiffHunks(MODIFIED, ['image.png']);
+
+    expect(hunks.at(-1)).toMatchObject({ id: 'h4', file: 'image.png', wholeFile: true, body: '' });
+  });
+});
+
+describe('formatHunkLabel', () => {
+  it('shows the range and line counts of a partial hunk', () => {
+    const [hunk] = parseDiffHunks(MODIFIED);
+    expect(formatHunkLabel(hunk)).toBe('src/app.ts @@ -1,4 +1,5 @@ (+1/-0)');
+  });
+
+  it('marks whole-file hunks', () => {
+    const [hunk] = parseDiffHunks(CREATED);
+    expect(formatHunkLabel(hunk)).toBe('src/new.ts (whole file)');
+  });
+});
+
+describe('formatHunksForAI', () => {
+  it('lists hunks with their ids and truncates long bodies', () => {
+    const text = formatHunksForAI(parseDiffHunks(MODIFIED), 20);
+
+    expect(text).toContain('[h1] src/app.ts @@ -1,4 +1,5 @@');
+    expect(text).toContain('[h3] src/app.ts @@ -30,3 +30,4 @@');
+    expect(text).toContain('...(truncated)');
+  });
+});
+
+describe('formatHunksAsDiff', () => {
+  it('rebuilds one diff section per file from a subset of hunks', () => {
+    const hunks = parseDiffHunks(`${MODIFIED}\n${CREATED}`);
+    const diff = formatHunksAsDiff([hunks[0], hunks[2], hunks[3]]);
+
+    expect(diff.match(/^diff --git/gm)).toHaveLength(2);
+    expect(diff).toContain('@@ -1,4 +1,5 @@');
+    expect(diff).not.toContain('-eleven');
+    expect(diff).toContain('+second');
+  });
+});
+
+describe('buildHunkPatch', () => {
+  it('shifts the new-side start for hunks left out of the patch', () => {
+    const hunks = parseDiffHunks(MODIFIED);
+    const patch = buildHunkPatch([hunks[1], hunks[2]]);
+
+    expect(patch).toContain('@@ -10,4 +10,3 @@');
+    expect(patch).toContain('@@ -30,3 +29,4 @@');
+    expect(patch.startsWith('diff --git a/src/app.ts b/src/app.ts\n')).toBe(true);
+    expect(patch.endsWith('\n')).toBe(true);
+  });
+
+  it('shifts the old-side start for hunks already applied to the index', () => {
+    const hunks = parseDiffHunks(MODIFIED);
+    const patch = buildHunkPatch([hunks[2]], [hunks[0], hunks[1]]);
+
+    expect(patch).toContain('@@ -30,3 +30,4 @@');
+  });
+
+  it('keeps the text after the @@ range', () => {
+    const [hunk] = parseDiffHunks(MODIFIED);
+    expect(buildHunkPatch([hunk])).toContain('@@ -1,4 +1,5 @@ export function main() {');
+  });
+
+  it('joins split hunks that share context into one patch hunk', () => {
+    const parts = splitHunk(parseDiffHunks(SPLITTABLE)[0]);
+    const patch = buildHunkPatch(parts);
+
+    expect(patch.match(/^@@/gm)).toHaveLength(1);
+    expect(patch).toContain('@@ -2,9 +2,9 @@');
+    expect(patch.split('\n').filter((line) => line === ' 6')).toHaveLength(1);
+  });
+
+  it('rejects whole-file hunks and hunks from several files', () => {
+    const hunks = parseDiffHunks(`${MODIFIED}\n${CREATED}`);
+
+    expect(() => buildHunkPatch([hunks[3]])).toThrow();
+    expect(() => buildHunkPatch([])).toThrow();
+  });
+});
+
+describe('splitHunk', () => {
+  it('splits at the unchanged lines between changes, sharing that context', () => {
+    const parts = splitHunk(parseDiffHunks(SPLITTABLE)[0]);
+
+    expect(parts.map((part) => part.id)).toEqual(['h1.1', 'h1.2']);
+    expect(parts[0]?.body.split('\n')).toEqual([
+      '@@ -2,6 +2,6 @@',
+      ' 2',
+      ' 3',
+      ' 4',
+      '-5',
+      '+five',
+      ' 6',
+      ' 7',
+    ]);
+    expect(parts[1]?.body.split('\n')).toEqual([
+      '@@ -6,5 +6,5 @@',
+      ' 6',
+      ' 7',
+      '-8',
+      '+eight',
+      ' 9',
+      ' 10',
+    ]);
+    expect(parts[1]).toMatchObject({ oldStart: 6, oldLines: 5, added: 1, removed: 1 });
+  });
+
+  it('returns the hunk itself when it has a single change', () => {
+    const [hunk] = parseDiffHunks(CREATED);
+    expect(splitHunk(hunk)).toEqual([hunk]);
+
+    const [single] = splitHunk(parseDiffHunks(MODIFIED)[0]);
+    expect(single?.id).toBe('h1');
+  });
+});
+
+describe('parseEditedHunk', () => {
+  it('recounts the ranges of an edited hunk and drops comment lines', () => {
+    const [hunk] = parseDiffHunks(SPLITTABLE);
+    const edited = parseEditedHunk(
+      hunk,
+      '# comment\n 2\n 3\n 4\n 5\n 6\n 7\n-8\n+eight\n+extra\n 9\n 10\n',
+    );
+
+    expect(edited?.body.split('\n')[0]).toBe('@@ -2,9 +2,10 @@');
+    expect(edited).toMatchObject({ oldLines: 9, newLines: 10, added: 2, removed: 1 });
+  });
+
+  it('treats empty lines as blank context', () => {
+    const [hunk] = parseDiffHunks(SPLITTABLE);
+    expect(parseEditedHunk(hunk, ' 4\n\n-5\n+five\n')?.oldLines).toBe(3);
+  });
+
+  it('rejects malformed lines and hunks without changes', () => {
+    const [hunk] = parseDiffHunks(SPLITTABLE);
+
+    expect(parseEditedHunk(hunk, ' 4\nstray\n-5\n')).toBeNull();
+    expect(parseEditedHunk(hunk, ' 4\n 5\n')).toBeNull();
+  });
+});
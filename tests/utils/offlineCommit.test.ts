@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'bun:test';
+import type { CustomCommitConvention } from '../../src/types.js';
+import { type ConventionRules, validateCommitMessage } from '../../src/utils/convention.js';
+import {
+  categorizeFile,
+  generateOfflineCommitMessage,
+  getFileChanges,
+  inferScope,
+} from '../../src/utils/offlineCommit.js';
+
+function modified(file: string, added = 1, removed = 1): string {
+  return [
+    `diff --git a/${file} b/${file}`,
+    'index 1111111..2222222 100644',
+    `--- a/${file}`,
+    `+++ b/${file}`,
+    '@@ -1,1 +1,1 @@',
+    ...Array.from({ length: removed }, (_, index) => `-old ${index}`),
+    ...Array.from({ length: added }, (_, index) => `+new ${index}`),
+  ].join('\n');
+}
+
+function created(file: string, lines = 3): string {
+  return [
+    `diff --git a/${file} b/${file}`,
+    'new file mode 100644',
+    'index 0000000..2222222',
+    '--- /dev/null',
+    `+++ b/${file}`,
+    `@@ -0,0 +1,${lines} @@`,
+    ...Array.from({ length: lines }, (_, index) => `+line ${index}`),
+  ].join('\n');
+}
+
+function deleted(file: string): string {
+  return [
+    `diff --git a/${file} b/${file}`,
+    'deleted file mode 100644',
+    'index 2222222..0000000',
+    `--- a/${file}`,
+    '+++ /dev/null',
+    '@@ -1,1 +0,0 @@',
+    '-gone',
+  ].join('\n');
+}
+
+function renamed(from: string, to: string): string {
+  return [
+    `diff --git a/${from} b/${to}`,
+    'similarity index 100%',
+    `rename from ${from}`,
+    `rename to ${to}`,
+  ].join('\n');
+}
+
+const customConvention: CustomCommitConvention = {
+  types: ['feat', 'fix', 'chore', 'docs'],
+  scopes: ['api', 'cli'],
+};
+
+describe('offline commit heuristics', () => {
+  it('categorizes files by path', () => {
+    expect(categorizeFile('.github/workflows/ci.yml')).toBe('ci');
+    expect(categorizeFile('tests/utils/git.test.ts')).toBe('test');
+    expect(categorizeFile('src/utils/git.spec.ts')).toBe('test');
+    expect(categorizeFile('README.md')).toBe('docs');
+    expect(categorizeFile('docs/guide/setup.html')).toBe('docs');
+    expect(categorizeFile('package.json')).toBe('build');
+    expect(categorizeFile('biome.json')).toBe('config');
+    expect(categorizeFile('.gitignore')).toBe('config');
+    expect(categorizeFile('vite.config.ts')).toBe('config');
+    expect(categorizeFile('src/utils/git.ts')).toBe('source');
+  });
+
+  it('reads file status from the diff', () => {
+    const diff = [
+      created('src/a.ts'),
+      deleted('src/b.ts'),
+      renamed('src/c.ts', 'src/d.ts'),
+      modified('src/e.ts', 2, 1),
+    ].join('\n');
+    expect(getFileChanges(diff, ['src/a.ts', 'src/b.ts', 'src/d.ts', 'src/e.ts'])).toEqual([
+      { file: 'src/a.ts', status: 'added', added: 3, removed: 0 },
+      { file: 'src/b.ts', status: 'deleted', added: 0, removed: 1 },
+      { file: 'src/d.ts', status: 'renamed', oldFile: 'src/c.ts', added: 0, removed: 0 },
+      { file: 'src/e.ts', status: 'modified', added: 2, removed: 1 },
+    ]);
+  });
+
+  it('infers the scope from the shared directory', () => {
+    expect(inferScope(['src/utils/git.ts', 'tests/utils/git.test.ts'])).toBe('utils');
+    expect(inferScope(['packages/web-ui/src/app.tsx'])).toBe('web-ui');
+    expect(inferScope(['src/utils/git.ts', 'src/commands/commit.ts'])).toBeUndefined();
+    expect(inferScope(['README.md'])).toBeUndefined();
+  });
+});
+
+describe('generateOfflineCommitMessage', () => {
+  it('uses the file status as the verb', () => {
+    expect(
+      generateOfflineCommitMessage(
+        created('src/utils/cache.ts'),
+        ['src/utils/cache.ts'],
+        'conventional',
+      ),
+    ).toBe('feat(utils): add cache.ts');
+    expect(
+      generateOfflineCommitMessage(
+        deleted('src/utils/cache.ts'),
+        ['src/utils/cache.ts'],
+        'clean-commit',
+      ),
+    ).toBe('🗑️ remove (utils): remove cache.ts');
+    expect(
+      generateOfflineCommitMessage(
+        renamed('src/utils/old.ts', 'src/utils/new.ts'),
+        ['src/utils/new.ts'],
+        'conventional',
+      ),
+    ).toBe('refactor(utils): rename old.ts to new.ts');
+  });
+
+  it('infers the type from paths and line ratios', () => {
+    expect(generateOfflineCommitMessage(modified('README.md'), ['README.md'], 'conventional')).toBe(
+      'docs: update README.md',
+    );
+    expect(
+      generateOfflineCommitMessage(
+        modified('.github/workflows/ci.yml'),
+        ['.github/workflows/ci.yml'],
+        'clean-commit',
+      ),
+    ).toBe('⚙️ setup (workflows): update ci.yml');
+    expect(
+      generateOfflineCommitMessage(
+        modified('src/api/client.ts', 40, 2),
+        ['src/api/client.ts'],
+        'conventional',
+      ),
+    ).toBe('feat(api): update client.ts');
+    expect(
+      generateOfflineCommitMessage(
+        modified('src/api/client.ts', 1, 30),
+        ['src/api/client.ts'],
+        'conventional',
+      ),
+    ).toBe('refactor(api): update client.ts');
+    expect(
+      generateOfflineCommitMessage(
+        modified('src/api/client.ts', 3, 3),
+        ['src/api/client.ts'],
+        'conventional',
+      ),
+    ).toBe('chore(api): update client.ts');
+  });
+
+  it('lets tests ride along with source changes', () => {
+    const files = ['src/utils/git.ts', 'tests/utils/git.test.ts', 'src/utils/log.ts'];
+    expect(
+      generateOfflineCommitMessage(
+        files.map((file) => modified(file)).join('\n'),
+        files,
+        'clean-commit',
+      ),
+    ).toBe('🔧 update (utils): update 3 source files');
+  });
+
+  it('always passes validation for the active convention', () => {
+    const files = [
+      'src/some/really-long-directory-name/with-a-long-file-name-for-testing.ts',
+      'src/some/really-long-directory-name/and-another-long-file-name-for-testing.ts',
+    ];
+    const diff = files.map((file) => modified(file)).join('\n');
+    const conventions: ConventionRules[] = [
+      'clean-commit',
+      'conventional',
+      'none',
+      customConvention,
+    ];
+    for (const convention of conventions) {
+      const message = generateOfflineCommitMessage(diff, files, convention);
+      expect(validateCommitMessage(message, convention)).toBe(true);
+    }
+    expect(generateOfflineCommitMessage(diff, files, 'conventional')).toBe(
+      'chore(some): update 2 source files',
+    );
+  });
+
+  it('never guesses a feature or fix type for other changes', () => {
+    const featAndFix: CustomCommitConvention = { types: ['feat', 'fix'] };
+    expect(generateOfflineCommitMessage(modified('src/foo.ts'), ['src/foo.ts'], featAndFix)).toBe(
+      '<type>: update foo.ts',
+    );
+    expect(
+      generateOfflineCommitMessage(modified('src/foo.ts'), ['src/foo.ts'], {
+        types: ['feat', 'fix', 'misc'],
+      }),
+    ).toBe('misc: update foo.ts');
+    expect(
+      generateOfflineCommitMessage(created('src/cache.ts'), ['src/cache.ts'], featAndFix),
+    ).toBe('feat: add cache.ts');
+  });
+
+  it('drops scopes a custom convention does not allow', () => {
+    expect(
+      generateOfflineCommitMessage(
+        created('src/utils/cache.ts'),
+        ['src/utils/cache.ts'],
+        customConvention,
+      ),
+    ).toBe('feat: add cache.ts');
+    expect(
+      generateOfflineCommitMessage(
+        created('src/api/cache.ts'),
+        ['src/api/cache.ts'],
+        customConvention,
+      ),
+    ).toBe('feat(api): add cache.ts');
+  });
+});
@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import type { ResolvedAIConfig } from '../../src/utils/aiProviders.js';
+import {
+  DEFAULT_OLLAMA_HOST,
+  fetchOllamaModels,
+  getOllamaHost,
+  isOllamaModelInstalled,
+  ollamaProvider,
+  parseOllamaChatChunk,
+} from '../../src/utils/ollama.js';
+
+// Stand-in for the local Ollama daemon's native API
+let server: ReturnType<typeof Bun.serve>;
+let host = '';
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const url = new URL(request.url);
+      if (url.pathname === '/api/tags') {
+        return Response.json({
+          models: [{ name: 'llama3.1:latest' }, { name: 'qwen2.5-coder:7b' }],
+        });
+      }
+      if (url.pathname === '/api/chat' && request.method === 'POST') {
+        const body = (await request.json()) as {
+          model: string;
+          stream: boolean;
+          messages: Array<{ role: string; content: string }>;
+        };
+        if (!['llama3.1', 'llama3.1:latest', 'qwen2.5-coder:7b'].includes(body.model)) {
+          return Response.json({ error: `model "${body.model}" not found` }, { status: 404 });
+        }
+        const user = body.messages.find((message) => message.role === 'user')?.content;
+        if (!body.stream) {
+          return Response.json({
+            model: body.model,
+            message: { role: 'assistant', content: `${body.model}: ${user}\n` },
+            done: true,
+          });
+        }
+        // Newline-delimited JSON, one object per token, like the daemon streams
+        const lines = [`${body.model}:`, ` ${user}`, '\n'].map((content) =>
+          JSON.stringify({
+            model: body.model,
+            message: { role: 'assistant', content },
+            done: false,
+          }),
+        );
+        lines.push(JSON.stringify({ model: body.model, done: true }));
+        return new Response(`${lines.join('\n')}\n`, {
+          headers: { 'Content-Type': 'application/x-ndjson' },
+        });
+      }
+      return new Response('not found', { status: 404 });
+    },
+  });
+  host = `http://localhost:${server.port}`;
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+function ollamaConfig(overrides: Partial<ResolvedAIConfig> = {}): ResolvedAIConfig {
+  return {
+    provider: 'ollama',
+    providerLabel: 'Ollama (local)',
+    model: 'llama3.1',
+    host,
+    ...overrides,
+  };
+}
+
+describe('local Ollama', () => {
+  it('reads the daemon address from OLLAMA_HOST', () => {
+    expect(getOllamaHost({})).toBe(DEFAULT_OLLAMA_HOST);
+    expect(getOllamaHost({ OLLAMA_HOST: '0.0.0.0:11500' })).toBe('http://0.0.0.0:11500');
+    expect(getOllamaHost({ OLLAMA_HOST: 'https://gpu-box:11434/' })).toBe('https://gpu-box:11434');
+  });
+
+  it('treats untagged models as :latest', () => {
+    const installed = ['llama3.1:latest', 'qwen2.5-coder:7b'];
+    expect(isOllamaModelInstalled('llama3.1', installed)).toBe(true);
+    expect(isOllamaModelInstalled('qwen2.5-coder:7b', installed)).toBe(true);
+    expect(isOllamaModelInstalled('qwen2.5-coder', installed)).toBe(false);
+  });
+
+  it('discovers installed models from /api/tags', async () => {
+    expect(await fetchOllamaModels(host)).toEqual(['llama3.1:latest', 'qwen2.5-coder:7b']);
+  });
+
+  it('chats through /api/chat without an API key', async () => {
+    const partials: string[] = [];
+    const reply = await ollamaProvider.complete(
+      {
+        systemMessage: 'system',
+        userMessage: 'hello',
+        timeoutMs: 5_000,
+        onStream: (text) => partials.push(text),
+      },
+      ollamaConfig(),
+    );
+    expect(reply).toBe('llama3.1: hello');
+    expect(partials).toEqual(['llama3.1:', 'llama3.1: hello', 'llama3.1: hello\n']);
+  });
+
+  it('reads streamed chunks and surfaces streamed errors', () => {
+    expect(parseOllamaChatChunk('{"message":{"content":"hi"},"done":false}')).toBe('hi');
+    expect(parseOllamaChatChunk('{"done":true}')).toBeNull();
+    expect(parseOllamaChatChunk('')).toBeNull();
+    expect(() => parseOllamaChatChunk('{"error":"model crashed"}')).toThrow('model crashed');
+  });
+
+  it('explains how to pull a missing model', async () => {
+    expect(await ollamaProvider.checkHealth(ollamaConfig())).toBeNull();
+    expect(await ollamaProvider.checkHealth(ollamaConfig({ model: 'mistral' }))).toContain(
+      'ollama pull mistral',
+    );
+    await expect(
+      ollamaProvider.complete(
+        { systemMessage: 'system', userMessage: 'hi', model: 'mistral', timeoutMs: 5_000 },
+        ollamaConfig(),
+      ),
+    ).rejects.toThrow('ollama pull mistral');
+  });
+
+  it('reports a daemon that is not running', async () => {
+    expect(
+      await ollamaProvider.checkHealth(ollamaConfig({ host: 'http://127.0.0.1:9' })),
+    ).toContain('ollama serve');
+  });
+});
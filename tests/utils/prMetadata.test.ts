@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  appendClosingReferences,
+  findIssueReferences,
+  formatPRMetadata,
+  getPullRequestConfigError,
+  getTypeLabels,
+  parseListFlag,
+  resolvePRMetadata,
+} from '../../src/utils/prMetadata.js';
+
+describe('getPullRequestConfigError', () => {
+  it('accepts the documented shape', () => {
+    expect(
+      getPullRequestConfigError({
+        reviewers: ['alice', 'org/core'],
+        labels: ['triage'],
+        assignees: ['@me'],
+        milestone: 'v2.0',
+        project: 'Roadmap',
+        typeLabels: { perf: 'performance' },
+        linkIssues: false,
+      }),
+    ).toBeNull();
+    expect(getPullRequestConfigError({ typeLabels: false })).toBeNull();
+  });
+
+  it('rejects malformed values', () => {
+    expect(getPullRequestConfigError([])).toBe('pullRequest must be an object.');
+    expect(getPullRequestConfigError({ reviewers: 'alice' })).toBe(
+      'pullRequest.reviewers must be an array of names.',
+    );
+    expect(getPullRequestConfigError({ milestone: ' ' })).toBe(
+      'pullRequest.milestone must be a non-empty string when set.',
+    );
+    expect(getPullRequestConfigError({ typeLabels: { feat: 1 } })).toBe(
+      'pullRequest.typeLabels must map commit types to labels, or be false.',
+    );
+    expect(getPullRequestConfigError({ linkIssues: 'yes' })).toBe(
+      'pullRequest.linkIssues must be true or false.',
+    );
+  });
+});
+
+describe('getTypeLabels', () => {
+  it('maps conventional commit types to labels once each', () => {
+    expect(
+      getTypeLabels(
+        ['feat(api): add x', 'fix: crash', 'feat: add y', 'chore: bump'],
+        'conventional',
+      ),
+    ).toEqual(['enhancement', 'bug']);
+  });
+
+  it('reads clean-commit headers with their emoji', () => {
+    expect(getTypeLabels(['📦 new: add x', '📖 docs: explain x'], 'clean-commit')).toEqual([
+      'enhancement',
+      'documentation',
+    ]);
+  });
+
+  it('applies the config mapping on top of the defaults, or turns labels off', () => {
+    const messages = ['perf: faster x', 'fix: crash'];
+    expect(getTypeLabels(messages, 'conventional', { perf: 'performance', fix: '' })).toEqual([
+      'performance',
+    ]);
+    expect(getTypeLabels(messages, 'conventional', false)).toEqual([]);
+  });
+});
+
+describe('resolvePRMetadata', () => {
+  it('combines flag lists with the config and lets flags win for single values', () => {
+    expect(
+      resolvePRMetadata(
+        { reviewers: 'bob, org/core', labels: 'triage', milestone: 'v3' },
+        { reviewers: ['alice', 'bob'], assignees: ['@me'], milestone: 'v2', project: 'Roadmap' },
+        ['enhancement', 'triage'],
+      ),
+    ).toEqual({
+      reviewers: ['alice', 'bob', 'org/core'],
+      labels: ['triage', 'enhancement'],
+      assignees: ['@me'],
+      milestone: 'v3',
+      project: 'Roadmap',
+    });
+  });
+
+  it('splits comma-separated flags', () => {
+    expect(parseListFlag(' a,b ,, c ')).toEqual(['a', 'b', 'c']);
+    expect(parseListFlag(undefined)).toEqual([]);
+  });
+});
+
+describe('findIssueReferences', () => {
+  it('reads issue numbers from the branch name', () => {
+    expect(findIssueReferences('fix/123-crash', [])).toEqual([123]);
+    expect(findIssueReferences('feature/42', [])).toEqual([42]);
+    expect(findIssueReferences('feature/login-issue-7', [])).toEqual([7]);
+    expect(findIssueReferences('feature/gh-8', [])).toEqual([8]);
+  });
+
+  it('ignores numbers that are part of a word or version', () => {
+    expect(findIssueReferences('feature/oauth2-login', [])).toEqual([]);
+    expect(findIssueReferences('release/1.2.0', [])).toEqual([]);
+    expect(findIssueReferences('feature/2fa', [])).toEqual([]);
+  });
+
+  it('only reads leading numbers after feature/fix-style prefixes', () => {
+    expect(findIssueReferences('release/2026-10-01', [])).toEqual([]);
+    expect(findIssueReferences('hotfix/2-login-crash', [])).toEqual([]);
+    expect(findIssueReferences('42-typo', [])).toEqual([]);
+    expect(findIssueReferences('hotfix/issue-9', [])).toEqual([9]);
+  });
+
+  it('adds the issues the commits close', () => {
+    expect(
+      findIssueReferences('fix/12-crash', [
+        'fix: crash\n\nFixes #12, see #15',
+        'feat: x\n\nresolves: #20',
+      ]),
+    ).toEqual([12, 20]);
+    expect(findIssueReferences('feature/x', ['docs: use C# examples'])).toEqual([]);
+  });
+
+  it('does not close issues commits only mention', () => {
+    expect(
+      findIssueReferences('feature/x', ['feat: x (#20)', 'fix: y\n\nFollow-up to #12']),
+    ).toEqual([]);
+  });
+});
+
+describe('appendClosingReferences', () => {
+  it('adds a line for each issue the body does not close yet', () => {
+    expect(appendClosingReferences('Adds x.\n\nFixes #12', [12, 15])).toBe(
+      'Adds x.\n\nFixes #12\n\nCloses #15',
+    );
+    expect(appendClosingReferences('', [3])).toBe('Closes #3');
+    expect(appendClosingReferences('Body', [])).toBe('Body');
+  });
+
+  it('does not treat a bare mention as closing', () => {
+    expect(appendClosingReferences('Related to #4', [4])).toBe('Related to #4\n\nCloses #4');
+  });
+});
+
+describe('formatPRMetadata', () => {
+  it('lists what is added', () => {
+    expect(
+      formatPRMetadata(
+        { reviewers: ['alice'], labels: ['bug'], assignees: [], milestone: 'v2' },
+        [12],
+      ),
+    ).toBe('Reviewers: alice · Labels: bug · Milestone: v2 · Closes #12');
+    expect(formatPRMetadata({ reviewers: [], labels: [], assignees: [] })).toBe('');
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { findPRTemplates, prefillPRTemplate } from '../../src/utils/prTemplate.js';
+
+let testDir = '';
+
+beforeEach(() => {
+  testDir = join(
+    tmpdir(),
+    `contribute-now-pr-template-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+  );
+  mkdirSync(join(testDir, '.git'), { recursive: true });
+});
+
+afterEach(() => {
+  if (existsSync(testDir)) rmSync(testDir, { recursive: true, force: true });
+});
+
+function write(path: string, content: string): void {
+  mkdirSync(join(testDir, path, '..'), { recursive: true });
+  writeFileSync(join(testDir, path), content);
+}
+
+describe('findPRTemplates', () => {
+  it('returns nothing when the repo has no template', () => {
+    expect(findPRTemplates(testDir)).toEqual([]);
+  });
+
+  it('finds the single-file template from a subdirectory, whatever its case', () => {
+    write('.github/PULL_REQUEST_TEMPLATE.md', '## Summary\n');
+    mkdirSync(join(testDir, 'src'));
+
+    expect(findPRTemplates(join(testDir, 'src'))).toEqual([
+      {
+        name: 'PULL_REQUEST_TEMPLATE',
+        path: join('.github', 'PULL_REQUEST_TEMPLATE.md'),
+        content: '## Summary',
+      },
+    ]);
+  });
+
+  it('lists every template in a template directory after the single files', () => {
+    write('.github/PULL_REQUEST_TEMPLATE/feature.md', '## Feature');
+    write('.github/PULL_REQUEST_TEMPLATE/bug_fix.md', '## Bug');
+    write('.github/PULL_REQUEST_TEMPLATE/notes.txt', 'not a template');
+    write('docs/pull_request_template.md', '## Docs');
+    write('.gitlab/merge_request_templates/Default.md', '## MR');
+    write('pull_request_template.md', '   \n');
+
+    expect(findPRTemplates(testDir).map((template) => template.path)).toEqual([
+      join('docs', 'pull_request_template.md'),
+      join('.github', 'PULL_REQUEST_TEMPLATE', 'bug_fix.md'),
+      join('.github', 'PULL_REQUEST_TEMPLATE', 'feature.md'),
+      join('.gitlab', 'merge_request_templates', 'Default.md'),
+    ]);
+  });
+});
+
+describe('prefillPRTemplate', () => {
+  const template = [
+    '## Description',
+    '<!-- What does this PR change? -->',
+    '',
+    '## Checklist',
+    '- [ ] Tests pass',
+    '- [ ] Docs updated',
+  ].join('\n');
+
+  it('writes the summary under the description heading and leaves the checklist alone', () => {
+    expect(prefillPRTemplate(template, '- add login\n- fix crash')).toBe(
+      [
+        '## Description',
+        '<!-- What does this PR change? -->',
+        '- add login',
+        '- fix crash',
+        '',
+        '## Checklist',
+        '- [ ] Tests pass',
+        '- [ ] Docs updated',
+      ].join('\n'),
+    );
+  });
+
+  it('puts the summary on top when no heading fits', () => {
+    expect(prefillPRTemplate('- [ ] I signed the CLA', 'Adds login.')).toBe(
+      'Adds login.\n\n- [ ] I signed the CLA',
+    );
+    expect(prefillPRTemplate(template, '  ')).toBe(template);
+  });
+});
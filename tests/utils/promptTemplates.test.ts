@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { ContributeConfig } from '../../src/types.js';
+import {
+  getPromptTemplatePath,
+  loadPromptTemplate,
+  type PromptTemplateVariables,
+  renderPromptTemplate,
+} from '../../src/utils/promptTemplates.js';
+
+let testDir = '';
+
+beforeEach(() => {
+  testDir = join(
+    tmpdir(),
+    `contribute-now-prompts-test-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+  );
+  mkdirSync(join(testDir, '.git'), { recursive: true });
+  mkdirSync(join(testDir, '.github', 'cn-prompts'), { recursive: true });
+});
+
+afterEach(() => {
+  if (existsSync(testDir)) rmSync(testDir, { recursive: true, force: true });
+});
+
+const config: ContributeConfig = {
+  workflow: 'github-flow',
+  role: 'maintainer',
+  mainBranch: 'main',
+  upstream: 'upstream',
+  origin: 'origin',
+  branchPrefixes: ['feature'],
+  commitConvention: 'conventional',
+  promptsDir: '.github/cn-prompts',
+};
+
+const variables: PromptTemplateVariables = {
+  default: 'Built-in prompt.',
+  convention: 'Conventional Commits',
+  conventionHints: 'Types: feat, fix',
+  branch: 'feature/cache',
+  baseBranch: 'main',
+  files: 'src/a.ts\nsrc/b.ts',
+};
+
+describe('prompt templates', () => {
+  it('loads templates from the configured directory', () => {
+    writeFileSync(join(testDir, '.github', 'cn-prompts', 'pr.md'), '{{default}}\nBe brief.\n');
+
+    expect(getPromptTemplatePath('pr', config, join(testDir, '.github'))).toBe(
+      join(testDir, '.github', 'cn-prompts', 'pr.md'),
+    );
+    expect(loadPromptTemplate('pr', config, testDir)).toEqual({
+      path: join('.github', 'cn-prompts', 'pr.md'),
+      content: '{{default}}\nBe brief.',
+    });
+    expect(loadPromptTemplate('commit', config, testDir)).toBeNull();
+    expect(loadPromptTemplate('pr', { ...config, promptsDir: undefined }, testDir)).toBeNull();
+  });
+
+  it('ignores empty template files', () => {
+    writeFileSync(join(testDir, '.github', 'cn-prompts', 'commit.md'), '\n  \n');
+    expect(loadPromptTemplate('commit', config, testDir)).toBeNull();
+  });
+
+  it('renders variables and keeps unknown ones visible', () => {
+    const rendered = renderPromptTemplate(
+      '{{default}}\nUse {{ convention }} ({{conventionHints}}).\n{{branch}} -> {{baseBranch}}\n{{files}}\n{{tone}}',
+      variables,
+    );
+    expect(rendered.prompt).toBe(
+      'Built-in prompt.\nUse Conventional Commits (Types: feat, fix).\nfeature/cache -> main\nsrc/a.ts\nsrc/b.ts\n{{tone}}',
+    );
+    expect(rendered.unknownVariables).toEqual(['tone']);
+  });
+});
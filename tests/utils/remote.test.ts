@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'bun:test';
-import { parseRepoFromUrl } from '../../src/utils/remote.js';
+import { parseRemoteUrl, parseRepoFromUrl } from '../../src/utils/remote.js';
 
 describe('parseRepoFromUrl', () => {
   it('parses HTTPS URL', () => {
@@ -38,3 +38,40 @@ describe('parseRepoFromUrl', () => {
     expect(parseRepoFromUrl('not-a-url')).toBeNull();
   });
 });
+
+describe('parseRemoteUrl', () => {
+  it('parses HTTPS and scp-style URLs on any host', () => {
+    expect(parseRemoteUrl('https://gitlab.com/owner/repo.git')).toEqual({
+      host: 'gitlab.com',
+      owner: 'owner',
+      repo: 'repo',
+    });
+    expect(parseRemoteUrl('git@git.example.com:team/repo')).toEqual({
+      host: 'git.example.com',
+      owner: 'team',
+      repo: 'repo',
+    });
+  });
+
+  it('keeps GitLab subgroups in the owner', () => {
+    expect(parseRemoteUrl('git@gitlab.example.com:group/sub/my.repo.git')).toEqual({
+      host: 'gitlab.example.com',
+      owner: 'group/sub',
+      repo: 'my.repo',
+    });
+  });
+
+  it('parses ssh:// URLs with a user and port', () => {
+    expect(parseRemoteUrl('ssh://git@gitlab.example.com:2222/group/repo.git')).toEqual({
+      host: 'gitlab.example.com',
+      owner: 'group',
+      repo: 'repo',
+    });
+  });
+
+  it('returns null without an owner and a repo', () => {
+    expect(parseRemoteUrl('https://gitlab.com/repo')).toBeNull();
+    expect(parseRemoteUrl('/srv/git/repo.git')).toBeNull();
+    expect(parseRemoteUrl('not-a-url')).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  formatReviewLineRange,
+  getAIReviewError,
+  groupReviewFindings,
+  hasHighSeverityFindings,
+  normalizeReviewFindings,
+  type ReviewFinding,
+  summarizeReviewFindings,
+} from '../../src/utils/review.js';
+
+const files = ['src/b.ts', 'src/a.ts'];
+
+function finding(overrides: Partial<ReviewFinding> = {}): ReviewFinding {
+  return {
+    file: 'src/a.ts',
+    startLine: 10,
+    endLine: 12,
+    severity: 'medium',
+    message: 'Possible null dereference.',
+    ...overrides,
+  };
+}
+
+describe('normalizeReviewFindings', () => {
+  it('keeps well-formed findings and normalizes their fields', () => {
+    expect(
+      normalizeReviewFindings(
+        [
+          {
+            file: 'src/a.ts',
+            startLine: '4',
+            endLine: 2,
+            severity: 'HIGH',
+            message: 'Token is\n logged.',
+          },
+          { file: 'src/b.ts', severity: 'critical', message: 'Missing await.' },
+        ],
+        files,
+      ),
+    ).toEqual([
+      { file: 'src/a.ts', startLine: 4, endLine: 4, severity: 'high', message: 'Token is logged.' },
+      {
+        file: 'src/b.ts',
+        startLine: null,
+        endLine: null,
+        severity: 'medium',
+        message: 'Missing await.',
+      },
+    ]);
+  });
+
+  it('drops findings for unknown files or without a message', () => {
+    expect(
+      normalizeReviewFindings(
+        [
+          { file: 'src/other.ts', startLine: 1, severity: 'low', message: 'Not in the diff.' },
+          { file: 'src/a.ts', startLine: 1, severity: 'low', message: '  ' },
+          'not an object',
+        ],
+        files,
+      ),
+    ).toEqual([]);
+  });
+
+  it('accepts findings wrapped in an object', () => {
+    expect(
+      normalizeReviewFindings({ findings: [{ file: 'src/a.ts', message: 'Check this.' }] }, files),
+    ).toHaveLength(1);
+    expect(normalizeReviewFindings({ summary: 'Looks good' }, files)).toEqual([]);
+  });
+});
+
+describe('review findings', () => {
+  it('groups by file in diff order, most severe first', () => {
+    const groups = groupReviewFindings(
+      [
+        finding({ severity: 'low', startLine: 1 }),
+        finding({ file: 'src/b.ts' }),
+        finding({ severity: 'high', startLine: 30 }),
+      ],
+      files,
+    );
+    expect([...groups.keys()]).toEqual(['src/b.ts', 'src/a.ts']);
+    expect(groups.get('src/a.ts')?.map((item) => item.severity)).toEqual(['high', 'low']);
+  });
+
+  it('formats line ranges', () => {
+    expect(formatReviewLineRange(finding())).toBe('L10-12');
+    expect(formatReviewLineRange(finding({ endLine: 10 }))).toBe('L10');
+    expect(formatReviewLineRange(finding({ startLine: null, endLine: null }))).toBe('file');
+  });
+
+  it('summarizes by severity', () => {
+    const findings = [finding({ severity: 'high' }), finding(), finding()];
+    expect(summarizeReviewFindings(findings)).toBe('3 findings (1 high, 2 medium)');
+    expect(summarizeReviewFindings([finding({ severity: 'low' })])).toBe('1 finding (1 low)');
+    expect(hasHighSeverityFindings(findings)).toBe(true);
+    expect(hasHighSeverityFindings([finding()])).toBe(false);
+  });
+});
+
+describe('getAIReviewError', () => {
+  it('validates the aiReview config', () => {
+    expect(getAIReviewError({ onSubmit: true, blockOnHigh: false })).toBeNull();
+    expect(getAIReviewError({})).toBeNull();
+    expect(getAIReviewError([])).toContain('must be an object');
+    expect(getAIReviewError({ onSubmit: 'yes' })).toContain('aiReview.onSubmit');
+    expect(getAIReviewError({ blockOnHigh: 1 })).toContain('aiReview.blockOnHigh');
+  });
+});
@@ -5,10 +5,13 @@ import { join } from 'node:path';
 import {
   closeSecretsStore,
   deleteOllamaCloudApiKey,
+  getGiteaToken,
+  getGiteaTokenHosts,
   getOllamaCloudApiKey,
   getSecretsStorePath,
   hasOllamaCloudApiKey,
   hasSecretsStore,
+  setGiteaToken,
   setOllamaCloudApiKey,
 } from '../../src/utils/secrets.js';
 
@@ -51,4 +54,18 @@ describe('secrets utilities', () => {
     expect(await hasOllamaCloudApiKey(testDir)).toBe(false);
     expect(await getOllamaCloudApiKey(testDir)).toBeNull();
   });
+
+  it('keeps one Gitea token per host next to the Ollama Cloud API key', async () => {
+    await setOllamaCloudApiKey('ollama-test-key', testDir);
+    await setGiteaToken('Codeberg.org', 'codeberg-token', testDir);
+    await setGiteaToken('git.example.com', 'example-token', testDir);
+
+    expect(await getGiteaToken('codeberg.org', testDir)).toBe('codeberg-token');
+    expect(await getGiteaToken('git.example.com', testDir)).toBe('example-token');
+    expect(await getGiteaToken('gitea.other.org', testDir)).toBeNull();
+    expect((await getGiteaTokenHosts(testDir)).sort()).toEqual(['codeberg.org', 'git.example.com']);
+
+    expect(await deleteOllamaCloudApiKey(testDir)).toBe(true);
+    expect(await getGiteaToken('codeberg.org', testDir)).toBe('codeberg-token');
+  });
 });
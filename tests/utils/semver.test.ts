@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test';
+import type { ChangelogEntry } from '../../src/utils/changelog';
+import {
+  compareSemver,
+  formatSemver,
+  getLatestSemverTag,
+  getNextVersion,
+  getVersionBump,
+  parseSemver,
+  setPackageVersion,
+} from '../../src/utils/semver';
+
+function entry(type: string | null, breaking = false): ChangelogEntry {
+  return { hash: 'a', type, scope: null, subject: 's', breaking, breakingNote: null, pr: null };
+}
+
+function next(options: {
+  stable?: string;
+  latest?: string;
+  bump: 'major' | 'minor' | 'patch';
+  preid?: string;
+}) {
+  return formatSemver(
+    getNextVersion({
+      stable: options.stable ? parseSemver(options.stable) : null,
+      latest: options.latest ? parseSemver(options.latest) : null,
+      bump: options.bump,
+      preid: options.preid,
+    }),
+  );
+}
+
+describe('semver', () => {
+  test('parses tags with or without a v prefix', () => {
+    expect(parseSemver('v1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [] });
+    expect(parseSemver('1.2.3-beta.4+build.5')?.prerelease).toEqual(['beta', 4]);
+    expect(parseSemver('release-1')).toBeNull();
+    expect(parseSemver('1.02.3')).toBeNull();
+  });
+
+  test('orders prereleases before their release', () => {
+    const sorted = ['1.0.0', '1.0.0-beta.10', '1.0.0-alpha', '1.0.0-beta.2', '0.9.9']
+      .map((tag) => parseSemver(tag))
+      .filter((version) => version !== null)
+      .sort(compareSemver)
+      .map(formatSemver);
+    expect(sorted).toEqual(['0.9.9', '1.0.0-alpha', '1.0.0-beta.2', '1.0.0-beta.10', '1.0.0']);
+  });
+
+  test('picks the latest tag, optionally stable only', () => {
+    const tags = ['v1.0.0', 'v1.1.0-beta.0', 'nightly', 'v0.9.0'];
+    expect(getLatestSemverTag(tags)?.tag).toBe('v1.1.0-beta.0');
+    expect(getLatestSemverTag(tags, { stable: true })?.tag).toBe('v1.0.0');
+    expect(getLatestSemverTag(['nightly'])).toBeNull();
+  });
+
+  test('classifies commits into a bump', () => {
+    expect(getVersionBump([])).toBeNull();
+    expect(getVersionBump([entry('fix'), entry('docs')])).toBe('patch');
+    expect(getVersionBump([entry('fix'), entry('new')])).toBe('minor');
+    expect(getVersionBump([entry('feat'), entry('fix', true)])).toBe('major');
+  });
+
+  test('bumps from the latest stable release', () => {
+    expect(next({ stable: '1.2.3', bump: 'patch' })).toBe('1.2.4');
+    expect(next({ stable: '1.2.3', bump: 'minor' })).toBe('1.3.0');
+    expect(next({ stable: '1.2.3', bump: 'major' })).toBe('2.0.0');
+    expect(next({ bump: 'minor' })).toBe('0.1.0');
+  });
+
+  test('counts up prereleases on the same line', () => {
+    expect(next({ stable: '1.2.3', bump: 'minor', preid: 'beta' })).toBe('1.3.0-beta.0');
+    expect(next({ stable: '1.2.3', latest: '1.3.0-beta.0', bump: 'minor', preid: 'beta' })).toBe(
+      '1.3.0-beta.1',
+    );
+    expect(next({ stable: '1.2.3', latest: '1.3.0-beta.4', bump: 'patch', preid: 'rc' })).toBe(
+      '1.3.0-rc.0',
+    );
+    expect(next({ stable: '1.2.3', latest: '1.3.0-beta.4', bump: 'major', preid: 'beta' })).toBe(
+      '2.0.0-beta.0',
+    );
+  });
+
+  test('promotes a prerelease line to its release', () => {
+    expect(next({ stable: '1.2.3', latest: '1.3.0-beta.4', bump: 'patch' })).toBe('1.3.0');
+  });
+
+  test('updates the package.json version in place', () => {
+    const content = '{\n  "name": "x",\n  "version": "1.0.0",\n  "private": true\n}\n';
+    expect(setPackageVersion(content, '1.1.0')).toBe(
+      '{\n  "name": "x",\n  "version": "1.1.0",\n  "private": true\n}\n',
+    );
+    expect(setPackageVersion('{\n  "name": "x"\n}\n', '1.1.0')).toBeNull();
+  });
+});
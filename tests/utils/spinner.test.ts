@@ -3,6 +3,7 @@ import {
   DEFAULT_TIP_INTERVAL_MS,
   formatSpinnerLines,
   formatSpinnerTip,
+  formatStreamPreview,
 } from '../../src/utils/spinner.js';
 
 describe('spinner formatting', () => {
@@ -41,6 +42,15 @@ describe('spinner formatting', () => {
     expect(formatSpinnerTip('use cn log --remote')).toBe('💡 TIP: use cn log --remote');
   });
 
+  it('shows the end of a streaming reply on one line', () => {
+    expect(formatStreamPreview('feat: add\n\nthe body', 40)).toBe('feat: add the body');
+
+    const preview = formatStreamPreview(`{"groups": [${'x'.repeat(100)}], "done": true}`, 30);
+    expect(preview.startsWith('…')).toBe(true);
+    expect(preview.endsWith('"done": true}')).toBe(true);
+    expect(preview.length).toBe(30);
+  });
+
   it('uses a slower default tip interval for readability', () => {
     expect(DEFAULT_TIP_INTERVAL_MS).toBe(3960);
   });
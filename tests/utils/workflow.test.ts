@@ -1,12 +1,20 @@
 import { describe, expect, it } from 'bun:test';
 import type { ContributeConfig } from '../../src/types.js';
 import {
+  DEFAULT_TRUNK_POLICY,
   getBaseBranch,
+  getLocalMergeStrategy,
   getProtectedBranches,
   getProtectedPrefixes,
   getSyncSource,
+  getTargetBranch,
+  getTrunkPolicy,
+  getTrunkPolicyViolations,
+  getWorkflowBranches,
+  getWorkflowSpecError,
   hasDevBranch,
   isBranchProtected,
+  matchesBranchPattern,
 } from '../../src/utils/workflow.js';
 
 describe('hasDevBranch', () => {
@@ -21,6 +29,10 @@ describe('hasDevBranch', () => {
   it('returns false for github-flow', () => {
     expect(hasDevBranch('github-flow')).toBe(false);
   });
+
+  it('returns false for trunk', () => {
+    expect(hasDevBranch('trunk')).toBe(false);
+  });
 });
 
 describe('getBaseBranch', () => {
@@ -274,3 +286,141 @@ describe('isBranchProtected', () => {
     expect(isBranchProtected('release/1.0.0', config)).toBe(false);
   });
 });
+
+describe('trunk workflow', () => {
+  const trunkConfig: ContributeConfig = {
+    workflow: 'trunk',
+    role: 'maintainer',
+    mainBranch: 'main',
+    upstream: 'upstream',
+    origin: 'origin',
+    branchPrefixes: [],
+  };
+
+  it('uses main as the base branch and sync source', () => {
+    expect(getBaseBranch(trunkConfig)).toBe('main');
+    expect(getSyncSource(trunkConfig).ref).toBe('origin/main');
+    expect(getSyncSource({ ...trunkConfig, role: 'contributor' }).ref).toBe('upstream/main');
+  });
+
+  it('protects only main', () => {
+    expect(getProtectedBranches(trunkConfig)).toEqual(['main']);
+  });
+
+  it('merges locally with rebase + fast-forward instead of squash', () => {
+    expect(getLocalMergeStrategy(trunkConfig)).toBe('rebase');
+    expect(getLocalMergeStrategy({ ...trunkConfig, workflow: 'github-flow' })).toBe('squash');
+  });
+
+  it('falls back to the default policy and merges overrides', () => {
+    expect(getTrunkPolicy(trunkConfig)).toEqual(DEFAULT_TRUNK_POLICY);
+    expect(getTrunkPolicy({ ...trunkConfig, trunkPolicy: { maxBranchCommits: 3 } })).toEqual({
+      maxBranchAgeDays: DEFAULT_TRUNK_POLICY.maxBranchAgeDays,
+      maxBranchCommits: 3,
+    });
+  });
+
+  it('has no policy outside trunk', () => {
+    expect(getTrunkPolicy({ ...trunkConfig, workflow: 'clean-flow' })).toBeNull();
+  });
+
+  it('reports age and commit violations', () => {
+    const policy = { maxBranchAgeDays: 2, maxBranchCommits: 5 };
+    expect(getTrunkPolicyViolations({ ageDays: 1, commits: 5 }, policy)).toEqual([]);
+    expect(getTrunkPolicyViolations({ ageDays: null, commits: 0 }, policy)).toEqual([]);
+    expect(getTrunkPolicyViolations({ ageDays: 4, commits: 8 }, policy)).toEqual([
+      'open for 4 days (limit 2 days)',
+      '8 commits ahead (limit 5)',
+    ]);
+  });
+});
+
+describe('custom workflow spec', () => {
+  const customConfig: ContributeConfig = {
+    workflow: 'custom',
+    role: 'maintainer',
+    mainBranch: 'main',
+    upstream: 'upstream',
+    origin: 'origin',
+    branchPrefixes: [],
+    workflowSpec: {
+      branches: ['main', 'staging', 'integration'],
+      featureBase: 'integration',
+      featureTarget: 'staging',
+      sync: { contributor: 'staging' },
+      protected: ['release/*', 'team/**'],
+      mergeStrategy: { staging: 'merge', main: 'rebase' },
+    },
+  };
+
+  it('drives base and target branches from the spec', () => {
+    expect(getBaseBranch(customConfig)).toBe('integration');
+    expect(getTargetBranch(customConfig)).toBe('staging');
+    expect(getWorkflowBranches(customConfig)).toEqual(['main', 'staging', 'integration']);
+  });
+
+  it('defaults the target to the feature base', () => {
+    const config = {
+      ...customConfig,
+      workflowSpec: { branches: ['main', 'integration'], featureBase: 'integration' },
+    };
+    expect(getTargetBranch(config)).toBe('integration');
+  });
+
+  it('resolves the sync source per role', () => {
+    expect(getSyncSource(customConfig)).toEqual({
+      remote: 'origin',
+      ref: 'origin/integration',
+      strategy: 'pull',
+    });
+    expect(getSyncSource({ ...customConfig, role: 'contributor' }).ref).toBe('upstream/staging');
+  });
+
+  it('protects spec branches and globs', () => {
+    expect(getProtectedBranches(customConfig)).toEqual(['main', 'staging', 'integration']);
+    expect(isBranchProtected('staging', customConfig)).toBe(true);
+    expect(isBranchProtected('release/2.0', customConfig)).toBe(true);
+    expect(isBranchProtected('team/a/b', customConfig)).toBe(true);
+    expect(isBranchProtected('feature/login', customConfig)).toBe(false);
+  });
+
+  it('picks the merge strategy per target', () => {
+    expect(getLocalMergeStrategy(customConfig)).toBe('merge');
+    expect(getLocalMergeStrategy(customConfig, 'main')).toBe('rebase');
+    expect(getLocalMergeStrategy(customConfig, 'integration')).toBe('squash');
+  });
+});
+
+describe('matchesBranchPattern', () => {
+  it('keeps * within one segment and lets ** cross segments', () => {
+    expect(matchesBranchPattern('release/1.0', 'release/*')).toBe(true);
+    expect(matchesBranchPattern('release/1.0/rc', 'release/*')).toBe(false);
+    expect(matchesBranchPattern('release/1.0/rc', 'release/**')).toBe(true);
+    expect(matchesBranchPattern('env.prod', 'env.*')).toBe(true);
+    expect(matchesBranchPattern('envXprod', 'env.*')).toBe(false);
+  });
+});
+
+describe('getWorkflowSpecError', () => {
+  it('accepts a minimal spec', () => {
+    expect(getWorkflowSpecError({ branches: ['main'], featureBase: 'main' })).toBeNull();
+  });
+
+  it('rejects malformed specs', () => {
+    expect(getWorkflowSpecError(null)).not.toBeNull();
+    expect(getWorkflowSpecError({ branches: [], featureBase: 'main' })).not.toBeNull();
+    expect(
+      getWorkflowSpecError({ branches: ['main'], featureBase: 'main', featureTarget: 'dev' }),
+    ).not.toBeNull();
+    expect(
+      getWorkflowSpecError({ branches: ['main'], featureBase: 'main', sync: { admin: 'main' } }),
+    ).not.toBeNull();
+    expect(
+      getWorkflowSpecError({
+        branches: ['main'],
+        featureBase: 'main',
+        mergeStrategy: { main: 'octopus' },
+      }),
+    ).not.toBeNull();
+  });
+});